@@ -14,13 +14,32 @@
     You should have received a copy of the GNU Affero General Public License
     along with this program.  If not, see <http://www.gnu.org/licenses/>.
 */
+import * as path from 'path';
 import * as vscode from 'vscode';
 import { createProvider } from '../providers/factory';
-import { LLMMessage, ToolDefinition } from '../providers/llm';
+import { LLMMessage, ToolDefinition, ToolExecutor } from '../providers/llm';
 import { buildWaveformContext, getActiveDocumentUri, SignalTracker, WaveformContext } from '../vaporview/api';
 import { collectHdlContextSmart } from '../hdl/collector';
+import { extractRegisters, extractSignalDrivers, extractStateEncodings, RegisterMap, SignalDrivers, StateEncoding } from '../hdl/parser';
 import { WaveformIndex } from '../waveform/vcd';
+import { SignalTrace } from '../waveform/trace';
 import { parseWaveformFile } from '../waveform/fst';
+import { diffWaveforms, formatWaveformDiff } from '../waveform/diff';
+import { formatCycleSamples, sampleOnClock, summarizeOnClock } from '../waveform/cycles';
+import { formatEdges, nextCursor, PAGE_SIZE, pageNote, resumeQuery, summarizeEdges, summarizePattern, summarizeTransitions, takePage } from '../waveform/paging';
+import { formatScopes } from '../waveform/hierarchy';
+import { formatActivity, formatSignalStats } from '../waveform/stats';
+import { EventEdge, formatLatency, formatThroughput } from '../waveform/latency';
+import { formatClockReport } from '../waveform/clocks';
+import { analyzeCdc, formatCdcReport } from '../waveform/cdc';
+import { findGlitches, formatGlitchReport } from '../waveform/glitch';
+import { formatToggleSummary, formatToggleTable, toggleCoverage, toggleCoverageJson } from '../waveform/coverage';
+import { BUS_PROTOCOLS, BusProtocol, decodeBus, formatBusDecode } from '../waveform/bus';
+import { decodeSerial, formatSerialDecode, SERIAL_PROTOCOLS, SerialProtocol } from '../waveform/serial';
+import { extractFsms, formatFsm, fsmToSvg } from '../waveform/fsm';
+import { formatPropertyCheck } from '../waveform/sva';
+import { formatDerivedSignal } from '../waveform/derived';
+import { findUnknownOnsets, formatUnknownOnsets, formatUnknownTrace, traceUnknown } from '../waveform/unknown';
 import { decodeInstruction, initDecoder, IsaName } from '../isa/decoder';
 import hljs from 'highlight.js/lib/core';
 import verilog from 'highlight.js/lib/languages/verilog';
@@ -76,7 +95,7 @@ When answering:
 
 const TOOL_SYSTEM_PROMPT = `You are an expert hardware verification engineer analyzing waveform simulations alongside RTL source code.
 
-You have access to tools to query a waveform database. The list_signals result has already been provided — do NOT call list_signals again.
+You have access to tools to query a waveform database. A summary of the signals has already been provided. To find other signals, browse the hierarchy with list_scopes, search names with search_signals, or list one scope with list_signals(scope) — do NOT list every signal of a large design.
 
 QUESTION TYPE — choose your approach:
 - **Conceptual / explanatory questions** ("What does signal X do?", "How does module Y work?", "Explain the state machine"): Answer DIRECTLY from the provided HDL source code. Do NOT call tools — the answer is in the RTL, not the waveform. Just write your response.
@@ -89,15 +108,38 @@ CRITICAL RULES (for waveform analysis only):
 4. NEVER call the same tool with the same arguments twice.
 5. Each round, call MULTIPLE tools in parallel (e.g. 2-4 different signals at once).
 6. When the user specifies a time range, use those EXACT values as t_start and t_end.
-7. Do NOT assume the design is a CPU. Look at the actual signal names to determine the design type (CPU, accelerator, peripheral, state machine, etc.).
+7. When the summary lists a clock, state times as cycle numbers (with the time in parentheses) in your analysis. Use time_to_cycle / cycle_to_time to convert.
+8. Do NOT assume the design is a CPU. Look at the actual signal names to determine the design type (CPU, accelerator, peripheral, state machine, etc.).
 
 Available tools:
 - snapshot(time) — get ALL signal values at a single moment. Call at MULTIPLE timestamps.
-- query_transitions(signal, t_start, t_end) — get transitions for a signal (max 150).
+- list_scopes(path) — child scopes of a scope (the top level without a path) with signal counts.
+- search_signals(pattern, scope) — signals whose names match a glob such as "*valid*" or "u_core.**" (or a /regex/).
+- list_signals(scope) — the signals of one scope, 200 per page.
+- describe_signal(signal) — declared type (reg/wire/parameter/real…), width, bit range, aliases and activity summary.
+- query_transitions(signal, t_start, t_end) — get transitions for a signal, 150 per page.
 - get_next_transition / get_prev_transition — walk events one at a time.
 - find_pattern(signal, value, t_start, t_end) — search for specific values.
 - count_transitions(signal, t_start, t_end) — gauge activity before fetching.
+- signal_stats(signals, t_start, t_end) — time held per value, min/max, high-time %, pulse widths, toggle rate and stuck signals or bits. Use it for duty cycles, "which values did X take" and "was X stuck" instead of reading transitions.
 - get_edges(signal, edge, t_start, t_end) — rising/falling edges only.
+- list_clocks() — all clocks with frequency, duty cycle and gaps, reset assertion windows, and the clock domain of each signal.
+- set_clock(clock, reset) — choose the clock (and optional reset) that cycle numbers count; auto-detected when omitted.
+- sample_on_clock(signals, cycle_start, cycle_end) — values of several signals at each clock edge, one row per cycle.
+- Long results of query_transitions, find_pattern, get_edges and sample_on_clock come in pages: the reply says how many items remain and gives a cursor; call the tool again with that cursor for the next page, or with summary: true for run-length stats instead of samples.
+- time_to_cycle(time) / cycle_to_time(cycle) — convert between timestamps and cycle numbers.
+- decode_bus(protocol, prefix) — decode AXI4/AXI4-Lite/AXI-Stream/APB/AHB/Wishbone transactions (address, data, burst, response, latency). Use this instead of rebuilding handshakes from valid/ready transitions.
+- decode_serial(protocol, roles) — decode UART bytes, SPI words, I2C address/data/ACK and JTAG TAP shifts as timestamped frames.
+- extract_fsm(signals) — state machines found from the RTL state encodings and names, with the observed transition graph, visit counts, dwell times and never-visited states. Use it before tracing a state machine by hand.
+- check_property(property) — check an SVA property such as "req |-> ##[1:4] ack" at every clock edge; lists each failure with its time and reason. Use it to confirm a hypothesis instead of guessing.
+- measure_latency(start, end, id) — latency between paired events (e.g. req rising → ack rising, or "arvalid & arready" → "rvalid & rready & rlast" with edge "cycle" and IDs): percentiles, histogram, outliers, unfinished starts.
+- measure_throughput(event, data) — event count, rate, bandwidth, longest gap and per-window counts (e.g. "tvalid & tready" per cycle).
+- define_signal(name, expression) — name an expression over signals such as "valid & ready", "{hi, lo}", "data[15:8]" or "wr_ptr - rd_ptr"; the result can then be passed to every other tool like a recorded signal.
+- trace_unknown(signal) — when a signal first goes X/Z and the chain of drivers back to the earliest unknown source, with timestamps. Without a signal, lists the signals that go X/Z, earliest first. Use it whenever an x or z value shows up.
+- find_cdc() — clock domain crossings: unsynchronized crossings sampled near a source change, multi-bit buses through per-bit synchronizers, and synchronized ones. Use it for intermittent failures between clock domains.
+- find_glitches(signals, max_width) — pulses narrower than a threshold (default a tenth of the clock period) and zero-width same-time changes, per signal and time window. Use it on gate-level or timing-annotated dumps, and when get_edges marks zero-width glitches.
+- toggle_coverage(scope) — which bits of which signals never toggled, or only rose or only fell (e.g. "which bits of addr never toggled?"), with the overall toggle coverage.
+- diff_waveforms(reference_file, prefix_map) — compare this waveform against a known-good dump; reports the first divergence per signal, earliest first.
 - decode_instruction(value, isa) — ONLY use for CPU designs with actual instruction buses. Never use on non-CPU designs.
 
 INVESTIGATION PLAN — adapt based on design type:
@@ -161,18 +203,63 @@ function truncateHdlContext(hdlContext: string | null, maxChars: number): string
 const WAVEFORM_TOOLS: ToolDefinition[] = [
     {
         name: 'list_signals',
-        description: 'List all signals in the waveform with their transition counts. Call this first to understand what signals are available and how active they are.',
-        parameters: { type: 'object', properties: {}, required: [] },
+        description: 'List signals with their transition counts, declared type, width, bit range and aliases, 200 per page. With scope, only the signals directly in that scope (or below it with recursive). For large designs, browse with list_scopes or search_signals first.',
+        parameters: {
+            type: 'object',
+            properties: {
+                scope: { type: 'string', description: 'Only list signals in this scope, e.g. "tb.dut"' },
+                recursive: { type: 'boolean', description: 'Include signals in nested scopes (default false)' },
+                cursor: { type: 'string', description: 'Cursor from a previous page of this tool; continues that listing (the other arguments are ignored)' },
+            },
+            required: [],
+        },
+    },
+    {
+        name: 'list_scopes',
+        description: 'Browse the design hierarchy one level at a time: the child scopes (modules, instances, generate blocks, …) of a scope with their type and signal counts. Omit path for the top level.',
+        parameters: {
+            type: 'object',
+            properties: {
+                path: { type: 'string', description: 'Scope path such as "tb.dut" (omit for the top level)' },
+            },
+            required: [],
+        },
+    },
+    {
+        name: 'search_signals',
+        description: 'Find signals by name. The pattern is a case-insensitive glob matched against the end of the hierarchical path: "*valid*" matches leaf names, "dut.*" the signals directly in a scope named dut, "u_core.**" everything below it; [abc] and {a,b} work as in shells. Wrap a regular expression in slashes, e.g. "/^tb\\.dut\\..*_q$/". Returns 200 matches per page.',
+        parameters: {
+            type: 'object',
+            properties: {
+                pattern: { type: 'string', description: 'Glob or /regex/' },
+                scope: { type: 'string', description: 'Only search below this scope' },
+                cursor: { type: 'string', description: 'Cursor from a previous page of this tool; continues that search (the other arguments are ignored)' },
+            },
+            required: ['pattern'],
+        },
+    },
+    {
+        name: 'describe_signal',
+        description: 'Describe one signal: declared variable type (reg, wire, integer, parameter, real, event, ...), width, bit range, value kind (logic/real/string/event), aliased paths that refer to the same net, and an activity summary (transition count, first/last change, initial/final value).',
+        parameters: {
+            type: 'object',
+            properties: {
+                signal: { type: 'string', description: 'Full signal name as returned by list_signals' },
+            },
+            required: ['signal'],
+        },
     },
     {
         name: 'query_transitions',
-        description: 'Get transitions for a specific signal within a time range. Returns timestamp and value for each change. Capped at 150 — narrow the range if truncated. IMPORTANT: use the exact t_start and t_end from the user query.',
+        description: 'Get transitions for a specific signal within a time range. Returns timestamp and value for each change, 150 per page; a longer result ends with a cursor for the next page. Use summary for how long each value was held instead. IMPORTANT: use the exact t_start and t_end from the user query.',
         parameters: {
             type: 'object',
             properties: {
                 signal: { type: 'string', description: 'Full signal name as returned by list_signals' },
                 t_start: { type: 'number', description: 'Start timestamp (inclusive). Use the value from the user query.' },
                 t_end: { type: 'number', description: 'End timestamp (inclusive). Use the value from the user query.' },
+                cursor: { type: 'string', description: 'Cursor from a previous page of this tool; continues that query (the other arguments are ignored)' },
+                summary: { type: 'boolean', description: 'Return run-length stats instead of samples (default false)' },
             },
             required: ['signal', 't_start', 't_end'],
         },
@@ -227,7 +314,7 @@ const WAVEFORM_TOOLS: ToolDefinition[] = [
     },
     {
         name: 'find_pattern',
-        description: 'Find timestamps where a signal has a specific value (exact or substring match). Returns up to 50 timestamps. Use this for questions like "when does VALID go high?" or "when is ADDR equal to 0xFF?"',
+        description: 'Find timestamps where a signal has a specific value (exact or substring match). Returns 50 timestamps per page; a longer result ends with a cursor for the next page. Use this for questions like "when does VALID go high?" or "when is ADDR equal to 0xFF?"',
         parameters: {
             type: 'object',
             properties: {
@@ -235,6 +322,8 @@ const WAVEFORM_TOOLS: ToolDefinition[] = [
                 value: { type: 'string', description: 'Value to search for (exact or substring match, case-insensitive)' },
                 t_start: { type: 'number', description: 'Start timestamp (inclusive)' },
                 t_end: { type: 'number', description: 'End timestamp (inclusive)' },
+                cursor: { type: 'string', description: 'Cursor from a previous page of this tool; continues that query (the other arguments are ignored)' },
+                summary: { type: 'boolean', description: 'Return run-length stats instead of samples (default false)' },
             },
             required: ['signal', 'value', 't_start', 't_end'],
         },
@@ -252,9 +341,22 @@ const WAVEFORM_TOOLS: ToolDefinition[] = [
             required: ['signal', 't_start', 't_end'],
         },
     },
+    {
+        name: 'signal_stats',
+        description: 'Statistics of one or more signals over a time window, computed from every change: time-weighted value histogram, min/max, percentage of time high (non-zero) and x/z, high and low pulse-width distribution, toggle rate (per time unit and per clock cycle), and whether the signal or some of its bits never changed. Use this for duty cycles, value ranges and stuck-at questions.',
+        parameters: {
+            type: 'object',
+            properties: {
+                signals: { type: 'array', items: { type: 'string' }, description: 'Signal names' },
+                t_start: { type: 'number', description: 'Start timestamp (default: start of dump)' },
+                t_end: { type: 'number', description: 'End timestamp (default: end of dump)' },
+            },
+            required: ['signals'],
+        },
+    },
     {
         name: 'get_edges',
-        description: 'Get only rising or falling edges of a signal in a time range. Filters out intermediate transitions. Useful for clocks, enables, and other control signals.',
+        description: 'Get only rising or falling edges of a signal in a time range. Filters out intermediate transitions. Returns 150 edges per page, with a cursor for the next one; summary gives the edge count and spacing instead. Useful for clocks, enables, and other control signals.',
         parameters: {
             type: 'object',
             properties: {
@@ -262,10 +364,273 @@ const WAVEFORM_TOOLS: ToolDefinition[] = [
                 t_start: { type: 'number', description: 'Start timestamp (inclusive)' },
                 t_end: { type: 'number', description: 'End timestamp (inclusive)' },
                 edge_type: { type: 'string', enum: ['rising', 'falling', 'any'], description: 'Type of edges to return' },
+                cursor: { type: 'string', description: 'Cursor from a previous page of this tool; continues that query (the other arguments are ignored)' },
+                summary: { type: 'boolean', description: 'Return run-length stats instead of samples (default false)' },
             },
             required: ['signal', 't_start', 't_end', 'edge_type'],
         },
     },
+    {
+        name: 'list_clocks',
+        description: 'Every clock found in the waveform (single-bit signals toggling with a stable period): period and frequency, duty cycle, jitter and where it stops or is gated; the resets and when they are asserted; and the clock domains — which clock edge each signal changes on, plus signals not aligned with any one clock.',
+        parameters: {
+            type: 'object',
+            properties: {},
+            required: [],
+        },
+    },
+    {
+        name: 'set_clock',
+        description: 'Choose the clock that cycle numbers are counted on, with an optional reset: cycle 0 is the first active edge after reset is released. Without a clock, the clock (and a reset) is auto-detected. Returns the clock period and cycle range.',
+        parameters: {
+            type: 'object',
+            properties: {
+                clock: { type: 'string', description: 'Clock signal name (omit to auto-detect)' },
+                edge: { type: 'string', enum: ['rising', 'falling'], description: 'Active clock edge (default rising)' },
+                reset: { type: 'string', description: 'Optional reset signal name' },
+                reset_active: { type: 'string', enum: ['high', 'low'], description: 'Asserted reset level (default: low for names like rst_n, else high)' },
+            },
+            required: [],
+        },
+    },
+    {
+        name: 'sample_on_clock',
+        description: 'Sample several signals on each active clock edge over a range of cycles, one row per cycle. Values are those just before the edge (what a flip-flop captures) unless sample is "after". Returns 150 rows per page, with a cursor for the next one. Much more compact than query_transitions for synchronous logic.',
+        parameters: {
+            type: 'object',
+            properties: {
+                signals: { type: 'array', items: { type: 'string' }, description: 'Signal names to sample' },
+                cycle_start: { type: 'number', description: 'First cycle' },
+                cycle_end: { type: 'number', description: 'Last cycle (inclusive)' },
+                sample: { type: 'string', enum: ['before', 'after'], description: 'Sample just before (default) or just after each edge' },
+                changes_only: { type: 'boolean', description: 'Only list cycles where a sampled value changed (default false)' },
+                cursor: { type: 'string', description: 'Cursor from a previous page of this tool; continues that query (the other arguments are ignored)' },
+                summary: { type: 'boolean', description: 'Return, per signal, how many cycles each value lasted instead of rows (default false)' },
+            },
+            required: ['signals', 'cycle_start', 'cycle_end'],
+        },
+    },
+    {
+        name: 'time_to_cycle',
+        description: 'Convert a timestamp to the clock cycle containing it (cycle n spans from its active edge to the next).',
+        parameters: {
+            type: 'object',
+            properties: {
+                time: { type: 'number', description: 'Timestamp' },
+            },
+            required: ['time'],
+        },
+    },
+    {
+        name: 'cycle_to_time',
+        description: 'Convert a clock cycle number to the timestamp of its active edge.',
+        parameters: {
+            type: 'object',
+            properties: {
+                cycle: { type: 'number', description: 'Cycle number' },
+            },
+            required: ['cycle'],
+        },
+    },
+    {
+        name: 'decode_bus',
+        description: 'Decode on-chip bus transactions from the handshake signals: address, data per beat, burst type, response and latency in clock cycles. Signal roles (awvalid, psel, htrans, cyc, …) are matched from signal names; use prefix to pick one bus instance, or roles to map them explicitly. Prefer this over reconstructing transfers from query_transitions.',
+        parameters: {
+            type: 'object',
+            properties: {
+                protocol: { type: 'string', enum: BUS_PROTOCOLS, description: 'Bus protocol' },
+                prefix: { type: 'string', description: 'Path prefix of the bus instance, e.g. "tb.dut.s_axi_" (default: the best match)' },
+                roles: {
+                    type: 'object',
+                    additionalProperties: { type: 'string' },
+                    description: 'Explicit role → signal mapping, e.g. {"clk": "tb.aclk", "awvalid": "tb.dut.aw_valid"}. Overrides name matching.',
+                },
+                t_start: { type: 'number', description: 'Start timestamp (default 0)' },
+                t_end: { type: 'number', description: 'End timestamp (default: end of dump)' },
+                max_results: { type: 'number', description: 'Max transactions listed (default 50)' },
+            },
+            required: ['protocol'],
+        },
+    },
+    {
+        name: 'decode_serial',
+        description: 'Decode serial lines into timestamped frames: UART bytes (with text, parity and framing errors), SPI words for CPOL/CPHA modes, I2C START/STOP, address + R/W, data bytes and ACK/NACK, and JTAG IR/DR shifts with TAP state tracking. Use this to answer "what bytes were sent" instead of reading edges.',
+        parameters: {
+            type: 'object',
+            properties: {
+                protocol: { type: 'string', enum: SERIAL_PROTOCOLS, description: 'Serial protocol' },
+                roles: {
+                    type: 'object',
+                    additionalProperties: { type: 'string' },
+                    description: 'Explicit role → signal mapping. uart: line; spi: sclk, mosi, miso, cs; i2c: scl, sda; jtag: tck, tms, tdi, tdo, trst. Unmapped roles are matched from signal names.',
+                },
+                prefix: { type: 'string', description: 'Only match signals under this path prefix when guessing roles' },
+                t_start: { type: 'number', description: 'Start timestamp (default 0)' },
+                t_end: { type: 'number', description: 'End timestamp (default: end of dump)' },
+                max_results: { type: 'number', description: 'Max frames listed (default 100)' },
+                baud: { type: 'number', description: 'UART baud rate (bits/s), converted using the waveform timescale' },
+                bit_time: { type: 'number', description: 'UART bit period in waveform time units (overrides baud; estimated when both are omitted)' },
+                data_bits: { type: 'number', description: 'UART data bits (default 8)' },
+                parity: { type: 'string', enum: ['none', 'even', 'odd'], description: 'UART parity (default none)' },
+                stop_bits: { type: 'number', description: 'UART stop bits (default 1)' },
+                invert: { type: 'boolean', description: 'UART line idles low' },
+                cpol: { type: 'number', enum: [0, 1], description: 'SPI clock polarity (default 0)' },
+                cpha: { type: 'number', enum: [0, 1], description: 'SPI clock phase (default 0)' },
+                bits_per_word: { type: 'number', description: 'SPI word size (default 8)' },
+                cs_active: { type: 'string', enum: ['low', 'high'], description: 'SPI chip-select active level (default low)' },
+                msb_first: { type: 'boolean', description: 'Bit order (default: MSB first for SPI, LSB first for UART)' },
+            },
+            required: ['protocol'],
+        },
+    },
+    {
+        name: 'extract_fsm',
+        description: 'Find state machines and build the state-transition graph observed in the waveform. State registers are detected from the RTL enum/localparam state encodings and from state-like names; values are shown by state name. Reports per-state visit counts and dwell times (in clock cycles when a clock is known), transition counts with the first time each was taken, declared states that were never visited, and values outside the encoding. The graph is also drawn in the chat.',
+        parameters: {
+            type: 'object',
+            properties: {
+                signals: { type: 'array', items: { type: 'string' }, description: 'State registers to analyse (default: detected automatically)' },
+                t_start: { type: 'number', description: 'Start timestamp (default 0)' },
+                t_end: { type: 'number', description: 'End timestamp (default: end of dump)' },
+            },
+        },
+    },
+    {
+        name: 'check_property',
+        description: 'Check a SystemVerilog assertion property against the waveform at every clock edge, without re-running simulation. Supports boolean expressions (Verilog operators, bit selects, sized literals), $rose/$fell/$stable/$changed/$past/$onehot/$onehot0/$isunknown/$countones, sequences with ##n, ##[m:n], ##[m:$], [*m:n], [+], [->n] and throughout, and properties with |->, |=>, not, and, or, until, s_until, until_with, s_until_with. An optional "@(posedge clk)" and "disable iff (expr)" prefix are accepted. Signal names can be full paths or unique leaf names. Returns pass/fail/vacuous counts and every failure with the time it failed and why.',
+        parameters: {
+            type: 'object',
+            properties: {
+                property: { type: 'string', description: 'Property, e.g. "@(posedge clk) disable iff (!rst_n) req |-> ##[1:4] ack" or "$rose(start) |=> busy until done"' },
+                clock: { type: 'string', description: 'Clock when the property has no @(…) (default: the detected or set_clock clock)' },
+                edge: { type: 'string', enum: ['rising', 'falling'], description: 'Clock edge for clock (default rising)' },
+                t_start: { type: 'number', description: 'Only check attempts starting at or after this time' },
+                t_end: { type: 'number', description: 'Only check attempts starting at or before this time' },
+                max_results: { type: 'number', description: 'Max failures listed (default 20)' },
+            },
+            required: ['property'],
+        },
+    },
+    {
+        name: 'measure_latency',
+        description: 'Measure the latency from start events to end events, such as "req" rising to "ack" rising, or an address handshake to its response. Events are edges of a signal or expression, or (edge "cycle") every clock edge where the expression holds, which is how valid/ready handshakes should be counted. Ends complete the oldest pending start; with id (and end_id), only a start with the same ID value, for out-of-order buses. Returns min/mean/max and p50/p90/p99 latency (in cycles when a clock is known), a histogram, outliers and starts that never ended, with timestamps.',
+        parameters: {
+            type: 'object',
+            properties: {
+                start: { type: 'string', description: 'Start event: signal or expression, e.g. "req", "state == 2", "arvalid & arready"' },
+                end: { type: 'string', description: 'End event: signal or expression, e.g. "ack", "rvalid & rready & rlast"' },
+                start_edge: { type: 'string', enum: ['rising', 'falling', 'any', 'cycle'], description: 'When the start fires: expression becomes true (rising, default), false, changes, or each clock edge where it holds (cycle)' },
+                end_edge: { type: 'string', enum: ['rising', 'falling', 'any', 'cycle'], description: 'When the end fires (default rising)' },
+                id: { type: 'string', description: 'ID signal sampled at each start, e.g. "arid"' },
+                end_id: { type: 'string', description: 'ID signal sampled at each end, e.g. "rid" (default: id)' },
+                t_start: { type: 'number', description: 'Only measure starts at or after this time' },
+                t_end: { type: 'number', description: 'Only measure starts at or before this time' },
+                max_results: { type: 'number', description: 'Max outliers and unfinished starts listed (default 10)' },
+            },
+            required: ['start', 'end'],
+        },
+    },
+    {
+        name: 'measure_throughput',
+        description: 'Measure how often an event happens over a time range: total count, rate per cycle (or time unit) overall and sustained between the first and last event, bytes and bandwidth when the data width is given, the longest gap between events, and the count per window. Use edge "cycle" with "valid & ready" to count stream or bus transfers.',
+        parameters: {
+            type: 'object',
+            properties: {
+                event: { type: 'string', description: 'Event: signal or expression, e.g. "tvalid & tready"' },
+                edge: { type: 'string', enum: ['rising', 'falling', 'any', 'cycle'], description: 'When the event fires (default: cycle when a clock is known, else rising)' },
+                data: { type: 'string', description: 'Data signal whose width gives the bytes per event' },
+                bytes_per_event: { type: 'number', description: 'Bytes per event (overrides data)' },
+                window: { type: 'number', description: 'Window length in cycles (time units without a clock); default splits the range into 20 windows' },
+                t_start: { type: 'number', description: 'Start timestamp (default: start of dump)' },
+                t_end: { type: 'number', description: 'End timestamp (default: end of dump)' },
+            },
+            required: ['event'],
+        },
+    },
+    {
+        name: 'define_signal',
+        description: 'Define a derived signal: a named expression over existing signals that every other tool (query_transitions, find_pattern, get_edges, snapshot, check_property, …) then accepts like a recorded signal. Expressions use Verilog operators, bit and part selects, {…} concatenation, sized literals such as 8\'hFF and the ?: operator, plus $onehot/$onehot0/$isunknown/$countones. Signal names can be full paths or unique leaf names. Redefining a name replaces it.',
+        parameters: {
+            type: 'object',
+            properties: {
+                name: { type: 'string', description: 'Name of the new signal, e.g. "handshake"' },
+                expression: { type: 'string', description: 'Expression, e.g. "valid & ready", "{hi, lo}", "data[15:8]", "count == 8\'hFF" or "wr_ptr - rd_ptr"' },
+            },
+            required: ['name', 'expression'],
+        },
+    },
+    {
+        name: 'trace_unknown',
+        description: 'Find the root cause of an X or Z value. Finds the first time the signal goes X/Z (ignoring unknown values that ended before t_start, by default the reset release) and walks back through its drivers to the one that went unknown first, repeating until no driver was unknown earlier. Drivers come from the RTL fan-in (assignments, if/case conditions and port connections) when the HDL source is available, else from nearby signals in the hierarchy. Returns the propagation chain with timestamps. Without a signal, lists the signals that go X/Z, earliest first.',
+        parameters: {
+            type: 'object',
+            properties: {
+                signal: { type: 'string', description: 'Signal with the unknown value (omit to list X/Z onsets)' },
+                t_start: { type: 'number', description: 'Ignore unknown values that ended before this time (default: reset release, else start of dump)' },
+                max_results: { type: 'number', description: 'Max signals listed without a signal (default 20)' },
+            },
+        },
+    },
+    {
+        name: 'find_cdc',
+        description: 'Clock domain crossing analysis. Finds signals that change in one clock domain and are sampled by flops of another: from the RTL registers when the HDL source is available (recognising two-flop synchronizer chains), else from the waveform (signals that copy a signal of another domain). For each crossing reports the synchronizer, how often the destination sampled within the setup window of a source change, and for multi-bit sources how often several bits flip at once or bits update at different times. Hazards are listed first.',
+        parameters: {
+            type: 'object',
+            properties: {
+                setup_window: { type: 'number', description: 'A source change this close before a destination edge counts as a violation (default: a tenth of the destination clock period)' },
+                max_results: { type: 'number', description: 'Max crossings listed per category (default 20)' },
+            },
+        },
+    },
+    {
+        name: 'find_glitches',
+        description: 'Find glitches: values held for less than a threshold, as produced by gate-level and timing-annotated simulations. The threshold is max_width time units, or by default a fraction of the clock period of each signal\'s clock domain. Several changes of a signal at one timestamp (delta-cycle glitches) count as zero-width glitches. Reports per signal the count, zero-width count, narrowest width, first and last time and example pulses with the values around them, plus the glitch count per time window.',
+        parameters: {
+            type: 'object',
+            properties: {
+                signals: { type: 'array', items: { type: 'string' }, description: 'Signals to check (default: all)' },
+                t_start: { type: 'number', description: 'Start timestamp (default: start of dump)' },
+                t_end: { type: 'number', description: 'End timestamp (default: end of dump)' },
+                max_width: { type: 'number', description: 'Values held for less than this many time units are glitches; overrides period_fraction' },
+                period_fraction: { type: 'number', description: 'Values held for less than this fraction of the signal\'s clock period are glitches (default 0.1)' },
+                max_results: { type: 'number', description: 'Max signals listed (default 20)' },
+            },
+        },
+    },
+    {
+        name: 'toggle_coverage',
+        description: 'Toggle coverage computed from the dump: for every signal and every bit of a vector, whether it went both 0→1 and 1→0, optionally limited to a scope and time window. Transitions through x/z do not count. The summary gives the overall percentage and, for each signal not fully covered, the bits that never toggled, only rose or only fell; table gives a Markdown row per signal; json gives per-bit rise and fall counts.',
+        parameters: {
+            type: 'object',
+            properties: {
+                scope: { type: 'string', description: 'Only signals at any depth below this scope (default: all)' },
+                t_start: { type: 'number', description: 'Start timestamp (default: start of dump)' },
+                t_end: { type: 'number', description: 'End timestamp (default: end of dump)' },
+                format: { type: 'string', enum: ['summary', 'table', 'json'], description: 'Output format (default summary)' },
+                max_results: { type: 'number', description: 'Max signals listed in the summary (default 30)' },
+            },
+        },
+    },
+    {
+        name: 'diff_waveforms',
+        description: 'Compare the current waveform against a reference dump (e.g. a known-good run) signal by signal. Signals are matched by hierarchical path. Returns, per diverging signal, the first time the values differ, both values at that time, and how many separate intervals (and how much total time) they differ, ordered by earliest divergence. Use it to find where a failing run first departs from a passing one.',
+        parameters: {
+            type: 'object',
+            properties: {
+                reference_file: { type: 'string', description: 'Path to the reference waveform (.vcd/.fst/.ghw/.evcd). Relative paths are resolved against the current waveform\'s directory.' },
+                prefix_map: {
+                    type: 'object',
+                    additionalProperties: { type: 'string' },
+                    description: 'Optional path prefix renames applied to the current waveform before matching, e.g. {"tb_new.dut": "tb.dut"} when the top level was renamed',
+                },
+                signals: { type: 'array', items: { type: 'string' }, description: 'Optional reference signal paths to compare (default: all)' },
+                t_start: { type: 'number', description: 'Start of the comparison window (default 0)' },
+                t_end: { type: 'number', description: 'End of the comparison window (default: the earlier end time of the two dumps)' },
+                max_results: { type: 'number', description: 'Max divergences listed (default 50)' },
+            },
+            required: ['reference_file'],
+        },
+    },
     {
         name: 'decode_instruction',
         description: 'Decode a raw instruction value into assembly. Use this on instruction bus signals (IDATA, instruction, etc.) to understand what opcode the CPU is executing. The ISA is configured in extension settings.',
@@ -290,10 +655,12 @@ export class ChatPanel {
     private waveformContextSent = false;   // only send waveform dump once per session (non-tool mode)
     private currentAbortController: AbortController | undefined;
     private disposables: vscode.Disposable[] = [];
-    /** Pre-parsed context from a file (FST/VCD). When set, VaporView is bypassed. */
-    private preloadedContext: WaveformContext | undefined;
+    /** Pre-parsed index from a file (VCD/FST/GHW/EVCD). When set, VaporView is bypassed. */
+    private preloadedIndex: WaveformIndex | undefined;
     /** In-memory index for tool-use (RAG) mode. Built lazily on first query. */
     private waveformIndex: WaveformIndex | undefined;
+    /** Reference waveforms loaded by diff_waveforms, keyed by file path. */
+    private referenceIndexes = new Map<string, Promise<WaveformIndex>>();
     /** Signals selected in the picker. undefined = not yet initialised (use all). */
     private selectedSignals: string[] | undefined = undefined;
 
@@ -336,10 +703,10 @@ export class ChatPanel {
     }
 
     /**
-     * Open a new chat pre-loaded with a parsed waveform file context.
+     * Open a new chat pre-loaded with a parsed waveform file index.
      * Any existing panel is disposed first so the file context starts fresh.
      */
-    static createWithFile(ctx: WaveformContext, title: string, tracker: SignalTracker, log: vscode.OutputChannel): ChatPanel {
+    static createWithFile(index: WaveformIndex, title: string, tracker: SignalTracker, log: vscode.OutputChannel): ChatPanel {
         if (ChatPanel.instance) {
             ChatPanel.instance.panel.dispose();
             ChatPanel.instance = undefined;
@@ -353,12 +720,41 @@ export class ChatPanel {
         );
 
         const instance = new ChatPanel(panel, tracker, log);
-        instance.preloadedContext = ctx;
-        instance.waveformIndex = new WaveformIndex(ctx);
+        instance.preloadedIndex = index;
+        instance.waveformIndex = index;
         ChatPanel.instance = instance;
         return instance;
     }
 
+    /**
+     * Parse (once per panel) a reference waveform for diff_waveforms. Relative
+     * paths resolve against the directory of the waveform being analysed.
+     */
+    private loadReference(file: string, current: WaveformIndex, signal: AbortSignal): Promise<WaveformIndex> {
+        let filePath = file.startsWith('file:') ? vscode.Uri.parse(file).fsPath : file;
+        if (!path.isAbsolute(filePath) && current.uri) {
+            filePath = path.resolve(path.dirname(vscode.Uri.parse(current.uri).fsPath), filePath);
+        }
+        let pending = this.referenceIndexes.get(filePath);
+        if (!pending) {
+            const cache = vscode.workspace.getConfiguration('hdlWaveAi').get<boolean>('waveform.indexCache', true);
+            this.log.appendLine(`[Chat] Parsing reference waveform: ${filePath}`);
+            pending = parseWaveformFile(filePath, {
+                signal,
+                cache,
+                onWarning: message => this.log.appendLine(`[Chat] ${message}`),
+            }).then(result => new WaveformIndex({
+                ...result,
+                uri: vscode.Uri.file(filePath).toString(),
+                startTime: 0,
+            }));
+            // A failed or aborted parse is retried on the next call
+            pending.catch(() => this.referenceIndexes.delete(filePath));
+            this.referenceIndexes.set(filePath, pending);
+        }
+        return pending;
+    }
+
     /** Called when VaporView signals change — updates the picker in the open panel. */
     static notifySignalsChanged(signals: string[]): void {
         if (!ChatPanel.instance) { return; }
@@ -409,8 +805,8 @@ export class ChatPanel {
         if (msg.type === 'ready') {
             // Webview just loaded — send current signal list to populate the picker
             let signals: string[] = [];
-            if (this.preloadedContext) {
-                signals = this.preloadedContext.signals;
+            if (this.preloadedIndex) {
+                signals = this.preloadedIndex.signals;
             } else {
                 const activeUri = await getActiveDocumentUri(this.log);
                 if (activeUri) { signals = this.tracker.getSignals(activeUri); }
@@ -460,7 +856,7 @@ export class ChatPanel {
         const canUseTools = useToolMode && !!provider.chatWithTools;
 
         // ── Detect if the active waveform file changed since we last built the index ──
-        if (this.waveformIndex && !this.preloadedContext) {
+        if (this.waveformIndex && !this.preloadedIndex) {
             const currentUri = await getActiveDocumentUri(this.log);
             if (currentUri && currentUri !== this.waveformIndex.uri) {
                 this.log.appendLine(`[Chat] Active file changed: ${this.waveformIndex.uri} → ${currentUri}. Rebuilding index.`);
@@ -474,10 +870,11 @@ export class ChatPanel {
         if (!this.waveformContextSent) {
             let rawCtx: WaveformContext | null = null;
 
-            if (this.preloadedContext) {
-                // File mode: index already built in createWithFile
-                this.log.appendLine(`[Chat] Using preloaded file context (${this.preloadedContext.transitions.length} transitions)`);
-                rawCtx = this.preloadedContext;
+            if (this.preloadedIndex) {
+                // File mode: index already built in createWithFile. The flat
+                // transition list is only materialized for legacy mode.
+                this.log.appendLine(`[Chat] Using preloaded file index (${this.preloadedIndex.transitionCount} transitions)`);
+                if (!canUseTools) { rawCtx = this.preloadedIndex.toContext(); }
             } else {
                 // VaporView mode: poll signals
                 this.log.appendLine(`[Chat] Building waveform context (t=${startTime}..${endTime}, step=${stepSize})`);
@@ -500,14 +897,32 @@ export class ChatPanel {
                         try {
                             const filePath = vscode.Uri.parse(fileUri).fsPath;
                             this.log.appendLine(`[Chat] Parsing full file for tool index: ${filePath}`);
-                            const fullParse = await parseWaveformFile(filePath);
+                            let reported = -1;
+                            const fullParse = await parseWaveformFile(filePath, {
+                                signal,
+                                cache: config.get<boolean>('waveform.indexCache', true),
+                                onWarning: message => this.log.appendLine(`[Chat] ${message}`),
+                                onProgress: (bytesRead, totalBytes) => {
+                                    if (!totalBytes) { return; }
+                                    const pct = Math.floor((bytesRead / totalBytes) * 100);
+                                    if (pct !== reported) {
+                                        reported = pct;
+                                        this.panel.webview.postMessage({ type: 'progress', text: `Parsing waveform\u2026 ${pct}%` });
+                                    }
+                                },
+                            });
                             this.waveformIndex = new WaveformIndex({
                                 ...fullParse,
                                 uri: fileUri,
                                 startTime: 0,
                             });
-                            this.log.appendLine(`[Chat] WaveformIndex built from full file: ${this.waveformIndex.signals.length} signals, ${fullParse.transitions.length} transitions`);
+                            this.log.appendLine(`[Chat] WaveformIndex built from full file: ${this.waveformIndex.signals.length} signals, ${fullParse.transitionCount} transitions`);
                         } catch (err) {
+                            if (signal.aborted) {
+                                this.panel.webview.postMessage({ type: 'stream_end' });
+                                this.currentAbortController = undefined;
+                                return;
+                            }
                             this.log.appendLine(`[Chat] Full file parse failed: ${err}`);
                             if (rawCtx) {
                                 this.waveformIndex = new WaveformIndex(rawCtx);
@@ -584,6 +999,10 @@ export class ChatPanel {
                     selSet ? idx.signals.filter(s => selSet.has(s)) : idx.signals,
                     this.log
                 );
+                // State encodings and fan-in come from the full HDL context, before it is cut to the token budget
+                const stateEncodings = extractStateEncodings(hdlContext ?? '');
+                const rtlDrivers = extractSignalDrivers(hdlContext ?? '');
+                const rtlRegisters = extractRegisters(hdlContext ?? '');
                 // Extract the user's time range — prefer explicit values in text,
                 // fall back to VaporView marker positions, then webview msg values.
                 let timeRange = extractTimeRange(msg.text);
@@ -659,7 +1078,14 @@ export class ChatPanel {
                 // Replace the history entry (userContent may differ from fullUserContent)
                 this.history[this.history.length - 1] = { role: 'user', content: fullUserContent };
 
-                const executor = buildToolExecutor(idx, selSet, this.log);
+                const executor = buildToolExecutor(
+                    idx, selSet, this.log,
+                    file => this.loadReference(file, idx, signal),
+                    stateEncodings,
+                    rtlDrivers,
+                    rtlRegisters,
+                    (title, svg) => this.panel.webview.postMessage({ type: 'diagram', title, svg }),
+                );
 
                 this.log.appendLine(`[Chat] Tool mode: running tool loop`);
                 this.panel.webview.postMessage({ type: 'stream_start' });
@@ -739,8 +1165,26 @@ function buildWaveformSummary(idx: WaveformIndex, selSet: Set<string> | null): s
         `## Waveform Summary (tool-query mode)`,
         `File: ${idx.uri}`,
         `Time range: ${idx.startTime} \u2013 ${idx.endTime} (timescale: ${idx.timescale})`,
-        `Signals available: ${signals.length} — use list_signals() for full list, query_transitions() to fetch data`,
+        `Signals available: ${signals.length} — browse with list_scopes(), find names with search_signals(), fetch data with query_transitions()`,
     ];
+    if (idx.timeOrigin !== 0n) {
+        lines.push(`Time origin: ${idx.timeOrigin} — all times (tool inputs and outputs) are offsets from this`);
+    }
+
+    const cycles = idx.getCycleTable();
+    if (cycles) {
+        lines.push(`Clock: ${cycles.describe()} — cycle tools (sample_on_clock, time_to_cycle, cycle_to_time) use this; change it with set_clock()`);
+    }
+
+    // Clocking up front, so questions about timing start from the right clock domain;
+    // on large dumps the analysis waits until the model asks for it
+    lines.push(``);
+    if (allSignals.length <= SUMMARY_CLOCKING_MAX_SIGNALS) {
+        lines.push(formatClockReport(idx.getClocking(), idx, 8));
+        lines.push(`(list_clocks gives the full clock domain lists)`);
+    } else {
+        lines.push(`Clocks: not analysed up front for ${allSignals.length} signals — call list_clocks() for clocks, resets and clock domains`);
+    }
 
     if (instrSignals.length > 0) {
         lines.push(``);
@@ -751,18 +1195,46 @@ function buildWaveformSummary(idx: WaveformIndex, selSet: Set<string> | null): s
     }
 
     lines.push(``);
-    lines.push(`Top signals by activity:`);
+    lines.push(`Top signals by activity (signal_stats gives the full profile):`);
     for (const s of top) {
         const tag = INSTRUCTION_SIGNAL_RE.test(s.name) ? ' [INSTR]' : '';
-        lines.push(`  ${s.name}: ${s.transitionCount} transitions${tag}`);
+        lines.push(`  ${s.name}: ${activityLine(idx, s.name, s.transitionCount)}${tag}`);
     }
     if (signals.length > 30) {
         lines.push(`  \u2026 and ${signals.length - 30} more`);
     }
 
+    // Signals that never change after their first value; unknown ones first
+    const constant = signals
+        .filter(s => s.transitionCount <= 1)
+        .map(s => ({ name: s.name, value: idx.getValueAt(s.name, idx.endTime) }))
+        .sort((a, b) => Number(/^[xz]/i.test(b.value)) - Number(/^[xz]/i.test(a.value)));
+    if (constant.length > 0) {
+        const shown = constant.slice(0, 10).map(c => `${c.name}=${c.value}`).join(', ');
+        lines.push(``);
+        lines.push(`Never change (stuck for the whole dump): ${constant.length} signal${constant.length !== 1 ? 's' : ''} \u2014 ${shown}${constant.length > 10 ? ', \u2026' : ''}`);
+    }
+
     return lines.join('\n');
 }
 
+/** Above this many signals the summary leaves clock analysis to list_clocks. */
+const SUMMARY_CLOCKING_MAX_SIGNALS = 2000;
+
+/** Activity profile of each summarized trace, so later chat turns don't recompute it. */
+const activityCache = new WeakMap<SignalTrace, string>();
+
+/** Whole-dump activity profile of `signal` for the summary; falls back to the transition count. */
+function activityLine(idx: WaveformIndex, signal: string, transitionCount: number): string {
+    const trace = idx.getTrace(signal);
+    const cached = trace && activityCache.get(trace);
+    if (cached) { return cached; }
+    const stats = idx.signalStats(signal, idx.startTime, idx.endTime);
+    const line = typeof stats === 'string' ? `${transitionCount} transitions` : formatActivity(stats);
+    if (trace) { activityCache.set(trace, line); }
+    return line;
+}
+
 /** Pattern matching common instruction bus signal names. */
 const INSTRUCTION_SIGNAL_RE = /\b(inst(r|ruction)?(_s\d+)?|idata\d?|im_data|opcode|ir\b|if_instr|id_instr|rom_byte)\b/i;
 
@@ -796,45 +1268,85 @@ function autoDecodeInstruction(signalName: string, value: string, log?: vscode.O
     return '';
 }
 
+const NO_CLOCK = 'No clock detected. Call set_clock with the clock signal name.';
+
 function buildToolExecutor(
     idx: WaveformIndex,
     selSet: Set<string> | null,
-    log: vscode.OutputChannel
-): (name: string, args: Record<string, unknown>) => string {
-    const TRANSITION_CAP = 150;
-    return (name: string, args: Record<string, unknown>): string => {
+    log: vscode.OutputChannel,
+    loadReference: (file: string) => Promise<WaveformIndex>,
+    stateEncodings: StateEncoding[],
+    rtlDrivers: SignalDrivers,
+    rtlRegisters: RegisterMap,
+    showDiagram: (title: string, svg: string) => void,
+): ToolExecutor {
+    const cursorArg = (args: Record<string, unknown>) => args['cursor'] !== undefined ? String(args['cursor']) : undefined;
+    return (name: string, args: Record<string, unknown>): string | Promise<string> => {
         log.appendLine(`[Chat] Tool call: ${name}(${JSON.stringify(args)})`);
         switch (name) {
             case 'list_signals': {
-                const all = idx.listSignals();
-                const signals = selSet ? all.filter(s => selSet.has(s.name)) : all;
-                return JSON.stringify(signals);
+                const req = resumeQuery(idx, name, cursorArg(args), () => ({
+                    scope: args['scope'] !== undefined ? String(args['scope']) : undefined,
+                    recursive: args['recursive'] === true,
+                }));
+                if (typeof req === 'string') { return req; }
+                const all = idx.listSignals(req.query);
+                if (typeof all === 'string') { return all; }
+                const signals = selSet ? all.filter(s => selSet.has(s.name) || idx.isDerived(s.name)) : all;
+                const page = takePage(signals, { offset: req.offset }, PAGE_SIZE.signals);
+                return pageNote(page, 'Signals', nextCursor(name, req.query, page), false) + JSON.stringify(page.items);
+            }
+            case 'list_scopes': {
+                const scopes = idx.listScopes(args['path'] !== undefined ? String(args['path']) : '');
+                return typeof scopes === 'string' ? scopes : formatScopes(scopes.scope, scopes.children);
+            }
+            case 'search_signals': {
+                const req = resumeQuery(idx, name, cursorArg(args), () => ({
+                    pattern: String(args['pattern'] ?? ''),
+                    scope: args['scope'] !== undefined ? String(args['scope']) : undefined,
+                }));
+                if (typeof req === 'string') { return req; }
+                const found = idx.searchSignals(req.query.pattern, req.query.scope);
+                if (typeof found === 'string') { return found; }
+                const signals = selSet ? found.filter(s => selSet.has(s.name) || idx.isDerived(s.name)) : found;
+                if (signals.length === 0) { return `No signals match "${req.query.pattern}"${req.query.scope !== undefined ? ` in ${req.query.scope}` : ''}.`; }
+                const page = takePage(signals, { offset: req.offset }, PAGE_SIZE.signals);
+                return pageNote(page, 'Signals', nextCursor(name, req.query, page), false) + JSON.stringify(page.items);
+            }
+            case 'describe_signal': {
+                const sig = idx.resolveSignal(String(args['signal'] ?? ''));
+                if (sig === null) { return idx.signalNotFound(String(args['signal'] ?? '')); }
+                return JSON.stringify(idx.describeSignal(sig));
             }
             case 'query_transitions': {
-                const sig = String(args['signal'] ?? '');
-                const tStart = Number(args['t_start'] ?? 0);
-                const tEnd = Number(args['t_end'] ?? idx.endTime);
-                const result = idx.queryTransitions(sig, tStart, tEnd, TRANSITION_CAP);
-                if (result.length === 0) {
+                const req = resumeQuery(idx, name, cursorArg(args), () => {
+                    const sig = idx.resolveSignal(String(args['signal'] ?? ''));
+                    if (sig === null) { return idx.signalNotFound(String(args['signal'] ?? '')); }
+                    return { signal: sig, tStart: Number(args['t_start'] ?? 0), tEnd: Number(args['t_end'] ?? idx.endTime) };
+                });
+                if (typeof req === 'string') { return req; }
+                const { signal: sig, tStart, tEnd } = req.query;
+                if (args['summary'] === true) { return summarizeTransitions(idx, sig, tStart, tEnd); }
+                const page = idx.queryTransitions(sig, tStart, tEnd, { offset: req.offset });
+                if (page.total === 0) {
                     return `No transitions found for "${sig}" in [${tStart}, ${tEnd}].`;
                 }
-                const truncNote = result.length >= TRANSITION_CAP
-                    ? `[Truncated at ${TRANSITION_CAP}. Narrow the range for more detail.]\n` : '';
-                const sigName = sig;
-                return truncNote + result.map(t => {
-                    const decoded = autoDecodeInstruction(sigName, t.value);
+                return pageNote(page, 'Transitions', nextCursor(name, req.query, page)) + page.items.map(t => {
+                    const decoded = autoDecodeInstruction(sig, t.value);
                     return `t=${t.time}: ${t.value}${decoded}`;
                 }).join('\n');
             }
             case 'get_value_at': {
-                const sig = String(args['signal'] ?? '');
+                const sig = idx.resolveSignal(String(args['signal'] ?? ''));
+                if (sig === null) { return idx.signalNotFound(String(args['signal'] ?? '')); }
                 const time = Number(args['time'] ?? 0);
                 const val = idx.getValueAt(sig, time);
                 const decoded = autoDecodeInstruction(sig, val);
                 return `"${sig}" at t=${time}: ${val}${decoded}`;
             }
             case 'get_next_transition': {
-                const sig = String(args['signal'] ?? '');
+                const sig = idx.resolveSignal(String(args['signal'] ?? ''));
+                if (sig === null) { return idx.signalNotFound(String(args['signal'] ?? '')); }
                 const afterTime = Number(args['after_time'] ?? 0);
                 const t = idx.getNextTransition(sig, afterTime);
                 if (!t) { return `No more transitions for "${sig}" after t=${afterTime}.`; }
@@ -842,7 +1354,8 @@ function buildToolExecutor(
                 return `"${sig}" next transition after t=${afterTime}: t=${t.time} → ${t.value}${decoded}`;
             }
             case 'get_prev_transition': {
-                const sig = String(args['signal'] ?? '');
+                const sig = idx.resolveSignal(String(args['signal'] ?? ''));
+                if (sig === null) { return idx.signalNotFound(String(args['signal'] ?? '')); }
                 const beforeTime = Number(args['before_time'] ?? 0);
                 const t = idx.getPrevTransition(sig, beforeTime);
                 if (!t) { return `No transitions for "${sig}" before t=${beforeTime}.`; }
@@ -851,8 +1364,9 @@ function buildToolExecutor(
             }
             case 'snapshot': {
                 const time = Number(args['time'] ?? 0);
-                const sigNames = args['signals'] as string[] | undefined;
-                const effectiveSignals = sigNames ?? (selSet ? idx.signals.filter(s => selSet.has(s)) : idx.signals);
+                const sigNames = args['signals'] !== undefined ? idx.resolveSignals(args['signals'] as string[]) : undefined;
+                if (typeof sigNames === 'string') { return sigNames; }
+                const effectiveSignals = sigNames ?? (selSet ? idx.signals.filter(s => selSet.has(s) || idx.isDerived(s)) : idx.signals);
                 const snap = idx.snapshot(time, effectiveSignals);
                 return `Snapshot at t=${time}:\n` + snap.map(s => {
                     const decoded = autoDecodeInstruction(s.signal, s.value, log);
@@ -860,30 +1374,264 @@ function buildToolExecutor(
                 }).join('\n');
             }
             case 'find_pattern': {
-                const sig = String(args['signal'] ?? '');
-                const val = String(args['value'] ?? '');
-                const tStart = Number(args['t_start'] ?? 0);
-                const tEnd = Number(args['t_end'] ?? idx.endTime);
-                const times = idx.findPattern(sig, val, tStart, tEnd);
-                if (times.length === 0) { return `"${sig}" never equals "${val}" in [${tStart}, ${tEnd}].`; }
-                const note = times.length >= 50 ? `[Capped at 50 matches.]\n` : '';
-                return `${note}"${sig}" equals "${val}" at: ${times.map(t => `t=${t}`).join(', ')}`;
+                const req = resumeQuery(idx, name, cursorArg(args), () => {
+                    const sig = idx.resolveSignal(String(args['signal'] ?? ''));
+                    if (sig === null) { return idx.signalNotFound(String(args['signal'] ?? '')); }
+                    return {
+                        signal: sig,
+                        value: String(args['value'] ?? ''),
+                        tStart: Number(args['t_start'] ?? 0),
+                        tEnd: Number(args['t_end'] ?? idx.endTime),
+                    };
+                });
+                if (typeof req === 'string') { return req; }
+                const { signal: sig, value: val, tStart, tEnd } = req.query;
+                if (args['summary'] === true) { return summarizePattern(idx, sig, val, tStart, tEnd); }
+                const page = idx.findPattern(sig, val, tStart, tEnd, { offset: req.offset });
+                if (page.total === 0) { return `"${sig}" never equals "${val}" in [${tStart}, ${tEnd}].`; }
+                const note = pageNote(page, 'Matches', nextCursor(name, req.query, page));
+                return `${note}"${sig}" equals "${val}" at: ${page.items.map(t => `t=${t}`).join(', ')}`;
             }
             case 'count_transitions': {
-                const sig = String(args['signal'] ?? '');
+                const sig = idx.resolveSignal(String(args['signal'] ?? ''));
+                if (sig === null) { return idx.signalNotFound(String(args['signal'] ?? '')); }
                 const tStart = Number(args['t_start'] ?? 0);
                 const tEnd = Number(args['t_end'] ?? idx.endTime);
                 return `"${sig}" has ${idx.countTransitions(sig, tStart, tEnd)} transitions in [${tStart}, ${tEnd}].`;
             }
-            case 'get_edges': {
-                const sig = String(args['signal'] ?? '');
-                const tStart = Number(args['t_start'] ?? 0);
+            case 'signal_stats': {
+                const sigs = idx.resolveSignals((args['signals'] as string[] | undefined) ?? []);
+                if (typeof sigs === 'string') { return sigs; }
+                if (sigs.length === 0) { return 'signals is required.'; }
+                const tStart = Number(args['t_start'] ?? idx.startTime);
                 const tEnd = Number(args['t_end'] ?? idx.endTime);
-                const edgeType = (args['edge_type'] ?? 'any') as 'rising' | 'falling' | 'any';
-                const edges = idx.getEdges(sig, tStart, tEnd, edgeType);
-                if (edges.length === 0) { return `No ${edgeType} edges for "${sig}" in [${tStart}, ${tEnd}].`; }
-                const note = edges.length >= 150 ? `[Capped at 150.]\n` : '';
-                return `${note}${edgeType} edges for "${sig}":\n` + edges.map(e => `t=${e.time}: ${e.value}`).join('\n');
+                const results: string[] = [];
+                for (const sig of sigs) {
+                    const stats = idx.signalStats(sig, tStart, tEnd);
+                    if (typeof stats === 'string') { return stats; }
+                    results.push(formatSignalStats(stats));
+                }
+                return results.join('\n\n');
+            }
+            case 'get_edges': {
+                const req = resumeQuery(idx, name, cursorArg(args), () => {
+                    const sig = idx.resolveSignal(String(args['signal'] ?? ''));
+                    if (sig === null) { return idx.signalNotFound(String(args['signal'] ?? '')); }
+                    return {
+                        signal: sig,
+                        tStart: Number(args['t_start'] ?? 0),
+                        tEnd: Number(args['t_end'] ?? idx.endTime),
+                        edgeType: (args['edge_type'] ?? 'any') as 'rising' | 'falling' | 'any',
+                    };
+                });
+                if (typeof req === 'string') { return req; }
+                const { signal: sig, tStart, tEnd, edgeType } = req.query;
+                if (args['summary'] === true) { return summarizeEdges(idx, sig, tStart, tEnd, edgeType); }
+                const page = idx.getEdges(sig, tStart, tEnd, edgeType, { offset: req.offset });
+                if (page.total === 0) { return `No ${edgeType} edges for "${sig}" in [${tStart}, ${tEnd}].`; }
+                const note = pageNote(page, 'Edges', nextCursor(name, req.query, page));
+                return `${note}${edgeType} edges for "${sig}":\n` + formatEdges(idx, sig, page.items);
+            }
+            case 'list_clocks': {
+                return formatClockReport(idx.getClocking(), idx, 30);
+            }
+            case 'set_clock': {
+                const clock = args['clock'] !== undefined ? String(args['clock']) : undefined;
+                if (!clock) {
+                    const table = idx.getCycleTable();
+                    return table ? `Detected clock: ${table.describe()}` : NO_CLOCK;
+                }
+                const table = idx.setClock({
+                    clock,
+                    edge: args['edge'] as 'rising' | 'falling' | undefined,
+                    reset: args['reset'] !== undefined ? String(args['reset']) : undefined,
+                    resetActive: args['reset_active'] as 'high' | 'low' | undefined,
+                });
+                return typeof table === 'string' ? table : `Clock set: ${table.describe()}`;
+            }
+            case 'sample_on_clock': {
+                const table = idx.getCycleTable();
+                if (!table) { return NO_CLOCK; }
+                const req = resumeQuery(idx, name, cursorArg(args), () => {
+                    const sigs = idx.resolveSignals((args['signals'] as string[] | undefined) ?? []);
+                    if (typeof sigs === 'string') { return sigs; }
+                    return {
+                        signals: sigs,
+                        cycleStart: Number(args['cycle_start'] ?? 0),
+                        cycleEnd: Number(args['cycle_end'] ?? table.lastCycle),
+                        sample: (args['sample'] === 'after' ? 'after' : 'before') as 'before' | 'after',
+                        changesOnly: args['changes_only'] === true,
+                    };
+                });
+                if (typeof req === 'string') { return req; }
+                const { signals: sigs, cycleStart, cycleEnd, sample, changesOnly } = req.query;
+                if (args['summary'] === true) { return summarizeOnClock(idx, table, sigs, cycleStart, cycleEnd, sample); }
+                const page = sampleOnClock(idx, table, sigs, cycleStart, cycleEnd, { sample, changesOnly, offset: req.offset });
+                return formatCycleSamples(table, sigs, page, cycleStart, cycleEnd, nextCursor(name, req.query, page));
+            }
+            case 'time_to_cycle': {
+                const table = idx.getCycleTable();
+                if (!table) { return NO_CLOCK; }
+                const time = Number(args['time'] ?? 0);
+                const c = table.timeToCycle(time);
+                if (!c) { return `t=${time} is before the first ${table.edge} edge of ${table.clock}.`; }
+                return `t=${time} is in cycle ${c.cycle} (edge at t=${c.edgeTime}, +${c.offset} into the cycle; period ${table.period}).`;
+            }
+            case 'cycle_to_time': {
+                const table = idx.getCycleTable();
+                if (!table) { return NO_CLOCK; }
+                const cycle = Number(args['cycle'] ?? 0);
+                const time = table.cycleToTime(cycle);
+                if (time === null) { return `Cycle ${cycle} is outside the dump (cycles ${table.firstCycle}..${table.lastCycle}).`; }
+                return `Cycle ${cycle} starts at t=${time} (${table.edge} edge of ${table.clock}).`;
+            }
+            case 'decode_bus': {
+                const result = decodeBus(idx, String(args['protocol'] ?? '') as BusProtocol, {
+                    prefix: args['prefix'] !== undefined ? String(args['prefix']) : undefined,
+                    roles: args['roles'] as Record<string, string> | undefined,
+                    tStart: args['t_start'] !== undefined ? Number(args['t_start']) : undefined,
+                    tEnd: args['t_end'] !== undefined ? Number(args['t_end']) : undefined,
+                    maxTransactions: args['max_results'] !== undefined ? Number(args['max_results']) : undefined,
+                });
+                return typeof result === 'string' ? result : formatBusDecode(result);
+            }
+            case 'decode_serial': {
+                const num = (key: string) => args[key] !== undefined ? Number(args[key]) : undefined;
+                const result = decodeSerial(idx, String(args['protocol'] ?? '') as SerialProtocol, {
+                    roles: args['roles'] as Record<string, string> | undefined,
+                    prefix: args['prefix'] !== undefined ? String(args['prefix']) : undefined,
+                    tStart: num('t_start'),
+                    tEnd: num('t_end'),
+                    maxFrames: num('max_results'),
+                    baud: num('baud'),
+                    bitTime: num('bit_time'),
+                    dataBits: num('data_bits'),
+                    parity: args['parity'] as 'none' | 'even' | 'odd' | undefined,
+                    stopBits: num('stop_bits'),
+                    invert: args['invert'] === true,
+                    cpol: num('cpol') as 0 | 1 | undefined,
+                    cpha: num('cpha') as 0 | 1 | undefined,
+                    bitsPerWord: num('bits_per_word'),
+                    csActive: args['cs_active'] as 'low' | 'high' | undefined,
+                    msbFirst: args['msb_first'] as boolean | undefined,
+                });
+                return typeof result === 'string' ? result : formatSerialDecode(result);
+            }
+            case 'extract_fsm': {
+                const fsms = extractFsms(idx, {
+                    signals: args['signals'] as string[] | undefined,
+                    encodings: stateEncodings,
+                    tStart: args['t_start'] !== undefined ? Number(args['t_start']) : undefined,
+                    tEnd: args['t_end'] !== undefined ? Number(args['t_end']) : undefined,
+                });
+                if (typeof fsms === 'string') { return fsms; }
+                for (const fsm of fsms) {
+                    if (fsm.states.length > 1) { showDiagram(`FSM ${fsm.signal}`, fsmToSvg(fsm)); }
+                }
+                return fsms.map(formatFsm).join('\n\n');
+            }
+            case 'check_property': {
+                const result = idx.checkProperty(String(args['property'] ?? ''), {
+                    clock: args['clock'] !== undefined ? String(args['clock']) : undefined,
+                    edge: args['edge'] as 'rising' | 'falling' | undefined,
+                    tStart: args['t_start'] !== undefined ? Number(args['t_start']) : undefined,
+                    tEnd: args['t_end'] !== undefined ? Number(args['t_end']) : undefined,
+                    maxFailures: args['max_results'] !== undefined ? Number(args['max_results']) : undefined,
+                });
+                return typeof result === 'string' ? result : formatPropertyCheck(idx, result);
+            }
+            case 'measure_latency': {
+                const result = idx.measureLatency({
+                    start: {
+                        expression: String(args['start'] ?? ''),
+                        edge: args['start_edge'] as EventEdge | undefined,
+                        id: args['id'] !== undefined ? String(args['id']) : undefined,
+                    },
+                    end: {
+                        expression: String(args['end'] ?? ''),
+                        edge: args['end_edge'] as EventEdge | undefined,
+                        id: args['end_id'] !== undefined ? String(args['end_id']) : undefined,
+                    },
+                    tStart: args['t_start'] !== undefined ? Number(args['t_start']) : undefined,
+                    tEnd: args['t_end'] !== undefined ? Number(args['t_end']) : undefined,
+                    maxResults: args['max_results'] !== undefined ? Number(args['max_results']) : undefined,
+                });
+                return typeof result === 'string' ? result : formatLatency(result);
+            }
+            case 'measure_throughput': {
+                const result = idx.measureThroughput({
+                    event: { expression: String(args['event'] ?? ''), edge: args['edge'] as EventEdge | undefined },
+                    data: args['data'] !== undefined ? String(args['data']) : undefined,
+                    bytesPerEvent: args['bytes_per_event'] !== undefined ? Number(args['bytes_per_event']) : undefined,
+                    window: args['window'] !== undefined ? Number(args['window']) : undefined,
+                    tStart: args['t_start'] !== undefined ? Number(args['t_start']) : undefined,
+                    tEnd: args['t_end'] !== undefined ? Number(args['t_end']) : undefined,
+                });
+                return typeof result === 'string' ? result : formatThroughput(result);
+            }
+            case 'define_signal': {
+                const desc = idx.defineSignal(String(args['name'] ?? ''), String(args['expression'] ?? ''));
+                return typeof desc === 'string' ? desc : formatDerivedSignal(idx, desc);
+            }
+            case 'trace_unknown': {
+                const options = {
+                    tStart: args['t_start'] !== undefined ? Number(args['t_start']) : undefined,
+                    drivers: rtlDrivers.size > 0 ? rtlDrivers : undefined,
+                    maxResults: args['max_results'] !== undefined ? Number(args['max_results']) : undefined,
+                };
+                if (args['signal'] === undefined) {
+                    return formatUnknownOnsets(findUnknownOnsets(idx, options));
+                }
+                const result = traceUnknown(idx, String(args['signal']), options);
+                return typeof result === 'string' ? result : formatUnknownTrace(result);
+            }
+            case 'find_cdc': {
+                const report = analyzeCdc(idx, {
+                    registers: rtlRegisters.size > 0 ? rtlRegisters : undefined,
+                    setupWindow: args['setup_window'] !== undefined ? Number(args['setup_window']) : undefined,
+                    maxResults: args['max_results'] !== undefined ? Number(args['max_results']) : undefined,
+                });
+                return typeof report === 'string' ? report : formatCdcReport(report);
+            }
+            case 'find_glitches': {
+                const report = findGlitches(idx, {
+                    signals: args['signals'] as string[] | undefined,
+                    tStart: args['t_start'] !== undefined ? Number(args['t_start']) : undefined,
+                    tEnd: args['t_end'] !== undefined ? Number(args['t_end']) : undefined,
+                    maxWidth: args['max_width'] !== undefined ? Number(args['max_width']) : undefined,
+                    periodFraction: args['period_fraction'] !== undefined ? Number(args['period_fraction']) : undefined,
+                    maxResults: args['max_results'] !== undefined ? Number(args['max_results']) : undefined,
+                });
+                return typeof report === 'string' ? report : formatGlitchReport(report);
+            }
+            case 'toggle_coverage': {
+                const coverage = toggleCoverage(idx, {
+                    scope: args['scope'] !== undefined ? String(args['scope']) : undefined,
+                    tStart: args['t_start'] !== undefined ? Number(args['t_start']) : undefined,
+                    tEnd: args['t_end'] !== undefined ? Number(args['t_end']) : undefined,
+                });
+                if (typeof coverage === 'string') { return coverage; }
+                if (args['format'] === 'table') { return formatToggleTable(coverage); }
+                if (args['format'] === 'json') { return toggleCoverageJson(coverage); }
+                return formatToggleSummary(coverage, args['max_results'] !== undefined ? Number(args['max_results']) : undefined);
+            }
+            case 'diff_waveforms': {
+                const file = String(args['reference_file'] ?? '');
+                if (!file) { return 'reference_file is required.'; }
+                return loadReference(file).then(
+                    ref => {
+                        const diff = diffWaveforms(ref, idx, {
+                            prefixMap: args['prefix_map'] as Record<string, string> | undefined,
+                            signals: args['signals'] as string[] | undefined,
+                            tStart: args['t_start'] !== undefined ? Number(args['t_start']) : undefined,
+                            tEnd: args['t_end'] !== undefined ? Number(args['t_end']) : undefined,
+                            maxDivergences: args['max_results'] !== undefined ? Number(args['max_results']) : undefined,
+                        });
+                        if (typeof diff === 'string') { return diff; }
+                        return formatWaveformDiff(diff, path.basename(file), 'current');
+                    },
+                    err => `Could not load reference waveform "${file}": ${err instanceof Error ? err.message : err}`,
+                );
             }
             case 'decode_instruction': {
                 const val = String(args['value'] ?? '');
@@ -988,6 +1736,13 @@ function getWebviewHtml(): string {
     white-space: pre-wrap;
   }
   .message.assistant .bubble.rendered { white-space: normal; }
+  .message.diagram .bubble { white-space: normal; max-width: 100%; overflow-x: auto; }
+  .message.diagram .diagram-title {
+    font-size: 0.85em;
+    color: var(--vscode-descriptionForeground);
+    margin-bottom: 4px;
+  }
+  .message.diagram svg { display: block; max-width: 100%; height: auto; }
   .message.error .bubble {
     background: var(--vscode-inputValidation-errorBackground);
     color: var(--vscode-inputValidation-errorForeground);
@@ -1124,15 +1879,20 @@ function getWebviewHtml(): string {
   .sp-btn:hover { text-decoration: underline; }
   #signal-picker-list {
     padding: 4px 12px 8px; display: flex; flex-direction: column;
-    gap: 3px; max-height: 150px; overflow-y: auto;
+    gap: 3px; max-height: 240px; overflow-y: auto;
   }
   #signal-picker-list.hidden { display: none; }
-  .signal-item { display: flex; align-items: center; gap: 7px; cursor: pointer; }
-  .signal-item input[type=checkbox] { cursor: pointer; flex-shrink: 0; }
-  .signal-item label {
+  .signal-item, .scope-item { display: flex; align-items: center; gap: 7px; cursor: pointer; }
+  .signal-item input[type=checkbox], .scope-item input[type=checkbox] { cursor: pointer; flex-shrink: 0; }
+  .signal-item label, .scope-item label {
     cursor: pointer; font-family: var(--vscode-editor-font-family, monospace);
     overflow: hidden; text-overflow: ellipsis; white-space: nowrap;
   }
+  .scope-item label { color: var(--vscode-descriptionForeground); }
+  .scope-arrow { width: 10px; flex-shrink: 0; user-select: none; }
+  .scope-children { display: flex; flex-direction: column; gap: 3px; padding-left: 17px; }
+  .scope-children.collapsed { display: none; }
+  .signal-item { padding-left: 17px; }
   #signal-picker-empty {
     color: var(--vscode-descriptionForeground); font-style: italic; padding: 2px 0;
   }
@@ -1212,6 +1972,9 @@ function getWebviewHtml(): string {
   let pickerOpen = false;
   let availableSignals = [];
   let selectedSignals  = new Set();
+  // Scope paths the user collapsed, and every scope seen so far (new scopes of a large list start collapsed)
+  const collapsedScopes = new Set();
+  const knownScopes     = new Set();
 
   function updatePickerHeader() {
     const total    = availableSignals.length;
@@ -1222,7 +1985,115 @@ function getWebviewHtml(): string {
     pickerCtrls.style.display = (pickerOpen && total > 0) ? 'flex' : 'none';
   }
 
+  // Group hierarchical names by scope; a scope with a single child scope and no signals is merged into it
+  function buildSignalTree(signals) {
+    const root = { path: '', label: '', scopes: new Map(), signals: [] };
+    for (const sig of signals) {
+      const parts = sig.split('.');
+      let node = root;
+      for (let i = 0; i < parts.length - 1; i++) {
+        const path = parts.slice(0, i + 1).join('.');
+        let child = node.scopes.get(path);
+        if (!child) {
+          child = { path, label: parts[i], scopes: new Map(), signals: [] };
+          node.scopes.set(path, child);
+        }
+        node = child;
+      }
+      node.signals.push({ name: sig, label: parts[parts.length - 1] });
+    }
+    const merge = node => {
+      for (const [key, child] of node.scopes) {
+        let c = child;
+        while (c.signals.length === 0 && c.scopes.size === 1) {
+          const only = c.scopes.values().next().value;
+          c = { path: only.path, label: c.label + '.' + only.label, scopes: only.scopes, signals: only.signals };
+        }
+        node.scopes.set(key, c);
+        merge(c);
+      }
+    };
+    merge(root);
+    return root;
+  }
+
+  function signalsUnder(node) {
+    const out = node.signals.map(s => s.name);
+    for (const child of node.scopes.values()) { out.push(...signalsUnder(child)); }
+    return out;
+  }
+
+  function renderSignalItem(sig, parent) {
+    const item = document.createElement('div');
+    item.className = 'signal-item';
+    const cb = document.createElement('input');
+    cb.type = 'checkbox';
+    cb.id = 'spck-' + sig.name;
+    cb.checked = selectedSignals.has(sig.name);
+    cb.addEventListener('change', () => {
+      if (cb.checked) { selectedSignals.add(sig.name); } else { selectedSignals.delete(sig.name); }
+      renderSignalList();
+      updatePickerHeader();
+      postSignalSelection();
+    });
+    const lbl = document.createElement('label');
+    lbl.htmlFor = 'spck-' + sig.name;
+    lbl.textContent = sig.label;
+    lbl.title = sig.name;
+    item.appendChild(cb);
+    item.appendChild(lbl);
+    parent.appendChild(item);
+  }
+
+  function renderScope(node, parent) {
+    if (!knownScopes.has(node.path)) {
+      knownScopes.add(node.path);
+      if (availableSignals.length > 50) { collapsedScopes.add(node.path); }
+    }
+    const members = signalsUnder(node);
+    const selected = members.filter(s => selectedSignals.has(s)).length;
+    const collapsed = collapsedScopes.has(node.path);
+
+    const row = document.createElement('div');
+    row.className = 'scope-item';
+    const arrow = document.createElement('span');
+    arrow.className = 'scope-arrow';
+    arrow.textContent = collapsed ? '\u25B8' : '\u25BE';
+    const cb = document.createElement('input');
+    cb.type = 'checkbox';
+    cb.checked = selected === members.length;
+    cb.indeterminate = selected > 0 && selected < members.length;
+    cb.addEventListener('change', () => {
+      for (const s of members) {
+        if (cb.checked) { selectedSignals.add(s); } else { selectedSignals.delete(s); }
+      }
+      renderSignalList();
+      updatePickerHeader();
+      postSignalSelection();
+    });
+    const lbl = document.createElement('label');
+    lbl.textContent = node.label + ' (' + (selected === members.length ? members.length : selected + '/' + members.length) + ')';
+    lbl.title = node.path;
+    const toggle = () => {
+      if (collapsedScopes.has(node.path)) { collapsedScopes.delete(node.path); } else { collapsedScopes.add(node.path); }
+      renderSignalList();
+    };
+    arrow.addEventListener('click', toggle);
+    lbl.addEventListener('click', toggle);
+    row.appendChild(arrow);
+    row.appendChild(cb);
+    row.appendChild(lbl);
+    parent.appendChild(row);
+
+    const children = document.createElement('div');
+    children.className = collapsed ? 'scope-children collapsed' : 'scope-children';
+    for (const child of node.scopes.values()) { renderScope(child, children); }
+    for (const sig of node.signals) { renderSignalItem(sig, children); }
+    parent.appendChild(children);
+  }
+
   function renderSignalList() {
+    const scrollTop = pickerList.scrollTop;
     pickerList.innerHTML = '';
     if (availableSignals.length === 0) {
       const msg = document.createElement('div');
@@ -1231,25 +2102,10 @@ function getWebviewHtml(): string {
       pickerList.appendChild(msg);
       return;
     }
-    for (const sig of availableSignals) {
-      const item = document.createElement('div');
-      item.className = 'signal-item';
-      const cb = document.createElement('input');
-      cb.type = 'checkbox';
-      cb.id = 'spck-' + sig;
-      cb.checked = selectedSignals.has(sig);
-      cb.addEventListener('change', () => {
-        if (cb.checked) { selectedSignals.add(sig); } else { selectedSignals.delete(sig); }
-        updatePickerHeader();
-        postSignalSelection();
-      });
-      const lbl = document.createElement('label');
-      lbl.htmlFor = 'spck-' + sig;
-      lbl.textContent = sig;
-      item.appendChild(cb);
-      item.appendChild(lbl);
-      pickerList.appendChild(item);
-    }
+    const tree = buildSignalTree(availableSignals);
+    for (const child of tree.scopes.values()) { renderScope(child, pickerList); }
+    for (const sig of tree.signals) { renderSignalItem(sig, pickerList); }
+    pickerList.scrollTop = scrollTop;
   }
 
   function postSignalSelection() {
@@ -1403,6 +2259,11 @@ function getWebviewHtml(): string {
       bubble.style.opacity = '0.6';
       scrollToBottom();
       stopEl.style.display = 'block';
+    } else if (msg.type === 'progress') {
+      // Update the collecting bubble while a large waveform is parsed
+      if (streamBubble && !hasContent) {
+        streamBubble.textContent = msg.text;
+      }
     } else if (msg.type === 'stream_start') {
       // Transition the existing bubble (from collecting) into streaming mode
       if (!streamBubble) {
@@ -1454,6 +2315,20 @@ function getWebviewHtml(): string {
       div.appendChild(bubble);
       messagesEl.appendChild(div);
       scrollToBottom();
+    } else if (msg.type === 'diagram') {
+      // Tool-generated SVG (e.g. an FSM graph), shown above the answer being streamed
+      const div = document.createElement('div');
+      div.className = 'message assistant diagram';
+      const bubble = document.createElement('div');
+      bubble.className = 'bubble';
+      const title = document.createElement('div');
+      title.className = 'diagram-title';
+      title.textContent = msg.title;
+      bubble.appendChild(title);
+      bubble.insertAdjacentHTML('beforeend', msg.svg);
+      div.appendChild(bubble);
+      messagesEl.insertBefore(div, streamBubble ? streamBubble.parentElement : null);
+      scrollToBottom();
     } else if (msg.type === 'marker_suggestion') {
       showSuggestionChip(msg.display, msg.query, msg.uri);
     } else if (msg.type === 'clear_suggestions') {
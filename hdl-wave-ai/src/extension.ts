@@ -3,6 +3,12 @@ import * as path from 'path';
 import { ChatPanel } from './chat/panel';
 import { SignalTracker, getActiveDocumentUri } from './vaporview/api';
 import { parseWaveformFile } from './waveform/fst';
+import { WaveformIndex } from './waveform/vcd';
+import { analyzeCdc, formatCdcReport } from './waveform/cdc';
+import { formatClockReport } from './waveform/clocks';
+import { formatToggleSummary, formatToggleTable, toggleCoverage, toggleCoverageJson } from './waveform/coverage';
+import { collectHdlContextSmart } from './hdl/collector';
+import { extractRegisters } from './hdl/parser';
 
 export function activate(context: vscode.ExtensionContext) {
     const log = vscode.window.createOutputChannel('HDL Wave AI');
@@ -27,44 +33,107 @@ export function activate(context: vscode.ExtensionContext) {
         async (contextUri?: vscode.Uri) => {
             // If invoked from the explorer context menu, contextUri is the clicked file.
             // If invoked from the command palette, show a file picker.
-            let fileUri = contextUri;
-            if (!fileUri) {
-                const picked = await vscode.window.showOpenDialog({
-                    canSelectMany: false,
-                    filters: { 'Waveform files': ['fst', 'vcd'] },
-                    title: 'Select a waveform file to analyze',
-                });
-                if (!picked?.length) { return; }
-                fileUri = picked[0];
+            const fileUri = contextUri ?? await pickWaveformFile('Select a waveform file to analyze');
+            if (!fileUri) { return; }
+            const index = await parseWithProgress(fileUri, log);
+            if (index) { ChatPanel.createWithFile(index, path.basename(fileUri.fsPath), tracker, log); }
+        }
+    );
+
+    const cdcReport = vscode.commands.registerCommand(
+        'hdl-wave-ai.cdcReport',
+        async (contextUri?: vscode.Uri) => {
+            const fileUri = contextUri ?? await pickWaveformFile('Select a waveform file for the CDC report');
+            if (!fileUri) { return; }
+            const index = await parseWithProgress(fileUri, log);
+            if (!index) { return; }
+            // Registers come from the workspace RTL; without it, crossings are inferred from the waveform
+            const hdl = await collectHdlContextSmart(index.signals, log);
+            const report = analyzeCdc(index, { registers: hdl ? extractRegisters(hdl) : undefined, maxResults: Infinity });
+            const title = path.basename(fileUri.fsPath);
+            const text = [
+                `# CDC report: ${title}`,
+                '',
+                `Waveform: ${fileUri.fsPath}  `,
+                `Generated: ${new Date().toISOString()}`,
+                '',
+                '## Clocks',
+                '',
+                '```text',
+                formatClockReport(index.getClocking(), index, Infinity),
+                '```',
+                '',
+                '## Crossings',
+                '',
+                '```text',
+                typeof report === 'string' ? report : formatCdcReport(report),
+                '```',
+                '',
+            ].join('\n');
+            const out = vscode.Uri.file(fileUri.fsPath.replace(/\.[^./\\]+$/, '') + '.cdc.md');
+            try {
+                await vscode.workspace.fs.writeFile(out, Buffer.from(text, 'utf8'));
+            } catch (err) {
+                const msg = err instanceof Error ? err.message : String(err);
+                log.appendLine(`[CDC] Error writing ${out.fsPath}: ${msg}`);
+                vscode.window.showErrorMessage(`HDL Wave AI: ${msg}`);
+                return;
             }
+            log.appendLine(`[CDC] Wrote ${out.fsPath}`);
+            await vscode.window.showTextDocument(out);
+        }
+    );
 
-            const filePath = fileUri.fsPath;
-            const title = path.basename(filePath);
-
-            await vscode.window.withProgress(
-                { location: vscode.ProgressLocation.Notification, title: `Parsing ${title}…`, cancellable: false },
-                async () => {
-                    try {
-                        const result = await parseWaveformFile(filePath);
-                        log.appendLine(`[File] Parsed ${title}: ${result.signals.length} signals, ${result.transitions.length} transitions, end=${result.endTime} ${result.timescale}`);
-
-                        const ctx = {
-                            uri: fileUri!.toString(),
-                            signals: result.signals,
-                            transitions: result.transitions,
-                            startTime: 0,
-                            endTime: result.endTime,
-                            timescale: result.timescale,
-                        };
-
-                        ChatPanel.createWithFile(ctx, title, tracker, log);
-                    } catch (err) {
-                        const msg = err instanceof Error ? err.message : String(err);
-                        log.appendLine(`[File] Error parsing ${title}: ${msg}`);
-                        vscode.window.showErrorMessage(`HDL Wave AI: ${msg}`);
-                    }
-                }
-            );
+    const toggleReport = vscode.commands.registerCommand(
+        'hdl-wave-ai.toggleCoverage',
+        async (contextUri?: vscode.Uri) => {
+            const fileUri = contextUri ?? await pickWaveformFile('Select a waveform file for the toggle coverage report');
+            if (!fileUri) { return; }
+            const scope = await vscode.window.showInputBox({
+                title: 'Toggle coverage scope',
+                prompt: 'Only count signals below this scope (leave empty for the whole design)',
+                placeHolder: 'e.g. tb.dut',
+            });
+            if (scope === undefined) { return; }
+            const index = await parseWithProgress(fileUri, log);
+            if (!index) { return; }
+            const coverage = toggleCoverage(index, { scope: scope.trim() || undefined });
+            if (typeof coverage === 'string') {
+                vscode.window.showErrorMessage(`HDL Wave AI: ${coverage}`);
+                return;
+            }
+            const title = path.basename(fileUri.fsPath);
+            const text = [
+                `# Toggle coverage: ${title}`,
+                '',
+                `Waveform: ${fileUri.fsPath}  `,
+                `Generated: ${new Date().toISOString()}`,
+                '',
+                '## Summary',
+                '',
+                '```text',
+                formatToggleSummary(coverage, Infinity),
+                '```',
+                '',
+                '## Signals',
+                '',
+                formatToggleTable(coverage),
+                '',
+            ].join('\n');
+            const base = fileUri.fsPath.replace(/\.[^./\\]+$/, '');
+            const md = vscode.Uri.file(base + '.toggle.md');
+            const json = vscode.Uri.file(base + '.toggle.json');
+            try {
+                await vscode.workspace.fs.writeFile(md, Buffer.from(text, 'utf8'));
+                await vscode.workspace.fs.writeFile(json, Buffer.from(toggleCoverageJson(coverage), 'utf8'));
+            } catch (err) {
+                const msg = err instanceof Error ? err.message : String(err);
+                log.appendLine(`[Coverage] Error writing ${md.fsPath}: ${msg}`);
+                vscode.window.showErrorMessage(`HDL Wave AI: ${msg}`);
+                return;
+            }
+            log.appendLine(`[Coverage] Wrote ${md.fsPath} and ${json.fsPath}`);
+            await vscode.window.showTextDocument(md);
         }
     );
 
@@ -163,7 +232,66 @@ export function activate(context: vscode.ExtensionContext) {
     }
     if (markerSub) { context.subscriptions.push(markerSub); }
 
-    context.subscriptions.push(openChat, openChatWithFile, debug, tracker, log);
+    context.subscriptions.push(openChat, openChatWithFile, cdcReport, toggleReport, debug, tracker, log);
 }
 
 export function deactivate() {}
+
+/** Ask for a waveform file when a command is run from the command palette. */
+async function pickWaveformFile(title: string): Promise<vscode.Uri | undefined> {
+    const picked = await vscode.window.showOpenDialog({
+        canSelectMany: false,
+        filters: { 'Waveform files': ['fst', 'vcd', 'ghw', 'evcd'] },
+        title,
+    });
+    return picked?.[0];
+}
+
+/** Parse a waveform with a cancellable progress notification. Returns null when cancelled or on error (already reported). */
+async function parseWithProgress(fileUri: vscode.Uri, log: vscode.OutputChannel): Promise<WaveformIndex | null> {
+    const filePath = fileUri.fsPath;
+    const title = path.basename(filePath);
+    return vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: `Parsing ${title}…`, cancellable: true },
+        async (progress, token) => {
+            const controller = new AbortController();
+            const cancellation = token.onCancellationRequested(() => controller.abort());
+            let reported = 0;
+            const onProgress = (bytesRead: number, totalBytes: number) => {
+                if (!totalBytes) { return; }
+                const pct = Math.floor((bytesRead / totalBytes) * 100);
+                if (pct > reported) {
+                    progress.report({ increment: pct - reported, message: `${pct}%` });
+                    reported = pct;
+                }
+            };
+            try {
+                const cache = vscode.workspace.getConfiguration('hdlWaveAi').get<boolean>('waveform.indexCache', true);
+                const result = await parseWaveformFile(filePath, {
+                    signal: controller.signal,
+                    onProgress,
+                    onWarning: message => log.appendLine(`[File] ${message}`),
+                    cache,
+                });
+                log.appendLine(`[File] Parsed ${title}: ${result.signals.length} signals, ${result.transitionCount} transitions, end=${result.endTime} ${result.timescale}`);
+
+                return new WaveformIndex({
+                    ...result,
+                    uri: fileUri.toString(),
+                    startTime: 0,
+                });
+            } catch (err) {
+                if (controller.signal.aborted) {
+                    log.appendLine(`[File] Parsing ${title} cancelled`);
+                    return null;
+                }
+                const msg = err instanceof Error ? err.message : String(err);
+                log.appendLine(`[File] Error parsing ${title}: ${msg}`);
+                vscode.window.showErrorMessage(`HDL Wave AI: ${msg}`);
+                return null;
+            } finally {
+                cancellation.dispose();
+            }
+        }
+    );
+}
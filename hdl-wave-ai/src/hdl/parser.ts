@@ -129,4 +129,330 @@ export function findRelevantModules(
         parts.push(`\n### ${item.filePath} — \`module ${item.mod.name}\` (score: ${item.score})\n\`\`\`verilog\n${content}\n\`\`\``);
     }
     return parts.join('\n');
-}
\ No newline at end of file
+}
+
+/** A set of named state values declared in RTL. */
+export interface StateEncoding {
+    /** Enum type name, or the first constant of a localparam group */
+    name: string;
+    /** Where it came from: "typedef enum", "enum", "localparam", "parameter" or "vhdl type" */
+    source: string;
+    /** State names with their values; VHDL enumeration values are positions */
+    states: { name: string; value: number }[];
+    /** Signals declared with the type or assigned one of its states */
+    signals: string[];
+}
+
+/**
+ * Value of a Verilog integer literal: 5, 2'd1, 3'b001, 'hF, 8'h0_f.
+ * Null for literals with x/z bits or anything that is not a plain number.
+ */
+export function parseVerilogNumber(text: string): number | null {
+    const t = text.replace(/_/g, '').trim();
+    const based = /^(\d*)\s*'[sS]?([bodhBODH])\s*([0-9a-fA-F]+)$/.exec(t);
+    if (based) {
+        const radix = { b: 2, o: 8, d: 10, h: 16 }[based[2].toLowerCase() as 'b' | 'o' | 'd' | 'h'];
+        const value = parseInt(based[3], radix);
+        return Number.isNaN(value) ? null : value;
+    }
+    return /^\d+$/.test(t) ? parseInt(t, 10) : null;
+}
+
+/** Comments replaced by spaces, so offsets and declarations survive. */
+function stripComments(text: string): string {
+    return text
+        .replace(/\/\*[\s\S]*?\*\//g, m => m.replace(/[^\n]/g, ' '))
+        .replace(/\/\/[^\n]*/g, m => ' '.repeat(m.length))
+        .replace(/--[^\n]*/g, m => ' '.repeat(m.length));
+}
+
+/** Members of an enum body: "A, B = 2'd3, C" → A=0, B=3, C=4. */
+function parseEnumMembers(body: string): { name: string; value: number }[] | null {
+    const states: { name: string; value: number }[] = [];
+    let next = 0;
+    for (const item of body.split(',')) {
+        const m = /^\s*(\w+)\s*(?:=\s*([^,]+?))?\s*$/.exec(item);
+        if (!m) { return null; }
+        if (m[2] !== undefined) {
+            const value = parseVerilogNumber(m[2]);
+            if (value === null) { return null; }
+            next = value;
+        }
+        states.push({ name: m[1], value: next++ });
+    }
+    return states.length >= 2 ? states : null;
+}
+
+/** Signals assigned one of `names` (state <= IDLE; next = RUN;) or compared in a case on them. */
+function signalsUsing(text: string, names: string[]): string[] {
+    const alt = names.map(n => n.replace(/\W/g, '')).join('|');
+    const found = new Set<string>();
+    const assign = new RegExp(`\\b(\\w+)\\s*<?=\\s*(?:${alt})\\s*;`, 'g');
+    let m: RegExpExecArray | null;
+    while ((m = assign.exec(text)) !== null) { found.add(m[1]); }
+    const compare = new RegExp(`\\b(\\w+)\\s*(?:==|!=)\\s*(?:${alt})\\b`, 'g');
+    while ((m = compare.exec(text)) !== null) { found.add(m[1]); }
+    return [...found];
+}
+
+/**
+ * Find state encodings in Verilog/SystemVerilog/VHDL source: enum types
+ * (typedef'd or anonymous) and the signals declared with them, groups of
+ * localparam/parameter constants declared together, and VHDL enumeration
+ * types. Used to name the values of state registers in a waveform.
+ */
+export function extractStateEncodings(source: string): StateEncoding[] {
+    const text = stripComments(source);
+    const encodings: StateEncoding[] = [];
+    let m: RegExpExecArray | null;
+
+    // typedef enum logic [1:0] { IDLE, RUN = 2'd2 } state_t;  /  enum { A, B } state, next;
+    const enumRe = /\b(typedef\s+)?enum\b[^{;]*\{([^}]*)\}\s*([\w\s,]*?)\s*;/g;
+    while ((m = enumRe.exec(text)) !== null) {
+        const states = parseEnumMembers(m[2]);
+        if (!states) { continue; }
+        const names = m[3].split(',').map(s => s.trim()).filter(Boolean);
+        if (m[1]) {
+            const typeName = names[0];
+            if (!typeName) { continue; }
+            const signals = new Set<string>();
+            const declRe = new RegExp(`\\b${typeName}\\s+(\\w+(?:\\s*,\\s*\\w+)*)\\s*[;=]`, 'g');
+            let d: RegExpExecArray | null;
+            while ((d = declRe.exec(text)) !== null) {
+                for (const s of d[1].split(',')) { signals.add(s.trim()); }
+            }
+            encodings.push({ name: typeName, source: 'typedef enum', states, signals: [...signals] });
+        } else {
+            encodings.push({ name: names[0] ?? states[0].name, source: 'enum', states, signals: names });
+        }
+    }
+
+    // localparam [1:0] IDLE = 2'd0, RUN = 2'd1;  — consecutive statements form one group
+    const paramRe = /\b(localparam|parameter)\b([^;]*);/g;
+    let group: { source: string; states: { name: string; value: number }[]; end: number } | null = null;
+    const flush = () => {
+        if (group && group.states.length >= 2 && new Set(group.states.map(s => s.value)).size === group.states.length) {
+            const names = group.states.map(s => s.name);
+            encodings.push({ name: names[0], source: group.source, states: group.states, signals: signalsUsing(text, names) });
+        }
+        group = null;
+    };
+    while ((m = paramRe.exec(text)) !== null) {
+        if (group && text.slice(group.end, m.index).trim() !== '') { flush(); }
+        // Drop a type and range (integer, logic [3:0]), not the first constant's name
+        const body = m[2].replace(/^\s*(?:\w+\s+(?![\s=]))?(?:\[[^\]]*\]\s*)?/, '');
+        const states: { name: string; value: number }[] = [];
+        for (const item of body.split(',')) {
+            const a = /^\s*(\w+)\s*=\s*(.+?)\s*$/.exec(item);
+            const value = a ? parseVerilogNumber(a[2]) : null;
+            if (a && value !== null) { states.push({ name: a[1], value }); }
+        }
+        if (states.length === 0) { flush(); continue; }
+        group ??= { source: m[1], states: [], end: 0 };
+        group.states.push(...states);
+        group.end = m.index + m[0].length;
+    }
+    flush();
+
+    // type state_t is (IDLE, RUN, DONE);  signal state, next_state : state_t;
+    const vhdlRe = /\btype\s+(\w+)\s+is\s*\(([^)]*)\)\s*;/gi;
+    while ((m = vhdlRe.exec(text)) !== null) {
+        const names = m[2].split(',').map(s => s.trim());
+        if (names.length < 2 || !names.every(n => /^\w+$/.test(n))) { continue; }
+        const signals: string[] = [];
+        const declRe = new RegExp(`\\bsignal\\s+(\\w+(?:\\s*,\\s*\\w+)*)\\s*:\\s*${m[1]}\\b`, 'gi');
+        let d: RegExpExecArray | null;
+        while ((d = declRe.exec(text)) !== null) {
+            signals.push(...d[1].split(',').map(s => s.trim()));
+        }
+        encodings.push({ name: m[1], source: 'vhdl type', states: names.map((name, value) => ({ name, value })), signals });
+    }
+    return encodings;
+}
+
+/**
+ * Fan-in of RTL signals: each assigned name mapped to the identifiers it is
+ * computed from. Keys and values are relative to the enclosing module, so
+ * "u_fifo.din" names port din of instance u_fifo.
+ */
+export type SignalDrivers = Map<string, Set<string>>;
+
+const HDL_KEYWORDS = new Set([
+    // Verilog / SystemVerilog
+    'assign', 'always', 'always_ff', 'always_comb', 'always_latch', 'initial', 'begin', 'end', 'if', 'else', 'case', 'casez', 'casex',
+    'endcase', 'default', 'posedge', 'negedge', 'or', 'and', 'not', 'for', 'while', 'wire', 'reg', 'logic', 'bit', 'integer',
+    'signed', 'unsigned', 'localparam', 'parameter', 'input', 'output', 'inout', 'unique', 'priority',
+    // VHDL
+    'when', 'others', 'elsif', 'then', 'is', 'process', 'xor', 'nor', 'nand', 'xnor', 'downto', 'to', 'signal', 'variable',
+    'rising_edge', 'falling_edge', 'std_logic', 'std_logic_vector', 'unsigned', 'resize', 'to_integer', 'to_unsigned', 'open',
+]);
+
+/** Identifiers read by an expression, ignoring literals, keywords and system functions. */
+function readIdentifiers(expr: string): string[] {
+    const clean = expr
+        .replace(/\d*\s*'[sS]?[bBoOdDhH]\s*[0-9a-fA-FxXzZ?_]+/g, ' ')
+        .replace(/\$\w+/g, ' ')
+        .replace(/"[^"]*"|'.'/g, ' ')
+        // VHDL attributes: clk'event, v'length
+        .replace(/'[A-Za-z_]\w*/g, ' ');
+    return (clean.match(/\b[A-Za-z_]\w*\b/g) ?? []).filter(id => !HDL_KEYWORDS.has(id.toLowerCase()));
+}
+
+/** Index just past the parenthesis that closes the one at `open`. */
+function closingParen(text: string, open: number): number {
+    let depth = 0;
+    for (let i = open; i < text.length; i++) {
+        if (text[i] === '(') { depth++; }
+        if (text[i] === ')' && --depth === 0) { return i + 1; }
+    }
+    return text.length;
+}
+
+/**
+ * Build the fan-in of every signal assigned in Verilog/SystemVerilog/VHDL
+ * source: continuous and procedural assignments (with the if/case
+ * conditions of their always block or process), initialised declarations,
+ * and instance port connections, which are recorded in both directions
+ * because the port direction is not known here.
+ */
+export function extractSignalDrivers(source: string): SignalDrivers {
+    const drivers: SignalDrivers = new Map();
+    const add = (lhs: string, ids: Iterable<string>) => {
+        let set = drivers.get(lhs);
+        for (const id of ids) {
+            if (id === lhs) { continue; }
+            if (!set) { set = new Set(); drivers.set(lhs, set); }
+            set.add(id);
+        }
+    };
+    const text = stripComments(source);
+
+    // Instance port connections: foo #(…) u_foo (.a(x), .b(y));  /  u_foo : entity work.foo port map (a => x);
+    const instRe = /\b\w+\s*(?:#\s*\((?:[^()]|\([^()]*\))*\)\s*)?(\w+)\s*\(\s*\./g;
+    const vhdlInstRe = /\b(\w+)\s*:\s*(?:entity\s+[\w.]+|component\s+\w+|\w+)(?:\s+generic\s+map\s*\((?:[^()]|\([^()]*\))*\))?\s+port\s+map\s*\(/gi;
+    let m: RegExpExecArray | null;
+    const connect = (inst: string, port: string, expr: string) => {
+        const ids = readIdentifiers(expr);
+        add(`${inst}.${port}`, ids);
+        for (const id of ids) { add(id, [`${inst}.${port}`]); }
+    };
+    while ((m = instRe.exec(text)) !== null) {
+        const open = m.index + m[0].length - 2;
+        const body = text.slice(open + 1, closingParen(text, open) - 1);
+        const portRe = /\.(\w+)\s*\(((?:[^()]|\([^()]*\))*)\)/g;
+        let p: RegExpExecArray | null;
+        while ((p = portRe.exec(body)) !== null) { connect(m[1], p[1], p[2]); }
+    }
+    while ((m = vhdlInstRe.exec(text)) !== null) {
+        const open = m.index + m[0].length - 1;
+        const body = text.slice(open + 1, closingParen(text, open) - 1);
+        for (const item of body.split(',')) {
+            const a = /^\s*(\w+)(?:\s*\([^)]*\))?\s*=>\s*([\s\S]+?)\s*$/.exec(item);
+            if (a) { connect(m[1], a[1], a[2]); }
+        }
+    }
+
+    // Assignments, block by block so if/case conditions reach every assignment in their block
+    for (const block of splitBlocks(text)) {
+        const { conditions, assignments } = parseBlock(block);
+        for (const a of assignments) { add(a.lhs, [...a.ids, ...conditions]); }
+    }
+    return drivers;
+}
+
+/** A register: a signal assigned in a clocked always block or process. */
+export interface RegisterInfo {
+    /** Clock of the block */
+    clock: string;
+    edge: 'rising' | 'falling';
+    /** Identifiers on the right-hand side of its assignments */
+    data: Set<string>;
+    /** Identifiers in the if/case conditions of its block (enables, synchronous resets), other than the clock */
+    conditions: Set<string>;
+    /** Asynchronous resets from the sensitivity list */
+    asyncResets: Set<string>;
+}
+
+/** Registers by name, as assigned in the source. */
+export type RegisterMap = Map<string, RegisterInfo>;
+
+/**
+ * Find the registers in Verilog/SystemVerilog/VHDL source: signals assigned
+ * in always blocks with a posedge/negedge sensitivity list and in processes
+ * using rising_edge/falling_edge (or clk'event). Together with the data
+ * inputs this is enough to recognise flop chains such as two-flop
+ * synchronizers.
+ */
+export function extractRegisters(source: string): RegisterMap {
+    const registers: RegisterMap = new Map();
+    for (const block of splitBlocks(stripComments(source))) {
+        let clock: { name: string; edge: 'rising' | 'falling' } | null = null;
+        const asyncResets = new Set<string>();
+        const sensitivity = /^always\w*\s*@\s*\(((?:[^()]|\([^()]*\))*)\)/i.exec(block);
+        if (sensitivity) {
+            const edges = [...sensitivity[1].matchAll(/\b(posedge|negedge)\s+([A-Za-z_]\w*)/gi)]
+                .map(e => ({ name: e[2], edge: e[1].toLowerCase() === 'posedge' ? 'rising' as const : 'falling' as const }));
+            // The clock is the edge that is not a reset; the rest are asynchronous resets
+            clock = edges.find(e => !/rst|reset/i.test(e.name)) ?? edges[0] ?? null;
+            for (const e of edges) { if (e !== clock) { asyncResets.add(e.name); } }
+        } else if (/^process\b/i.test(block)) {
+            const fn = /\b(rising_edge|falling_edge)\s*\(\s*(\w+)\s*\)/i.exec(block);
+            const event = /\b(\w+)'event\s+and\s+(\w+)\s*=\s*'([01])'/i.exec(block);
+            if (fn) {
+                clock = { name: fn[2], edge: fn[1].toLowerCase() === 'rising_edge' ? 'rising' : 'falling' };
+            } else if (event && event[1] === event[2]) {
+                clock = { name: event[1], edge: event[3] === '1' ? 'rising' : 'falling' };
+            }
+            // Everything else in the sensitivity list of a clocked process is an asynchronous reset
+            const list = /^process\s*\(([^)]*)\)/i.exec(block);
+            for (const id of list ? readIdentifiers(list[1]) : []) {
+                if (id !== clock?.name) { asyncResets.add(id); }
+            }
+        }
+        if (!clock) { continue; }
+        const { conditions, assignments } = parseBlock(block);
+        for (const a of assignments) {
+            let reg = registers.get(a.lhs);
+            if (!reg) {
+                reg = { clock: clock.name, edge: clock.edge, data: new Set(), conditions: new Set(), asyncResets: new Set(asyncResets) };
+                registers.set(a.lhs, reg);
+            }
+            for (const id of a.ids) { if (id !== a.lhs) { reg.data.add(id); } }
+            for (const id of conditions) { if (id !== clock.name) { reg.conditions.add(id); } }
+        }
+    }
+    return registers;
+}
+
+/** Source cut into always/initial/assign/process blocks, so each block's conditions stay with its assignments. */
+function splitBlocks(text: string): string[] {
+    return text.split(/\b(?=always\w*\b|initial\b|assign\b|process\b|endmodule\b|end\s+process\b)/i);
+}
+
+/** The if/case conditions of a block and each assignment in it with the identifiers it reads. */
+function parseBlock(block: string): { conditions: string[]; assignments: { lhs: string; ids: string[] }[] } {
+    const conditions: string[] = [];
+    // Take conditions and sensitivity lists out, so "<=" in them is not read as an assignment
+    let body = block.replace(/@\s*\*/g, ' ');
+    for (const kw of [/@\s*\(/g, /\b(?:if|case[zx]?|while|for)\s*\(/gi]) {
+        let k: RegExpExecArray | null;
+        while ((k = kw.exec(body)) !== null) {
+            const open = k.index + k[0].length - 1;
+            const close = closingParen(body, open);
+            if (!k[0].startsWith('@')) { conditions.push(body.slice(open + 1, close - 1)); }
+            body = body.slice(0, open) + ' '.repeat(close - open) + body.slice(close);
+        }
+    }
+    body = body.replace(/\b(?:if|elsif|case)\b([\s\S]*?)\b(then|is)\b/gi, (_, cond: string) => {
+        conditions.push(cond);
+        return ' ';
+    });
+    const assignments: { lhs: string; ids: string[] }[] = [];
+    const assignRe = /([A-Za-z_]\w*)\s*(?:\[[^\]]*\]\s*)*(?:\([^()]*\)\s*)?(?<![=!<>:])(?:<=|:=|=)(?![=>])([^;]*);/g;
+    let a: RegExpExecArray | null;
+    while ((a = assignRe.exec(body)) !== null) {
+        if (HDL_KEYWORDS.has(a[1].toLowerCase())) { continue; }
+        assignments.push({ lhs: a[1], ids: readIdentifiers(a[2]) });
+    }
+    return { conditions: [...new Set(conditions.flatMap(readIdentifiers))], assignments };
+}
@@ -19,13 +19,33 @@ import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js"
 import { z } from "zod";
 import { WaveformIndex } from "../waveform/vcd";
 import { parseWaveformFile } from "../waveform/fst";
-import { findRelevantModules } from "../hdl/parser";
+import { diffWaveforms, formatWaveformDiff } from "../waveform/diff";
+import { formatCycleSamples, sampleOnClock, summarizeOnClock } from "../waveform/cycles";
+import { cursorWaveform, formatEdges, nextCursor, PAGE_SIZE, pageNote, resumeQuery, summarizeEdges, summarizePattern, summarizeTransitions, takePage } from "../waveform/paging";
+import { formatScopes } from "../waveform/hierarchy";
+import { formatSignalStats } from "../waveform/stats";
+import { formatLatency, formatThroughput } from "../waveform/latency";
+import { formatClockReport } from "../waveform/clocks";
+import { analyzeCdc, formatCdcReport } from "../waveform/cdc";
+import { formatToggleSummary, formatToggleTable, toggleCoverage, toggleCoverageJson } from "../waveform/coverage";
+import { findGlitches, formatGlitchReport } from "../waveform/glitch";
+import { BUS_PROTOCOLS, BusProtocol, decodeBus, formatBusDecode } from "../waveform/bus";
+import { decodeSerial, formatSerialDecode, SERIAL_PROTOCOLS, SerialProtocol } from "../waveform/serial";
+import { extractFsms, formatFsm, fsmToMermaid } from "../waveform/fsm";
+import { formatPropertyCheck } from "../waveform/sva";
+import { formatDerivedSignal } from "../waveform/derived";
+import { findUnknownOnsets, formatUnknownOnsets, formatUnknownTrace, traceUnknown } from "../waveform/unknown";
+import { extractRegisters, extractSignalDrivers, extractStateEncodings, findRelevantModules } from "../hdl/parser";
 import { decodeInstruction, initDecoder, IsaName } from "../isa/decoder";
 import * as fs from "fs";
+import {
+    addWaveform, defaultWaveformName, getWaveform, loadedWaveforms, unloadWaveform, waveformNameFor,
+} from "./waveforms";
 
-let waveformIndex: WaveformIndex | null = null;
-
-const TRANSITION_CAP = 150;
+const NO_CLOCK = "No clock detected. Call set_clock with the clock signal name.";
+const CURSOR_ARG = z.string().optional().describe("Cursor from a previous page of this tool; continues that query on the same waveform (the other arguments are ignored)");
+const SUMMARY_ARG = z.boolean().optional().describe("Return run-length stats instead of samples (default false)");
+const EVENT_EDGE = z.enum(["rising", "falling", "any", "cycle"]);
 
 /** Pattern matching common instruction bus signal names. */
 const INSTRUCTION_SIGNAL_RE = /\b(inst(r|ruction)?(_s\d+)?|idata\d?|im_data|opcode|ir\b|if_instr|id_instr|rom_byte)\b/i;
@@ -45,6 +65,29 @@ function autoDecodeInstruction(signalName: string, value: string): string {
     return "";
 }
 
+const WAVEFORM_ARG = z.string().optional()
+    .describe("Name of a loaded waveform (see list_waveforms). Defaults to the most recently loaded one.");
+
+/**
+ * Resolve the waveform of a paged tool call. A cursor records the waveform
+ * it pages through, so a call with only a cursor continues there rather
+ * than on the default; naming a different waveform is an error.
+ */
+function getPagedWaveform(name: string | undefined, cursor: string | undefined): { name: string; index: WaveformIndex } | string {
+    const issued = cursor !== undefined ? cursorWaveform(cursor) : undefined;
+    if (issued !== undefined) {
+        if (name !== undefined && name !== issued) {
+            return `This cursor pages through waveform "${issued}", not "${name}". Omit waveform or start a new query.`;
+        }
+        if (!loadedWaveforms().has(issued)) {
+            return `This cursor pages through waveform "${issued}", which is no longer loaded.`;
+        }
+    }
+    const key = issued ?? name ?? defaultWaveformName() ?? undefined;
+    const index = getWaveform(key);
+    return typeof index === "string" ? index : { name: key!, index };
+}
+
 const server = new McpServer({
     name: "hdl-wave-ai",
     version: "0.1.0",
@@ -55,46 +98,218 @@ const server = new McpServer({
 server.registerTool(
     "load_waveform",
     {
-        description: "Load a VCD or FST waveform file for analysis. Replaces any previously loaded waveform.",
+        description: "Load a VCD, FST, GHW (GHDL) or EVCD waveform file for analysis under a name. Several waveforms can be loaded at once (e.g. a failing run and a golden run); the most recently loaded one is the default for the query tools. Loading under an existing name replaces that waveform.",
         inputSchema: {
-            file_path: z.string().describe("Absolute path to a .vcd or .fst file"),
+            file_path: z.string().describe("Absolute path to a .vcd, .fst, .ghw or .evcd file"),
+            name: z.string().optional().describe("Name to refer to this waveform by (default: the file's base name)"),
         },
     },
-    async ({ file_path }) => {
+    async ({ file_path, name }, extra) => {
         if (!fs.existsSync(file_path)) {
             return { content: [{ type: "text" as const, text: `File not found: ${file_path}` }] };
         }
-        const result = await parseWaveformFile(file_path);
-        waveformIndex = new WaveformIndex({
+        // Report parse progress when the client asked for it
+        const progressToken = extra._meta?.progressToken;
+        let reported = -1;
+        const result = await parseWaveformFile(file_path, {
+            signal: extra.signal,
+            onWarning: message => console.error(message),
+            onProgress: (bytesRead, totalBytes) => {
+                if (progressToken === undefined || !totalBytes) { return; }
+                const pct = Math.floor((bytesRead / totalBytes) * 100);
+                if (pct === reported) { return; }
+                reported = pct;
+                extra.sendNotification({
+                    method: "notifications/progress",
+                    params: { progressToken, progress: bytesRead, total: totalBytes },
+                }).catch(() => { /* client went away */ });
+            },
+        });
+        const idx = new WaveformIndex({
             ...result,
             uri: file_path,
             startTime: 0,
         });
+        const waveformName = name ?? waveformNameFor(file_path);
+        addWaveform(waveformName, idx);
         const text =
-            `Loaded ${file_path}\n` +
-            `  Signals: ${waveformIndex.signals.length}\n` +
-            `  Transitions: ${result.transitions.length}\n` +
-            `  Time range: 0 – ${waveformIndex.endTime}\n` +
-            `  Timescale: ${waveformIndex.timescale}`;
+            `Loaded ${file_path} as "${waveformName}" (now the default waveform)\n` +
+            `  Signals: ${idx.signals.length}\n` +
+            `  Transitions: ${result.transitionCount}\n` +
+            `  Time range: 0 – ${idx.endTime}\n` +
+            (idx.timeOrigin !== 0n
+                ? `  Time origin: ${idx.timeOrigin} (all times are offsets from this)\n`
+                : "") +
+            `  Timescale: ${idx.timescale}\n` +
+            `  Clock: ${idx.getCycleTable()?.describe() ?? "none detected (use set_clock)"}\n` +
+            `  Waveforms loaded: ${loadedWaveforms().size}`;
         console.error(text);
         return { content: [{ type: "text" as const, text }] };
     }
 );
 
-// ── list_signals ─────────────────────────────────────────────────────────────
+// ── list_waveforms ───────────────────────────────────────────────────────────
 
 server.registerTool(
-    "list_signals",
+    "list_waveforms",
     {
-        description: "List all signals in the loaded waveform with their transition counts.",
+        description: "List the loaded waveforms with their names, files, signal and transition counts, time ranges and timescales. The default waveform is marked.",
         inputSchema: {},
     },
     async () => {
-        if (!waveformIndex) {
+        if (loadedWaveforms().size === 0) {
             return { content: [{ type: "text" as const, text: "No waveform loaded. Call load_waveform first." }] };
         }
-        const signals = waveformIndex.listSignals();
-        return { content: [{ type: "text" as const, text: JSON.stringify(signals, null, 2) }] };
+        const list = [...loadedWaveforms()].map(([name, idx]) => ({
+            name,
+            file: idx.uri,
+            default: name === defaultWaveformName(),
+            signals: idx.signals.length,
+            transitions: idx.transitionCount,
+            endTime: idx.endTime,
+            timescale: idx.timescale,
+            ...(idx.timeOrigin !== 0n ? { timeOrigin: idx.timeOrigin.toString() } : {}),
+        }));
+        return { content: [{ type: "text" as const, text: JSON.stringify(list, null, 2) }] };
+    }
+);
+
+// ── unload_waveform ──────────────────────────────────────────────────────────
+
+server.registerTool(
+    "unload_waveform",
+    {
+        description: "Unload a waveform and release its memory. If it was the default, the most recently loaded remaining waveform becomes the default.",
+        inputSchema: {
+            waveform: z.string().describe("Name of the waveform to unload (see list_waveforms)"),
+        },
+    },
+    async ({ waveform }) => {
+        if (!unloadWaveform(waveform)) {
+            const names = [...loadedWaveforms().keys()];
+            const loaded = names.length ? ` Loaded: ${names.join(", ")}.` : "";
+            return { content: [{ type: "text" as const, text: `Unknown waveform "${waveform}".${loaded}` }] };
+        }
+        const defaultName = defaultWaveformName();
+        const text = `Unloaded "${waveform}".` +
+            (defaultName ? ` Default waveform: "${defaultName}".` : " No waveforms loaded.");
+        return { content: [{ type: "text" as const, text }] };
+    }
+);
+
+// ── list_signals ─────────────────────────────────────────────────────────────
+
+server.registerTool(
+    "list_signals",
+    {
+        description: "List signals in the loaded waveform with their transition counts, declared type, width, bit range and aliases, 200 per page. With scope, only the signals directly in that scope (or below it with recursive). For large designs, browse with list_scopes or search_signals first.",
+        inputSchema: {
+            scope: z.string().optional().describe("Only list signals in this scope, e.g. \"tb.dut\""),
+            recursive: z.boolean().optional().describe("Include signals in nested scopes (default false)"),
+            cursor: CURSOR_ARG,
+            waveform: WAVEFORM_ARG,
+        },
+    },
+    async ({ scope, recursive, cursor, waveform }) => {
+        const paged = getPagedWaveform(waveform, cursor);
+        if (typeof paged === "string") {
+            return { content: [{ type: "text" as const, text: paged }] };
+        }
+        const waveformIndex = paged.index;
+        const req = resumeQuery(waveformIndex, "list_signals", cursor, () => ({ scope, recursive }));
+        if (typeof req === "string") {
+            return { content: [{ type: "text" as const, text: req }] };
+        }
+        const signals = waveformIndex.listSignals(req.query);
+        if (typeof signals === "string") {
+            return { content: [{ type: "text" as const, text: signals }] };
+        }
+        const page = takePage(signals, { offset: req.offset }, PAGE_SIZE.signals);
+        const note = pageNote(page, "Signals", nextCursor("list_signals", req.query, page, paged.name), false);
+        return { content: [{ type: "text" as const, text: note + JSON.stringify(page.items, null, 2) }] };
+    }
+);
+
+// ── list_scopes ──────────────────────────────────────────────────────────────
+
+server.registerTool(
+    "list_scopes",
+    {
+        description: "Browse the design hierarchy one level at a time: the child scopes (modules, instances, generate blocks, …) of a scope with their type and signal counts. Omit path for the top level.",
+        inputSchema: {
+            path: z.string().optional().describe("Scope path such as \"tb.dut\" (omit for the top level)"),
+            waveform: WAVEFORM_ARG,
+        },
+    },
+    async ({ path: scopePath, waveform }) => {
+        const waveformIndex = getWaveform(waveform);
+        if (typeof waveformIndex === "string") {
+            return { content: [{ type: "text" as const, text: waveformIndex }] };
+        }
+        const scopes = waveformIndex.listScopes(scopePath ?? "");
+        const text = typeof scopes === "string" ? scopes : formatScopes(scopes.scope, scopes.children);
+        return { content: [{ type: "text" as const, text }] };
+    }
+);
+
+// ── search_signals ───────────────────────────────────────────────────────────
+
+server.registerTool(
+    "search_signals",
+    {
+        description: "Find signals by name, 200 matches per page. The pattern is a case-insensitive glob matched against the end of the hierarchical path: \"*valid*\" matches leaf names, \"dut.*\" the signals directly in a scope named dut, \"u_core.**\" everything below it; [abc] and {a,b} work as in shells. Wrap a regular expression in slashes, e.g. \"/^tb\\.dut\\..*_q$/\".",
+        inputSchema: {
+            pattern: z.string().describe("Glob or /regex/"),
+            scope: z.string().optional().describe("Only search below this scope"),
+            cursor: CURSOR_ARG,
+            waveform: WAVEFORM_ARG,
+        },
+    },
+    async ({ pattern, scope, cursor, waveform }) => {
+        const paged = getPagedWaveform(waveform, cursor);
+        if (typeof paged === "string") {
+            return { content: [{ type: "text" as const, text: paged }] };
+        }
+        const waveformIndex = paged.index;
+        const req = resumeQuery(waveformIndex, "search_signals", cursor, () => ({ pattern, scope }));
+        if (typeof req === "string") {
+            return { content: [{ type: "text" as const, text: req }] };
+        }
+        const signals = waveformIndex.searchSignals(req.query.pattern, req.query.scope);
+        if (typeof signals === "string") {
+            return { content: [{ type: "text" as const, text: signals }] };
+        }
+        if (signals.length === 0) {
+            const where = req.query.scope !== undefined ? ` in ${req.query.scope}` : "";
+            return { content: [{ type: "text" as const, text: `No signals match "${req.query.pattern}"${where}.` }] };
+        }
+        const page = takePage(signals, { offset: req.offset }, PAGE_SIZE.signals);
+        const note = pageNote(page, "Signals", nextCursor("search_signals", req.query, page, paged.name), false);
+        return { content: [{ type: "text" as const, text: note + JSON.stringify(page.items, null, 2) }] };
+    }
+);
+
+// ── describe_signal ──────────────────────────────────────────────────────────
+
+server.registerTool(
+    "describe_signal",
+    {
+        description: "Describe one signal: declared variable type (reg, wire, integer, parameter, real, event, ...), width, bit range, value kind (logic/real/string/event), aliased hierarchical paths that refer to the same net, and an activity summary (transition count, first/last change, initial/final value).",
+        inputSchema: {
+            signal: z.string().describe("Full signal name as returned by list_signals"),
+            waveform: WAVEFORM_ARG,
+        },
+    },
+    async ({ signal: name, waveform }) => {
+        const waveformIndex = getWaveform(waveform);
+        if (typeof waveformIndex === "string") {
+            return { content: [{ type: "text" as const, text: waveformIndex }] };
+        }
+        const signal = waveformIndex.resolveSignal(name);
+        if (signal === null) {
+            return { content: [{ type: "text" as const, text: waveformIndex.signalNotFound(name) }] };
+        }
+        return { content: [{ type: "text" as const, text: JSON.stringify(waveformIndex.describeSignal(signal), null, 2) }] };
     }
 );
 
@@ -103,24 +318,39 @@ server.registerTool(
 server.registerTool(
     "query_transitions",
     {
-        description: "Get transitions for a signal within a time range. Returns up to 150 transitions; narrow the range if capped.",
+        description: "Get transitions for a signal within a time range, 150 per page. A longer result ends with a cursor for the next page; summary returns how long each value was held instead.",
         inputSchema: {
             signal: z.string().describe("Full signal name as returned by list_signals"),
             t_start: z.number().describe("Start timestamp (inclusive)"),
             t_end: z.number().describe("End timestamp (inclusive)"),
+            cursor: CURSOR_ARG,
+            summary: SUMMARY_ARG,
+            waveform: WAVEFORM_ARG,
         },
     },
-    async ({ signal, t_start, t_end }) => {
-        if (!waveformIndex) {
-            return { content: [{ type: "text" as const, text: "No waveform loaded. Call load_waveform first." }] };
+    async ({ signal: name, t_start, t_end, cursor, summary, waveform }) => {
+        const paged = getPagedWaveform(waveform, cursor);
+        if (typeof paged === "string") {
+            return { content: [{ type: "text" as const, text: paged }] };
+        }
+        const waveformIndex = paged.index;
+        const req = resumeQuery(waveformIndex, "query_transitions", cursor, () => {
+            const signal = waveformIndex.resolveSignal(name);
+            return signal === null ? waveformIndex.signalNotFound(name) : { signal, tStart: t_start, tEnd: t_end };
+        });
+        if (typeof req === "string") {
+            return { content: [{ type: "text" as const, text: req }] };
         }
-        const transitions = waveformIndex.queryTransitions(signal, t_start, t_end, TRANSITION_CAP);
-        if (transitions.length === 0) {
-            return { content: [{ type: "text" as const, text: `No transitions for "${signal}" in [${t_start}, ${t_end}].` }] };
+        const { signal, tStart, tEnd } = req.query;
+        if (summary) {
+            return { content: [{ type: "text" as const, text: summarizeTransitions(waveformIndex, signal, tStart, tEnd) }] };
         }
-        const note = transitions.length >= TRANSITION_CAP
-            ? `[Capped at ${TRANSITION_CAP}. Narrow the range for more detail.]\n` : "";
-        const text = note + transitions.map(t => `t=${t.time}: ${t.value}`).join("\n");
+        const page = waveformIndex.queryTransitions(signal, tStart, tEnd, { offset: req.offset });
+        if (page.total === 0) {
+            return { content: [{ type: "text" as const, text: `No transitions for "${signal}" in [${tStart}, ${tEnd}].` }] };
+        }
+        const note = pageNote(page, "Transitions", nextCursor("query_transitions", req.query, page, paged.name));
+        const text = note + page.items.map(t => `t=${t.time}: ${t.value}`).join("\n");
         return { content: [{ type: "text" as const, text }] };
     }
 );
@@ -134,11 +364,17 @@ server.registerTool(
         inputSchema: {
             signal: z.string().describe("Full signal name"),
             time: z.number().describe("Timestamp to query"),
+            waveform: WAVEFORM_ARG,
         },
     },
-    async ({ signal, time }) => {
-        if (!waveformIndex) {
-            return { content: [{ type: "text" as const, text: "No waveform loaded. Call load_waveform first." }] };
+    async ({ signal: name, time, waveform }) => {
+        const waveformIndex = getWaveform(waveform);
+        if (typeof waveformIndex === "string") {
+            return { content: [{ type: "text" as const, text: waveformIndex }] };
+        }
+        const signal = waveformIndex.resolveSignal(name);
+        if (signal === null) {
+            return { content: [{ type: "text" as const, text: waveformIndex.signalNotFound(name) }] };
         }
         const value = waveformIndex.getValueAt(signal, time);
         return { content: [{ type: "text" as const, text: `"${signal}" at t=${time}: ${value}` }] };
@@ -154,11 +390,17 @@ server.registerTool(
         inputSchema: {
             signal: z.string().describe("Full signal name"),
             after_time: z.number().describe("Find the first transition after this time"),
+            waveform: WAVEFORM_ARG,
         },
     },
-    async ({ signal, after_time }) => {
-        if (!waveformIndex) {
-            return { content: [{ type: "text" as const, text: "No waveform loaded." }] };
+    async ({ signal: name, after_time, waveform }) => {
+        const waveformIndex = getWaveform(waveform);
+        if (typeof waveformIndex === "string") {
+            return { content: [{ type: "text" as const, text: waveformIndex }] };
+        }
+        const signal = waveformIndex.resolveSignal(name);
+        if (signal === null) {
+            return { content: [{ type: "text" as const, text: waveformIndex.signalNotFound(name) }] };
         }
         const t = waveformIndex.getNextTransition(signal, after_time);
         const text = t
@@ -177,11 +419,17 @@ server.registerTool(
         inputSchema: {
             signal: z.string().describe("Full signal name"),
             before_time: z.number().describe("Find the last transition before this time"),
+            waveform: WAVEFORM_ARG,
         },
     },
-    async ({ signal, before_time }) => {
-        if (!waveformIndex) {
-            return { content: [{ type: "text" as const, text: "No waveform loaded." }] };
+    async ({ signal: name, before_time, waveform }) => {
+        const waveformIndex = getWaveform(waveform);
+        if (typeof waveformIndex === "string") {
+            return { content: [{ type: "text" as const, text: waveformIndex }] };
+        }
+        const signal = waveformIndex.resolveSignal(name);
+        if (signal === null) {
+            return { content: [{ type: "text" as const, text: waveformIndex.signalNotFound(name) }] };
         }
         const t = waveformIndex.getPrevTransition(signal, before_time);
         const text = t
@@ -200,13 +448,19 @@ server.registerTool(
         inputSchema: {
             time: z.number().describe("Timestamp to snapshot"),
             signals: z.array(z.string()).optional().describe("Optional subset of signal names"),
+            waveform: WAVEFORM_ARG,
         },
     },
-    async ({ time, signals }) => {
-        if (!waveformIndex) {
-            return { content: [{ type: "text" as const, text: "No waveform loaded." }] };
+    async ({ time, signals, waveform }) => {
+        const waveformIndex = getWaveform(waveform);
+        if (typeof waveformIndex === "string") {
+            return { content: [{ type: "text" as const, text: waveformIndex }] };
         }
-        const snap = waveformIndex.snapshot(time, signals);
+        const names = signals ? waveformIndex.resolveSignals(signals) : undefined;
+        if (typeof names === "string") {
+            return { content: [{ type: "text" as const, text: names }] };
+        }
+        const snap = waveformIndex.snapshot(time, names);
         const text = `Snapshot at t=${time}:\n` + snap.map(s => {
             const decoded = autoDecodeInstruction(s.signal, s.value);
             return `  ${s.signal}: ${s.value}${decoded}`;
@@ -220,24 +474,40 @@ server.registerTool(
 server.registerTool(
     "find_pattern",
     {
-        description: "Find timestamps where a signal has a specific value. Returns up to 50 matches.",
+        description: "Find timestamps where a signal has a specific value, 50 matches per page. A longer result ends with a cursor for the next page; summary returns the match count, spacing and time held instead.",
         inputSchema: {
             signal: z.string().describe("Full signal name"),
             value: z.string().describe("Value to search for (case-insensitive, substring match)"),
             t_start: z.number().describe("Start timestamp (inclusive)"),
             t_end: z.number().describe("End timestamp (inclusive)"),
+            cursor: CURSOR_ARG,
+            summary: SUMMARY_ARG,
+            waveform: WAVEFORM_ARG,
         },
     },
-    async ({ signal, value, t_start, t_end }) => {
-        if (!waveformIndex) {
-            return { content: [{ type: "text" as const, text: "No waveform loaded." }] };
+    async ({ signal: name, value: pattern, t_start, t_end, cursor, summary, waveform }) => {
+        const paged = getPagedWaveform(waveform, cursor);
+        if (typeof paged === "string") {
+            return { content: [{ type: "text" as const, text: paged }] };
+        }
+        const waveformIndex = paged.index;
+        const req = resumeQuery(waveformIndex, "find_pattern", cursor, () => {
+            const signal = waveformIndex.resolveSignal(name);
+            return signal === null ? waveformIndex.signalNotFound(name) : { signal, value: pattern, tStart: t_start, tEnd: t_end };
+        });
+        if (typeof req === "string") {
+            return { content: [{ type: "text" as const, text: req }] };
         }
-        const times = waveformIndex.findPattern(signal, value, t_start, t_end);
-        if (times.length === 0) {
-            return { content: [{ type: "text" as const, text: `"${signal}" never equals "${value}" in [${t_start}, ${t_end}].` }] };
+        const { signal, value, tStart, tEnd } = req.query;
+        if (summary) {
+            return { content: [{ type: "text" as const, text: summarizePattern(waveformIndex, signal, value, tStart, tEnd) }] };
         }
-        const note = times.length >= 50 ? "[Capped at 50.]\n" : "";
-        return { content: [{ type: "text" as const, text: `${note}"${signal}" = "${value}" at: ${times.map(t => `t=${t}`).join(", ")}` }] };
+        const page = waveformIndex.findPattern(signal, value, tStart, tEnd, { offset: req.offset });
+        if (page.total === 0) {
+            return { content: [{ type: "text" as const, text: `"${signal}" never equals "${value}" in [${tStart}, ${tEnd}].` }] };
+        }
+        const note = pageNote(page, "Matches", nextCursor("find_pattern", req.query, page, paged.name));
+        return { content: [{ type: "text" as const, text: `${note}"${signal}" = "${value}" at: ${page.items.map(t => `t=${t}`).join(", ")}` }] };
     }
 );
 
@@ -251,39 +521,637 @@ server.registerTool(
             signal: z.string().describe("Full signal name"),
             t_start: z.number().describe("Start timestamp"),
             t_end: z.number().describe("End timestamp"),
+            waveform: WAVEFORM_ARG,
         },
     },
-    async ({ signal, t_start, t_end }) => {
-        if (!waveformIndex) {
-            return { content: [{ type: "text" as const, text: "No waveform loaded." }] };
+    async ({ signal: name, t_start, t_end, waveform }) => {
+        const waveformIndex = getWaveform(waveform);
+        if (typeof waveformIndex === "string") {
+            return { content: [{ type: "text" as const, text: waveformIndex }] };
+        }
+        const signal = waveformIndex.resolveSignal(name);
+        if (signal === null) {
+            return { content: [{ type: "text" as const, text: waveformIndex.signalNotFound(name) }] };
         }
         return { content: [{ type: "text" as const, text: `"${signal}": ${waveformIndex.countTransitions(signal, t_start, t_end)} transitions in [${t_start}, ${t_end}].` }] };
     }
 );
 
+// ── signal_stats ─────────────────────────────────────────────────────────────
+
+server.registerTool(
+    "signal_stats",
+    {
+        description: "Statistics of one or more signals over a time window, computed from every change: time-weighted value histogram, min/max, percentage of time high (non-zero) and x/z, high and low pulse-width distribution, toggle rate (per time unit and per clock cycle), and whether the signal or some of its bits never changed. Use this for duty cycles, value ranges and stuck-at questions.",
+        inputSchema: {
+            signals: z.array(z.string()).describe("Signal names"),
+            t_start: z.number().optional().describe("Start timestamp (default: start of dump)"),
+            t_end: z.number().optional().describe("End timestamp (default: end of dump)"),
+            waveform: WAVEFORM_ARG,
+        },
+    },
+    async ({ signals, t_start, t_end, waveform }) => {
+        const waveformIndex = getWaveform(waveform);
+        if (typeof waveformIndex === "string") {
+            return { content: [{ type: "text" as const, text: waveformIndex }] };
+        }
+        const names = signals.length > 0 ? waveformIndex.resolveSignals(signals) : "signals is required.";
+        if (typeof names === "string") {
+            return { content: [{ type: "text" as const, text: names }] };
+        }
+        const results: string[] = [];
+        for (const signal of names) {
+            const stats = waveformIndex.signalStats(signal, t_start ?? waveformIndex.startTime, t_end ?? waveformIndex.endTime);
+            if (typeof stats === "string") {
+                return { content: [{ type: "text" as const, text: stats }] };
+            }
+            results.push(formatSignalStats(stats));
+        }
+        return { content: [{ type: "text" as const, text: results.join("\n\n") }] };
+    }
+);
+
 // ── get_edges ────────────────────────────────────────────────────────────────
 
 server.registerTool(
     "get_edges",
     {
-        description: "Get only rising or falling edges of a signal. Filters intermediate transitions.",
+        description: "Get only rising or falling edges of a signal, 150 per page. Filters intermediate transitions. A longer result ends with a cursor for the next page; summary returns the edge count and spacing instead.",
         inputSchema: {
             signal: z.string().describe("Full signal name"),
             t_start: z.number().describe("Start timestamp"),
             t_end: z.number().describe("End timestamp"),
             edge_type: z.enum(["rising", "falling", "any"]).describe("Edge type to filter"),
+            cursor: CURSOR_ARG,
+            summary: SUMMARY_ARG,
+            waveform: WAVEFORM_ARG,
+        },
+    },
+    async ({ signal: name, t_start, t_end, edge_type, cursor, summary, waveform }) => {
+        const paged = getPagedWaveform(waveform, cursor);
+        if (typeof paged === "string") {
+            return { content: [{ type: "text" as const, text: paged }] };
+        }
+        const waveformIndex = paged.index;
+        const req = resumeQuery(waveformIndex, "get_edges", cursor, () => {
+            const signal = waveformIndex.resolveSignal(name);
+            return signal === null ? waveformIndex.signalNotFound(name) : { signal, tStart: t_start, tEnd: t_end, edgeType: edge_type };
+        });
+        if (typeof req === "string") {
+            return { content: [{ type: "text" as const, text: req }] };
+        }
+        const { signal, tStart, tEnd, edgeType } = req.query;
+        if (summary) {
+            return { content: [{ type: "text" as const, text: summarizeEdges(waveformIndex, signal, tStart, tEnd, edgeType) }] };
+        }
+        const page = waveformIndex.getEdges(signal, tStart, tEnd, edgeType, { offset: req.offset });
+        if (page.total === 0) {
+            return { content: [{ type: "text" as const, text: `No ${edgeType} edges for "${signal}" in [${tStart}, ${tEnd}].` }] };
+        }
+        const note = pageNote(page, "Edges", nextCursor("get_edges", req.query, page, paged.name));
+        return { content: [{ type: "text" as const, text: `${note}${edgeType} edges for "${signal}":\n` + formatEdges(waveformIndex, signal, page.items) }] };
+    }
+);
+
+// ── list_clocks ──────────────────────────────────────────────────────────────
+
+server.registerTool(
+    "list_clocks",
+    {
+        description: "Every clock found in the waveform (single-bit signals toggling with a stable period): period and frequency from the timescale, duty cycle, jitter and where it stops or is gated; the resets and when they are asserted; and the clock domains, i.e. which clock edge each signal changes on, plus the signals not aligned with any one clock.",
+        inputSchema: {
+            waveform: WAVEFORM_ARG,
+        },
+    },
+    async ({ waveform }) => {
+        const waveformIndex = getWaveform(waveform);
+        if (typeof waveformIndex === "string") {
+            return { content: [{ type: "text" as const, text: waveformIndex }] };
+        }
+        return { content: [{ type: "text" as const, text: formatClockReport(waveformIndex.getClocking(), waveformIndex, 50) }] };
+    }
+);
+
+// ── set_clock ────────────────────────────────────────────────────────────────
+
+server.registerTool(
+    "set_clock",
+    {
+        description: "Choose the clock that cycle numbers are counted on, with an optional reset: cycle 0 is the first active edge after reset is released. Without a clock, the auto-detected clock (and reset) is reported. Returns the clock period and cycle range.",
+        inputSchema: {
+            clock: z.string().optional().describe("Clock signal name (omit to auto-detect)"),
+            edge: z.enum(["rising", "falling"]).optional().describe("Active clock edge (default rising)"),
+            reset: z.string().optional().describe("Optional reset signal name"),
+            reset_active: z.enum(["high", "low"]).optional().describe("Asserted reset level (default: low for names like rst_n, else high)"),
+            waveform: WAVEFORM_ARG,
+        },
+    },
+    async ({ clock, edge, reset, reset_active, waveform }) => {
+        const waveformIndex = getWaveform(waveform);
+        if (typeof waveformIndex === "string") {
+            return { content: [{ type: "text" as const, text: waveformIndex }] };
+        }
+        if (!clock) {
+            const table = waveformIndex.getCycleTable();
+            return { content: [{ type: "text" as const, text: table ? `Detected clock: ${table.describe()}` : NO_CLOCK }] };
+        }
+        const table = waveformIndex.setClock({ clock, edge, reset, resetActive: reset_active });
+        return { content: [{ type: "text" as const, text: typeof table === "string" ? table : `Clock set: ${table.describe()}` }] };
+    }
+);
+
+// ── sample_on_clock ──────────────────────────────────────────────────────────
+
+server.registerTool(
+    "sample_on_clock",
+    {
+        description: "Sample several signals on each active clock edge over a range of cycles, one row per cycle. Values are those just before the edge (what a flip-flop captures) unless sample is \"after\". Returns 150 rows per page, with a cursor for the next one. Much more compact than query_transitions for synchronous logic.",
+        inputSchema: {
+            signals: z.array(z.string()).describe("Signal names to sample"),
+            cycle_start: z.number().describe("First cycle"),
+            cycle_end: z.number().describe("Last cycle (inclusive)"),
+            sample: z.enum(["before", "after"]).optional().describe("Sample just before (default) or just after each edge"),
+            changes_only: z.boolean().optional().describe("Only list cycles where a sampled value changed (default false)"),
+            cursor: CURSOR_ARG,
+            summary: z.boolean().optional().describe("Return, per signal, how many cycles each value lasted instead of rows (default false)"),
+            waveform: WAVEFORM_ARG,
+        },
+    },
+    async ({ signals, cycle_start, cycle_end, sample, changes_only, cursor, summary, waveform }) => {
+        const paged = getPagedWaveform(waveform, cursor);
+        if (typeof paged === "string") {
+            return { content: [{ type: "text" as const, text: paged }] };
+        }
+        const waveformIndex = paged.index;
+        const table = waveformIndex.getCycleTable();
+        if (!table) { return { content: [{ type: "text" as const, text: NO_CLOCK }] }; }
+        const req = resumeQuery(waveformIndex, "sample_on_clock", cursor, () => {
+            const names = waveformIndex.resolveSignals(signals);
+            return typeof names === "string" ? names
+                : { signals: names, cycleStart: cycle_start, cycleEnd: cycle_end, sample, changesOnly: changes_only };
+        });
+        if (typeof req === "string") {
+            return { content: [{ type: "text" as const, text: req }] };
+        }
+        const { signals: names, cycleStart, cycleEnd, sample: edgeSample, changesOnly } = req.query;
+        if (summary) {
+            return { content: [{ type: "text" as const, text: summarizeOnClock(waveformIndex, table, names, cycleStart, cycleEnd, edgeSample) }] };
+        }
+        const page = sampleOnClock(waveformIndex, table, names, cycleStart, cycleEnd, { sample: edgeSample, changesOnly, offset: req.offset });
+        const text = formatCycleSamples(table, names, page, cycleStart, cycleEnd, nextCursor("sample_on_clock", req.query, page, paged.name));
+        return { content: [{ type: "text" as const, text }] };
+    }
+);
+
+// ── time_to_cycle ────────────────────────────────────────────────────────────
+
+server.registerTool(
+    "time_to_cycle",
+    {
+        description: "Convert a timestamp to the clock cycle containing it (cycle n spans from its active edge to the next).",
+        inputSchema: {
+            time: z.number().describe("Timestamp"),
+            waveform: WAVEFORM_ARG,
+        },
+    },
+    async ({ time, waveform }) => {
+        const waveformIndex = getWaveform(waveform);
+        if (typeof waveformIndex === "string") {
+            return { content: [{ type: "text" as const, text: waveformIndex }] };
+        }
+        const table = waveformIndex.getCycleTable();
+        if (!table) { return { content: [{ type: "text" as const, text: NO_CLOCK }] }; }
+        const c = table.timeToCycle(time);
+        const text = c
+            ? `t=${time} is in cycle ${c.cycle} (edge at t=${c.edgeTime}, +${c.offset} into the cycle; period ${table.period}).`
+            : `t=${time} is before the first ${table.edge} edge of ${table.clock}.`;
+        return { content: [{ type: "text" as const, text }] };
+    }
+);
+
+// ── cycle_to_time ────────────────────────────────────────────────────────────
+
+server.registerTool(
+    "cycle_to_time",
+    {
+        description: "Convert a clock cycle number to the timestamp of its active edge.",
+        inputSchema: {
+            cycle: z.number().describe("Cycle number"),
+            waveform: WAVEFORM_ARG,
+        },
+    },
+    async ({ cycle, waveform }) => {
+        const waveformIndex = getWaveform(waveform);
+        if (typeof waveformIndex === "string") {
+            return { content: [{ type: "text" as const, text: waveformIndex }] };
+        }
+        const table = waveformIndex.getCycleTable();
+        if (!table) { return { content: [{ type: "text" as const, text: NO_CLOCK }] }; }
+        const time = table.cycleToTime(cycle);
+        const text = time === null
+            ? `Cycle ${cycle} is outside the dump (cycles ${table.firstCycle}..${table.lastCycle}).`
+            : `Cycle ${cycle} starts at t=${time} (${table.edge} edge of ${table.clock}).`;
+        return { content: [{ type: "text" as const, text }] };
+    }
+);
+
+// ── decode_bus ───────────────────────────────────────────────────────────────
+
+server.registerTool(
+    "decode_bus",
+    {
+        description: "Decode on-chip bus transactions (AXI4, AXI4-Lite, AXI-Stream, APB, AHB, Wishbone) from the handshake signals: address, data per beat, burst type, response and latency in clock cycles. Signal roles (awvalid, psel, htrans, cyc, …) are matched from signal names; use prefix to pick one bus instance, or roles to map them explicitly.",
+        inputSchema: {
+            protocol: z.enum(BUS_PROTOCOLS as [BusProtocol, ...BusProtocol[]]).describe("Bus protocol"),
+            prefix: z.string().optional().describe("Path prefix of the bus instance, e.g. \"tb.dut.s_axi_\" (default: the best match)"),
+            roles: z.record(z.string(), z.string()).optional()
+                .describe("Explicit role → signal mapping, e.g. {\"clk\": \"tb.aclk\", \"awvalid\": \"tb.dut.aw_valid\"}. Overrides name matching."),
+            t_start: z.number().optional().describe("Start timestamp (default 0)"),
+            t_end: z.number().optional().describe("End timestamp (default: end of dump)"),
+            max_results: z.number().optional().describe("Max transactions listed (default 50)"),
+            waveform: WAVEFORM_ARG,
+        },
+    },
+    async ({ protocol, prefix, roles, t_start, t_end, max_results, waveform }) => {
+        const waveformIndex = getWaveform(waveform);
+        if (typeof waveformIndex === "string") {
+            return { content: [{ type: "text" as const, text: waveformIndex }] };
+        }
+        const result = decodeBus(waveformIndex, protocol, {
+            prefix,
+            roles,
+            tStart: t_start,
+            tEnd: t_end,
+            maxTransactions: max_results,
+        });
+        return { content: [{ type: "text" as const, text: typeof result === "string" ? result : formatBusDecode(result) }] };
+    }
+);
+
+// ── decode_serial ────────────────────────────────────────────────────────────
+
+server.registerTool(
+    "decode_serial",
+    {
+        description: "Decode serial lines into timestamped frames: UART bytes (with text, parity and framing errors), SPI words for CPOL/CPHA modes, I2C START/STOP, address + R/W, data bytes and ACK/NACK, and JTAG IR/DR shifts with TAP state tracking.",
+        inputSchema: {
+            protocol: z.enum(SERIAL_PROTOCOLS as [SerialProtocol, ...SerialProtocol[]]).describe("Serial protocol"),
+            roles: z.record(z.string(), z.string()).optional()
+                .describe("Explicit role → signal mapping. uart: line; spi: sclk, mosi, miso, cs; i2c: scl, sda; jtag: tck, tms, tdi, tdo, trst. Unmapped roles are matched from signal names."),
+            prefix: z.string().optional().describe("Only match signals under this path prefix when guessing roles"),
+            t_start: z.number().optional().describe("Start timestamp (default 0)"),
+            t_end: z.number().optional().describe("End timestamp (default: end of dump)"),
+            max_results: z.number().optional().describe("Max frames listed (default 100)"),
+            baud: z.number().optional().describe("UART baud rate (bits/s), converted using the waveform timescale"),
+            bit_time: z.number().optional().describe("UART bit period in waveform time units (overrides baud; estimated when both are omitted)"),
+            data_bits: z.number().optional().describe("UART data bits (default 8)"),
+            parity: z.enum(["none", "even", "odd"]).optional().describe("UART parity (default none)"),
+            stop_bits: z.number().optional().describe("UART stop bits (default 1)"),
+            invert: z.boolean().optional().describe("UART line idles low"),
+            cpol: z.union([z.literal(0), z.literal(1)]).optional().describe("SPI clock polarity (default 0)"),
+            cpha: z.union([z.literal(0), z.literal(1)]).optional().describe("SPI clock phase (default 0)"),
+            bits_per_word: z.number().optional().describe("SPI word size (default 8)"),
+            cs_active: z.enum(["low", "high"]).optional().describe("SPI chip-select active level (default low)"),
+            msb_first: z.boolean().optional().describe("Bit order (default: MSB first for SPI, LSB first for UART)"),
+            waveform: WAVEFORM_ARG,
+        },
+    },
+    async (args) => {
+        const waveformIndex = getWaveform(args.waveform);
+        if (typeof waveformIndex === "string") {
+            return { content: [{ type: "text" as const, text: waveformIndex }] };
+        }
+        const result = decodeSerial(waveformIndex, args.protocol, {
+            roles: args.roles,
+            prefix: args.prefix,
+            tStart: args.t_start,
+            tEnd: args.t_end,
+            maxFrames: args.max_results,
+            baud: args.baud,
+            bitTime: args.bit_time,
+            dataBits: args.data_bits,
+            parity: args.parity,
+            stopBits: args.stop_bits,
+            invert: args.invert,
+            cpol: args.cpol,
+            cpha: args.cpha,
+            bitsPerWord: args.bits_per_word,
+            csActive: args.cs_active,
+            msbFirst: args.msb_first,
+        });
+        return { content: [{ type: "text" as const, text: typeof result === "string" ? result : formatSerialDecode(result) }] };
+    }
+);
+
+// ── extract_fsm ──────────────────────────────────────────────────────────────
+
+server.registerTool(
+    "extract_fsm",
+    {
+        description: "Find state machines and build the state-transition graph observed in the waveform. State registers are detected from enum/localparam state encodings in the RTL under search_paths and from state-like names; values are shown by state name. Reports per-state visit counts and dwell times (in clock cycles when a clock is known), transition counts with the first time each was taken, declared states that were never visited, and values outside the encoding, followed by a Mermaid stateDiagram of the graph.",
+        inputSchema: {
+            signals: z.array(z.string()).optional().describe("State registers to analyse (default: detected automatically)"),
+            search_paths: z.array(z.string()).optional().describe("Absolute directory paths with the RTL (.v/.sv/.vhd), used to name states"),
+            t_start: z.number().optional().describe("Start timestamp (default 0)"),
+            t_end: z.number().optional().describe("End timestamp (default: end of dump)"),
+            waveform: WAVEFORM_ARG,
         },
     },
-    async ({ signal, t_start, t_end, edge_type }) => {
-        if (!waveformIndex) {
-            return { content: [{ type: "text" as const, text: "No waveform loaded." }] };
+    async ({ signals, search_paths, t_start, t_end, waveform }) => {
+        const waveformIndex = getWaveform(waveform);
+        if (typeof waveformIndex === "string") {
+            return { content: [{ type: "text" as const, text: waveformIndex }] };
         }
-        const edges = waveformIndex.getEdges(signal, t_start, t_end, edge_type);
-        if (edges.length === 0) {
-            return { content: [{ type: "text" as const, text: `No ${edge_type} edges for "${signal}" in [${t_start}, ${t_end}].` }] };
+        const hdl = search_paths ? findRelevantModules(search_paths, waveformIndex.signals, 20, 100000) : null;
+        const fsms = extractFsms(waveformIndex, {
+            signals,
+            encodings: extractStateEncodings(hdl ?? ""),
+            tStart: t_start,
+            tEnd: t_end,
+        });
+        const text = typeof fsms === "string"
+            ? fsms
+            : fsms.map(fsm => formatFsm(fsm) + "\n\n```mermaid\n" + fsmToMermaid(fsm) + "\n```").join("\n\n");
+        return { content: [{ type: "text" as const, text }] };
+    }
+);
+
+// ── check_property ───────────────────────────────────────────────────────────
+
+server.registerTool(
+    "check_property",
+    {
+        description: "Check a SystemVerilog assertion property against the waveform at every clock edge, without re-running simulation. Supports boolean expressions (Verilog operators, bit selects, sized literals), $rose/$fell/$stable/$changed/$past/$onehot/$onehot0/$isunknown/$countones, sequences with ##n, ##[m:n], ##[m:$], [*m:n], [+], [->n] and throughout, and properties with |->, |=>, not, and, or, until, s_until, until_with, s_until_with. An optional \"@(posedge clk)\" and \"disable iff (expr)\" prefix are accepted. Signal names can be full paths or unique leaf names. Returns pass/fail/vacuous counts and every failure with the time it failed and why.",
+        inputSchema: {
+            property: z.string().describe("Property, e.g. \"@(posedge clk) disable iff (!rst_n) req |-> ##[1:4] ack\" or \"$rose(start) |=> busy until done\""),
+            clock: z.string().optional().describe("Clock when the property has no @(...) (default: the detected or set_clock clock)"),
+            edge: z.enum(["rising", "falling"]).optional().describe("Clock edge for clock (default rising)"),
+            t_start: z.number().optional().describe("Only check attempts starting at or after this time"),
+            t_end: z.number().optional().describe("Only check attempts starting at or before this time"),
+            max_results: z.number().optional().describe("Max failures listed (default 20)"),
+            waveform: WAVEFORM_ARG,
+        },
+    },
+    async ({ property, clock, edge, t_start, t_end, max_results, waveform }) => {
+        const waveformIndex = getWaveform(waveform);
+        if (typeof waveformIndex === "string") {
+            return { content: [{ type: "text" as const, text: waveformIndex }] };
         }
-        const note = edges.length >= 150 ? "[Capped at 150.]\n" : "";
-        return { content: [{ type: "text" as const, text: `${note}${edge_type} edges for "${signal}":\n` + edges.map(e => `t=${e.time}: ${e.value}`).join("\n") }] };
+        const result = waveformIndex.checkProperty(property, { clock, edge, tStart: t_start, tEnd: t_end, maxFailures: max_results });
+        return { content: [{ type: "text" as const, text: typeof result === "string" ? result : formatPropertyCheck(waveformIndex, result) }] };
+    }
+);
+
+// ── measure_latency ──────────────────────────────────────────────────────────
+
+server.registerTool(
+    "measure_latency",
+    {
+        description: "Measure the latency from start events to end events, such as \"req\" rising to \"ack\" rising, or an address handshake to its response. Events are edges of a signal or expression, or (edge \"cycle\") every clock edge where the expression holds, which is how valid/ready handshakes should be counted. Ends complete the oldest pending start; with id (and end_id), only a start with the same ID value, for out-of-order buses. Returns min/mean/max and p50/p90/p99 latency (in cycles when a clock is known), a histogram, outliers and starts that never ended, with timestamps.",
+        inputSchema: {
+            start: z.string().describe("Start event: signal or expression, e.g. \"req\", \"state == 2\", \"arvalid & arready\""),
+            end: z.string().describe("End event: signal or expression, e.g. \"ack\", \"rvalid & rready & rlast\""),
+            start_edge: EVENT_EDGE.optional().describe("When the start fires: expression becomes true (rising, default), false, changes, or each clock edge where it holds (cycle)"),
+            end_edge: EVENT_EDGE.optional().describe("When the end fires (default rising)"),
+            id: z.string().optional().describe("ID signal sampled at each start, e.g. \"arid\""),
+            end_id: z.string().optional().describe("ID signal sampled at each end, e.g. \"rid\" (default: id)"),
+            t_start: z.number().optional().describe("Only measure starts at or after this time"),
+            t_end: z.number().optional().describe("Only measure starts at or before this time"),
+            max_results: z.number().optional().describe("Max outliers and unfinished starts listed (default 10)"),
+            waveform: WAVEFORM_ARG,
+        },
+    },
+    async ({ start, end, start_edge, end_edge, id, end_id, t_start, t_end, max_results, waveform }) => {
+        const waveformIndex = getWaveform(waveform);
+        if (typeof waveformIndex === "string") {
+            return { content: [{ type: "text" as const, text: waveformIndex }] };
+        }
+        const result = waveformIndex.measureLatency({
+            start: { expression: start, edge: start_edge, id },
+            end: { expression: end, edge: end_edge, id: end_id },
+            tStart: t_start,
+            tEnd: t_end,
+            maxResults: max_results,
+        });
+        return { content: [{ type: "text" as const, text: typeof result === "string" ? result : formatLatency(result) }] };
+    }
+);
+
+// ── measure_throughput ───────────────────────────────────────────────────────
+
+server.registerTool(
+    "measure_throughput",
+    {
+        description: "Measure how often an event happens over a time range: total count, rate per cycle (or time unit) overall and sustained between the first and last event, bytes and bandwidth when the data width is given, the longest gap between events, and the count per window. Use edge \"cycle\" with \"valid & ready\" to count stream or bus transfers.",
+        inputSchema: {
+            event: z.string().describe("Event: signal or expression, e.g. \"tvalid & tready\""),
+            edge: EVENT_EDGE.optional().describe("When the event fires (default: cycle when a clock is known, else rising)"),
+            data: z.string().optional().describe("Data signal whose width gives the bytes per event"),
+            bytes_per_event: z.number().optional().describe("Bytes per event (overrides data)"),
+            window: z.number().optional().describe("Window length in cycles (time units without a clock); default splits the range into 20 windows"),
+            t_start: z.number().optional().describe("Start timestamp (default: start of dump)"),
+            t_end: z.number().optional().describe("End timestamp (default: end of dump)"),
+            waveform: WAVEFORM_ARG,
+        },
+    },
+    async ({ event, edge, data, bytes_per_event, window, t_start, t_end, waveform }) => {
+        const waveformIndex = getWaveform(waveform);
+        if (typeof waveformIndex === "string") {
+            return { content: [{ type: "text" as const, text: waveformIndex }] };
+        }
+        const result = waveformIndex.measureThroughput({
+            event: { expression: event, edge },
+            data,
+            bytesPerEvent: bytes_per_event,
+            window,
+            tStart: t_start,
+            tEnd: t_end,
+        });
+        return { content: [{ type: "text" as const, text: typeof result === "string" ? result : formatThroughput(result) }] };
+    }
+);
+
+// ── define_signal ────────────────────────────────────────────────────────────
+
+server.registerTool(
+    "define_signal",
+    {
+        description: "Define a derived signal: a named expression over existing signals that every other tool (query_transitions, find_pattern, get_edges, snapshot, check_property, ...) then accepts like a recorded signal. Expressions use Verilog operators, bit and part selects, {...} concatenation, sized literals such as 8'hFF and the ?: operator, plus $onehot/$onehot0/$isunknown/$countones. Signal names can be full paths or unique leaf names. Redefining a name replaces it; definitions last until the waveform is reloaded.",
+        inputSchema: {
+            name: z.string().describe("Name of the new signal, e.g. \"handshake\""),
+            expression: z.string().describe("Expression, e.g. \"valid & ready\", \"{hi, lo}\", \"data[15:8]\", \"count == 8'hFF\" or \"wr_ptr - rd_ptr\""),
+            waveform: WAVEFORM_ARG,
+        },
+    },
+    async ({ name, expression, waveform }) => {
+        const waveformIndex = getWaveform(waveform);
+        if (typeof waveformIndex === "string") {
+            return { content: [{ type: "text" as const, text: waveformIndex }] };
+        }
+        const desc = waveformIndex.defineSignal(name, expression);
+        return { content: [{ type: "text" as const, text: typeof desc === "string" ? desc : formatDerivedSignal(waveformIndex, desc) }] };
+    }
+);
+
+// ── trace_unknown ────────────────────────────────────────────────────────────
+
+server.registerTool(
+    "trace_unknown",
+    {
+        description: "Find the root cause of an X or Z value. Finds the first time the signal goes X/Z (ignoring unknown values that ended before t_start, by default the reset release) and walks back through its drivers to the one that went unknown first, repeating until no driver was unknown earlier. Drivers come from the RTL fan-in under search_paths (assignments, if/case conditions and port connections), else from nearby signals in the hierarchy. Returns the propagation chain with timestamps. Without a signal, lists the signals that go X/Z, earliest first.",
+        inputSchema: {
+            signal: z.string().optional().describe("Signal with the unknown value (omit to list X/Z onsets)"),
+            search_paths: z.array(z.string()).optional().describe("Absolute directory paths with the RTL (.v/.sv/.vhd), used to find drivers"),
+            t_start: z.number().optional().describe("Ignore unknown values that ended before this time (default: reset release, else start of dump)"),
+            max_results: z.number().optional().describe("Max signals listed without a signal (default 20)"),
+            waveform: WAVEFORM_ARG,
+        },
+    },
+    async ({ signal, search_paths, t_start, max_results, waveform }) => {
+        const waveformIndex = getWaveform(waveform);
+        if (typeof waveformIndex === "string") {
+            return { content: [{ type: "text" as const, text: waveformIndex }] };
+        }
+        const hdl = search_paths ? findRelevantModules(search_paths, waveformIndex.signals, 20, 100000) : null;
+        const options = { tStart: t_start, drivers: hdl ? extractSignalDrivers(hdl) : undefined, maxResults: max_results };
+        if (signal === undefined) {
+            return { content: [{ type: "text" as const, text: formatUnknownOnsets(findUnknownOnsets(waveformIndex, options)) }] };
+        }
+        const result = traceUnknown(waveformIndex, signal, options);
+        return { content: [{ type: "text" as const, text: typeof result === "string" ? result : formatUnknownTrace(result) }] };
+    }
+);
+
+// ── find_cdc ─────────────────────────────────────────────────────────────────
+
+server.registerTool(
+    "find_cdc",
+    {
+        description: "Clock domain crossing analysis. Finds signals that change in one clock domain and are sampled by flops of another: from the RTL registers under search_paths (recognising two-flop synchronizer chains), else from the waveform (signals that copy a signal of another domain one edge later). For each crossing reports the synchronizer, how often the destination sampled within the setup window of a source change, and for multi-bit sources how often several bits flip at once or bits update at different times. Hazards are listed first.",
+        inputSchema: {
+            search_paths: z.array(z.string()).optional().describe("Absolute directory paths with the RTL (.v/.sv/.vhd), used to find registers and synchronizers"),
+            setup_window: z.number().optional().describe("A source change this close before a destination edge counts as a violation (default: a tenth of the destination clock period)"),
+            max_results: z.number().optional().describe("Max crossings listed per category (default 20)"),
+            waveform: WAVEFORM_ARG,
+        },
+    },
+    async ({ search_paths, setup_window, max_results, waveform }) => {
+        const waveformIndex = getWaveform(waveform);
+        if (typeof waveformIndex === "string") {
+            return { content: [{ type: "text" as const, text: waveformIndex }] };
+        }
+        const hdl = search_paths ? findRelevantModules(search_paths, waveformIndex.signals, 20, 100000) : null;
+        const report = analyzeCdc(waveformIndex, {
+            registers: hdl ? extractRegisters(hdl) : undefined,
+            setupWindow: setup_window,
+            maxResults: max_results,
+        });
+        return { content: [{ type: "text" as const, text: typeof report === "string" ? report : formatCdcReport(report) }] };
+    }
+);
+
+// ── find_glitches ────────────────────────────────────────────────────────────
+
+server.registerTool(
+    "find_glitches",
+    {
+        description: "Find glitches: values held for less than a threshold, as produced by gate-level and timing-annotated simulations. The threshold is max_width time units, or by default a fraction of the clock period of each signal's clock domain. Several changes of a signal at one timestamp (delta-cycle glitches) count as zero-width glitches. Reports per signal the count, zero-width count, narrowest width, first and last time and example pulses with the values around them, plus the glitch count per time window.",
+        inputSchema: {
+            signals: z.array(z.string()).optional().describe("Signals to check (default: all)"),
+            t_start: z.number().optional().describe("Start timestamp (default: start of dump)"),
+            t_end: z.number().optional().describe("End timestamp (default: end of dump)"),
+            max_width: z.number().optional().describe("Values held for less than this many time units are glitches; overrides period_fraction"),
+            period_fraction: z.number().optional().describe("Values held for less than this fraction of the signal's clock period are glitches (default 0.1)"),
+            max_results: z.number().optional().describe("Max signals listed (default 20)"),
+            waveform: WAVEFORM_ARG,
+        },
+    },
+    async ({ signals, t_start, t_end, max_width, period_fraction, max_results, waveform }) => {
+        const waveformIndex = getWaveform(waveform);
+        if (typeof waveformIndex === "string") {
+            return { content: [{ type: "text" as const, text: waveformIndex }] };
+        }
+        const report = findGlitches(waveformIndex, {
+            signals,
+            tStart: t_start,
+            tEnd: t_end,
+            maxWidth: max_width,
+            periodFraction: period_fraction,
+            maxResults: max_results,
+        });
+        return { content: [{ type: "text" as const, text: typeof report === "string" ? report : formatGlitchReport(report) }] };
+    }
+);
+
+// ── toggle_coverage ──────────────────────────────────────────────────────────
+
+server.registerTool(
+    "toggle_coverage",
+    {
+        description: "Toggle coverage computed from the dump: for every signal and every bit of a vector, whether it went both 0→1 and 1→0, optionally limited to a scope and time window. Transitions through x/z do not count. The summary gives the overall percentage and, for each signal not fully covered, the bits that never toggled, only rose or only fell; table gives a Markdown row per signal; json gives per-bit rise and fall counts.",
+        inputSchema: {
+            scope: z.string().optional().describe("Only signals at any depth below this scope (default: all)"),
+            t_start: z.number().optional().describe("Start timestamp (default: start of dump)"),
+            t_end: z.number().optional().describe("End timestamp (default: end of dump)"),
+            format: z.enum(["summary", "table", "json"]).optional().describe("Output format (default summary)"),
+            max_results: z.number().optional().describe("Max signals listed in the summary (default 30)"),
+            waveform: WAVEFORM_ARG,
+        },
+    },
+    async ({ scope, t_start, t_end, format, max_results, waveform }) => {
+        const waveformIndex = getWaveform(waveform);
+        if (typeof waveformIndex === "string") {
+            return { content: [{ type: "text" as const, text: waveformIndex }] };
+        }
+        const coverage = toggleCoverage(waveformIndex, { scope, tStart: t_start, tEnd: t_end });
+        if (typeof coverage === "string") {
+            return { content: [{ type: "text" as const, text: coverage }] };
+        }
+        const text = format === "table" ? formatToggleTable(coverage)
+            : format === "json" ? toggleCoverageJson(coverage)
+            : formatToggleSummary(coverage, max_results);
+        return { content: [{ type: "text" as const, text }] };
+    }
+);
+
+// ── diff_waveforms ───────────────────────────────────────────────────────────
+
+server.registerTool(
+    "diff_waveforms",
+    {
+        description: "Compare a waveform against a reference (e.g. a failing run against a known-good one) signal by signal. Signals are matched by hierarchical path, optionally after renaming prefixes. Reports the first divergent timestamp per signal with both values, the number of mismatching intervals and total mismatch time, ordered by earliest divergence. Load both files with load_waveform first.",
+        inputSchema: {
+            reference: z.string().describe("Name of the loaded reference (known-good) waveform"),
+            waveform: WAVEFORM_ARG,
+            prefix_map: z.record(z.string(), z.string()).optional()
+                .describe("Path prefix renames applied to the compared waveform before matching, e.g. {\"tb_new.dut\": \"tb.dut\"}"),
+            signals: z.array(z.string()).optional().describe("Reference signal paths to compare (default: all)"),
+            t_start: z.number().optional().describe("Start of the comparison window (default 0)"),
+            t_end: z.number().optional().describe("End of the comparison window (default: the earlier end time of the two)"),
+            max_results: z.number().optional().describe("Max divergences listed (default 50)"),
+        },
+    },
+    async ({ reference, waveform, prefix_map, signals, t_start, t_end, max_results }) => {
+        const referenceIndex = getWaveform(reference);
+        if (typeof referenceIndex === "string") {
+            return { content: [{ type: "text" as const, text: referenceIndex }] };
+        }
+        const waveformIndex = getWaveform(waveform);
+        if (typeof waveformIndex === "string") {
+            return { content: [{ type: "text" as const, text: waveformIndex }] };
+        }
+        const diff = diffWaveforms(referenceIndex, waveformIndex, {
+            prefixMap: prefix_map,
+            signals,
+            tStart: t_start,
+            tEnd: t_end,
+            maxDivergences: max_results,
+        });
+        if (typeof diff === "string") {
+            return { content: [{ type: "text" as const, text: diff }] };
+        }
+        const comparedName = waveform ?? defaultWaveformName()!;
+        return { content: [{ type: "text" as const, text: formatWaveformDiff(diff, reference, comparedName) }] };
     }
 );
 
@@ -316,10 +1184,12 @@ server.registerTool(
             search_paths: z.array(z.string()).describe("Absolute directory paths to search for .v/.sv/.svh files"),
             max_modules: z.number().optional().describe("Max modules to return (default 5)"),
             max_chars_per_module: z.number().optional().describe("Max characters per module (default 4000)"),
+            waveform: WAVEFORM_ARG,
         },
     },
-    async ({ search_paths, max_modules, max_chars_per_module }) => {
-        const signals = waveformIndex ? waveformIndex.signals : [];
+    async ({ search_paths, max_modules, max_chars_per_module, waveform }) => {
+        const idx = getWaveform(waveform);
+        const signals = typeof idx === "string" ? [] : idx.signals;
         const result = findRelevantModules(
             search_paths,
             signals,
@@ -336,20 +1206,21 @@ server.registerTool(
 // ── main ─────────────────────────────────────────────────────────────────────
 
 async function main() {
-    const filePath = process.argv[2];
-    if (filePath) {
+    // Waveforms named on the command line are preloaded; the last one is the default
+    for (const filePath of process.argv.slice(2)) {
         if (!fs.existsSync(filePath)) {
             console.error(`File not found: ${filePath}`);
             process.exit(1);
         }
         console.error(`Loading waveform: ${filePath}`);
-        const result = await parseWaveformFile(filePath);
-        waveformIndex = new WaveformIndex({
+        const result = await parseWaveformFile(filePath, { onWarning: message => console.error(message) });
+        const name = waveformNameFor(filePath);
+        addWaveform(name, new WaveformIndex({
             ...result,
             uri: filePath,
             startTime: 0,
-        });
-        console.error(`Loaded: ${waveformIndex.signals.length} signals, ${result.transitions.length} transitions`);
+        }));
+        console.error(`Loaded "${name}": ${result.signals.length} signals, ${result.transitionCount} transitions`);
     }
 
     const transport = new StdioServerTransport();
@@ -0,0 +1,75 @@
+/*
+    Copyright (C) 2026 Andrew Capatina
+
+    This program is free software: you can redistribute it and/or modify
+    it under the terms of the GNU Affero General Public License as
+    published by the Free Software Foundation, either version 3 of the
+    License, or (at your option) any later version.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU Affero General Public License for more details.
+
+    You should have received a copy of the GNU Affero General Public License
+    along with this program.  If not, see <http://www.gnu.org/licenses/>.
+*/
+import { WaveformIndex } from "../waveform/vcd";
+import * as path from "path";
+
+// The waveforms loaded into the MCP server, by name.
+
+/** Loaded waveforms by name, in load order. */
+const waveforms = new Map<string, WaveformIndex>();
+/** Waveform used when a tool call does not name one: the most recently loaded. */
+let defaultWaveform: string | null = null;
+
+/** Resolve the `waveform` argument of a tool call, or return the error text to reply with. */
+export function getWaveform(name: string | undefined): WaveformIndex | string {
+    if (waveforms.size === 0) { return "No waveform loaded. Call load_waveform first."; }
+    const key = name ?? defaultWaveform!;
+    const idx = waveforms.get(key);
+    if (!idx) {
+        return `Unknown waveform "${key}". Loaded: ${[...waveforms.keys()].join(", ")}.`;
+    }
+    return idx;
+}
+
+/** Name for a newly loaded file: its base name, suffixed if another file already uses it. */
+export function waveformNameFor(filePath: string): string {
+    const base = path.basename(filePath, path.extname(filePath));
+    let name = base;
+    for (let n = 2; waveforms.has(name) && waveforms.get(name)!.uri !== filePath; n++) {
+        name = `${base}_${n}`;
+    }
+    return name;
+}
+
+/** Add a waveform under `name`, replacing any of that name, and make it the default. */
+export function addWaveform(name: string, idx: WaveformIndex): void {
+    // Re-inserting keeps load order meaningful for the default
+    waveforms.delete(name);
+    waveforms.set(name, idx);
+    defaultWaveform = name;
+}
+
+/**
+ * Unload a waveform. If it was the default, the most recently loaded
+ * remaining one becomes the default. Returns false if none has that name.
+ */
+export function unloadWaveform(name: string): boolean {
+    if (!waveforms.delete(name)) { return false; }
+    if (defaultWaveform === name) {
+        defaultWaveform = [...waveforms.keys()].pop() ?? null;
+    }
+    return true;
+}
+
+/** Loaded waveforms by name, in load order. */
+export function loadedWaveforms(): ReadonlyMap<string, WaveformIndex> {
+    return waveforms;
+}
+
+export function defaultWaveformName(): string | null {
+    return defaultWaveform;
+}
@@ -15,7 +15,7 @@
     along with this program.  If not, see <http://www.gnu.org/licenses/>.
 */
 import Anthropic from '@anthropic-ai/sdk';
-import { LLMMessage, LLMProvider, ToolDefinition, ToolLoopOptions, ToolProgressEvent } from './llm';
+import { LLMMessage, LLMProvider, ToolDefinition, ToolExecutor, ToolLoopOptions, ToolProgressEvent } from './llm';
 
 const FINAL_ANALYSIS_PROMPT = `Now provide your final analysis using ONLY the data you gathered from tool calls. No more tool calls.
 Do NOT include your reasoning process or chain-of-thought. Write ONLY the structured analysis.
@@ -113,7 +113,7 @@ export class AnthropicClient implements LLMProvider {
     async chatWithTools(
         messages: LLMMessage[],
         tools: ToolDefinition[],
-        toolExecutor: (name: string, args: Record<string, unknown>) => string,
+        toolExecutor: ToolExecutor,
         signal?: AbortSignal,
         onProgress?: (event: ToolProgressEvent) => void,
         _hdlContext?: string,
@@ -182,7 +182,8 @@ export class AnthropicClient implements LLMProvider {
 
             // Deduplicate tool calls (small models often repeat the same call)
             const seen = new Map<string, string>();
-            const toolResults: Anthropic.ToolResultBlockParam[] = toolUseBlocks.map(b => {
+            const toolResults: Anthropic.ToolResultBlockParam[] = [];
+            for (const b of toolUseBlocks) {
                 const key = JSON.stringify({ n: b.name, a: b.input });
                 const input = b.input as Record<string, unknown>;
                 let result: string;
@@ -190,7 +191,7 @@ export class AnthropicClient implements LLMProvider {
                     result = `[DUPLICATE — same result as previous identical call]\n${seen.get(key)!}`;
                 } else {
                     onProgress?.({ type: 'tool_call', name: b.name, args: input });
-                    result = toolExecutor(b.name, input);
+                    result = await toolExecutor(b.name, input);
                     seen.set(key, result);
                 }
                 // Track queried signals for progress hints
@@ -198,8 +199,8 @@ export class AnthropicClient implements LLMProvider {
                     queriedSignals.add(input.signal);
                 }
                 totalToolCalls++;
-                return { type: 'tool_result' as const, tool_use_id: b.id, content: result };
-            });
+                toolResults.push({ type: 'tool_result' as const, tool_use_id: b.id, content: result });
+            }
 
             // Append progress hint to the last tool result (not as a separate result
             // — Anthropic requires exactly one result per tool_use_id).
@@ -26,6 +26,9 @@ export interface ToolDefinition {
     parameters: object;
 }
 
+/** Runs one tool call for the tool loop. May be async (e.g. when a tool loads a file). */
+export type ToolExecutor = (name: string, args: Record<string, unknown>) => string | Promise<string>;
+
 export interface ToolLoopOptions {
     /** When true, the question is conceptual (e.g. "what does X do?") and
      *  the model may answer directly from HDL context without tool calls. */
@@ -43,7 +46,7 @@ export interface LLMProvider {
     chatWithTools?(
         messages: LLMMessage[],
         tools: ToolDefinition[],
-        toolExecutor: (name: string, args: Record<string, unknown>) => string,
+        toolExecutor: ToolExecutor,
         signal?: AbortSignal,
         onProgress?: (event: ToolProgressEvent) => void,
         hdlContext?: string,
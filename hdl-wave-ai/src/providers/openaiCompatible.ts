@@ -15,7 +15,7 @@
     along with this program.  If not, see <http://www.gnu.org/licenses/>.
 */
 import OpenAI from 'openai';
-import { LLMMessage, LLMProvider, ToolDefinition, ToolLoopOptions, ToolProgressEvent } from './llm';
+import { LLMMessage, LLMProvider, ToolDefinition, ToolExecutor, ToolLoopOptions, ToolProgressEvent } from './llm';
 
 const FINAL_ANALYSIS_PROMPT = `Now provide your final analysis using ONLY the data you gathered from tool calls. No more tool calls.
 
@@ -246,7 +246,7 @@ export class OpenAICompatibleClient implements LLMProvider {
     async chatWithTools(
         messages: LLMMessage[],
         tools: ToolDefinition[],
-        toolExecutor: (name: string, args: Record<string, unknown>) => string,
+        toolExecutor: ToolExecutor,
         signal?: AbortSignal,
         onProgress?: (event: ToolProgressEvent) => void,
         hdlContext?: string,
@@ -337,7 +337,7 @@ export class OpenAICompatibleClient implements LLMProvider {
     private async chatWithToolsCompletions(
         messages: LLMMessage[],
         tools: ToolDefinition[],
-        toolExecutor: (name: string, args: Record<string, unknown>) => string,
+        toolExecutor: ToolExecutor,
         signal?: AbortSignal,
         onProgress?: (event: ToolProgressEvent) => void,
         hdlContext?: string,
@@ -355,7 +355,7 @@ export class OpenAICompatibleClient implements LLMProvider {
         // Pre-execute list_signals so the model knows what's available.
         // Do NOT pre-seed snapshots — let the model make its own tool calls
         // to encourage deeper investigation instead of short-circuiting to analysis.
-        const listResult = toolExecutor('list_signals', {});
+        const listResult = await toolExecutor('list_signals', {});
         const toolHistory: { role: string; name?: string; content: string }[] = [];
         toolHistory.push({
             role: 'assistant',
@@ -421,7 +421,7 @@ export class OpenAICompatibleClient implements LLMProvider {
             toolHistory.push({ role: 'assistant', content: text });
             for (const tc of uniqueCalls) {
                 onProgress?.({ type: 'tool_call', name: tc.name, args: tc.arguments });
-                const result = toolExecutor(tc.name, tc.arguments);
+                const result = await toolExecutor(tc.name, tc.arguments);
                 toolHistory.push({ role: 'tool', name: tc.name, content: result });
                 // Track queried signals
                 if (tc.arguments.signal && typeof tc.arguments.signal === 'string') {
@@ -514,7 +514,7 @@ export class OpenAICompatibleClient implements LLMProvider {
     private async chatWithToolsChat(
         messages: LLMMessage[],
         tools: ToolDefinition[],
-        toolExecutor: (name: string, args: Record<string, unknown>) => string,
+        toolExecutor: ToolExecutor,
         signal?: AbortSignal,
         onProgress?: (event: ToolProgressEvent) => void,
         hdlContext?: string,
@@ -536,7 +536,7 @@ export class OpenAICompatibleClient implements LLMProvider {
 
         // Pre-execute list_signals so the model knows what's available.
         // Do NOT pre-seed snapshots — let the model make its own tool calls.
-        const listResult = toolExecutor('list_signals', {});
+        const listResult = await toolExecutor('list_signals', {});
         const fakeCallId = 'preseed_list_signals';
         msgs.push({
             role: 'assistant',
@@ -595,7 +595,7 @@ export class OpenAICompatibleClient implements LLMProvider {
                     result = `[DUPLICATE — same result as previous identical call]\n${seen.get(dedupKey)!}`;
                 } else {
                     onProgress?.({ type: 'tool_call', name: tc.function.name, args });
-                    result = toolExecutor(tc.function.name, args);
+                    result = await toolExecutor(tc.function.name, args);
                     seen.set(dedupKey, result);
                 }
                 // Track queried signals
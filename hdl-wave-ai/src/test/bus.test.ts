@@ -0,0 +1,157 @@
+/*
+    Copyright (C) 2026 Andrew Capatina
+
+    This program is free software: you can redistribute it and/or modify
+    it under the terms of the GNU Affero General Public License as
+    published by the Free Software Foundation, either version 3 of the
+    License, or (at your option) any later version.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU Affero General Public License for more details.
+
+    You should have received a copy of the GNU Affero General Public License
+    along with this program.  If not, see <http://www.gnu.org/licenses/>.
+*/
+import * as assert from 'assert';
+import { BusDecodeResult, decodeBus, formatBusDecode } from '../waveform/bus';
+import { WaveformIndex } from '../waveform/vcd';
+import { buildVcd, Change, clock, indexFromVcd } from './waveforms';
+
+/** 8-bit binary of `n`. */
+function b8(n: number): string {
+	return n.toString(2).padStart(8, '0');
+}
+
+/**
+ * A bus clocked by `clk` (rising at 5, 15, 25, …) whose signals start at 0
+ * and take the values of row k of `cycles` at 10k, so the edge at 10k + 5
+ * samples them.
+ */
+function busIndex(clk: string, vars: Record<string, number>, cycles: Record<string, string>[]): WaveformIndex {
+	const changes: Change[] = clock(clk, 10, 10 * cycles.length + 10);
+	for (const [name, width] of Object.entries(vars)) { changes.push([0, name, '0'.repeat(width)]); }
+	cycles.forEach((row, k) => {
+		for (const [name, value] of Object.entries(row)) { changes.push([10 * k, name, value]); }
+	});
+	return indexFromVcd(buildVcd({ [clk]: 1, ...vars }, changes));
+}
+
+function decoded(result: BusDecodeResult | string): BusDecodeResult {
+	assert.ok(typeof result !== 'string', result as string);
+	return result;
+}
+
+suite('Bus decoders', () => {
+	// APB write with one wait state, then a read without
+	const apb = busIndex('pclk', { psel: 1, penable: 1, pwrite: 1, paddr: 8, pwdata: 8, prdata: 8, pready: 1 }, [
+		{},
+		{ psel: '1', pwrite: '1', paddr: b8(0x10), pwdata: b8(0xA5) },
+		{ penable: '1' },
+		{ pready: '1' },
+		{ psel: '0', penable: '0', pready: '0', pwrite: '0' },
+		{ psel: '1', paddr: b8(0x20) },
+		{ penable: '1', pready: '1', prdata: b8(0x3C) },
+		{ psel: '0', penable: '0' },
+	]);
+
+	test('decodes APB transfers with suggested roles', () => {
+		const result = decoded(decodeBus(apb, 'apb'));
+		assert.strictEqual(result.clock, 'tb.pclk');
+		assert.strictEqual(result.roles['paddr'], 'tb.paddr');
+		assert.deepStrictEqual(result.transactions.map(t => [t.kind, t.start, t.end, t.latency, t.addr, t.data]), [
+			['write', 15, 35, 2, '0x10', ['0xA5']],
+			['read', 55, 65, 1, '0x20', ['0x3C']],
+		]);
+		assert.deepStrictEqual(result.warnings, []);
+	});
+
+	test('limits the window and the transactions listed', () => {
+		assert.deepStrictEqual(decoded(decodeBus(apb, 'apb', { tStart: 40 })).transactions.map(t => t.kind), ['read']);
+		const capped = decoded(decodeBus(apb, 'apb', { maxTransactions: 1 }));
+		assert.deepStrictEqual([capped.total, capped.transactions.length], [2, 1]);
+		const lines = formatBusDecode(capped).split('\n');
+		assert.strictEqual(lines[0], 'apb on tb.pclk rising edges, [0, 90]: 2 transaction(s), first 1 shown');
+		assert.strictEqual(lines[2], '  #0 WRITE t=15..35 (2 cycles) addr=0x10 data=0xA5');
+	});
+
+	test('pairs AXI4-Lite write data sent before its address', () => {
+		const axi = busIndex('aclk', {
+			awvalid: 1, awready: 1, awaddr: 8, wvalid: 1, wready: 1, wdata: 8, wstrb: 1, bvalid: 1, bready: 1, bresp: 2,
+			arvalid: 1, arready: 1, araddr: 8, rvalid: 1, rready: 1, rdata: 8, rresp: 2,
+		}, [
+			{},
+			{ wvalid: '1', wready: '1', wdata: b8(0x11), wstrb: '1' },
+			{ wvalid: '0', wready: '0', awvalid: '1', awready: '1', awaddr: b8(0x04) },
+			{ awvalid: '0', awready: '0', bvalid: '1', bready: '1' },
+			{ bvalid: '0', arvalid: '1', arready: '1', araddr: b8(0x40) },
+			{ arvalid: '0' },
+			{ rvalid: '1', rready: '1', rdata: b8(0x99), rresp: '10' },
+			{ rvalid: '0' },
+		]);
+		const result = decoded(decodeBus(axi, 'axi4-lite'));
+		assert.deepStrictEqual(result.transactions.map(t => [t.kind, t.start, t.end, t.latency, t.addr, t.data, t.resp]), [
+			['write', 25, 35, 1, '0x4', ['0x11'], 'OKAY'],
+			['read', 45, 65, 2, '0x40', ['0x99'], 'SLVERR'],
+		]);
+		assert.deepStrictEqual(result.transactions[0].strobe, ['0x1']);
+	});
+
+	test('counts AXI-Stream stalls and warns about a packet without tlast', () => {
+		const stream = busIndex('aclk', { tvalid: 1, tready: 1, tdata: 8, tlast: 1, tid: 2 }, [
+			{},
+			{ tvalid: '1', tdata: b8(0x01), tid: '10' },
+			{ tready: '1' },
+			{ tdata: b8(0x02), tlast: '1' },
+			{ tvalid: '0', tlast: '0' },
+			{ tvalid: '1', tdata: b8(0x03) },
+			{ tvalid: '0' },
+		]);
+		const result = decoded(decodeBus(stream, 'axi-stream'));
+		assert.strictEqual(result.transactions.length, 1);
+		const [packet] = result.transactions;
+		assert.deepStrictEqual([packet.start, packet.end, packet.data, packet.stalls, packet.sideband],
+			[25, 35, ['0x1', '0x2'], 1, { tid: '0x2' }]);
+		assert.deepStrictEqual(result.warnings, ['Packet started at t=55 has no tlast in the window (1 beats).']);
+	});
+
+	test('collects an AHB burst from its address and data phases', () => {
+		const ahb = busIndex('hclk', { htrans: 2, haddr: 8, hwrite: 1, hwdata: 8, hrdata: 8, hready: 1 }, [
+			{ hready: '1' },
+			{ htrans: '10', haddr: b8(0x10), hwrite: '1' },
+			{ htrans: '11', haddr: b8(0x11), hwdata: b8(0x55) },
+			{ htrans: '00', hwrite: '0', hwdata: b8(0x66) },
+		]);
+		const result = decoded(decodeBus(ahb, 'ahb'));
+		assert.deepStrictEqual(result.transactions.map(t => [t.kind, t.start, t.end, t.latency, t.addr, t.beats, t.data]), [
+			['write', 15, 35, 2, '0x10', 2, ['0x55', '0x66']],
+		]);
+	});
+
+	test('assigns Wishbone dat_o and dat_i by the master perspective', () => {
+		const wb = busIndex('clk', { cyc_o: 1, stb_o: 1, we_o: 1, adr_o: 8, dat_o: 8, dat_i: 8, ack_i: 1 }, [
+			{},
+			{ cyc_o: '1', stb_o: '1', we_o: '1', adr_o: b8(0x08), dat_o: b8(0xDE) },
+			{ ack_i: '1' },
+			{ ack_i: '0', cyc_o: '0', stb_o: '0', we_o: '0' },
+			{ cyc_o: '1', stb_o: '1', adr_o: b8(0x0C) },
+			{ ack_i: '1', dat_i: b8(0xAD) },
+			{ ack_i: '0', cyc_o: '0', stb_o: '0' },
+		]);
+		const result = decoded(decodeBus(wb, 'wishbone'));
+		assert.deepStrictEqual([result.roles['wdata'], result.roles['rdata']], ['tb.dat_o', 'tb.dat_i']);
+		assert.deepStrictEqual(result.transactions.map(t => [t.kind, t.start, t.end, t.addr, t.data, t.resp]), [
+			['write', 15, 25, '0x8', ['0xDE'], 'ACK'],
+			['read', 45, 55, '0xC', ['0xAD'], 'ACK'],
+		]);
+	});
+
+	test('explains roles that cannot be mapped', () => {
+		assert.match(decodeBus(apb, 'axi4') as string, /^Could not map the axi4 roles .*Pass roles explicitly/);
+		assert.match(decodeBus(apb, 'apb', { roles: { bogus: 'tb.psel' } }) as string, /^Unknown apb role "bogus"\. Roles: clk, psel, /);
+		assert.strictEqual(decodeBus(apb, 'apb', { roles: { psel: 'tb.nope' } }), 'Role psel: Unknown signal "tb.nope": there is no such signal in the waveform (this is not an X value). Use list_signals to see the available names.');
+		// An explicit role replaces the suggested one
+		assert.strictEqual(decoded(decodeBus(apb, 'apb', { roles: { pready: 'tb.psel' } })).transactions[0].latency, 1);
+	});
+});
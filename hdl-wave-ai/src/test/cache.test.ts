@@ -0,0 +1,131 @@
+/*
+    Copyright (C) 2026 Andrew Capatina
+
+    This program is free software: you can redistribute it and/or modify
+    it under the terms of the GNU Affero General Public License as
+    published by the Free Software Foundation, either version 3 of the
+    License, or (at your option) any later version.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU Affero General Public License for more details.
+
+    You should have received a copy of the GNU Affero General Public License
+    along with this program.  If not, see <http://www.gnu.org/licenses/>.
+*/
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { readIndexCache, writeIndexCache } from '../waveform/cache';
+import { parseWaveformFile } from '../waveform/fst';
+import { parseVcd, VcdParseResult, WaveformIndex } from '../waveform/vcd';
+import { buildVcd, clock } from './waveforms';
+
+/** Everything a parse result holds, with traces as "time=raw" lists. */
+function snapshot(result: VcdParseResult) {
+	return {
+		signals: [...result.signals],
+		traces: result.signals.map(s => {
+			const trace = result.traces.get(s)!;
+			return Array.from({ length: trace.length }, (_, i) => `${trace.timeAt(i)}=${trace.rawAt(i)}`);
+		}),
+		// As JSON, where unset optional fields are absent
+		descriptors: JSON.parse(JSON.stringify([...result.descriptors.values()])),
+		transitionCount: result.transitionCount,
+		endTime: result.endTime,
+		timescale: result.timescale,
+		timeOrigin: result.timeOrigin,
+		scopes: result.scopes,
+	};
+}
+
+suite('Index cache', () => {
+	let dir: string;
+	let source: string;
+	const savedDir = process.env.HDL_WAVE_CACHE_DIR;
+	suiteSetup(() => {
+		dir = fs.mkdtempSync(path.join(os.tmpdir(), 'hdl-wave-ai-cache-'));
+		process.env.HDL_WAVE_CACHE_DIR = path.join(dir, 'cache');
+		source = path.join(dir, 'dump.vcd');
+		fs.writeFileSync(source, buildVcd({ clk: 1, count: 8, flag: 1 }, [
+			...clock('clk', 10, 100),
+			...Array.from({ length: 10 }, (_, i): [number, string, string] => [i * 10, 'count', i.toString(2).padStart(8, '0')]),
+			[0, 'flag', 'x'], [35, 'flag', '1'], [35, 'flag', '0'],
+		]));
+	});
+	suiteTeardown(() => {
+		if (savedDir === undefined) { delete process.env.HDL_WAVE_CACHE_DIR; } else { process.env.HDL_WAVE_CACHE_DIR = savedDir; }
+		fs.rmSync(dir, { recursive: true, force: true });
+	});
+
+	test('reads back what was written', async () => {
+		const result = parseVcd(fs.readFileSync(source, 'utf8'));
+		const stamp = { mtimeMs: 1000, size: 42 };
+		await writeIndexCache(source, stamp, result);
+		const cached = await readIndexCache(source, stamp);
+		assert.ok(cached);
+		assert.deepStrictEqual(snapshot(cached), snapshot(result));
+	});
+
+	test('keeps aliased paths on one trace', async () => {
+		// tb.dut.clk is declared with the id code of tb.clk
+		const text = buildVcd({ clk: 1 }, clock('clk', 10, 30)).replace('$upscope $end', '$scope module dut $end\n$var wire 1 ! clk $end\n$upscope $end\n$upscope $end');
+		const result = parseVcd(text);
+		const stamp = { mtimeMs: 1500, size: 3 };
+		await writeIndexCache(source, stamp, result);
+		const cached = (await readIndexCache(source, stamp))!;
+		assert.deepStrictEqual(snapshot(cached), snapshot(result));
+		assert.strictEqual(cached.traces.get('tb.dut.clk'), cached.traces.get('tb.clk'));
+		assert.deepStrictEqual(cached.descriptors.get('tb.clk')?.aliases, ['tb.dut.clk']);
+	});
+
+	test('keeps the time origin of 64-bit dumps', async () => {
+		const result = parseVcd(buildVcd({ a: 1 }, [[0, 'a', '0'], [7, 'a', '1']]).replace(/^#(\d+)$/gm, (_, t) => `#${18446744073709551000n + BigInt(t)}`));
+		assert.strictEqual(result.timeOrigin, 18446744073709551000n);
+		const stamp = { mtimeMs: 2000, size: 1 };
+		await writeIndexCache(source, stamp, result);
+		assert.deepStrictEqual(snapshot((await readIndexCache(source, stamp))!), snapshot(result));
+	});
+
+	test('misses when the source changed', async () => {
+		const result = parseVcd(fs.readFileSync(source, 'utf8'));
+		await writeIndexCache(source, { mtimeMs: 3000, size: 10 }, result);
+		assert.strictEqual(await readIndexCache(source, { mtimeMs: 3000, size: 11 }), null);
+		assert.strictEqual(await readIndexCache(source, { mtimeMs: 3001, size: 10 }), null);
+	});
+
+	test('writes the parse as it was, not signals added to it later', async () => {
+		const result = parseVcd(fs.readFileSync(source, 'utf8'));
+		const stamp = { mtimeMs: 4000, size: 7 };
+		const expected = snapshot(result);
+		const write = writeIndexCache(source, stamp, result);
+		// A WaveformIndex shares the result's signal list and descriptors
+		const idx = new WaveformIndex({ ...result, startTime: 0 });
+		assert.notStrictEqual(typeof idx.defineSignal('both', 'tb.clk & tb.flag'), 'string');
+		await write;
+		assert.deepStrictEqual(snapshot((await readIndexCache(source, stamp))!), expected);
+	});
+
+	test('lets writes of one file overlap', async () => {
+		const result = parseVcd(fs.readFileSync(source, 'utf8'));
+		const stamp = { mtimeMs: 5000, size: 9 };
+		await Promise.all([writeIndexCache(source, stamp, result), writeIndexCache(source, stamp, result)]);
+		assert.deepStrictEqual(snapshot((await readIndexCache(source, stamp))!), snapshot(result));
+		assert.deepStrictEqual(fs.readdirSync(process.env.HDL_WAVE_CACHE_DIR!).filter(f => f.endsWith('.tmp')), []);
+	});
+
+	test('serves an unchanged file from the cache', async () => {
+		const first = await parseWaveformFile(source);
+		// The write runs in the background: wait for the entry to appear
+		const { size, mtimeMs } = fs.statSync(source);
+		for (let i = 0; i < 100 && !(await readIndexCache(source, { size, mtimeMs })); i++) {
+			await new Promise(resolve => setTimeout(resolve, 10));
+		}
+		let progress: number[] = [];
+		const second = await parseWaveformFile(source, { onProgress: (read, total) => { progress = [read, total]; } });
+		assert.deepStrictEqual(snapshot(second), snapshot(first));
+		assert.deepStrictEqual(progress, [size, size]);
+	});
+});
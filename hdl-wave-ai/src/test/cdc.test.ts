@@ -0,0 +1,102 @@
+/*
+    Copyright (C) 2026 Andrew Capatina
+
+    This program is free software: you can redistribute it and/or modify
+    it under the terms of the GNU Affero General Public License as
+    published by the Free Software Foundation, either version 3 of the
+    License, or (at your option) any later version.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU Affero General Public License for more details.
+
+    You should have received a copy of the GNU Affero General Public License
+    along with this program.  If not, see <http://www.gnu.org/licenses/>.
+*/
+import * as assert from 'assert';
+import { extractRegisters } from '../hdl/parser';
+import { analyzeCdc, CdcReport, formatCdcReport } from '../waveform/cdc';
+import { buildVcd, Change, clock, indexFromVcd } from './waveforms';
+
+const END = 1000;
+
+/**
+ * clk_a (period 10) drives src, which toggles every third rising edge;
+ * clk_b (period 14) clocks it through sync1 and then sync2.
+ */
+function crossing(): Change[] {
+	const changes: Change[] = [...clock('clk_a', 10, END), ...clock('clk_b', 14, END),
+		[0, 'src', '0'], [0, 'sync1', '0'], [0, 'sync2', '0']];
+	const src: [number, number][] = [[0, 0]];
+	for (let t = 5, n = 0, level = 0; t <= END; t += 10, n++) {
+		if (n % 3 === 2) {
+			level ^= 1;
+			src.push([t, level]);
+			changes.push([t, 'src', String(level)]);
+		}
+	}
+	// Each flop takes its input as it was just before the edge
+	const before = (wave: [number, number][], t: number) => wave.filter(([u]) => u < t).pop()![1];
+	const sync1: [number, number][] = [[0, 0]];
+	const sync2: [number, number][] = [[0, 0]];
+	for (let t = 7; t <= END; t += 14) {
+		const d1 = before(src, t), d2 = before(sync1, t);
+		if (d1 !== sync1[sync1.length - 1][1]) { sync1.push([t, d1]); changes.push([t, 'sync1', String(d1)]); }
+		if (d2 !== sync2[sync2.length - 1][1]) { sync2.push([t, d2]); changes.push([t, 'sync2', String(d2)]); }
+	}
+	return changes;
+}
+
+/** A 4-bit binary counter on clk_a, captured straight into cnt_b on clk_b. */
+function counter(): Change[] {
+	const changes: Change[] = [...clock('clk_a', 10, 300), ...clock('clk_b', 14, 300)];
+	const bin = (n: number) => n.toString(2).padStart(4, '0');
+	const cnt: [number, number][] = [[0, 0]];
+	for (let t = 5, n = 0; t <= 300; t += 10) { n = (n + 1) % 16; cnt.push([t, n]); }
+	changes.push(...cnt.map(([t, n]): Change => [t, 'cnt', bin(n)]), [0, 'cnt_b', '0000']);
+	for (let t = 7, last = 0; t <= 300; t += 14) {
+		const v = cnt.filter(([u]) => u < t).pop()![1];
+		if (v !== last) { changes.push([t, 'cnt_b', bin(v)]); last = v; }
+	}
+	return changes;
+}
+
+function report(result: CdcReport | string): CdcReport {
+	if (typeof result === 'string') { assert.fail(result); }
+	return result;
+}
+
+suite('CDC analysis', () => {
+	test('infers a synchronized crossing from the waveform', () => {
+		const idx = indexFromVcd(buildVcd({ clk_a: 1, clk_b: 1, src: 1, sync1: 1, sync2: 1 }, crossing()));
+		const result = report(analyzeCdc(idx));
+		assert.strictEqual(result.evidence, 'waveform');
+		assert.deepStrictEqual(result.clocks.map(c => [c.clock, c.period]), [['tb.clk_a', 10], ['tb.clk_b', 14]]);
+		assert.deepStrictEqual(result.crossings.map(c => [c.source, c.sourceClock, c.destination, c.destinationClock, c.synchronizer]), [
+			['tb.src', 'tb.clk_a', 'tb.sync1', 'tb.clk_b', ['tb.sync2']],
+		]);
+	});
+
+	test('flags a binary bus sampled without a synchronizer, from the RTL registers', () => {
+		const idx = indexFromVcd(buildVcd({ clk_a: 1, clk_b: 1, cnt: 4, cnt_b: 4 }, counter()));
+		const registers = extractRegisters('always @(posedge clk_a) cnt <= cnt + 1;\nalways @(posedge clk_b) cnt_b <= cnt;');
+		const result = report(analyzeCdc(idx, { registers }));
+		assert.strictEqual(result.evidence, 'rtl');
+		const [crossing] = result.crossings;
+		assert.deepStrictEqual([crossing.source, crossing.destination, crossing.width, crossing.synchronizer], ['tb.cnt', 'tb.cnt_b', 4, []]);
+		assert.deepStrictEqual([crossing.violations, crossing.multiBit.count, crossing.changes], [{ count: 4, times: [35, 105, 175, 245] }, 15, 30]);
+		assert.deepStrictEqual(formatCdcReport(result).split('\n').slice(3), [
+			'Hazards: unsynchronized crossings sampled within the setup window of a source change (1):',
+			'  tb.cnt → tb.cnt_b (tb.clk_a → tb.clk_b rising), 4 bits; no synchronizer; sampled within 1.4 of a source change 4 times (t=35, 105, 175, 245); ' +
+			'15 of 30 changes flip several bits at once, not Gray-coded (t=15, 35, 55, 75, 95, …)',
+		]);
+		// The waveform alone shows the same crossing
+		assert.deepStrictEqual(report(analyzeCdc(idx)).crossings.map(c => [c.source, c.destination]), [['tb.cnt', 'tb.cnt_b']]);
+	});
+
+	test('needs a clock', () => {
+		const idx = indexFromVcd(buildVcd({ a: 1 }, [[0, 'a', '0'], [10, 'a', '1']]));
+		assert.strictEqual(analyzeCdc(idx), 'No clocks detected, so there are no clock domains to cross.');
+	});
+});
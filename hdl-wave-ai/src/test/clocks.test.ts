@@ -0,0 +1,82 @@
+/*
+    Copyright (C) 2026 Andrew Capatina
+
+    This program is free software: you can redistribute it and/or modify
+    it under the terms of the GNU Affero General Public License as
+    published by the Free Software Foundation, either version 3 of the
+    License, or (at your option) any later version.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU Affero General Public License for more details.
+
+    You should have received a copy of the GNU Affero General Public License
+    along with this program.  If not, see <http://www.gnu.org/licenses/>.
+*/
+import * as assert from 'assert';
+import { formatClockReport } from '../waveform/clocks';
+import { buildVcd, Change, clock, indexFromVcd } from './waveforms';
+
+/** `name` starts low and toggles at each of `times`. */
+function toggles(name: string, times: number[]): Change[] {
+	return [[0, name, '0'], ...times.map((t, i): Change => [t, name, String((i + 1) % 2)])];
+}
+
+/**
+ * clk (period 10) and clk_div (period 20, rising on clk's rising edges);
+ * aclk (period 14) stops at 150. q follows clk rising, f clk falling, irq
+ * no clock; cfg never changes.
+ */
+const TEXT = buildVcd({ clk: 1, clk_div: 1, aclk: 1, rst_n: 1, q: 1, f: 1, irq: 1, cfg: 1 }, [
+	...clock('clk', 10, 400),
+	...clock('clk_div', 20, 400, 5),
+	...clock('aclk', 14, 150),
+	[0, 'rst_n', '0'], [22, 'rst_n', '1'],
+	...toggles('q', [26, 56, 86, 116, 146]),
+	...toggles('f', [11, 31, 51, 71, 91]),
+	...toggles('irq', [3, 47, 93, 141]),
+	[0, 'cfg', '1'],
+]);
+
+suite('Clock analysis', () => {
+	const idx = indexFromVcd(TEXT);
+
+	test('characterises every periodic clock', () => {
+		const { clocks } = idx.getClocking();
+		assert.deepStrictEqual(clocks.map(c => [c.signal, c.period, c.duty, c.risingEdges]),
+			[['tb.clk', 10, 0.5, 40], ['tb.aclk', 14, 0.5, 11], ['tb.clk_div', 20, 0.5, 20]]);
+		assert.deepStrictEqual(clocks[1].gaps, [{ from: 147, to: null, level: 1 }]);
+		assert.deepStrictEqual(clocks[2].generatedFrom, { clock: 'tb.clk', edge: 'rising' });
+		assert.strictEqual(clocks[0].periodSeconds, 1e-8);
+	});
+
+	test('finds resets and the clock edge each signal follows', () => {
+		const report = idx.getClocking();
+		assert.deepStrictEqual(report.resets, [{ signal: 'tb.rst_n', active: 'low', windows: [{ from: 0, to: 22 }] }]);
+		assert.deepStrictEqual(report.domains.map(d => [d.clock, d.edge, d.signals]),
+			[['tb.clk', 'rising', ['tb.q']], ['tb.clk', 'falling', ['tb.f']]]);
+		assert.deepStrictEqual([report.unclocked, report.quiet], [['tb.rst_n', 'tb.irq'], 1]);
+		assert.strictEqual(idx.getClocking(), report);
+	});
+
+	test('renders the report', () => {
+		assert.deepStrictEqual(formatClockReport(idx.getClocking(), idx).split('\n'), [
+			'Clocks (3):',
+			'  tb.clk: period 10 (10 ns, 100 MHz), duty 50%, 40 rising edges t=5..395',
+			'  tb.aclk: period 14 (14 ns, 71.43 MHz), duty 50%, 11 rising edges t=7..147',
+			'    stopped or gated 1 time: stops after t=147 (held 1 to the end, t=400)',
+			'  tb.clk_div: period 20 (20 ns, 50 MHz), duty 50%, 20 rising edges t=15..395, edges fall on tb.clk rising edges (derived or gated)',
+			'Resets:',
+			'  tb.rst_n (active low): asserted t=0..22',
+			'Clock domains (the clock edge each signal\'s changes follow):',
+			'  tb.clk rising: 1 signal — tb.q',
+			'  tb.clk falling: 1 signal — tb.f',
+			'  not aligned with any one clock (or too few changes to tell): 2 signals — tb.rst_n, tb.irq',
+			'  never change: 1 signal',
+		]);
+		const quiet = indexFromVcd(buildVcd({ a: 1 }, [[0, 'a', '0'], [7, 'a', '1']]));
+		assert.strictEqual(formatClockReport(quiet.getClocking(), quiet),
+			'Clocks: none detected (no single-bit signal toggles with a stable period)');
+	});
+});
@@ -0,0 +1,53 @@
+/*
+    Copyright (C) 2026 Andrew Capatina
+
+    This program is free software: you can redistribute it and/or modify
+    it under the terms of the GNU Affero General Public License as
+    published by the Free Software Foundation, either version 3 of the
+    License, or (at your option) any later version.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU Affero General Public License for more details.
+
+    You should have received a copy of the GNU Affero General Public License
+    along with this program.  If not, see <http://www.gnu.org/licenses/>.
+*/
+import * as assert from 'assert';
+import { toggleCoverage, ToggleCoverage } from '../waveform/coverage';
+import { buildVcd, indexFromVcd } from './waveforms';
+
+// bus[0] toggles both ways; bus[1] only rises, and its second rise through x
+// does not count; idle settles at time 0 and never moves
+const idx = indexFromVcd(buildVcd({ bus: 2, idle: 1 }, [
+	[0, 'bus', 'x0'], [0, 'bus', '00'], [0, 'idle', '1'],
+	[10, 'bus', '01'], [20, 'bus', '10'], [30, 'bus', 'x1'], [40, 'bus', '10'],
+]));
+
+function coverage(result: ToggleCoverage | string): ToggleCoverage {
+	if (typeof result === 'string') { assert.fail(result); }
+	return result;
+}
+
+suite('Toggle coverage', () => {
+	test('counts rises and falls per bit', () => {
+		const result = coverage(toggleCoverage(idx));
+		assert.deepStrictEqual(result.signals.map(s => [s.signal, s.bits, s.covered]), [
+			['tb.bus', [{ bit: 1, rose: 1, fell: 0 }, { bit: 0, rose: 2, fell: 2 }], 1],
+			['tb.idle', [{ bit: 0, rose: 0, fell: 0 }], 0],
+		]);
+		assert.strictEqual(result.totalBits, 3);
+		assert.strictEqual(result.coveredBits, 1);
+	});
+
+	test('counts only changes inside the window', () => {
+		const result = coverage(toggleCoverage(idx, { tStart: 25, tEnd: 40 }));
+		assert.deepStrictEqual(result.signals[0].bits, [{ bit: 1, rose: 0, fell: 0 }, { bit: 0, rose: 1, fell: 1 }]);
+	});
+
+	test('rejects an unknown scope and a window outside the dump', () => {
+		assert.strictEqual(typeof toggleCoverage(idx, { scope: 'nope' }), 'string');
+		assert.match(toggleCoverage(idx, { tStart: 100 }) as string, /is outside the dump/);
+	});
+});
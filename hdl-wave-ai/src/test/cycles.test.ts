@@ -0,0 +1,90 @@
+/*
+    Copyright (C) 2026 Andrew Capatina
+
+    This program is free software: you can redistribute it and/or modify
+    it under the terms of the GNU Affero General Public License as
+    published by the Free Software Foundation, either version 3 of the
+    License, or (at your option) any later version.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU Affero General Public License for more details.
+
+    You should have received a copy of the GNU Affero General Public License
+    along with this program.  If not, see <http://www.gnu.org/licenses/>.
+*/
+import * as assert from 'assert';
+import { buildCycleTable, CycleTable, detectClock, formatCycleSamples, sampleOnClock } from '../waveform/cycles';
+import { buildVcd, clock, indexFromVcd } from './waveforms';
+
+/**
+ * clk rises at 5, 15, …, 95; a faster `toggle` without a clock name; rst_n
+ * released at 22, so cycle 0 is the edge at 25; q is high over [25, 45).
+ */
+const TEXT = buildVcd({ clk: 1, toggle: 1, rst_n: 1, q: 1 }, [
+	...clock('clk', 10, 100),
+	...clock('toggle', 4, 100),
+	[0, 'rst_n', '0'], [22, 'rst_n', '1'],
+	[0, 'q', '0'], [25, 'q', '1'], [45, 'q', '0'],
+]);
+
+suite('Cycle view', () => {
+	const idx = indexFromVcd(TEXT);
+
+	test('detects a clock by name and regularity, and an active-low reset', () => {
+		assert.deepStrictEqual(detectClock(idx), { clock: 'tb.clk', edge: 'rising', reset: 'tb.rst_n' });
+		const table = idx.getCycleTable()!;
+		assert.deepStrictEqual([table.resetActive, table.resetRelease, table.period], ['low', 22, 10]);
+		assert.deepStrictEqual([table.firstCycle, table.lastCycle, table.cycleToTime(0)], [-2, 7, 25]);
+		assert.strictEqual(table.describe(),
+			'tb.clk (rising edge), period 10, cycles -2..7, reset tb.rst_n (active low) released at t=22, cycle 0 at t=25');
+	});
+
+	test('maps between cycles and times', () => {
+		const table = idx.getCycleTable()!;
+		assert.strictEqual(table.cycleToTime(-2), 5);
+		assert.strictEqual(table.cycleToTime(8), null);
+		assert.deepStrictEqual(table.timeToCycle(31), { cycle: 0, edgeTime: 25, offset: 6 });
+		assert.deepStrictEqual(table.timeToCycle(35)?.cycle, 1);
+		assert.strictEqual(table.timeToCycle(4), null);
+	});
+
+	test('samples before the edge by default, or right after it', () => {
+		const table = idx.getCycleTable()!;
+		const before = sampleOnClock(idx, table, ['tb.q'], 0, 2);
+		assert.deepStrictEqual(before.items.map(r => [r.cycle, r.time, r.values[0]]), [[0, 25, '0'], [1, 35, '1'], [2, 45, '1']]);
+		const after = sampleOnClock(idx, table, ['tb.q'], 0, 2, { sample: 'after' });
+		assert.deepStrictEqual(after.items.map(r => r.values[0]), ['1', '1', '0']);
+	});
+
+	test('skips unchanged cycles and pages the rows', () => {
+		const table = idx.getCycleTable()!;
+		const changes = sampleOnClock(idx, table, ['tb.q'], -10, 100, { changesOnly: true });
+		assert.deepStrictEqual(changes.items.map(r => r.cycle), [-2, 1, 3]);
+		const first = sampleOnClock(idx, table, ['tb.q'], -10, 100, { limit: 2 });
+		assert.deepStrictEqual([first.items.length, first.offset, first.total], [2, 0, 10]);
+		assert.deepStrictEqual(sampleOnClock(idx, table, ['tb.q'], -10, 100, { offset: 2, limit: 2 }).items.map(r => r.cycle), [0, 1]);
+		assert.strictEqual(formatCycleSamples(table, ['tb.q'], first, -10, 100, 'abc').split('\n')[0],
+			'[Rows 1–2 of 10; 8 more. Pass cursor "abc" for the next page, or summary: true for run-length stats.]');
+		assert.strictEqual(formatCycleSamples(table, ['tb.q'], sampleOnClock(idx, table, ['tb.q'], 20, 30), 20, 30),
+			'Sampled on tb.clk rising edges, cycles 20..30:\n  (no clock edges in range; cycles -2..7 exist)');
+	});
+
+	test('uses a clock set explicitly, on either edge', () => {
+		const own = indexFromVcd(TEXT);
+		const table = own.setClock({ clock: 'tb.toggle', edge: 'falling' }) as CycleTable;
+		assert.strictEqual(own.getCycleTable(), table);
+		assert.deepStrictEqual([table.cycleToTime(0), table.cycleToTime(1), table.period, table.resetRelease], [4, 8, 4, null]);
+		assert.strictEqual(own.setClock({ clock: 'tb.nope' }), 'Clock: Unknown signal "tb.nope": there is no such signal in the waveform (this is not an X value). Use list_signals to see the available names.');
+		assert.strictEqual(own.getCycleTable(), table);
+		assert.strictEqual(buildCycleTable(own, { clock: 'tb.clk', reset: 'tb.rst' }),
+			'Reset: Unknown signal "tb.rst": there is no such signal in the waveform (this is not an X value). Did you mean: tb.rst_n?');
+	});
+
+	test('finds no clock in a waveform without a regular toggle', () => {
+		const quiet = indexFromVcd(buildVcd({ q: 1 }, [[0, 'q', '0'], [25, 'q', '1'], [45, 'q', '0']]));
+		assert.strictEqual(detectClock(quiet), null);
+		assert.strictEqual(quiet.getCycleTable(), null);
+	});
+});
@@ -0,0 +1,69 @@
+/*
+    Copyright (C) 2026 Andrew Capatina
+
+    This program is free software: you can redistribute it and/or modify
+    it under the terms of the GNU Affero General Public License as
+    published by the Free Software Foundation, either version 3 of the
+    License, or (at your option) any later version.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU Affero General Public License for more details.
+
+    You should have received a copy of the GNU Affero General Public License
+    along with this program.  If not, see <http://www.gnu.org/licenses/>.
+*/
+import * as assert from 'assert';
+import { fastlzDecompress, lz4DecompressBlock } from '../waveform/decompress';
+import { fastlzLiterals, lz4Literals } from './fstWriter';
+
+const bytes = (...parts: (string | number)[]) => Buffer.concat(parts.map(p => typeof p === 'string' ? Buffer.from(p, 'latin1') : Buffer.from([p])));
+
+suite('LZ4 block decoder', () => {
+	test('copies literals and overlapping matches', () => {
+		// "abc", then 12 bytes from 3 back, then the final literal
+		const src = bytes(0x38, 'abc', 3, 0, 0x10, 'X');
+		assert.strictEqual(lz4DecompressBlock(src, 16).toString('latin1'), 'abcabcabcabcabcX');
+	});
+
+	test('reads extended literal and match lengths', () => {
+		const text = Buffer.from('0123456789'.repeat(30));
+		assert.deepStrictEqual(lz4DecompressBlock(lz4Literals(text), text.length), text);
+		// One literal, then a 29-byte run of it (15 + 10 + 4)
+		const src = bytes(0x1F, 'a', 1, 0, 10, 0x10, 'b');
+		assert.strictEqual(lz4DecompressBlock(src, 31).toString('latin1'), 'a'.repeat(30) + 'b');
+	});
+
+	test('rejects bad offsets and sizes', () => {
+		assert.throws(() => lz4DecompressBlock(bytes(0x10, 'a', 0, 0, 0x10, 'b'), 6), /invalid match offset/);
+		assert.throws(() => lz4DecompressBlock(bytes(0x30, 'abc'), 4), /expected 4 bytes, got 3/);
+	});
+});
+
+suite('FastLZ decoder', () => {
+	test('decodes level 1 literals and matches', () => {
+		// "abc", 6 bytes from 3 back, "X"
+		const src = bytes(0x02, 'abc', 0x80, 2, 0x00, 'X');
+		assert.strictEqual(fastlzDecompress(src, 10).toString('latin1'), 'abcabcabcX');
+		// A long match: 6 + 11 + 3 bytes from 1 back
+		const long = bytes(0x00, 'z', 0xE0, 11, 0);
+		assert.strictEqual(fastlzDecompress(long, 21).toString('latin1'), 'z'.repeat(21));
+		const text = Buffer.from('level one literal runs of at most 32 bytes each');
+		assert.deepStrictEqual(fastlzDecompress(fastlzLiterals(text), text.length), text);
+	});
+
+	test('decodes level 2 far matches', () => {
+		const lit = Buffer.from(Array.from({ length: 9000 }, (_, i) => (i * 7) & 255));
+		const runs = fastlzLiterals(lit);
+		runs[0] |= 0x20; // level 2
+		// 5 bytes from 9000 back: the 16-bit distance escape (9000 - 8192 = 0x0328)
+		const src = Buffer.concat([runs, bytes(0x7F, 255, 0x03, 0x28)]);
+		assert.deepStrictEqual(fastlzDecompress(src, 9005), Buffer.concat([lit, lit.subarray(0, 5)]));
+	});
+
+	test('rejects other levels and bad references', () => {
+		assert.throws(() => fastlzDecompress(bytes(0x40, 'a'), 1), /unsupported level 3/);
+		assert.throws(() => fastlzDecompress(bytes(0x00, 'a', 0x20, 5), 4), /invalid back-reference/);
+	});
+});
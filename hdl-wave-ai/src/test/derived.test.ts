@@ -0,0 +1,93 @@
+/*
+    Copyright (C) 2026 Andrew Capatina
+
+    This program is free software: you can redistribute it and/or modify
+    it under the terms of the GNU Affero General Public License as
+    published by the Free Software Foundation, either version 3 of the
+    License, or (at your option) any later version.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU Affero General Public License for more details.
+
+    You should have received a copy of the GNU Affero General Public License
+    along with this program.  If not, see <http://www.gnu.org/licenses/>.
+*/
+import * as assert from 'assert';
+import { formatDerivedSignal } from '../waveform/derived';
+import { SignalDescriptor, WaveformIndex } from '../waveform/vcd';
+import { buildVcd, clock, indexFromVcd } from './waveforms';
+
+/** valid high over [10, 40), ready over [20, 30) and from 35, data set at 25. */
+const TEXT = buildVcd({ valid: 1, ready: 1, data: 8 }, [
+	[0, 'valid', '0'], [10, 'valid', '1'], [40, 'valid', '0'],
+	[0, 'ready', '0'], [20, 'ready', '1'], [30, 'ready', '0'], [35, 'ready', '1'],
+	[25, 'data', '10100101'],
+]);
+
+/** "time=raw" for every change of `signal`. */
+function changes(idx: WaveformIndex, signal: string): string[] {
+	const trace = idx.getTrace(signal);
+	assert.ok(trace, `no trace for ${signal}`);
+	return Array.from({ length: trace.length }, (_, i) => `${trace.timeAt(i)}=${trace.rawAt(i)}`);
+}
+
+function defined(result: SignalDescriptor | string): SignalDescriptor {
+	assert.ok(typeof result !== 'string', result as string);
+	return result;
+}
+
+suite('Derived signals', () => {
+	test('evaluates an expression at every change of its sources', () => {
+		const idx = indexFromVcd(TEXT);
+		const desc = defined(idx.defineSignal('fire', 'valid & ready'));
+		assert.deepStrictEqual([desc.path, desc.varType, desc.width, desc.kind, desc.expression], ['fire', 'derived', 1, 'logic', 'valid & ready']);
+		assert.deepStrictEqual(changes(idx, 'fire'), ['0=0', '20=1', '30=0', '35=1', '40=0']);
+		assert.ok(idx.signals.includes('fire'));
+		assert.ok(idx.isDerived('fire'));
+		assert.strictEqual(idx.countTransitions('fire', 0, 100), 5);
+		assert.strictEqual(formatDerivedSignal(idx, desc),
+			'Defined fire = valid & ready (1 bit): 5 value changes, first 0 at t=0. Use "fire" as a signal name in any tool.');
+	});
+
+	test('selects bits and is x until its sources have values', () => {
+		const idx = indexFromVcd(TEXT);
+		assert.strictEqual(defined(idx.defineSignal('dbg.hi', 'tb.data[7:4]')).width, 4);
+		assert.deepStrictEqual(changes(idx, 'dbg.hi'), ['25=1010']);
+		defined(idx.defineSignal('gated', 'valid ? data : 8\'h00'));
+		assert.deepStrictEqual(changes(idx, 'gated'), ['0=00000000', '10=xxxxxxxx', '25=10100101', '40=00000000']);
+	});
+
+	test('rebuilds signals defined on a redefined one', () => {
+		const idx = indexFromVcd(TEXT);
+		defined(idx.defineSignal('a', 'valid'));
+		defined(idx.defineSignal('not_a', '~a'));
+		assert.deepStrictEqual(changes(idx, 'not_a'), ['0=1', '10=0', '40=1']);
+		defined(idx.defineSignal('a', 'ready'));
+		assert.deepStrictEqual(changes(idx, 'not_a'), ['0=1', '20=0', '30=1', '35=0']);
+		assert.strictEqual(idx.defineSignal('a', 'not_a'), '"a" cannot depend on itself.');
+	});
+
+	test('redoes clock analysis after a redefinition', () => {
+		const idx = indexFromVcd(buildVcd({ clk: 1, en: 1 }, [...clock('clk', 10, 100), [0, 'en', '1'], [50, 'en', '0']]));
+		defined(idx.defineSignal('gclk', 'clk & en'));
+		assert.notStrictEqual(typeof idx.setClock({ clock: 'gclk' }), 'string');
+		assert.strictEqual(idx.getCycleTable()?.edgeCount, 5);
+		const report = idx.getClocking();
+		defined(idx.defineSignal('gclk', 'clk'));
+		// The cycle table is rebuilt on the clock that was set, from its new trace
+		assert.deepStrictEqual([idx.getCycleTable()?.clock, idx.getCycleTable()?.edgeCount], ['gclk', 10]);
+		assert.notStrictEqual(idx.getClocking(), report);
+	});
+
+	test('rejects names that clash and expressions that do not parse', () => {
+		const idx = indexFromVcd(TEXT);
+		assert.strictEqual(idx.defineSignal('tb.valid', 'ready'), '"tb.valid" is a recorded signal; choose another name.');
+		assert.strictEqual(idx.defineSignal('valid', 'ready'), '"valid" would shadow tb.valid; choose another name.');
+		assert.match(idx.defineSignal('2x', 'ready') as string, /^Invalid signal name "2x"/);
+		assert.strictEqual(idx.defineSignal('f', 'valid &'), 'Could not parse expression: Expected an expression at column 8, found end of expression');
+		assert.strictEqual(idx.defineSignal('f', 'nope'), 'Could not parse expression: Unknown signal "nope": there is no such signal in the waveform (this is not an X value). Use list_signals to see the available names.');
+		assert.strictEqual(idx.getTrace('f'), undefined);
+	});
+});
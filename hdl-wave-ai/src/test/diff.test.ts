@@ -0,0 +1,105 @@
+/*
+    Copyright (C) 2026 Andrew Capatina
+
+    This program is free software: you can redistribute it and/or modify
+    it under the terms of the GNU Affero General Public License as
+    published by the Free Software Foundation, either version 3 of the
+    License, or (at your option) any later version.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU Affero General Public License for more details.
+
+    You should have received a copy of the GNU Affero General Public License
+    along with this program.  If not, see <http://www.gnu.org/licenses/>.
+*/
+import * as assert from 'assert';
+import { diffWaveforms, formatWaveformDiff, WaveformDiff } from '../waveform/diff';
+import { buildVcd, Change, clock, indexFromVcd } from './waveforms';
+
+const VARS = { clk: 1, done: 1, state: 4 };
+
+/** Known-good run: state counts 0..3 every 20 units, done rises at 40. */
+const GOOD: Change[] = [
+	...clock('clk', 10, 100),
+	[0, 'done', '0'], [40, 'done', '1'],
+	[0, 'state', '0000'], [20, 'state', '0001'], [40, 'state', '0010'], [60, 'state', '0011'],
+];
+
+/** Failing run: state detours over [30, 45) and [80, 90), done rises late at 60. */
+const BAD: Change[] = [
+	...clock('clk', 10, 100),
+	[0, 'done', '0'], [60, 'done', '1'],
+	[0, 'state', '0000'], [20, 'state', '0001'], [30, 'state', '0110'], [45, 'state', '0010'],
+	[60, 'state', '0011'], [80, 'state', '1111'], [90, 'state', '0011'],
+];
+
+function diffed(result: WaveformDiff | string): WaveformDiff {
+	assert.ok(typeof result !== 'string', result as string);
+	return result;
+}
+
+suite('Waveform diff', () => {
+	const good = indexFromVcd(buildVcd(VARS, GOOD));
+	const bad = indexFromVcd(buildVcd(VARS, BAD));
+
+	test('reports the first divergence of each signal, earliest first', () => {
+		const diff = diffed(diffWaveforms(good, bad));
+		assert.deepStrictEqual([diff.tStart, diff.tEnd, diff.compared, diff.identical, diff.divergingCount], [0, 100, 3, 1, 2]);
+		assert.deepStrictEqual(diff.divergences.map(d => [d.signal, d.firstDivergence, d.mismatchIntervals, d.mismatchTime]),
+			[['tb.state', 30, 2, 25], ['tb.done', 40, 1, 20]]);
+		assert.deepStrictEqual([diff.divergences[1].referenceValue, diff.divergences[1].comparedValue], ['1', '0']);
+		assert.deepStrictEqual([diff.onlyInReference, diff.onlyInCompared], [[], []]);
+	});
+
+	test('compares only within the window', () => {
+		const diff = diffed(diffWaveforms(good, bad, { tStart: 50, tEnd: 85 }));
+		assert.deepStrictEqual(diff.divergences.map(d => [d.signal, d.firstDivergence, d.mismatchTime]),
+			[['tb.done', 50, 10], ['tb.state', 80, 5]]);
+		// Each run agrees with itself
+		assert.strictEqual(diffed(diffWaveforms(good, good)).divergingCount, 0);
+	});
+
+	test('matches renamed scopes and lists unmatched signals', () => {
+		const renamed = indexFromVcd(buildVcd({ ...VARS, extra: 1 }, [...BAD, [0, 'extra', '1']])
+			.replace('$scope module tb', '$scope module tb_new'));
+		const diff = diffed(diffWaveforms(good, renamed, { prefixMap: { tb_new: 'tb' } }));
+		assert.deepStrictEqual(diff.divergences.map(d => [d.signal, d.comparedSignal]),
+			[['tb.state', 'tb_new.state'], ['tb.done', 'tb_new.done']]);
+		assert.deepStrictEqual(diff.onlyInCompared, ['tb_new.extra']);
+		const unmapped = diffed(diffWaveforms(good, renamed));
+		assert.deepStrictEqual(unmapped.onlyInReference, ['tb.clk', 'tb.done', 'tb.state']);
+		assert.strictEqual(unmapped.compared, 0);
+	});
+
+	test('notes differing widths and caps the listed divergences', () => {
+		const wide = indexFromVcd(buildVcd({ ...VARS, state: 8 }, BAD.map(([t, s, v]): Change => [t, s, s === 'state' ? v.padStart(8, '0') : v])));
+		const diff = diffed(diffWaveforms(good, wide, { signals: ['tb.state', 'tb.done'], maxDivergences: 1 }));
+		assert.strictEqual(diff.divergingCount, 2);
+		assert.deepStrictEqual(diff.divergences.map(d => [d.signal, d.widths]), [['tb.state', [4, 8]]]);
+	});
+
+	test('formats a summary and one line per divergence', () => {
+		const text = formatWaveformDiff(diffed(diffWaveforms(good, bad)), 'golden', 'failing');
+		const lines = text.split('\n');
+		assert.strictEqual(lines[0], 'Diff of failing against reference golden over [0, 100]:');
+		assert.strictEqual(lines[1], '  3 signals compared, 1 identical, 2 diverge');
+		assert.match(lines[4], /^ {2}t=30: tb\.state: golden=0001.*, failing=0110.* — 2 mismatch intervals, 25 time units$/);
+		assert.strictEqual(lines[5], '  t=40: tb.done: golden=1, failing=0 — 1 mismatch interval, 20 time units');
+		assert.match(formatWaveformDiff(diffed(diffWaveforms(good, good)), 'golden', 'golden'), /No divergences in the window\.$/);
+	});
+
+	test('resolves signal names like other tools', () => {
+		const diff = diffed(diffWaveforms(good, bad, { signals: ['STATE', 'done'] }));
+		assert.deepStrictEqual(diff.divergences.map(d => d.signal), ['tb.state', 'tb.done']);
+		assert.match(diffWaveforms(good, bad, { signals: ['stat'] }) as string, /^Unknown signal "stat".*Did you mean: tb\.state/);
+	});
+
+	test('rejects dumps with different timescales', () => {
+		const slow = indexFromVcd(buildVcd(VARS, BAD, '1us'));
+		assert.strictEqual(diffWaveforms(good, slow),
+			'The waveforms use different timescales (reference 1ns, compared 1us); re-dump one of them with the timescale of the other to compare them.');
+		assert.strictEqual(diffed(diffWaveforms(good, indexFromVcd(buildVcd(VARS, BAD, '1 ns')))).divergingCount, 2);
+	});
+});
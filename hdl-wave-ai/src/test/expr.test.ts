@@ -0,0 +1,103 @@
+/*
+    Copyright (C) 2026 Andrew Capatina
+
+    This program is free software: you can redistribute it and/or modify
+    it under the terms of the GNU Affero General Public License as
+    published by the Free Software Foundation, either version 3 of the
+    License, or (at your option) any later version.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU Affero General Public License for more details.
+
+    You should have received a copy of the GNU Affero General Public License
+    along with this program.  If not, see <http://www.gnu.org/licenses/>.
+*/
+import * as assert from 'assert';
+import { evaluate, ExprParser, exprWidth, parseLiteral, showValue, signalValue, SignalRef, valueToRaw } from '../waveform/expr';
+
+/** Signals the expressions below read: declaration and raw value. */
+const SIGNALS: Record<string, SignalRef & { raw: string }> = {
+	a: { path: 'tb.a', width: 4, isString: false, raw: '1010' },
+	b: { path: 'tb.b', width: 4, isString: false, raw: '0011' },
+	u: { path: 'tb.u', width: 4, isString: false, raw: 'x010' },
+	rev: { path: 'tb.rev', width: 4, isString: false, range: '[0:3]', raw: '1000' },
+	st: { path: 'tb.st', width: 1, isString: true, raw: 'IDLE' },
+};
+const BY_PATH = new Map(Object.values(SIGNALS).map(s => [s.path, s.raw]));
+
+function resolve(name: string): SignalRef {
+	const sig = SIGNALS[name];
+	if (!sig) { throw new Error(`Unknown signal "${name}"`); }
+	return sig;
+}
+
+/** Evaluate `text` over SIGNALS and show the result as the tools do. */
+function value(text: string): string {
+	const expr = new ExprParser(text, resolve).parseOnly();
+	return showValue(evaluate(expr, e => signalValue(e, BY_PATH.get(e.path))));
+}
+
+suite('Expressions', () => {
+	test('parses sized, based and plain literals', () => {
+		assert.deepStrictEqual(parseLiteral("8'hA5"), { v: 0xA5n, w: 8 });
+		assert.deepStrictEqual(parseLiteral("4'd20"), { v: 4n, w: 4 });
+		assert.deepStrictEqual(parseLiteral('1_000'), { v: 1000n, w: 32 });
+		assert.deepStrictEqual(parseLiteral("'b1x"), { v: null, w: 32 });
+	});
+
+	test('evaluates operators with Verilog precedence and widths', () => {
+		assert.strictEqual(value('a & b'), '0x2');
+		assert.strictEqual(value('a + b'), '0xd');
+		assert.strictEqual(value('a | b & 1'), '0xb');
+		assert.strictEqual(value('~a'), '0x5');
+		assert.strictEqual(value('a << 1'), '0x4');
+		assert.strictEqual(value('&a'), '0');
+		assert.strictEqual(value('^b'), '0');
+		assert.strictEqual(value('a > b ? a : b'), '0xa');
+		assert.strictEqual(value('a / 0'), 'x');
+	});
+
+	test('keeps + at the width of its wider operand', () => {
+		// Like a self-determined Verilog add: the carry out is dropped unless an operand is widened
+		assert.strictEqual(value('a + a'), '0x4');
+		assert.strictEqual(value("{1'b0, a} + a"), '0x14');
+		assert.strictEqual(exprWidth(new ExprParser('a + b', resolve).parseOnly()), 4);
+	});
+
+	test('selects bits by the declared range and concatenates', () => {
+		assert.strictEqual(value('a[3:2]'), '0x2');
+		assert.strictEqual(value('a[0]'), '0');
+		assert.strictEqual(value('rev[0]'), '1');
+		assert.strictEqual(value('{a, b}'), '0xa3');
+		assert.strictEqual(value("{a[1:0], 2'b11}"), '0xb');
+	});
+
+	test('propagates x except where the result is known anyway', () => {
+		assert.strictEqual(value('u == 2'), 'x');
+		assert.strictEqual(value('!u'), 'x');
+		assert.strictEqual(value('0 && u'), '0');
+		assert.strictEqual(value('1 || u'), '1');
+		assert.strictEqual(value('u === u'), '1');
+		assert.strictEqual(value('$isunknown(u)'), '1');
+		assert.strictEqual(valueToRaw({ v: null, w: 4 }, 4), 'xxxx');
+	});
+
+	test('compares enumeration names and applies system functions', () => {
+		assert.strictEqual(value('st == "idle"'), '1');
+		assert.strictEqual(value('st != "RUN"'), '1');
+		assert.strictEqual(value('$countones(a)'), '0x2');
+		assert.strictEqual(value('$onehot(b)'), '0');
+		assert.strictEqual(value('$onehot0(4\'b0100)'), '1');
+	});
+
+	test('reports where an expression is malformed', () => {
+		assert.throws(() => value('a # b'), /^Error: Unexpected character "#" at column 3$/);
+		assert.throws(() => value('a &'), /^Error: Expected an expression at column 4, found end of expression$/);
+		assert.throws(() => value('(a'), /^Error: Expected "\)" at column 3/);
+		assert.throws(() => value('a[4]'), /^Error: Bit select out of range in "a\[4\]"$/);
+		assert.throws(() => value('$past(a)'), /^Error: Unsupported system function \$past \(supported: \$onehot, /);
+		assert.throws(() => value('nope'), /^Error: Unknown signal "nope"$/);
+	});
+});
@@ -0,0 +1,108 @@
+/*
+    Copyright (C) 2026 Andrew Capatina
+
+    This program is free software: you can redistribute it and/or modify
+    it under the terms of the GNU Affero General Public License as
+    published by the Free Software Foundation, either version 3 of the
+    License, or (at your option) any later version.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU Affero General Public License for more details.
+
+    You should have received a copy of the GNU Affero General Public License
+    along with this program.  If not, see <http://www.gnu.org/licenses/>.
+*/
+import * as assert from 'assert';
+import { extractStateEncodings, parseVerilogNumber } from '../hdl/parser';
+import { extractFsms, FsmGraph, formatFsm, fsmToMermaid } from '../waveform/fsm';
+import { buildVcd, clock, indexFromVcd } from './waveforms';
+
+const RTL = `
+typedef enum logic [1:0] { IDLE, RUN, DONE, ERR = 2'd3 } state_t;  // ERR is never reached
+state_t state, next_state;
+`;
+
+/**
+ * clk rises at 5, 15, …; state goes IDLE, RUN at 20, DONE at 50, IDLE at
+ * 60 and RUN at 80. next_state leads it and count is a plain counter.
+ */
+const TEXT = buildVcd({ clk: 1, state: 2, next_state: 2, count: 4 }, [
+	...clock('clk', 10, 100),
+	[0, 'state', '00'], [20, 'state', '01'], [50, 'state', '10'], [60, 'state', '00'], [80, 'state', '01'],
+	[0, 'next_state', '00'], [15, 'next_state', '01'], [45, 'next_state', '10'], [55, 'next_state', '00'],
+	[0, 'count', '0000'], [20, 'count', '0001'], [40, 'count', '0010'], [60, 'count', '0011'],
+]);
+
+function graphs(result: FsmGraph[] | string): FsmGraph[] {
+	assert.ok(typeof result !== 'string', result as string);
+	return result;
+}
+
+suite('FSM extraction', () => {
+	const idx = indexFromVcd(TEXT);
+
+	test('reads state encodings from Verilog and VHDL', () => {
+		assert.deepStrictEqual(extractStateEncodings(RTL), [{
+			name: 'state_t', source: 'typedef enum', signals: ['state', 'next_state'],
+			states: [{ name: 'IDLE', value: 0 }, { name: 'RUN', value: 1 }, { name: 'DONE', value: 2 }, { name: 'ERR', value: 3 }],
+		}]);
+		const params = extractStateEncodings(`localparam [1:0] S_IDLE = 2'b00, S_GO = 2'b01;\nlocalparam S_END = 2'h2;\nalways @* if (st == S_GO) st <= S_END;`);
+		assert.deepStrictEqual(params.map(e => [e.name, e.source, e.states.map(s => s.value), e.signals]),
+			[['S_IDLE', 'localparam', [0, 1, 2], ['st']]]);
+		const vhdl = extractStateEncodings('type phase_t is (FETCH, EXEC); -- comment\nsignal phase : phase_t;');
+		assert.deepStrictEqual(vhdl.map(e => [e.name, e.source, e.states.map(s => s.name), e.signals]),
+			[['phase_t', 'vhdl type', ['FETCH', 'EXEC'], ['phase']]]);
+		assert.deepStrictEqual(["8'h0_f", "3'b101", '12', "'d7", "4'bx01z"].map(parseVerilogNumber), [15, 5, 12, 7, null]);
+	});
+
+	test('detects the state register and builds its graph in cycles', () => {
+		const [graph, ...rest] = graphs(extractFsms(idx, { encodings: extractStateEncodings(RTL) }));
+		assert.strictEqual(rest.length, 0);
+		assert.deepStrictEqual([graph.signal, graph.detectedBy, graph.unit, graph.clock], ['tb.state', 'typedef enum state_t', 'cycles', 'tb.clk']);
+		assert.deepStrictEqual(graph.states.map(s => [s.name, s.visits, s.totalDwell, s.minDwell, s.maxDwell]), [
+			['IDLE', 2, 4, 2, 2],
+			['RUN', 2, 5, 2, 3],
+			['DONE', 1, 1, 1, 1],
+			['ERR', 0, 0, 0, 0],
+		]);
+		assert.deepStrictEqual(graph.transitions.map(t => [t.from, t.to, t.count, t.firstTime]),
+			[['IDLE', 'RUN', 2, 20], ['RUN', 'DONE', 1, 50], ['DONE', 'IDLE', 1, 60]]);
+		assert.deepStrictEqual([graph.initial, graph.final, graph.unvisited, graph.undeclared], ['IDLE', 'RUN', ['ERR'], []]);
+	});
+
+	test('falls back to state-like names and raw values', () => {
+		const [graph] = graphs(extractFsms(idx));
+		assert.deepStrictEqual([graph.signal, graph.detectedBy], ['tb.state', 'name']);
+		assert.deepStrictEqual(graph.states.map(s => s.name), ['0x0', '0x1', '0x2']);
+	});
+
+	test('analyses a requested register within a window', () => {
+		const [graph] = graphs(extractFsms(idx, { signals: ['tb.state'], tStart: 30, tEnd: 70, encodings: extractStateEncodings(RTL) }));
+		assert.deepStrictEqual([graph.initial, graph.final], ['RUN', 'IDLE']);
+		assert.deepStrictEqual(graph.transitions.map(t => `${t.from}->${t.to}`), ['RUN->DONE', 'DONE->IDLE']);
+		assert.strictEqual(extractFsms(idx, { signals: ['tb.nope'] }), 'Unknown signal "tb.nope": there is no such signal in the waveform (this is not an X value). Use list_signals to see the available names.');
+		const quiet = indexFromVcd(buildVcd({ clk: 1 }, clock('clk', 10, 100)));
+		assert.match(extractFsms(quiet) as string, /^No state registers found and no RTL state encodings available/);
+	});
+
+	test('lists values outside the encoding', () => {
+		const encodings = extractStateEncodings('localparam IDLE = 0, RUN = 1, DONE = 2;\nalways @(posedge clk) state <= IDLE;');
+		const stray = indexFromVcd(buildVcd({ state: 2 }, [[0, 'state', '00'], [10, 'state', '01'], [20, 'state', '11'], [30, 'state', '00']]));
+		const [graph] = graphs(extractFsms(stray, { encodings }));
+		assert.deepStrictEqual([graph.unit, graph.undeclared, graph.unvisited], ['time', ['0x3'], ['DONE']]);
+		assert.match(formatFsm(graph), /^ {4}0x3 = 3 \(not in encoding\): 1 visit, 10 total/m);
+	});
+
+	test('renders text and Mermaid', () => {
+		const [graph] = graphs(extractFsms(idx, { encodings: extractStateEncodings(RTL) }));
+		const lines = formatFsm(graph).split('\n');
+		assert.strictEqual(lines[0], 'FSM tb.state (2 bits, detected by typedef enum state_t), t=0..100, dwell in cycles of tb.clk:');
+		assert.ok(lines.includes('    RUN = 1: 2 visits, 5 cycles total (avg 2.5, min 2, max 3)'));
+		assert.ok(lines.includes('    IDLE -> RUN: 2x (first at t=20)'));
+		assert.ok(lines.includes('  Never visited (declared but unreached): ERR'));
+		assert.deepStrictEqual(fsmToMermaid(graph).split('\n').slice(-4),
+			['    [*] --> s0', '    s0 --> s1: 2', '    s1 --> s2: 1', '    s2 --> s0: 1']);
+	});
+});
@@ -0,0 +1,124 @@
+/*
+    Copyright (C) 2026 Andrew Capatina
+
+    This program is free software: you can redistribute it and/or modify
+    it under the terms of the GNU Affero General Public License as
+    published by the Free Software Foundation, either version 3 of the
+    License, or (at your option) any later version.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU Affero General Public License for more details.
+
+    You should have received a copy of the GNU Affero General Public License
+    along with this program.  If not, see <http://www.gnu.org/licenses/>.
+*/
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { WaveformParseOptions } from '../waveform/builder';
+import { parseFstFile } from '../waveform/fstReader';
+import { VcdParseResult } from '../waveform/vcd';
+import { FstVar, FstWriteOptions, writeFst } from './fstWriter';
+
+const VARS: FstVar[] = [
+	{ name: 'clk', width: 1, changes: [[0, '0'], [5, '1'], [10, '0'], [15, 'x'], [20, '1']] },
+	{ name: 'data', width: 8, changes: [[0, '00000000'], [5, '10100101'], [15, '0000zzzz'], [20, '11110000']] },
+	{ name: 'temp', width: 0, changes: [[0, 1.5], [10, -0.25]] },
+	{ name: 'mode', width: -1, changes: [[0, 'IDLE'], [10, 'RUN']] },
+];
+
+/** "time=raw" for every change of `signal`. */
+function changes(result: VcdParseResult, signal: string): string[] {
+	const trace = result.traces.get(signal);
+	assert.ok(trace, `no trace for ${signal}`);
+	return Array.from({ length: trace.length }, (_, i) => `${trace.timeAt(i)}=${trace.rawAt(i)}`);
+}
+
+suite('FST reader', () => {
+	let dir: string;
+	suiteSetup(() => { dir = fs.mkdtempSync(path.join(os.tmpdir(), 'hdl-wave-ai-fst-')); });
+	suiteTeardown(() => { fs.rmSync(dir, { recursive: true, force: true }); });
+
+	let n = 0;
+	async function parse(vars: FstVar[], write: FstWriteOptions = {}, options: WaveformParseOptions = {}): Promise<VcdParseResult> {
+		const file = path.join(dir, `t${n++}.fst`);
+		fs.writeFileSync(file, writeFst(vars, write));
+		return parseFstFile(file, options);
+	}
+
+	for (const pack of ['zlib', 'lz4', 'fastlz'] as const) {
+		test(`decodes ${pack} value changes`, async () => {
+			const result = await parse(VARS, { pack });
+			assert.deepStrictEqual(changes(result, 'top.clk'), ['0=0', '5=1', '10=0', '15=x', '20=1']);
+			assert.deepStrictEqual(changes(result, 'top.data'), ['0=00000000', '5=10100101', '15=0000zzzz', '20=11110000']);
+			assert.deepStrictEqual(changes(result, 'top.temp'), ['0=1.5', '10=-0.25']);
+			assert.deepStrictEqual(changes(result, 'top.mode'), ['0=IDLE', '10=RUN']);
+			assert.strictEqual(result.timescale, '1 ns');
+			assert.strictEqual(result.endTime, 20);
+		});
+	}
+
+	test('reads an LZ4 hierarchy', async () => {
+		const result = await parse(VARS, { hierarchy: 'lz4' });
+		assert.deepStrictEqual(changes(result, 'top.mode'), ['0=IDLE', '10=RUN']);
+		assert.strictEqual(result.transitionCount, 13);
+	});
+
+	test('ingests only the requested signals and window', async () => {
+		const result = await parse(VARS, {}, { signals: ['top.data'], tStart: 8, tEnd: 16 });
+		assert.deepStrictEqual(result.signals, ['top.data']);
+		assert.deepStrictEqual(changes(result, 'top.data'), ['5=10100101', '15=0000zzzz']);
+	});
+
+	test('keeps aliases on one trace and records signal kinds', async () => {
+		const result = await parse([...VARS, { name: 'clk_alias', width: 1, changes: [], alias: 0 }], { hierarchy: 'lz4' });
+		assert.deepStrictEqual(result.signals, ['top.clk', 'top.data', 'top.temp', 'top.mode', 'top.clk_alias']);
+		assert.strictEqual(result.traces.get('top.clk_alias'), result.traces.get('top.clk'));
+		assert.deepStrictEqual(result.descriptors.get('top.clk')?.aliases, ['top.clk_alias']);
+		assert.strictEqual(result.descriptors.get('top.temp')?.kind, 'real');
+		assert.strictEqual(result.descriptors.get('top.mode')?.kind, 'string');
+		assert.strictEqual(result.descriptors.get('top.data')?.width, 8);
+	});
+
+	test('sets logic signals to x during a blackout', async () => {
+		const result = await parse(VARS, { blackouts: [[false, 7], [true, 15]] });
+		assert.deepStrictEqual(changes(result, 'top.clk'), ['0=0', '5=1', '7=x', '20=1']);
+		assert.deepStrictEqual(changes(result, 'top.data'), ['0=00000000', '5=10100101', '7=xxxxxxxx', '15=0000zzzz', '20=11110000']);
+		// Reals and strings keep their value; their changes inside the blackout are dropped
+		assert.deepStrictEqual(changes(result, 'top.temp'), ['0=1.5']);
+	});
+
+	test('keeps a blackout that never ends to the end of the dump', async () => {
+		const result = await parse(VARS, { blackouts: [[false, 18]] });
+		// clk is already x at the dumpoff, and its change at 20 falls inside the blackout
+		assert.deepStrictEqual(changes(result, 'top.clk'), ['0=0', '5=1', '10=0', '15=x']);
+		assert.deepStrictEqual(changes(result, 'top.data').slice(-1), ['18=xxxxxxxx']);
+	});
+
+	suite('64-bit timestamps', () => {
+		const base = 1n << 60n;
+
+		test('stores times as offsets from the start time', async () => {
+			const result = await parse(VARS, { timeBase: base });
+			assert.strictEqual(result.timeOrigin, base);
+			assert.deepStrictEqual(changes(result, 'top.clk'), ['0=0', '5=1', '10=0', '15=x', '20=1']);
+			assert.strictEqual(result.endTime, 20);
+		});
+
+		test('asks for a time window when the span exceeds 2^53', async () => {
+			const far: FstVar[] = [{ name: 'a', width: 1, changes: [[0, '0'], [2 ** 54, '1']] }];
+			await assert.rejects(parse(far), /more than 2\^53 time units.*tStart\/tEnd/);
+			const result = await parse(far, {}, { tEnd: 100 });
+			assert.deepStrictEqual(changes(result, 'top.a'), ['0=0']);
+		});
+	});
+
+	test('rejects a file without a header', async () => {
+		const file = path.join(dir, 'empty.fst');
+		fs.writeFileSync(file, Buffer.alloc(0));
+		await assert.rejects(parseFstFile(file), /missing or malformed header block/);
+	});
+});
@@ -0,0 +1,210 @@
+/*
+    Copyright (C) 2026 Andrew Capatina
+
+    This program is free software: you can redistribute it and/or modify
+    it under the terms of the GNU Affero General Public License as
+    published by the Free Software Foundation, either version 3 of the
+    License, or (at your option) any later version.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU Affero General Public License for more details.
+
+    You should have received a copy of the GNU Affero General Public License
+    along with this program.  If not, see <http://www.gnu.org/licenses/>.
+*/
+// Minimal FST writer for the reader tests: one value-change block
+// (DYN_ALIAS2 chain table) holding every change, a geometry block, a gzip or
+// LZ4 hierarchy and an optional blackout block. LZ4 and FastLZ payloads are
+// written as literal runs, which are valid streams for their decoders.
+import * as zlib from 'zlib';
+
+export interface FstVar {
+	name: string;
+	/** Bits; 0 for a real, -1 for a string */
+	width: number;
+	/** [time, value] in time order: bit strings, numbers for reals, text for strings */
+	changes: [number, string | number][];
+	/** Declare as an alias of the variable at this index instead of a new handle */
+	alias?: number;
+}
+
+export interface FstWriteOptions {
+	/** Value-change payload compression (default zlib) */
+	pack?: 'zlib' | 'lz4' | 'fastlz';
+	/** Hierarchy compression (default gzip) */
+	hierarchy?: 'gzip' | 'lz4';
+	/** Added to every time, for 64-bit timestamps */
+	timeBase?: bigint;
+	/** Dump on (true) / off (false) events */
+	blackouts?: [boolean, number][];
+}
+
+/** An FST file with the variables of `vars` in scope "top". */
+export function writeFst(vars: FstVar[], options: FstWriteOptions = {}): Buffer {
+	const base = options.timeBase ?? 0n;
+	const handles = vars.filter(v => v.alias === undefined);
+	const times = [...new Set(handles.flatMap(v => v.changes.map(c => c[0])))].sort((a, b) => a - b);
+	const timeIndex = new Map(times.map((t, i) => [t, i]));
+	const endTime = base + BigInt(times[times.length - 1] ?? 0);
+
+	// Hierarchy: scope top, then one entry per variable (tag 16 wire, 3 real, 21 string)
+	const hier: number[] = [254, 0, ...Buffer.from('top'), 0, 0];
+	for (const v of vars) {
+		hier.push(v.width === 0 ? 3 : v.width === -1 ? 21 : 16, 0, ...Buffer.from(v.name), 0, ...varint(Math.max(v.width, 0)));
+		hier.push(...varint(v.alias === undefined ? 0 : handles.indexOf(vars[v.alias]) + 1));
+	}
+	hier.push(255);
+	const hierBuf = Buffer.from(hier);
+	const hierBlock = options.hierarchy === 'lz4'
+		? block(6, Buffer.concat([u64(hierBuf.length), lz4Literals(hierBuf)]))
+		: block(4, Buffer.concat([u64(hierBuf.length), zlib.gzipSync(hierBuf)]));
+
+	// Frame: every fixed-width signal starts unknown (reals at 0)
+	const frame = Buffer.concat(handles.filter(v => v.width >= 0).map(v => {
+		if (v.width > 0) { return Buffer.from('x'.repeat(v.width)); }
+		const b = Buffer.alloc(8);
+		b.writeDoubleLE(0);
+		return b;
+	}));
+	const frameC = zlib.deflateSync(frame);
+
+	const packChar = options.pack === 'lz4' ? '4' : options.pack === 'fastlz' ? 'F' : 'Z';
+	const chunks: Buffer[] = [];
+	const offsets: number[] = [];
+	let pos = 1; // after the pack type byte
+	for (const v of handles) {
+		const raw = Buffer.from(encodeChanges(v, timeIndex));
+		const packed = options.pack === 'lz4' ? lz4Literals(raw) : options.pack === 'fastlz' ? fastlzLiterals(raw) : zlib.deflateSync(raw);
+		const chunk = Buffer.concat([Buffer.from(varint(raw.length)), packed]);
+		offsets.push(pos);
+		pos += chunk.length;
+		chunks.push(chunk);
+	}
+	// Chain table: odd values are offset deltas
+	const chain: number[] = [];
+	let prev = 0;
+	for (const off of offsets) {
+		chain.push(...svarint((off - prev) * 2 + 1));
+		prev = off;
+	}
+	const chainBuf = Buffer.from(chain);
+	const timeBuf = Buffer.from(times.flatMap((t, i) => varint(i === 0 ? base + BigInt(t) : t - times[i - 1])));
+	const timeC = zlib.deflateSync(timeBuf);
+	const vcBlock = block(8, Buffer.concat([
+		u64(base + BigInt(times[0] ?? 0)), u64(endTime), u64(0),
+		Buffer.from([...varint(frame.length), ...varint(frameC.length), ...varint(handles.length)]), frameC,
+		Buffer.from(varint(handles.length)), Buffer.from(packChar), ...chunks,
+		chainBuf, u64(chainBuf.length),
+		timeC, u64(timeBuf.length), u64(timeC.length), u64(times.length),
+	]));
+
+	const hdr = Buffer.alloc(321);
+	u64(base + BigInt(times[0] ?? 0)).copy(hdr, 0);
+	u64(endTime).copy(hdr, 8);
+	hdr.writeDoubleLE(Math.E, 16);
+	u64(handles.length).copy(hdr, 48);
+	hdr.writeInt8(-9, 64); // 1 ns
+
+	const geom = Buffer.from(handles.flatMap(v => varint(v.width === -1 ? 0xFFFFFFFF : v.width)));
+	const geomBlock = block(3, Buffer.concat([u64(geom.length), u64(handles.length), zlib.deflateSync(geom)]));
+
+	const parts = [block(0, hdr), vcBlock, geomBlock, hierBlock];
+	if (options.blackouts) {
+		const events: number[] = [...varint(options.blackouts.length)];
+		let last = 0n;
+		for (const [on, t] of options.blackouts) {
+			const time = base + BigInt(t);
+			events.push(on ? 1 : 0, ...varint(time - last));
+			last = time;
+		}
+		parts.push(block(2, Buffer.from(events)));
+	}
+	return Buffer.concat(parts);
+}
+
+/** Value changes of one handle as the FST value-change encoding. */
+function encodeChanges(v: FstVar, timeIndex: Map<number, number>): number[] {
+	const out: number[] = [];
+	let prev = 0;
+	for (const [t, value] of v.changes) {
+		const dt = timeIndex.get(t)! - prev;
+		prev = timeIndex.get(t)!;
+		if (v.width === 1) {
+			const s = String(value);
+			out.push(...(s === '0' || s === '1' ? varint(dt * 4 + (s === '1' ? 2 : 0)) : varint(dt * 16 + ('xzhuwl-?'.indexOf(s) << 1) + 1)));
+		} else if (v.width === -1) {
+			const text = Buffer.from(String(value), 'latin1');
+			out.push(...varint(dt * 2), ...varint(text.length), ...text);
+		} else if (v.width === 0) {
+			const b = Buffer.alloc(8);
+			b.writeDoubleLE(Number(value));
+			out.push(...varint(dt * 2), ...b);
+		} else if (/^[01]+$/.test(String(value))) {
+			const bits = String(value);
+			const packed = new Array<number>((v.width + 7) >> 3).fill(0);
+			for (let j = 0; j < v.width; j++) {
+				if (bits[j] === '1') { packed[j >> 3] |= 1 << (7 - (j & 7)); }
+			}
+			out.push(...varint(dt * 2), ...packed);
+		} else {
+			out.push(...varint(dt * 2 + 1), ...Buffer.from(String(value), 'latin1'));
+		}
+	}
+	return out;
+}
+
+/** An LZ4 block of literals only. */
+export function lz4Literals(raw: Buffer): Buffer {
+	const out = [Math.min(raw.length, 15) << 4];
+	if (raw.length >= 15) {
+		let rest = raw.length - 15;
+		for (; rest >= 255; rest -= 255) { out.push(255); }
+		out.push(rest);
+	}
+	return Buffer.concat([Buffer.from(out), raw]);
+}
+
+/** A FastLZ level-1 block of literal runs (at most 32 bytes each). */
+export function fastlzLiterals(raw: Buffer): Buffer {
+	const parts: Buffer[] = [];
+	for (let i = 0; i < raw.length; i += 32) {
+		const run = raw.subarray(i, i + 32);
+		parts.push(Buffer.from([run.length - 1]), run);
+	}
+	return Buffer.concat(parts);
+}
+
+function varint(n: number | bigint): number[] {
+	let v = BigInt(n);
+	const out: number[] = [];
+	do {
+		let b = Number(v & 0x7Fn);
+		v >>= 7n;
+		if (v > 0n) { b |= 0x80; }
+		out.push(b);
+	} while (v > 0n);
+	return out;
+}
+
+function svarint(n: number): number[] {
+	const out: number[] = [];
+	for (;;) {
+		const b = n & 0x7F;
+		n >>= 7;
+		const done = (n === 0 && !(b & 0x40)) || (n === -1 && (b & 0x40));
+		out.push(done ? b : b | 0x80);
+		if (done) { return out; }
+	}
+}
+
+function u64(n: number | bigint): Buffer {
+	const b = Buffer.alloc(8);
+	b.writeBigUInt64BE(BigInt(n));
+	return b;
+}
+
+function block(type: number, payload: Buffer): Buffer {
+	return Buffer.concat([Buffer.from([type]), u64(payload.length + 8), payload]);
+}
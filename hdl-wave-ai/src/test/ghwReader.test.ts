@@ -0,0 +1,202 @@
+/*
+    Copyright (C) 2026 Andrew Capatina
+
+    This program is free software: you can redistribute it and/or modify
+    it under the terms of the GNU Affero General Public License as
+    published by the Free Software Foundation, either version 3 of the
+    License, or (at your option) any later version.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU Affero General Public License for more details.
+
+    You should have received a copy of the GNU Affero General Public License
+    along with this program.  If not, see <http://www.gnu.org/licenses/>.
+*/
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { WaveformParseOptions } from '../waveform/builder';
+import { parseWaveformFile } from '../waveform/fst';
+import { parseGhwFile } from '../waveform/ghwReader';
+import { VcdParseResult } from '../waveform/vcd';
+import { GhwWriter, STD_ULOGIC } from './ghwWriter';
+
+const { U, X, H } = STD_ULOGIC;
+const L0 = STD_ULOGIC['0'], L1 = STD_ULOGIC['1'];
+
+/** "time=raw" for every change of `signal`. */
+function changes(result: VcdParseResult, signal: string): string[] {
+	const trace = result.traces.get(signal);
+	assert.ok(trace, `no trace for ${signal}`);
+	return Array.from({ length: trace.length }, (_, i) => `${trace.timeAt(i)}=${trace.rawAt(i)}`);
+}
+
+/**
+ * entity top: clk (std_logic), data (std_logic_vector(3 downto 0)), ok
+ * (boolean), count (integer), temp (real), state (IDLE/RUN), bus_rec (record
+ * of a bit and an integer), words (array 0 to 1 of integer). Instance u_dut
+ * maps its ports onto clk and data; a generate-for holds one more signal.
+ * Basic signal numbers: clk 1, data 2-5, ok 6, count 7, temp 8, state 9,
+ * bus_rec 10-11, words 12-13, g(3).q 14.
+ */
+function design(w = new GhwWriter()): GhwWriter {
+	const stdUlogic = w.type({ kind: 'enum', name: 'std_ulogic', lits: ['U', 'X', '0', '1', 'Z', 'W', 'L', 'H', '-'] });
+	const boolean = w.type({ kind: 'enum', name: 'boolean', lits: ['false', 'true'] });
+	const bit = w.type({ kind: 'enum', name: 'bit', lits: ['0', '1'] });
+	const integer = w.type({ kind: 'integer', name: 'integer' });
+	const real = w.type({ kind: 'real', name: 'real' });
+	const state = w.type({ kind: 'enum', name: 'state_t', lits: ['IDLE', 'RUN'] });
+	const slvBase = w.type({ kind: 'array', name: 'std_logic_vector', el: stdUlogic, dims: [integer] });
+	const slv = w.type({ kind: 'subarray', name: 'nibble_t', base: slvBase, ranges: [[3, 0]] });
+	const rec = w.type({ kind: 'record', name: 'bus_t', fields: [['valid', bit], ['addr', integer]] });
+	const intArray = w.type({ kind: 'array', name: 'int_array', el: integer, dims: [integer] });
+	const words = w.type({ kind: 'subarray', name: 'words_t', base: intArray, ranges: [[0, 1]] });
+	w.wkt('std_ulogic', stdUlogic);
+	w.wkt('boolean', boolean);
+	w.wkt('bit', bit);
+
+	w.scope('instance', 'top');
+	w.signal('signal', 'clk', stdUlogic, [1]);
+	w.signal('signal', 'data', slv, [2, 3, 4, 5]);
+	w.signal('signal', 'ok', boolean, [6]);
+	w.signal('signal', 'count', integer, [7]);
+	w.signal('signal', 'temp', real, [8]);
+	w.signal('signal', 'state', state, [9]);
+	w.signal('signal', 'bus_rec', rec, [10, 11]);
+	w.signal('signal', 'words', words, [12, 13]);
+	w.process('p_main');
+	w.scope('instance', 'u_dut');
+	w.signal('in', 'clk_i', stdUlogic, [1]);
+	w.signal('out', 'data_o', slv, [2, 3, 4, 5]);
+	w.endScope();
+	w.generateFor('g', integer, 3);
+	w.signal('signal', 'q', bit, [14]);
+	w.endScope();
+	w.endScope();
+	return w;
+}
+
+/** Initial values of every basic signal in design(). */
+const INITIAL: Record<number, number> = {
+	1: U, 2: L0, 3: L0, 4: L0, 5: L0, 6: 0, 7: 0, 8: 0.5, 9: 0, 10: 0, 11: 0, 12: 7, 13: -1, 14: 0,
+};
+
+suite('GHW reader', () => {
+	let dir: string;
+	suiteSetup(() => { dir = fs.mkdtempSync(path.join(os.tmpdir(), 'hdl-wave-ai-ghw-')); });
+	suiteTeardown(() => { fs.rmSync(dir, { recursive: true, force: true }); });
+
+	let n = 0;
+	function write(w: GhwWriter): string {
+		const file = path.join(dir, `t${n++}.ghw`);
+		fs.writeFileSync(file, w.toBuffer());
+		return file;
+	}
+	function parse(w: GhwWriter, options: WaveformParseOptions = {}): Promise<VcdParseResult> {
+		return parseGhwFile(write(w), options);
+	}
+
+	/** design() with a snapshot at 0 and changes at 1000, 2000 and 2500 fs. */
+	function dumped(): GhwWriter {
+		const w = design();
+		w.snapshot(0, INITIAL);
+		w.cycle([
+			[1000, { 1: L0, 4: H, 6: 1, 7: 42, 9: 1 }],
+			[2000, { 1: L1, 2: X, 8: -2.25, 10: 1, 11: 5, 13: 3 }],
+			[2500, { 1: L0, 14: 1 }],
+		]);
+		return w;
+	}
+
+	test('flattens scalars, vectors, records and arrays', async () => {
+		const result = await parse(dumped());
+		assert.strictEqual(result.timescale, '1 fs');
+		assert.strictEqual(result.endTime, 2500);
+		assert.deepStrictEqual(changes(result, 'top.clk'), ['0=u', '1000=0', '2000=1', '2500=0']);
+		assert.deepStrictEqual(changes(result, 'top.data'), ['0=0000', '1000=00h0', '2000=x0h0']);
+		assert.deepStrictEqual(changes(result, 'top.ok'), ['0=0', '1000=1']);
+		assert.deepStrictEqual(changes(result, 'top.count'), ['0=' + '0'.repeat(32), '1000=' + (42).toString(2).padStart(32, '0')]);
+		assert.deepStrictEqual(changes(result, 'top.temp'), ['0=0.5', '2000=-2.25']);
+		assert.deepStrictEqual(changes(result, 'top.state'), ['0=IDLE', '1000=RUN']);
+		assert.deepStrictEqual(changes(result, 'top.bus_rec.valid'), ['0=0', '2000=1']);
+		assert.deepStrictEqual(changes(result, 'top.bus_rec.addr').slice(1), ['2000=' + (5).toString(2).padStart(32, '0')]);
+		assert.deepStrictEqual(changes(result, 'top.words(1)'), ['0=' + '1'.repeat(32), '2000=' + (3).toString(2).padStart(32, '0')]);
+		assert.deepStrictEqual(changes(result, 'top.g(3).q'), ['0=0', '2500=1']);
+	});
+
+	test('describes each leaf by its VHDL type', async () => {
+		const result = await parse(dumped());
+		const data = result.descriptors.get('top.data');
+		assert.deepStrictEqual([data?.varType, data?.width, data?.range, data?.kind], ['nibble_t', 4, '[3:0]', 'logic']);
+		assert.deepStrictEqual(['top.count', 'top.temp', 'top.state', 'top.words(0)'].map(s => [result.descriptors.get(s)?.width, result.descriptors.get(s)?.kind]),
+			[[32, 'logic'], [64, 'real'], [1, 'string'], [32, 'logic']]);
+		assert.strictEqual(result.descriptors.get('top.bus_rec.valid')?.varType, 'bit');
+	});
+
+	test('aliases ports to the nets they are mapped onto', async () => {
+		const result = await parse(dumped());
+		assert.strictEqual(result.traces.get('top.u_dut.clk_i'), result.traces.get('top.clk'));
+		assert.strictEqual(result.traces.get('top.u_dut.data_o'), result.traces.get('top.data'));
+		assert.deepStrictEqual(result.descriptors.get('top.clk')?.aliases, ['top.u_dut.clk_i']);
+		assert.strictEqual(result.descriptors.get('top.u_dut.clk_i')?.direction, 'input');
+		assert.strictEqual(result.descriptors.get('top.u_dut.data_o')?.direction, 'output');
+		assert.strictEqual(result.descriptors.get('top.clk')?.direction, undefined);
+	});
+
+	test('ingests only the requested signals and window', async () => {
+		const result = await parse(dumped(), { signals: ['top.clk', 'top.temp'], tStart: 1500, tEnd: 2200 });
+		assert.deepStrictEqual(result.signals, ['top.clk', 'top.temp']);
+		assert.deepStrictEqual(changes(result, 'top.clk'), ['1000=0', '2000=1']);
+		assert.deepStrictEqual(changes(result, 'top.temp'), ['0=0.5', '2000=-2.25']);
+	});
+
+	test('stores times past 2^53 fs as offsets from the first snapshot', async () => {
+		const base = 1n << 60n;
+		const w = design();
+		w.snapshot(base, INITIAL);
+		w.cycle([[base + 10n, { 1: L1 }], [base + 30n, { 1: L0 }]]);
+		const result = await parse(w);
+		assert.strictEqual(result.timeOrigin, base);
+		assert.deepStrictEqual(changes(result, 'top.clk'), ['0=u', '10=1', '30=0']);
+	});
+
+	test('reads definitions larger than the first buffered read', async () => {
+		const w = new GhwWriter();
+		const bit = w.type({ kind: 'enum', name: 'bit', lits: ['0', '1'] });
+		w.wkt('bit', bit);
+		w.scope('instance', 'top');
+		const initial: Record<number, number> = {};
+		for (let sig = 1; sig <= 3500; sig++) {
+			// Reversed numbers share no prefix with the previous name, so the string table stays large
+			w.signal('signal', `${String(sig).split('').reverse().join('')}_${'s'.repeat(300)}`, bit, [sig]);
+			initial[sig] = sig % 2;
+		}
+		w.endScope();
+		w.snapshot(0, initial);
+		w.cycle([[10, { 3500: 1 }]]);
+		const file = write(w);
+		// Past the 1 MiB read at the start, so the definitions are parsed again from a larger buffer
+		assert.ok(fs.statSync(file).size > 1024 * 1024);
+		const result = await parseGhwFile(file);
+		assert.strictEqual(result.signals.length, 3500);
+		assert.deepStrictEqual(changes(result, `top.0053_${'s'.repeat(300)}`), ['0=0', '10=1']);
+	});
+
+	test('is read for .ghw files by parseWaveformFile', async () => {
+		const result = await parseWaveformFile(write(dumped()), { cache: false });
+		assert.deepStrictEqual(changes(result, 'top.state'), ['0=IDLE', '1000=RUN']);
+	});
+
+	test('rejects other files and damaged sections', async () => {
+		const file = path.join(dir, 'bad.ghw');
+		fs.writeFileSync(file, Buffer.from('not a ghw file at all'));
+		await assert.rejects(parseGhwFile(file), /bad magic/);
+		const w = dumped();
+		const truncated = w.toBuffer();
+		fs.writeFileSync(file, truncated.subarray(0, truncated.length - 6));
+		await assert.rejects(parseGhwFile(file), /unexpected end of file/);
+	});
+});
@@ -0,0 +1,233 @@
+/*
+    Copyright (C) 2026 Andrew Capatina
+
+    This program is free software: you can redistribute it and/or modify
+    it under the terms of the GNU Affero General Public License as
+    published by the Free Software Foundation, either version 3 of the
+    License, or (at your option) any later version.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU Affero General Public License for more details.
+
+    You should have received a copy of the GNU Affero General Public License
+    along with this program.  If not, see <http://www.gnu.org/licenses/>.
+*/
+// Minimal GHW writer for the reader tests, laid out as GHDL writes it:
+// string, type, well-known-type and hierarchy sections, then snapshots and
+// cycles. Types and hierarchy entries are added in file order; values are
+// enum positions, integers or reals by the scalar type of each signal.
+
+export type GhwTypeDef =
+	| { kind: 'enum'; name: string; lits: string[] }
+	| { kind: 'integer' | 'real'; name: string }
+	/** Unbounded array over index types `dims` */
+	| { kind: 'array'; name: string; el: number; dims: number[] }
+	/** Bounded subtype of array `base`: one integer [left, right] range per dimension */
+	| { kind: 'subarray'; name: string; base: number; ranges: [number, number][] }
+	| { kind: 'record'; name: string; fields: [string, number][] };
+
+export type GhwWellKnown = 'boolean' | 'bit' | 'std_ulogic';
+
+export type GhwSignalKind = 'signal' | 'in' | 'out' | 'inout' | 'buffer';
+
+const RTIK = { enum: 23, integer: 25, real: 27, array: 31, record: 32, subarray: 35 };
+const RTIK_TYPE_I32 = 25;
+const HIE = { block: 3, instance: 6, process: 13, signal: 16, in: 17, out: 18, inout: 19, buffer: 20 };
+const HIE_GENERATE_FOR = 5;
+const HIE_EOS = 15;
+const WKT = { boolean: 1, bit: 2, std_ulogic: 3 };
+
+/** std_ulogic positions by literal, for readable test values. */
+export const STD_ULOGIC: Record<string, number> = { U: 0, X: 1, '0': 2, '1': 3, Z: 4, W: 5, L: 6, H: 7, '-': 8 };
+
+export class GhwWriter {
+	private readonly strings = new Map<string, number>();
+	private readonly types: GhwTypeDef[] = [];
+	private readonly wellKnown: [number, number][] = [];
+	private readonly hierarchy: number[] = [];
+	/** Scalar type id of each basic signal number */
+	private readonly sigTypes = new Map<number, number>();
+	private readonly data: Buffer[] = [];
+
+	/** Add a type; returns its id for later references. */
+	type(def: GhwTypeDef): number {
+		this.str(def.name);
+		if (def.kind === 'enum') { def.lits.forEach(l => this.str(l)); }
+		if (def.kind === 'record') { def.fields.forEach(([f]) => this.str(f)); }
+		this.types.push(def);
+		return this.types.length;
+	}
+
+	/** Mark enumeration `type` as bit, boolean or std_ulogic. */
+	wkt(kind: GhwWellKnown, type: number): void {
+		this.wellKnown.push([WKT[kind], type]);
+	}
+
+	scope(kind: 'block' | 'instance', name: string): void {
+		this.hierarchy.push(HIE[kind], ...uleb(this.str(name)));
+	}
+
+	/** A generate-for iteration with integer index `value` of integer type `type`. */
+	generateFor(name: string, type: number, value: number): void {
+		this.hierarchy.push(HIE_GENERATE_FOR, ...uleb(this.str(name)), ...uleb(type), ...sleb(value));
+	}
+
+	endScope(): void {
+		this.hierarchy.push(HIE_EOS);
+	}
+
+	process(name: string): void {
+		this.hierarchy.push(HIE.process, ...uleb(this.str(name)));
+	}
+
+	/** A signal or port of `type` over basic signals `sigs` (ports reuse the actual's numbers). */
+	signal(kind: GhwSignalKind, name: string, type: number, sigs: number[]): void {
+		const scalars = this.scalarTypes(type);
+		if (scalars.length !== sigs.length) { throw new Error(`ghwWriter: ${name} needs ${scalars.length} signal numbers`); }
+		sigs.forEach((sig, i) => this.sigTypes.set(sig, scalars[i]));
+		this.hierarchy.push(HIE[kind], ...uleb(this.str(name)), ...uleb(type), ...sigs.flatMap(uleb));
+	}
+
+	/** A snapshot at `time` of every basic signal, by signal number. */
+	snapshot(time: number | bigint, values: Record<number, number>): void {
+		const body = this.sigs().flatMap(sig => {
+			if (!(sig in values)) { throw new Error(`ghwWriter: snapshot lacks signal ${sig}`); }
+			return this.value(sig, values[sig]);
+		});
+		this.data.push(tag('SNP'), i32(0), i64(BigInt(time)), Buffer.from(body), tag('ESN'));
+	}
+
+	/** A cycle section: changes (by signal number) at each time, the first absolute. */
+	cycle(steps: [number | bigint, Record<number, number>][]): void {
+		const ranks = this.sigs();
+		const body: number[] = [];
+		steps.forEach(([time, changes], i) => {
+			if (i > 0) { body.push(...sleb(Number(BigInt(time) - BigInt(steps[i - 1][0])))); }
+			let last = -1;
+			for (const sig of Object.keys(changes).map(Number).sort((a, b) => a - b)) {
+				const rank = ranks.indexOf(sig);
+				body.push(...uleb(rank - last), ...this.value(sig, changes[sig]));
+				last = rank;
+			}
+			body.push(0);
+		});
+		body.push(...sleb(-1));
+		this.data.push(tag('CYC'), i64(BigInt(steps[0][0])), Buffer.from(body), tag('ECY'));
+	}
+
+	toBuffer(): Buffer {
+		const header = Buffer.from([...Buffer.from('GHDLwave\n'), 16, 0, 1, 1, 4, 8, 0]);
+
+		const table = [...this.strings.keys()];
+		const strBody: number[] = [];
+		table.forEach((s, i) => {
+			// Each string ends with a control byte giving the prefix the next one shares
+			const skip = i > 0 ? shared(table[i - 1], s) : 0;
+			strBody.push(...Buffer.from(s.slice(skip), 'latin1'), shared(s, table[i + 1] ?? ''));
+		});
+		const str = [tag('STR'), i32(0), i32(table.length), i32(table.reduce((n, s) => n + s.length, 0)), Buffer.from(strBody), tag('EOS')];
+
+		const typBody = this.types.flatMap(t => {
+			const out = [RTIK[t.kind], ...uleb(this.str(t.name))];
+			switch (t.kind) {
+				case 'enum': out.push(...uleb(t.lits.length), ...t.lits.flatMap(l => uleb(this.str(l)))); break;
+				case 'array': out.push(...uleb(t.el), ...uleb(t.dims.length), ...t.dims.flatMap(uleb)); break;
+				case 'subarray': out.push(...uleb(t.base), ...t.ranges.flatMap(([l, r]) => [RTIK_TYPE_I32 | (l > r ? 0x80 : 0), ...sleb(l), ...sleb(r)])); break;
+				case 'record': out.push(...uleb(t.fields.length), ...t.fields.flatMap(([f, type]) => [...uleb(this.str(f)), ...uleb(type)])); break;
+			}
+			return out;
+		});
+		const typ = [tag('TYP'), i32(0), i32(this.types.length), Buffer.from([...typBody, 0])];
+		const wkt = [tag('WKT'), i32(0), Buffer.from([...this.wellKnown.flatMap(([k, t]) => [k, ...uleb(t)]), 0])];
+		const maxSig = Math.max(0, ...this.sigTypes.keys());
+		const hie = [tag('HIE'), i32(0), i32(0), i32(0), i32(maxSig), Buffer.from([...this.hierarchy, 0]), tag('EOH')];
+		return Buffer.concat([header, ...str, ...typ, ...wkt, ...hie, ...this.data]);
+	}
+
+	private str(s: string): number {
+		let id = this.strings.get(s);
+		if (id === undefined) {
+			id = this.strings.size + 1;
+			this.strings.set(s, id);
+		}
+		return id;
+	}
+
+	private sigs(): number[] {
+		return [...this.sigTypes.keys()].sort((a, b) => a - b);
+	}
+
+	private scalarTypes(type: number): number[] {
+		const t = this.types[type - 1];
+		switch (t.kind) {
+			case 'subarray': {
+				const base = this.types[t.base - 1];
+				if (base.kind !== 'array') { throw new Error('ghwWriter: subarray of a non-array'); }
+				const n = t.ranges.reduce((k, [l, r]) => k * (Math.abs(l - r) + 1), 1);
+				return Array.from({ length: n }, () => this.scalarTypes(base.el)).flat();
+			}
+			case 'record':
+				return t.fields.flatMap(([, f]) => this.scalarTypes(f));
+			case 'array':
+				throw new Error('ghwWriter: signals need a bounded array subtype');
+			default:
+				return [type];
+		}
+	}
+
+	private value(sig: number, v: number): number[] {
+		const t = this.types[this.sigTypes.get(sig)! - 1];
+		if (t.kind === 'enum') { return [v]; }
+		if (t.kind === 'integer') { return sleb(v); }
+		const b = Buffer.alloc(8);
+		b.writeDoubleLE(v);
+		return [...b];
+	}
+}
+
+/** Length of the common prefix of two strings, as a string-table control byte holds it. */
+function shared(a: string, b: string): number {
+	let n = 0;
+	while (n < 31 && n < a.length && a[n] === b[n]) { n++; }
+	return n;
+}
+
+function tag(name: string): Buffer {
+	return Buffer.from(name + '\0', 'latin1');
+}
+
+function i32(n: number): Buffer {
+	const b = Buffer.alloc(4);
+	b.writeInt32LE(n);
+	return b;
+}
+
+function i64(n: bigint): Buffer {
+	const b = Buffer.alloc(8);
+	b.writeBigInt64LE(n);
+	return b;
+}
+
+function uleb(n: number): number[] {
+	const out: number[] = [];
+	do {
+		let b = n & 0x7F;
+		n = Math.floor(n / 128);
+		if (n > 0) { b |= 0x80; }
+		out.push(b);
+	} while (n > 0);
+	return out;
+}
+
+function sleb(n: number): number[] {
+	const out: number[] = [];
+	for (;;) {
+		const b = n & 0x7F;
+		n >>= 7;
+		const done = (n === 0 && !(b & 0x40)) || (n === -1 && (b & 0x40));
+		out.push(done ? b : b | 0x80);
+		if (done) { return out; }
+	}
+}
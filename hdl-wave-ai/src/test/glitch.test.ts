@@ -0,0 +1,84 @@
+/*
+    Copyright (C) 2026 Andrew Capatina
+
+    This program is free software: you can redistribute it and/or modify
+    it under the terms of the GNU Affero General Public License as
+    published by the Free Software Foundation, either version 3 of the
+    License, or (at your option) any later version.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU Affero General Public License for more details.
+
+    You should have received a copy of the GNU Affero General Public License
+    along with this program.  If not, see <http://www.gnu.org/licenses/>.
+*/
+import * as assert from 'assert';
+import { findGlitches, formatGlitchReport, GlitchReport } from '../waveform/glitch';
+import { formatEdges, summarizeEdges } from '../waveform/paging';
+import { buildVcd, clock, indexFromVcd } from './waveforms';
+
+/**
+ * clk has period 20, so the default threshold is 2. d pulses for 0 time
+ * units at 40 and 1 at 65, then for a full 20 at 125; st passes through
+ * 01 for 1 on its way from 00 to 11.
+ */
+const TEXT = buildVcd({ clk: 1, d: 1, st: 2 }, [
+	...clock('clk', 20, 200),
+	[0, 'd', '0'], [40, 'd', '1'], [40, 'd', '0'], [65, 'd', '1'], [66, 'd', '0'], [125, 'd', '1'], [145, 'd', '0'],
+	[0, 'st', '00'], [85, 'st', '01'], [86, 'st', '11'], [165, 'st', '00'],
+]);
+
+function report(result: GlitchReport | string): GlitchReport {
+	assert.ok(typeof result !== 'string', result as string);
+	return result;
+}
+
+suite('Glitch detection', () => {
+	const idx = indexFromVcd(TEXT);
+
+	test('finds values held for a fraction of the clock period', () => {
+		const result = report(findGlitches(idx));
+		assert.deepStrictEqual([result.checked, result.total, result.zeroWidth, result.unclocked], [3, 3, 1, 0]);
+		const [d, st] = result.signals;
+		assert.deepStrictEqual([d.signal, d.threshold, d.clock, d.count, d.pulses, d.narrowest], ['tb.d', 2, 'tb.clk', 2, 2, 0]);
+		assert.deepStrictEqual(d.examples.map(g => [g.time, g.width, g.before, g.value, g.after]), [[40, 0, '0', '1', '0'], [65, 1, '0', '1', '0']]);
+		assert.deepStrictEqual([st.signal, st.pulses, st.examples[0].after], ['tb.st', 0, '11 (0x3)']);
+		assert.deepStrictEqual(result.windows.filter(w => w.count > 0).map(w => w.tStart), [40, 60, 80]);
+	});
+
+	test('renders the report', () => {
+		const lines = formatGlitchReport(report(findGlitches(idx))).split('\n');
+		assert.deepStrictEqual(lines.slice(0, 6), [
+			'Glitches in [0, 200] (values held for less than 10% of the signal\'s clock period; width 0 means several changes at one time):',
+			'3 glitches on 2 of 3 signals (1 zero-width).',
+			'',
+			'tb.d: 2 glitches narrower than 2 (scaled by tb.clk), 1 zero-width, 2 pulses returning to the previous value, narrowest 0, from t=40 to t=65',
+			'  t=40: 0 → 1 → 0 (width 0)',
+			'  t=65: 0 → 1 → 0 (width 1)',
+		]);
+		assert.ok(lines.includes('tb.st: 1 glitch narrower than 2 (scaled by tb.clk), 1 passing through an intermediate value, narrowest 1, at t=85'));
+	});
+
+	test('applies a fixed width, a window and a signal list', () => {
+		assert.deepStrictEqual(report(findGlitches(idx, { maxWidth: 0 })).signals.map(s => [s.signal, s.count]), [['tb.d', 1]]);
+		assert.strictEqual(formatGlitchReport(report(findGlitches(idx, { signals: ['d'], tStart: 100 }))).split('\n')[1], 'None found on 1 signal.');
+		assert.strictEqual(findGlitches(idx, { periodFraction: 2 }), 'period_fraction must be between 0 and 1.');
+		assert.strictEqual(findGlitches(idx, { tStart: 300 }), 'Empty window [300, 200]: the dump ends at 200.');
+		assert.match(findGlitches(idx, { signals: ['nope'] }) as string, /^Unknown signal "nope"/);
+	});
+
+	test('checks only zero-width glitches without a clock', () => {
+		const quiet = indexFromVcd(buildVcd({ a: 1 }, [[0, 'a', '0'], [10, 'a', '1'], [10, 'a', '0'], [30, 'a', '1']]));
+		const result = report(findGlitches(quiet));
+		assert.deepStrictEqual([result.total, result.unclocked, result.signals[0].threshold], [1, 1, 0]);
+		assert.match(formatGlitchReport(result), /\nNo clock detected: 1 signal was checked for zero-width glitches only/);
+	});
+
+	test('marks zero-width edges in get_edges', () => {
+		assert.deepStrictEqual(formatEdges(idx, 'tb.d', idx.getEdges('tb.d', 0, 70, 'any').items).split('\n'),
+			['t=0: 0', 't=40: 1 (zero-width glitch)', 't=40: 0 (zero-width glitch)', 't=65: 1', 't=66: 0']);
+		assert.match(summarizeEdges(idx, 'tb.d', 0, 200, 'rising'), /\n1 of them share their time with another change of the signal/);
+	});
+});
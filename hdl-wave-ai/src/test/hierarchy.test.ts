@@ -0,0 +1,109 @@
+/*
+    Copyright (C) 2026 Andrew Capatina
+
+    This program is free software: you can redistribute it and/or modify
+    it under the terms of the GNU Affero General Public License as
+    published by the Free Software Foundation, either version 3 of the
+    License, or (at your option) any later version.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU Affero General Public License for more details.
+
+    You should have received a copy of the GNU Affero General Public License
+    along with this program.  If not, see <http://www.gnu.org/licenses/>.
+*/
+import * as assert from 'assert';
+import { formatScopes, ScopeListing } from '../waveform/hierarchy';
+import { SignalListing } from '../waveform/vcd';
+import { indexFromVcd } from './waveforms';
+
+const TEXT = `$timescale 1ns $end
+$scope module tb $end
+$var wire 1 ! clk $end
+$scope module dut $end
+$var wire 1 " valid $end
+$var wire 8 # data [7:0] $end
+$scope module u_core $end
+$var wire 1 $ valid $end
+$var wire 1 % ready $end
+$scope begin blk $end
+$upscope $end
+$upscope $end
+$upscope $end
+$scope task t_send $end
+$upscope $end
+$upscope $end
+$enddefinitions $end
+#0
+0!
+0"
+b0 #
+0$
+1%
+`;
+
+function names(result: SignalListing[] | string): string[] {
+	assert.ok(typeof result !== 'string', result as string);
+	return result.map(s => s.name);
+}
+
+function scopes(result: { scope: ScopeListing; children: ScopeListing[] } | string): { scope: ScopeListing; children: ScopeListing[] } {
+	assert.ok(typeof result !== 'string', result as string);
+	return result;
+}
+
+suite('Scope hierarchy', () => {
+	const idx = indexFromVcd(TEXT);
+
+	test('lists one level of scopes with their types and signal counts', () => {
+		assert.deepStrictEqual(idx.listScopes(), {
+			scope: { path: '', signals: 0, totalSignals: 5, scopes: 1 },
+			children: [{ path: 'tb', type: 'module', signals: 1, totalSignals: 5, scopes: 2 }],
+		});
+		const tb = scopes(idx.listScopes('tb'));
+		assert.deepStrictEqual(formatScopes(tb.scope, tb.children).split('\n'), [
+			'tb (module): 1 signal, 2 child scopes, 5 signals in total',
+			'  tb.dut (module): 2 signals, 1 child scope, 4 signals in total',
+			'  tb.t_send (task): 0 signals',
+			'Use list_signals with scope to list the signals of one scope, or search_signals to find signals by name.',
+		]);
+	});
+
+	test('resolves scopes by a case-insensitive path or a unique name', () => {
+		assert.deepStrictEqual(scopes(idx.listScopes('U_CORE')).children.map(c => [c.path, c.type]), [['tb.dut.u_core.blk', 'begin']]);
+		assert.strictEqual(idx.listScopes('nope'), 'Unknown scope "nope". Use list_scopes without a path to browse from the top.');
+	});
+
+	test('lists the signals of a scope, directly or at any depth', () => {
+		assert.deepStrictEqual(names(idx.listSignals({ scope: 'dut' })), ['tb.dut.valid', 'tb.dut.data']);
+		assert.deepStrictEqual(names(idx.listSignals({ scope: 'tb.dut', recursive: true })),
+			['tb.dut.valid', 'tb.dut.data', 'tb.dut.u_core.valid', 'tb.dut.u_core.ready']);
+		assert.match(idx.listSignals({ scope: 'x' }) as string, /^Unknown scope "x"/);
+	});
+
+	test('searches by glob on scope boundaries or by regex', () => {
+		assert.deepStrictEqual(names(idx.searchSignals('*valid')), ['tb.dut.valid', 'tb.dut.u_core.valid']);
+		assert.deepStrictEqual(names(idx.searchSignals('dut.*')), ['tb.dut.valid', 'tb.dut.data']);
+		assert.strictEqual(names(idx.searchSignals('dut.**')).length, 4);
+		assert.deepStrictEqual(names(idx.searchSignals('u_core.{valid,ready}')), ['tb.dut.u_core.valid', 'tb.dut.u_core.ready']);
+		assert.deepStrictEqual(names(idx.searchSignals('[cd]*')), ['tb.clk', 'tb.dut.data']);
+		assert.deepStrictEqual(names(idx.searchSignals('D?TA')), ['tb.dut.data']);
+		assert.deepStrictEqual(names(idx.searchSignals('/^tb\\.dut\\.[a-z]+$/')), ['tb.dut.valid', 'tb.dut.data']);
+		assert.deepStrictEqual(names(idx.searchSignals('valid', 'u_core')), ['tb.dut.u_core.valid']);
+	});
+
+	test('rejects malformed patterns', () => {
+		assert.match(idx.searchSignals('/(/') as string, /^Invalid regular expression \/\(\/: /);
+		assert.strictEqual(idx.searchSignals('{a'), 'Invalid glob "{a": unclosed "{".');
+		assert.strictEqual(idx.searchSignals('[ab'), 'Invalid glob "[ab": unclosed "[".');
+	});
+
+	test('adds derived signals to the tree', () => {
+		const own = indexFromVcd(TEXT);
+		assert.strictEqual(scopes(own.listScopes()).children.length, 1);
+		own.defineSignal('dbg.both', 'tb.dut.valid & tb.dut.u_core.valid');
+		assert.deepStrictEqual(scopes(own.listScopes()).children.map(c => [c.path, c.signals]), [['tb', 1], ['dbg', 1]]);
+	});
+});
@@ -0,0 +1,101 @@
+/*
+    Copyright (C) 2026 Andrew Capatina
+
+    This program is free software: you can redistribute it and/or modify
+    it under the terms of the GNU Affero General Public License as
+    published by the Free Software Foundation, either version 3 of the
+    License, or (at your option) any later version.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU Affero General Public License for more details.
+
+    You should have received a copy of the GNU Affero General Public License
+    along with this program.  If not, see <http://www.gnu.org/licenses/>.
+*/
+import * as assert from 'assert';
+import { formatLatency, formatThroughput, LatencyResult, ThroughputResult } from '../waveform/latency';
+import { buildVcd, Change, clock, indexFromVcd } from './waveforms';
+
+/** Pulses of `name`, `width` long, starting at `times`. */
+function pulses(name: string, times: number[], width: number): Change[] {
+	return [[0, name, '0'], ...times.flatMap((t): Change[] => [[t, name, '1'], [t + width, name, '0']])];
+}
+
+/**
+ * clk rises at 5, 15, …; requests at 10, 60, 100 and 150 are acknowledged
+ * at 40, 80 and 130. valid & ready holds before the edges at 35, 45 and 105.
+ */
+const TEXT = buildVcd({ clk: 1, req: 1, ack: 1, valid: 1, ready: 1, data: 16 }, [
+	...clock('clk', 10, 200),
+	...pulses('req', [10, 60, 100, 150], 10),
+	...pulses('ack', [40, 80, 130], 10),
+	[0, 'valid', '0'], [20, 'valid', '1'], [60, 'valid', '0'], [100, 'valid', '1'], [110, 'valid', '0'],
+	[0, 'ready', '0'], [30, 'ready', '1'], [50, 'ready', '0'], [100, 'ready', '1'], [120, 'ready', '0'],
+	[0, 'data', '0'.repeat(16)],
+]);
+
+function latency(result: LatencyResult | string): LatencyResult {
+	assert.ok(typeof result !== 'string', result as string);
+	return result;
+}
+
+function throughput(result: ThroughputResult | string): ThroughputResult {
+	assert.ok(typeof result !== 'string', result as string);
+	return result;
+}
+
+suite('Latency and throughput', () => {
+	const idx = indexFromVcd(TEXT);
+
+	test('pairs starts with ends in order and measures in cycles', () => {
+		const result = latency(idx.measureLatency({ start: { expression: 'req' }, end: { expression: 'ack' } }));
+		assert.deepStrictEqual([result.unit, result.clock], ['cycles', 'tb.clk']);
+		assert.deepStrictEqual(result.samples.map(s => [s.start, s.end, s.latency]), [[10, 40, 3], [60, 80, 2], [100, 130, 3]]);
+		assert.deepStrictEqual([result.min, result.mean, result.max, result.p50], [2, 2.67, 3, 3]);
+		assert.deepStrictEqual([result.unfinished, result.unmatchedEnds], [[{ time: 150 }], 0]);
+		assert.deepStrictEqual(formatLatency(result).split('\n'), [
+			'Latency from "req" (rising) to "ack" (rising), starts in [0, 200], in cycles of tb.clk:',
+			'  4 starts, 3 ends, 3 matched; 1 never ended, 0 ends without a start.',
+			'  min 2 / mean 2.67 / max 3; p50 3, p90 3, p99 3.',
+			'  Slowest: 3 from t=10 to t=40.',
+			'  Histogram:',
+			'            2: ############### 1',
+			'            3: ############################## 2',
+			'  Never ended: t=150.',
+		]);
+	});
+
+	test('matches ends to starts by ID', () => {
+		const tagged = indexFromVcd(buildVcd({ req: 1, ack: 1, tag: 2 }, [
+			...pulses('req', [10, 60], 10),
+			...pulses('ack', [80, 130], 10),
+			[0, 'tag', '00'], [10, 'tag', '01'], [60, 'tag', '10'], [80, 'tag', '10'], [130, 'tag', '01'],
+		]));
+		const result = latency(tagged.measureLatency({ start: { expression: 'req', id: 'tag' }, end: { expression: 'ack' } }));
+		assert.strictEqual(result.unit, 'time');
+		assert.deepStrictEqual(result.samples.map(s => [s.start, s.end, s.latency, s.id]), [[10, 130, 120, '01 (0x1)'], [60, 80, 20, '10 (0x2)']]);
+		assert.strictEqual(tagged.measureLatency({ start: { expression: 'req', edge: 'cycle' }, end: { expression: 'ack' } }),
+			'Start: Edge "cycle" needs a clock. Call set_clock with the clock signal name.');
+	});
+
+	test('counts handshake cycles per window with bandwidth', () => {
+		const result = throughput(idx.measureThroughput({ event: { expression: 'valid & ready' }, data: 'data', window: 5 }));
+		assert.deepStrictEqual([result.events, result.firstEvent, result.lastEvent, result.span], [3, 35, 105, 20]);
+		assert.deepStrictEqual([result.rate, result.sustainedRate, result.bytesPerEvent], [0.15, 0.375, 2]);
+		assert.deepStrictEqual(result.windows.map(w => w.events), [1, 1, 1, 0]);
+		assert.deepStrictEqual(result.longestGap, { from: 45, to: 105, length: 6 });
+		const lines = formatThroughput(result).split('\n');
+		assert.strictEqual(lines[1], '  3 events, 0.15 per cycle overall; 0.375 per cycle sustained from t=35 to t=105.');
+		assert.strictEqual(lines[2], '  6 bytes (2 per event), 0.3 bytes per cycle overall, 30 MB/s overall, 75 MB/s sustained.');
+	});
+
+	test('explains bad events and windows', () => {
+		assert.strictEqual(idx.measureLatency({ start: { expression: 'req &' }, end: { expression: 'ack' } }),
+			'Start: Could not parse expression: Expected an expression at column 6, found end of expression');
+		assert.match(idx.measureLatency({ start: { expression: 'req' }, end: { expression: 'nope' } }) as string,
+			/^End: Could not parse expression: Unknown signal "nope"/);
+		assert.strictEqual(idx.measureThroughput({ event: { expression: 'req' }, tStart: 50, tEnd: 50 }), 'The window [50, 50] is empty.');
+	});
+});
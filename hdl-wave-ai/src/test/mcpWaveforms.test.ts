@@ -0,0 +1,82 @@
+/*
+    Copyright (C) 2026 Andrew Capatina
+
+    This program is free software: you can redistribute it and/or modify
+    it under the terms of the GNU Affero General Public License as
+    published by the Free Software Foundation, either version 3 of the
+    License, or (at your option) any later version.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU Affero General Public License for more details.
+
+    You should have received a copy of the GNU Affero General Public License
+    along with this program.  If not, see <http://www.gnu.org/licenses/>.
+*/
+import * as assert from 'assert';
+import {
+	addWaveform, defaultWaveformName, getWaveform, loadedWaveforms, unloadWaveform, waveformNameFor,
+} from '../mcp/waveforms';
+import { parseVcd, WaveformIndex } from '../waveform/vcd';
+import { buildVcd } from './waveforms';
+
+/** An index for `uri` whose tb.done rises at `doneAt`. */
+function run(uri: string, doneAt: number): WaveformIndex {
+	const text = buildVcd({ done: 1 }, [[0, 'done', '0'], [doneAt, 'done', '1']]);
+	return new WaveformIndex({ ...parseVcd(text), uri, startTime: 0 });
+}
+
+suite('MCP server waveforms', () => {
+	// The map is module state: each test unloads what it loaded
+	teardown(() => {
+		for (const name of [...loadedWaveforms().keys()]) { unloadWaveform(name); }
+	});
+
+	test('asks for a load while nothing is loaded', () => {
+		assert.strictEqual(getWaveform(undefined), 'No waveform loaded. Call load_waveform first.');
+		assert.strictEqual(defaultWaveformName(), null);
+	});
+
+	test('resolves the most recently loaded waveform by default', () => {
+		const failing = run('/runs/failing/sim.vcd', 80);
+		const golden = run('/runs/golden/sim.vcd', 40);
+		addWaveform('failing', failing);
+		addWaveform('golden', golden);
+		assert.strictEqual(getWaveform(undefined), golden);
+		assert.strictEqual(getWaveform('failing'), failing);
+		assert.strictEqual(getWaveform('nope'), 'Unknown waveform "nope". Loaded: failing, golden.');
+	});
+
+	test('suffixes the base name of a different file with the same name', () => {
+		assert.strictEqual(waveformNameFor('/runs/failing/sim.vcd'), 'sim');
+		addWaveform('sim', run('/runs/failing/sim.vcd', 80));
+		// The same file keeps its name, so loading it again replaces it
+		assert.strictEqual(waveformNameFor('/runs/failing/sim.vcd'), 'sim');
+		assert.strictEqual(waveformNameFor('/runs/golden/sim.fst'), 'sim_2');
+		addWaveform('sim_2', run('/runs/golden/sim.fst', 40));
+		assert.strictEqual(waveformNameFor('/runs/third/sim.ghw'), 'sim_3');
+	});
+
+	test('moves a replaced waveform to the end of the load order', () => {
+		addWaveform('a', run('/a.vcd', 10));
+		addWaveform('b', run('/b.vcd', 20));
+		const again = run('/a.vcd', 30);
+		addWaveform('a', again);
+		assert.deepStrictEqual([...loadedWaveforms().keys()], ['b', 'a']);
+		assert.strictEqual(getWaveform(undefined), again);
+	});
+
+	test('falls back to the latest remaining waveform on unload', () => {
+		addWaveform('a', run('/a.vcd', 10));
+		addWaveform('b', run('/b.vcd', 20));
+		addWaveform('c', run('/c.vcd', 30));
+		assert.strictEqual(unloadWaveform('b'), true);
+		assert.strictEqual(defaultWaveformName(), 'c');
+		assert.strictEqual(unloadWaveform('c'), true);
+		assert.strictEqual(defaultWaveformName(), 'a');
+		assert.strictEqual(unloadWaveform('c'), false);
+		assert.strictEqual(unloadWaveform('a'), true);
+		assert.strictEqual(defaultWaveformName(), null);
+	});
+});
@@ -0,0 +1,92 @@
+/*
+    Copyright (C) 2026 Andrew Capatina
+
+    This program is free software: you can redistribute it and/or modify
+    it under the terms of the GNU Affero General Public License as
+    published by the Free Software Foundation, either version 3 of the
+    License, or (at your option) any later version.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU Affero General Public License for more details.
+
+    You should have received a copy of the GNU Affero General Public License
+    along with this program.  If not, see <http://www.gnu.org/licenses/>.
+*/
+import * as assert from 'assert';
+import { indexFromVcd } from './waveforms';
+
+const idx = indexFromVcd(`$timescale 1ps $end
+$scope module tb $end
+$var reg 8 ! count [7:0] $end
+$var integer 32 " n $end
+$var real 64 # temp $end
+$var event 1 $ done $end
+$var wire 1 % idle $end
+$scope module dut $end
+$var wire 8 ! cnt[7:0] $end
+$upscope $end
+$upscope $end
+$enddefinitions $end
+#0
+b0 !
+b101 "
+r2.5 #
+#10
+b11 !
+#20
+1$
+b100 !
+`);
+
+suite('Signal metadata', () => {
+	test('records the declaration of each path', () => {
+		assert.deepStrictEqual(idx.getDescriptor('tb.count'), {
+			path: 'tb.count', name: 'count', scope: 'tb', varType: 'reg', width: 8, range: '[7:0]',
+			kind: 'logic', idCode: '!', aliases: ['tb.dut.cnt'],
+		});
+		// A range written onto the name is split off
+		assert.strictEqual(idx.getDescriptor('tb.dut.cnt')?.range, '[7:0]');
+		assert.deepStrictEqual(['tb.n', 'tb.temp', 'tb.done'].map(s => idx.getDescriptor(s)?.kind), ['logic', 'real', 'event']);
+	});
+
+	test('lists signals with their type, width and aliases', () => {
+		const count = idx.listSignals().find(s => s.name === 'tb.count');
+		assert.deepStrictEqual(count, {
+			name: 'tb.count', transitionCount: 3, varType: 'reg', width: 8, range: '[7:0]', kind: 'logic', aliases: ['tb.dut.cnt'],
+		});
+		// Aliased paths share one trace, so their changes are counted once
+		assert.strictEqual(idx.transitionCount, 6);
+	});
+
+	test('describes activity alongside the declaration', () => {
+		const desc = idx.describeSignal('tb.dut.cnt');
+		assert.ok(desc);
+		assert.deepStrictEqual([desc.transitionCount, desc.firstChange, desc.lastChange], [3, 0, 20]);
+		assert.deepStrictEqual([desc.initialValue, desc.finalValue], ['00000000 (0x0)', '00000100 (0x4)']);
+		assert.strictEqual(idx.describeSignal('tb.nope'), null);
+	});
+
+	test('resolves loosely written names and suggests close ones', () => {
+		assert.deepStrictEqual(['TB.Count', 'tb.count[7:0]', 'count', 'cnt', 'temp'].map(n => idx.resolveSignal(n)),
+			['tb.count', 'tb.count', 'tb.count', 'tb.dut.cnt', 'tb.temp']);
+		assert.strictEqual(idx.resolveSignal('tb.cout'), null);
+		assert.strictEqual(idx.signalNotFound('tb.cout'),
+			'Unknown signal "tb.cout": there is no such signal in the waveform (this is not an X value). Did you mean: tb.count?');
+		assert.deepStrictEqual(idx.resolveSignals(['count', 'done']), ['tb.count', 'tb.done']);
+		assert.strictEqual(idx.resolveSignals(['count', 'xyz']),
+			'Unknown signal "xyz": there is no such signal in the waveform (this is not an X value). Use list_signals to see the available names.');
+	});
+
+	test('rejects unknown paths in queries instead of reading them as x', () => {
+		const notFound = { message: idx.signalNotFound('tb.cout') };
+		assert.throws(() => idx.getValueAt('tb.cout', 10), notFound);
+		assert.throws(() => idx.queryTransitions('tb.cout', 0, 20), notFound);
+		assert.throws(() => idx.getEdges('tb.cout', 0, 20, 'any'), notFound);
+		assert.throws(() => idx.countTransitions('tb.cout', 0, 20), notFound);
+		// A declared signal that never changes is x, not unknown
+		assert.strictEqual(idx.getValueAt('tb.idle', 10), 'x');
+		assert.strictEqual(idx.countTransitions('tb.idle', 0, 20), 0);
+	});
+});
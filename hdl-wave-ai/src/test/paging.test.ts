@@ -0,0 +1,120 @@
+/*
+    Copyright (C) 2026 Andrew Capatina
+
+    This program is free software: you can redistribute it and/or modify
+    it under the terms of the GNU Affero General Public License as
+    published by the Free Software Foundation, either version 3 of the
+    License, or (at your option) any later version.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU Affero General Public License for more details.
+
+    You should have received a copy of the GNU Affero General Public License
+    along with this program.  If not, see <http://www.gnu.org/licenses/>.
+*/
+import * as assert from 'assert';
+import { cursorWaveform, nextCursor, pageNote, resumeQuery, summarizeEdges, summarizePattern, summarizeTransitions, takePage } from '../waveform/paging';
+import { buildVcd, clock, indexFromVcd } from './waveforms';
+
+interface Query {
+	signal: string;
+	tStart: number;
+	tEnd: number;
+}
+
+const ITEMS = Array.from({ length: 25 }, (_, i) => i);
+const QUERY: Query = { signal: 'tb.q', tStart: 0, tEnd: 500 };
+
+/** q pulses over [25, 45) and [60, 70); st is 01 over [30, 40) and [80, 90). */
+const TEXT = buildVcd({ clk: 1, q: 1, st: 2 }, [
+	...clock('clk', 10, 100),
+	[0, 'q', '0'], [25, 'q', '1'], [45, 'q', '0'], [60, 'q', '1'], [70, 'q', '0'],
+	[0, 'st', '00'], [30, 'st', '01'], [40, 'st', '10'], [80, 'st', '01'], [90, 'st', '00'],
+]);
+
+suite('Paging cursors', () => {
+	const idx = indexFromVcd(TEXT);
+
+	test('round-trip the query and the next offset', () => {
+		const page = takePage(ITEMS, {}, 10);
+		assert.deepStrictEqual(page, { items: ITEMS.slice(0, 10), offset: 0, total: 25 });
+		const cursor = nextCursor('query_transitions', QUERY, page);
+		assert.ok(cursor);
+		const resumed = resumeQuery<Query>(idx, 'query_transitions', cursor, () => assert.fail('fresh query built for a cursor'));
+		assert.deepStrictEqual(resumed, { query: QUERY, offset: 10 });
+		if (typeof resumed === 'string') { return; }
+		const second = takePage(ITEMS, { offset: resumed.offset }, 10);
+		assert.deepStrictEqual(second.items, ITEMS.slice(10, 20));
+	});
+
+	test('end after the last page', () => {
+		const last = takePage(ITEMS, { offset: 20 }, 10);
+		assert.deepStrictEqual(last.items, ITEMS.slice(20));
+		assert.strictEqual(nextCursor('query_transitions', QUERY, last), undefined);
+		assert.strictEqual(pageNote(last, 'Transitions', undefined), '[Transitions 21–25 of 25; this is the last page.]\n');
+	});
+
+	test('record the waveform they page through', () => {
+		const page = takePage(ITEMS, {}, 10);
+		assert.strictEqual(cursorWaveform(nextCursor('get_edges', QUERY, page, 'run2')!), 'run2');
+		assert.strictEqual(cursorWaveform(nextCursor('get_edges', QUERY, page)!), undefined);
+		assert.strictEqual(cursorWaveform('not a cursor'), undefined);
+	});
+
+	test('build a fresh query without a cursor', () => {
+		assert.deepStrictEqual(resumeQuery<Query>(idx, 'get_edges', undefined, () => QUERY), { query: QUERY, offset: 0 });
+		assert.strictEqual(resumeQuery<Query>(idx, 'get_edges', undefined, () => 'bad arguments'), 'bad arguments');
+	});
+
+	test('reject cursors of another tool and damaged tokens', () => {
+		const cursor = nextCursor('get_edges', QUERY, takePage(ITEMS, {}, 10))!;
+		assert.strictEqual(resumeQuery<Query>(idx, 'find_pattern', cursor, () => QUERY), 'This cursor belongs to get_edges, not find_pattern.');
+		assert.match(resumeQuery<Query>(idx, 'get_edges', cursor.slice(3), () => QUERY) as string, /^Invalid cursor/);
+		assert.match(resumeQuery<Query>(idx, 'get_edges', Buffer.from('{"tool":"get_edges"}').toString('base64url'), () => QUERY) as string, /^Invalid cursor/);
+	});
+
+	test('check the query a cursor carries', () => {
+		const page = takePage(ITEMS, {}, 10);
+		const forged = nextCursor('get_edges', { ...QUERY, edgeType: 'sideways' }, page)!;
+		assert.match(resumeQuery<Query>(idx, 'get_edges', forged, () => QUERY) as string, /^Invalid cursor/);
+		const typed = nextCursor('get_edges', { ...QUERY, tStart: '0' }, page)!;
+		assert.match(resumeQuery<Query>(idx, 'get_edges', typed, () => QUERY) as string, /^Invalid cursor/);
+		// A cursor from another waveform names a signal this one lacks
+		const stale = nextCursor('get_edges', { ...QUERY, signal: 'tb.count' }, page)!;
+		assert.match(resumeQuery<Query>(idx, 'get_edges', stale, () => QUERY) as string, /^Unknown signal "tb\.count"/);
+	});
+
+	test('describe where a page sits', () => {
+		const page = takePage(ITEMS, { offset: 10 }, 10);
+		assert.strictEqual(pageNote(page, 'Edges', 'abc'),
+			'[Edges 11–20 of 25; 5 more. Pass cursor "abc" for the next page, or summary: true for run-length stats.]\n');
+		assert.strictEqual(pageNote(takePage(ITEMS, {}, 100), 'Edges', undefined), '');
+	});
+});
+
+suite('Run-length summaries', () => {
+	const idx = indexFromVcd(TEXT);
+
+	test('give the time held per value', () => {
+		assert.deepStrictEqual(summarizeTransitions(idx, 'tb.q', 0, 100).split('\n'), [
+			'"tb.q" in [0, 100]: 5 transitions, 2 distinct values.',
+			'Time held per value (largest total first):',
+			'  0: 3 runs, 70 time units (70.0%), min 15 / mean 23.33 / max 30',
+			'  1: 2 runs, 30 time units (30.0%), min 10 / mean 15 / max 20',
+		]);
+	});
+
+	test('space out pattern matches and edges', () => {
+		assert.deepStrictEqual(summarizePattern(idx, 'tb.st', '0x1', 0, 100).split('\n'), [
+			'"tb.st" changes to a value matching "0x1" 2 times in [0, 100]: first t=30, last t=80.',
+			'Spacing between matches: every 50 (regular).',
+			'Held a matching value for 20 of 100 time units (20.0%):',
+			'  01 (0x1): 2 runs, 20 time units (20.0%), min 10 / mean 10 / max 10',
+		]);
+		assert.strictEqual(summarizeEdges(idx, 'tb.clk', 0, 100, 'rising'),
+			'10 rising edges of "tb.clk" in [0, 100]: first t=5, last t=95.\nSpacing between edges: every 10 (regular).');
+		assert.strictEqual(summarizeEdges(idx, 'tb.q', 80, 100, 'rising'), 'No rising edges for "tb.q" in [80, 100].');
+	});
+});
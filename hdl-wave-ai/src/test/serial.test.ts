@@ -0,0 +1,130 @@
+/*
+    Copyright (C) 2026 Andrew Capatina
+
+    This program is free software: you can redistribute it and/or modify
+    it under the terms of the GNU Affero General Public License as
+    published by the Free Software Foundation, either version 3 of the
+    License, or (at your option) any later version.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU Affero General Public License for more details.
+
+    You should have received a copy of the GNU Affero General Public License
+    along with this program.  If not, see <http://www.gnu.org/licenses/>.
+*/
+import * as assert from 'assert';
+import { decodeSerial, SerialDecodeResult } from '../waveform/serial';
+import { buildVcd, Change, indexFromVcd, uartFrames } from './waveforms';
+
+function decoded(result: SerialDecodeResult | string): SerialDecodeResult {
+	if (typeof result === 'string') { assert.fail(result); }
+	return result;
+}
+
+suite('Serial decoders', () => {
+	suite('UART', () => {
+		const idx = indexFromVcd(buildVcd({ tx: 1 }, [...uartFrames('tx', [0x48, 0x69], 100, 1000), [3000, 'tx', '1']]));
+
+		test('decodes bytes and text at a baud rate', () => {
+			// 1 ns units: 10 Mbaud is a bit every 100
+			const result = decoded(decodeSerial(idx, 'uart', { baud: 10_000_000 }));
+			assert.deepStrictEqual(result.roles, { line: 'tb.tx' });
+			assert.deepStrictEqual(result.frames.map(f => [f.start, f.fields['byte'], f.fields['char'], f.errors]), [
+				[1000, '0x48', 'H', undefined],
+				[2000, '0x69', 'i', undefined],
+			]);
+			assert.ok(result.summary.includes('Text: "Hi"'));
+		});
+
+		test('estimates the bit time from the shortest pulse', () => {
+			const result = decoded(decodeSerial(idx, 'uart', {}));
+			assert.match(result.settings, /^estimated bit time 100/);
+			assert.strictEqual(result.frames.length, 2);
+		});
+
+		test('flags parity and framing errors', () => {
+			// 0x01 with odd parity needs a 0 parity bit; send 1, then a low stop bit
+			const bits = [0, 1, 0, 0, 0, 0, 0, 0, 0, 1, 0];
+			const changes: Change[] = [[0, 'tx', '1'], ...bits.map((b, k): Change => [100 + k * 10, 'tx', String(b)]), [210, 'tx', '1'], [400, 'tx', '1']];
+			const result = decoded(decodeSerial(indexFromVcd(buildVcd({ tx: 1 }, changes)), 'uart', { bitTime: 10, parity: 'odd' }));
+			assert.deepStrictEqual(result.frames[0].errors, ['parity error', 'framing error (stop bit low)']);
+		});
+
+		test('reports a frame cut off by the end of the dump as truncated', () => {
+			// The dump ends with the stop bit, before its sample point at 1950
+			const cut = indexFromVcd(buildVcd({ tx: 1 }, uartFrames('tx', [0x48], 100, 1000)));
+			const result = decoded(decodeSerial(cut, 'uart', { bitTime: 100 }));
+			assert.strictEqual(result.frames.length, 1);
+			assert.strictEqual(result.frames[0].end, 1900);
+			assert.ok(result.frames[0].errors?.includes('truncated (runs past the end of the dump)'));
+		});
+	});
+
+	suite('SPI', () => {
+		/** One 0xA5/0x3C word with CS low; data changes on the edge before the sampling one. */
+		function spiWord(cpha: 0 | 1) {
+			const changes: Change[] = [[0, 'sclk', '0'], [0, 'cs_n', '1'], [0, 'mosi', '0'], [0, 'miso', '0'], [10, 'cs_n', '0']];
+			const mosi = 0xA5, miso = 0x3C;
+			for (let k = 0; k < 8; k++) {
+				const t = 20 + k * 20;
+				// Mode 0 shifts on the falling edge at t, mode 1 on the rising edge at t + 10
+				const shift = t + cpha * 10;
+				changes.push([shift, 'mosi', String((mosi >> (7 - k)) & 1)], [shift, 'miso', String((miso >> (7 - k)) & 1)]);
+				changes.push([t + 10, 'sclk', '1'], [t + 20, 'sclk', '0']);
+			}
+			changes.push([200, 'cs_n', '1']);
+			return indexFromVcd(buildVcd({ sclk: 1, cs_n: 1, mosi: 1, miso: 1 }, changes));
+		}
+
+		test('finds the roles and decodes a word', () => {
+			const result = decoded(decodeSerial(spiWord(0), 'spi', {}));
+			assert.deepStrictEqual(result.roles, { sclk: 'tb.sclk', mosi: 'tb.mosi', miso: 'tb.miso', cs: 'tb.cs_n' });
+			assert.deepStrictEqual(result.frames.map(f => f.fields), [{ transaction: '1', mosi: '0xA5', miso: '0x3C' }]);
+		});
+
+		test('samples on the falling edge for CPHA 1', () => {
+			const idx = spiWord(1);
+			const result = decoded(decodeSerial(idx, 'spi', { cpha: 1 }));
+			assert.match(result.settings, /^mode 1 .*sampled on falling SCLK edges/);
+			assert.deepStrictEqual(result.frames.map(f => f.fields), [{ transaction: '1', mosi: '0xA5', miso: '0x3C' }]);
+			// Sampled on the rising edge, every bit is the one before it
+			const mode0 = decoded(decodeSerial(idx, 'spi', {}));
+			assert.notDeepStrictEqual(mode0.frames.map(f => f.fields), result.frames.map(f => f.fields));
+		});
+	});
+
+	suite('I2C', () => {
+		// START, address 0x50 write (ACK), data 0xAB (NACK), STOP; SDA changes while SCL is low
+		const changes: Change[] = [[0, 'scl', '1'], [0, 'sda', '1'], [10, 'sda', '0'], [20, 'scl', '0']];
+		let t = 20;
+		const sendBit = (bit: number) => {
+			changes.push([t + 5, 'sda', String(bit)], [t + 10, 'scl', '1'], [t + 20, 'scl', '0']);
+			t += 20;
+		};
+		for (let k = 7; k >= 0; k--) { sendBit(((0x50 << 1) >> k) & 1); }
+		sendBit(0); // ACK
+		for (let k = 7; k >= 0; k--) { sendBit((0xAB >> k) & 1); }
+		sendBit(1); // NACK
+		changes.push([t + 5, 'sda', '0'], [t + 10, 'scl', '1'], [t + 15, 'sda', '1'], [t + 40, 'scl', '1']);
+		const idx = indexFromVcd(buildVcd({ scl: 1, sda: 1 }, changes));
+
+		test('decodes start, address, data and stop', () => {
+			const result = decoded(decodeSerial(idx, 'i2c', {}));
+			assert.deepStrictEqual(result.frames.map(f => [f.kind, f.fields]), [
+				['start', {}],
+				['address', { addr: '0x50', rw: 'W', ack: 'ACK' }],
+				['data', { byte: '0xAB', ack: 'NACK' }],
+				['stop', {}],
+			]);
+		});
+	});
+
+	test('rejects unknown protocols and roles', () => {
+		const idx = indexFromVcd(buildVcd({ tx: 1 }, [[0, 'tx', '1']]));
+		assert.match(decodeSerial(idx, 'can' as 'uart') as string, /^Unknown protocol "can"/);
+		assert.match(decodeSerial(idx, 'uart', { roles: { clock: 'tb.tx' } }) as string, /^Unknown uart role "clock"/);
+		assert.strictEqual(decodeSerial(idx, 'uart', { roles: { line: 'tb.nope' } }), 'Role line: Unknown signal "tb.nope": there is no such signal in the waveform (this is not an X value). Use list_signals to see the available names.');
+	});
+});
@@ -0,0 +1,84 @@
+/*
+    Copyright (C) 2026 Andrew Capatina
+
+    This program is free software: you can redistribute it and/or modify
+    it under the terms of the GNU Affero General Public License as
+    published by the Free Software Foundation, either version 3 of the
+    License, or (at your option) any later version.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU Affero General Public License for more details.
+
+    You should have received a copy of the GNU Affero General Public License
+    along with this program.  If not, see <http://www.gnu.org/licenses/>.
+*/
+import * as assert from 'assert';
+import { formatActivity, formatSignalStats, SignalStats } from '../waveform/stats';
+import { buildVcd, clock, indexFromVcd } from './waveforms';
+
+/**
+ * busy is high over [10, 30), [50, 60) and from 80; data is unset until 20
+ * and has an x bit over [70, 90); mode never changes.
+ */
+const TEXT = buildVcd({ clk: 1, busy: 1, data: 8, mode: 2 }, [
+	...clock('clk', 10, 100),
+	[0, 'busy', '0'], [10, 'busy', '1'], [30, 'busy', '0'], [50, 'busy', '1'], [60, 'busy', '0'], [80, 'busy', '1'],
+	[20, 'data', '00000101'], [40, 'data', '00000111'], [70, 'data', '0000x001'], [90, 'data', '00000001'],
+	[0, 'mode', '10'],
+]);
+
+function computed(result: SignalStats | string): SignalStats {
+	assert.ok(typeof result !== 'string', result as string);
+	return result;
+}
+
+suite('Signal statistics', () => {
+	const idx = indexFromVcd(TEXT);
+
+	test('measures high time, pulse widths and the toggle rate of a bit', () => {
+		const busy = computed(idx.signalStats('tb.busy', 0, 100));
+		assert.deepStrictEqual([busy.transitions, busy.meanInterval, busy.perCycle, busy.lastChange], [5, 20, { rate: 0.5, clock: 'tb.clk' }, 80]);
+		assert.deepStrictEqual([busy.high, busy.low, busy.unknown], [50, 50, 0]);
+		// The pulse still high at the end of the window is not complete
+		assert.deepStrictEqual([busy.highPulses?.count, busy.highPulses?.min, busy.highPulses?.max], [2, 10, 20]);
+		assert.deepStrictEqual(formatSignalStats(busy).split('\n'), [
+			'"tb.busy" in [0, 100] (1 bit):',
+			'  Changes: 5, one every 20 time units on average (0.5 per cycle of tb.clk).',
+			'  Last change at t=80; the final value was then held for 20 (20.0% of the window).',
+			'  Time high 50.0%, low 50.0%.',
+			'  High pulses: 2, width min 10 / mean 15 / max 20; most common: 10 ×1, 20 ×1.',
+			'  Low pulses: 2, all 20 wide.',
+		]);
+		assert.strictEqual(formatActivity(busy), '5 transitions, one every 20, high 50.0%');
+	});
+
+	test('recognises a clock', () => {
+		assert.strictEqual(formatActivity(computed(idx.signalStats('tb.clk', 0, 100))), '20 transitions, one every 5, clock-like, period 10, duty 50.0%');
+	});
+
+	test('weighs vector values by time held and finds stuck bits', () => {
+		const data = computed(idx.signalStats('tb.data', 0, 100));
+		assert.deepStrictEqual(data.values.map(v => [v.value, v.time]), [
+			['00000111 (0x7)', 30], ['00000101 (0x5)', 20], ['0000x001 (0x0X)', 20], ['00000001 (0x1)', 10],
+		]);
+		// Before its first value the signal counts as unknown too
+		assert.deepStrictEqual([data.high, data.low, data.unknown], [60, 0, 40]);
+		assert.deepStrictEqual([data.min, data.max], ['00000001 (0x1)', '00000111 (0x7)']);
+		assert.deepStrictEqual(data.stuckBits.map(b => `${b.bit}=${b.value}`), ['7=0', '6=0', '5=0', '4=0', '0=1']);
+		assert.strictEqual(formatActivity(data), '4 transitions, one every 25, 4 values (0x1–0x7), x/z 40.0%, bits [7:4]=0, [0]=1 never change');
+	});
+
+	test('reports a signal stuck for the whole window', () => {
+		const mode = computed(idx.signalStats('tb.mode', 0, 100));
+		assert.deepStrictEqual([mode.transitions, mode.stuckAt], [0, '10 (0x2)']);
+		assert.strictEqual(formatSignalStats(mode).split('\n')[1], '  Stuck at 10 (0x2) for the whole window (no changes).');
+	});
+
+	test('clips the window to the dump', () => {
+		const part = computed(idx.signalStats('tb.busy', 15, 55));
+		assert.deepStrictEqual([part.transitions, part.high, part.low, part.lowPulses?.count, part.highPulses], [2, 20, 20, 1, undefined]);
+		assert.strictEqual(idx.signalStats('tb.busy', 200, 300), 'The window [200, 300] is outside the dump (0–100).');
+	});
+});
@@ -0,0 +1,66 @@
+/*
+    Copyright (C) 2026 Andrew Capatina
+
+    This program is free software: you can redistribute it and/or modify
+    it under the terms of the GNU Affero General Public License as
+    published by the Free Software Foundation, either version 3 of the
+    License, or (at your option) any later version.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU Affero General Public License for more details.
+
+    You should have received a copy of the GNU Affero General Public License
+    along with this program.  If not, see <http://www.gnu.org/licenses/>.
+*/
+import * as assert from 'assert';
+import { checkProperty, PropertyCheckResult } from '../waveform/sva';
+import { buildVcd, clock, indexFromVcd } from './waveforms';
+
+// Rising clock edges at 5, 15, 25, …; the first req is acked two cycles
+// later, the second never is
+const idx = indexFromVcd(buildVcd({ clk: 1, req: 1, ack: 1, rst: 1 }, [
+	...clock('clk', 10, 200),
+	[0, 'req', '0'], [20, 'req', '1'], [30, 'req', '0'], [100, 'req', '1'], [110, 'req', '0'],
+	[0, 'ack', '0'], [40, 'ack', '1'], [50, 'ack', '0'],
+	[0, 'rst', '0'],
+]));
+
+function checked(result: PropertyCheckResult | string): PropertyCheckResult {
+	if (typeof result === 'string') { assert.fail(result); }
+	return result;
+}
+
+suite('Property checker', () => {
+	test('passes and fails implication attempts', () => {
+		const result = checked(checkProperty(idx, '@(posedge tb.clk) tb.req |-> ##[1:3] tb.ack'));
+		assert.strictEqual(result.clock, 'tb.clk');
+		assert.strictEqual(result.edge, 'rising');
+		assert.deepStrictEqual([result.triggered, result.passed, result.failed], [2, 1, 1]);
+		assert.strictEqual(result.vacuous, result.attempts - 2);
+		assert.deepStrictEqual(result.failures.map(f => [f.attemptTime, f.failTime]), [[105, 135]]);
+	});
+
+	test('passes a property the trace satisfies', () => {
+		const result = checked(checkProperty(idx, '@(posedge tb.clk) $rose(tb.ack) |=> !tb.ack'));
+		assert.deepStrictEqual([result.triggered, result.passed, result.failed], [1, 1, 0]);
+	});
+
+	test('leaves attempts open at the end of the dump undecided', () => {
+		const result = checked(checkProperty(idx, '@(posedge tb.clk) tb.req |-> ##[1:$] tb.ack'));
+		assert.deepStrictEqual([result.passed, result.failed, result.incomplete], [1, 0, 1]);
+	});
+
+	test('skips attempts while disabled', () => {
+		const result = checked(checkProperty(idx, '@(posedge tb.clk) disable iff (!tb.rst) tb.req |-> ##1 tb.ack'));
+		assert.strictEqual(result.disableIff, '!tb.rst');
+		assert.strictEqual(result.disabled, result.attempts);
+		assert.strictEqual(result.failed, 0);
+	});
+
+	test('rejects malformed properties and unknown signals', () => {
+		assert.strictEqual(typeof checkProperty(idx, '@(posedge tb.clk) tb.req |-> ##[3:1] tb.ack'), 'string');
+		assert.strictEqual(typeof checkProperty(idx, '@(posedge tb.clk) tb.nope |-> tb.ack'), 'string');
+	});
+});
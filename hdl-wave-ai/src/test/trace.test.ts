@@ -0,0 +1,89 @@
+/*
+    Copyright (C) 2026 Andrew Capatina
+
+    This program is free software: you can redistribute it and/or modify
+    it under the terms of the GNU Affero General Public License as
+    published by the Free Software Foundation, either version 3 of the
+    License, or (at your option) any later version.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU Affero General Public License for more details.
+
+    You should have received a copy of the GNU Affero General Public License
+    along with this program.  If not, see <http://www.gnu.org/licenses/>.
+*/
+import * as assert from 'assert';
+import { formatBits, SignalTrace } from '../waveform/trace';
+
+/** "time=raw" for every change in `trace`. */
+function changes(trace: SignalTrace): string[] {
+	return Array.from({ length: trace.length }, (_, i) => `${trace.timeAt(i)}=${trace.rawAt(i)}`);
+}
+
+suite('Columnar traces', () => {
+	test('pack narrow binary vectors and intern everything else', () => {
+		const trace = new SignalTrace(4);
+		for (const [t, v] of [[0, '0101'], [5, 'xx01'], [10, '0101'], [15, 'xx01']] as const) { trace.push(t, v); }
+		assert.deepStrictEqual(changes(trace), ['0=0101', '5=xx01', '10=0101', '15=xx01']);
+		// Binary values are the integer itself, x/z values share one dictionary entry
+		assert.strictEqual(trace.codeAt(0), 5);
+		assert.strictEqual(trace.codeAt(1), trace.codeAt(3));
+		assert.notStrictEqual(trace.codeAt(1), trace.codeAt(0));
+		assert.strictEqual(trace.valueAt(0), '0101 (0x5)');
+		assert.strictEqual(trace.valueAt(1), 'xx01 (0xX)');
+	});
+
+	test('store vectors wider than 31 bits through the dictionary', () => {
+		const trace = new SignalTrace(40);
+		trace.push(0, '1'.repeat(40));
+		trace.push(1, '0'.repeat(39) + '1');
+		assert.deepStrictEqual([trace.codeAt(0), trace.codeAt(1)], [0, 1]);
+		assert.strictEqual(trace.valueAt(0), `${'1'.repeat(40)} (0xFFFFFFFFFF)`);
+	});
+
+	test('drop repeated values, padding short vectors like formatBits', () => {
+		const trace = new SignalTrace(4);
+		assert.strictEqual(trace.push(0, '1'), true);
+		assert.strictEqual(trace.push(3, '0001'), false);
+		assert.strictEqual(trace.push(5, 'x'), true);
+		assert.strictEqual(trace.push(6, 'xxxx'), false);
+		assert.deepStrictEqual(changes(trace), ['0=0001', '5=xxxx']);
+		assert.strictEqual(formatBits('x', 4), 'xxxx');
+	});
+
+	test('format four-state vectors nibble by nibble', () => {
+		assert.strictEqual(formatBits('zzzz0101x1x0', 12), 'zzzz0101x1x0 (0xZ5X)');
+		// z extends itself; all-x and all-z values stay bare
+		assert.strictEqual(formatBits('z1', 8), 'zzzzzzz1 (0xZX)');
+		assert.strictEqual(formatBits('zzzz', 8), 'zzzzzzzz');
+	});
+
+	test('keep several changes at one time and search around them', () => {
+		const trace = new SignalTrace();
+		for (const [t, v] of [[0, '0'], [10, '1'], [10, '0'], [10, '1'], [20, '0']] as const) { trace.push(t, v); }
+		assert.deepStrictEqual(changes(trace), ['0=0', '10=1', '10=0', '10=1', '20=0']);
+		assert.strictEqual(trace.lowerBound(10), 1);
+		assert.strictEqual(trace.upperBound(10), 4);
+		assert.strictEqual(trace.lowerBound(25), 5);
+		assert.strictEqual(trace.upperBound(-1), 0);
+	});
+
+	test('grow past their initial capacity', () => {
+		const trace = new SignalTrace(1, 2);
+		for (let t = 0; t < 100; t++) { trace.push(t, String(t & 1)); }
+		assert.strictEqual(trace.length, 100);
+		assert.deepStrictEqual([trace.timeAt(99), trace.rawAt(99)], [99, '1']);
+	});
+
+	test('keep their values through compact and refuse new dictionary values after it', () => {
+		const trace = new SignalTrace(4);
+		trace.push(0, '0011');
+		trace.push(5, 'zzzz');
+		trace.compact();
+		assert.deepStrictEqual(changes(trace), ['0=0011', '5=zzzz']);
+		assert.throws(() => trace.push(10, 'xxxx'), /push after compact/);
+		assert.strictEqual(trace.length, 2);
+	});
+});
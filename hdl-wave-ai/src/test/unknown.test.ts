@@ -0,0 +1,103 @@
+/*
+    Copyright (C) 2026 Andrew Capatina
+
+    This program is free software: you can redistribute it and/or modify
+    it under the terms of the GNU Affero General Public License as
+    published by the Free Software Foundation, either version 3 of the
+    License, or (at your option) any later version.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU Affero General Public License for more details.
+
+    You should have received a copy of the GNU Affero General Public License
+    along with this program.  If not, see <http://www.gnu.org/licenses/>.
+*/
+import * as assert from 'assert';
+import { extractSignalDrivers } from '../hdl/parser';
+import { findUnknownOnsets, formatUnknownOnsets, formatUnknownTrace, traceUnknown, UnknownTrace } from '../waveform/unknown';
+import { buildVcd, clock, indexFromVcd } from './waveforms';
+
+const RTL = `module tb;
+assign b = mem_out;
+assign sum = b + a;
+always @(posedge clk) if (rst_n) q <= sum;
+fifo #(.W(8)) u_fifo (.din(sum), .dout(rdata));
+endmodule`;
+
+/**
+ * Reset released at 20; a is x only before it. An X from the unrecorded
+ * mem_out reaches b at 40, sum at 45 and the register q at 55.
+ */
+const TEXT = buildVcd({ clk: 1, rst_n: 1, a: 1, b: 4, sum: 4, q: 4 }, [
+	...clock('clk', 10, 100),
+	[0, 'rst_n', '0'], [20, 'rst_n', '1'],
+	[0, 'a', 'x'], [10, 'a', '1'],
+	[0, 'b', '0000'], [40, 'b', 'xxxx'], [70, 'b', '0101'],
+	[0, 'sum', '0000'], [45, 'sum', 'xxxx'], [75, 'sum', '0110'],
+	[0, 'q', '0000'], [55, 'q', 'xxxx'], [85, 'q', '0110'],
+]);
+
+function traced(result: UnknownTrace | string): UnknownTrace {
+	assert.ok(typeof result !== 'string', result as string);
+	return result;
+}
+
+suite('X/Z tracer', () => {
+	const idx = indexFromVcd(TEXT);
+
+	test('extracts RTL fan-in from assignments, conditions and port connections', () => {
+		const drivers = extractSignalDrivers(RTL);
+		assert.deepStrictEqual([...drivers].map(([lhs, ids]) => [lhs, [...ids]]), [
+			['u_fifo.din', ['sum']],
+			['sum', ['u_fifo.din', 'b', 'a']],
+			['u_fifo.dout', ['rdata']],
+			['rdata', ['u_fifo.dout']],
+			['b', ['mem_out']],
+			['q', ['sum', 'rst_n']],
+		]);
+		const vhdl = extractSignalDrivers("process (clk) begin if rising_edge(clk) then if en = '1' then r <= d; end if; end if; end process;\ny <= r when sel = '1' else (others => '0');");
+		assert.deepStrictEqual([...vhdl].map(([lhs, ids]) => [lhs, [...ids]]), [['r', ['d', 'clk', 'en']], ['y', ['r', 'sel']]]);
+	});
+
+	test('lists when each signal goes unknown after reset', () => {
+		const result = findUnknownOnsets(idx);
+		assert.strictEqual(result.tStart, 20);
+		assert.deepStrictEqual(result.onsets.map(o => [o.time, o.signal, o.value]),
+			[[40, 'tb.b', 'xxxx'], [45, 'tb.sum', 'xxxx'], [55, 'tb.q', 'xxxx']]);
+		assert.deepStrictEqual(findUnknownOnsets(idx, { tStart: 0 }).onsets.map(o => o.signal), ['tb.a', 'tb.b', 'tb.sum', 'tb.q']);
+		assert.strictEqual(formatUnknownOnsets(findUnknownOnsets(idx, { tStart: 90 })), 'No signal has X or Z values at or after t=90.');
+	});
+
+	test('follows RTL drivers back to the earliest unknown source', () => {
+		const result = traced(traceUnknown(idx, 'tb.q', { drivers: extractSignalDrivers(RTL) }));
+		assert.deepStrictEqual(result.chain.map(s => [s.signal, s.time, s.via]),
+			[['tb.q', 55, 'start'], ['tb.sum', 45, 'rtl'], ['tb.b', 40, 'rtl']]);
+		assert.deepStrictEqual([result.unrecorded, result.truncated], [['tb.mem_out'], false]);
+		assert.deepStrictEqual(formatUnknownTrace(result).split('\n'), [
+			'X/Z propagation for tb.q (unknown values that ended before t=20 are ignored):',
+			'    t=55  tb.q = xxxx',
+			'  ← t=45  tb.sum = xxxx  (RTL driver of tb.q)',
+			'  ← t=40  tb.b = xxxx  (RTL driver of tb.sum)',
+			'Earliest source: tb.b, unknown from t=40; none of its drivers was unknown before it.',
+			'RTL drivers of tb.b not in the dump (may carry the X): tb.mem_out',
+		]);
+	});
+
+	test('falls back to the hierarchy without RTL', () => {
+		const result = traced(traceUnknown(idx, 'tb.q'));
+		assert.deepStrictEqual(result.chain.map(s => [s.signal, s.via]), [['tb.q', 'start'], ['tb.sum', 'hierarchy'], ['tb.b', 'hierarchy']]);
+		// The neighbour that went unknown last before q is followed; the others are listed
+		assert.deepStrictEqual(result.chain[1].others, [{ signal: 'tb.b', time: 40, value: 'xxxx' }]);
+	});
+
+	test('stops at the depth limit and explains signals it cannot trace', () => {
+		const capped = traced(traceUnknown(idx, 'tb.q', { drivers: extractSignalDrivers(RTL), maxDepth: 1 }));
+		assert.deepStrictEqual([capped.chain.length, capped.truncated, capped.unrecorded], [2, true, []]);
+		assert.match(formatUnknownTrace(capped), /\nStopped after 2 steps; call trace_unknown on tb.sum to continue\.$/);
+		assert.strictEqual(traceUnknown(idx, 'tb.a'), '"tb.a" has no X or Z values at or after t=20.');
+		assert.deepStrictEqual(traced(traceUnknown(idx, 'tb.a', { tStart: 0 })).chain.map(s => [s.signal, s.time]), [['tb.a', 0]]);
+		assert.strictEqual(traceUnknown(idx, 'tb.nope'), 'Unknown signal "tb.nope": there is no such signal in the waveform (this is not an X value). Use list_signals to see the available names.');
+	});
+});
@@ -0,0 +1,250 @@
+/*
+    Copyright (C) 2026 Andrew Capatina
+
+    This program is free software: you can redistribute it and/or modify
+    it under the terms of the GNU Affero General Public License as
+    published by the Free Software Foundation, either version 3 of the
+    License, or (at your option) any later version.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU Affero General Public License for more details.
+
+    You should have received a copy of the GNU Affero General Public License
+    along with this program.  If not, see <http://www.gnu.org/licenses/>.
+*/
+import * as assert from 'assert';
+import { parseVcd, parseVcdStream, VcdParseResult } from '../waveform/vcd';
+
+const HEADER = `$timescale 1ns $end
+$scope module tb $end
+$var wire 1 ! clk $end
+$var wire 4 " bus [3:0] $end
+$var real 64 # temp $end
+$var string 1 $ state $end
+$upscope $end
+$enddefinitions $end
+`;
+
+/** "time=raw" for every change of `signal`. */
+function changes(result: VcdParseResult, signal: string): string[] {
+	const trace = result.traces.get(signal);
+	assert.ok(trace, `no trace for ${signal}`);
+	return Array.from({ length: trace.length }, (_, i) => `${trace.timeAt(i)}=${trace.rawAt(i)}`);
+}
+
+suite('VCD parser', () => {
+	test('keeps $dumpvars values and sets logic signals to x at $dumpoff', () => {
+		const result = parseVcd(HEADER + `#0
+$dumpvars
+0!
+b0011 "
+r1.5 #
+$end
+#10
+1!
+#20
+$dumpoff
+x!
+bxxxx "
+$end
+#40
+$dumpon
+0!
+b0101 "
+$end
+`);
+		assert.deepStrictEqual(changes(result, 'tb.clk'), ['0=0', '10=1', '20=x', '40=0']);
+		assert.deepStrictEqual(changes(result, 'tb.bus'), ['0=0011', '20=xxxx', '40=0101']);
+		// Reals have no x: they keep their value through the dumpoff
+		assert.deepStrictEqual(changes(result, 'tb.temp'), ['0=1.5']);
+	});
+
+	test('records real and string values', () => {
+		const result = parseVcd(HEADER + `#0
+r0.25 #
+sIDLE $
+#5
+r-3e-2 #
+sBUSY $
+#9
+sIDLE $
+`);
+		assert.deepStrictEqual(changes(result, 'tb.temp'), ['0=0.25', '5=-3e-2']);
+		assert.deepStrictEqual(changes(result, 'tb.state'), ['0=IDLE', '5=BUSY', '9=IDLE']);
+		assert.strictEqual(result.descriptors.get('tb.temp')?.kind, 'real');
+		assert.strictEqual(result.descriptors.get('tb.state')?.kind, 'string');
+	});
+
+	test('reads four-state vectors, std_logic states and comments in the data', () => {
+		const result = parseVcd(HEADER + `#0
+BX1Z0 "
+U!
+$comment reset released $end
+#5
+b1 "
+H!
+#7
+-!
+`);
+		assert.deepStrictEqual(changes(result, 'tb.bus'), ['0=x1z0', '5=0001']);
+		assert.deepStrictEqual(changes(result, 'tb.clk'), ['0=u', '5=h', '7=-']);
+	});
+
+	test('keeps several changes of one signal at the same time', () => {
+		const result = parseVcd(HEADER + `#0
+0!
+#10
+1!
+0!
+1!
+#20
+0!
+`);
+		assert.deepStrictEqual(changes(result, 'tb.clk'), ['0=0', '10=1', '10=0', '10=1', '20=0']);
+	});
+
+	test('ingests only the requested signals', () => {
+		const result = parseVcd(HEADER + `#0
+0!
+b0001 "
+#10
+1!
+`, { signals: ['tb.bus[3:0]'] });
+		assert.deepStrictEqual(result.signals, ['tb.bus']);
+		assert.strictEqual(result.traces.has('tb.clk'), false);
+	});
+
+	test('carries the value in effect into a time window', () => {
+		const result = parseVcd(HEADER + `#0
+b0001 "
+#10
+b0010 "
+#20
+b0011 "
+#30
+b0100 "
+`, { tStart: 15, tEnd: 25 });
+		assert.deepStrictEqual(changes(result, 'tb.bus'), ['10=0010', '20=0011']);
+		// Parsing stops at the first timestamp past the window
+		assert.strictEqual(result.endTime, 20);
+	});
+
+	suite('64-bit timestamps', () => {
+		const BIG = `#0
+0!
+#10
+1!
+#18446744073709551600
+0!
+#18446744073709551615
+1!
+`;
+
+		test('stores times past 2^53 as offsets from the first timestamp', () => {
+			const result = parseVcd(HEADER + `#18446744073709551000
+0!
+#18446744073709551610
+1!
+`);
+			assert.strictEqual(result.timeOrigin, 18446744073709551000n);
+			assert.deepStrictEqual(changes(result, 'tb.clk'), ['0=0', '610=1']);
+			assert.strictEqual(result.endTime, 610);
+		});
+
+		test('asks for a time window when the span exceeds 2^53', () => {
+			assert.throws(() => parseVcd(HEADER + BIG), /more than 2\^53 time units.*tStart\/tEnd/);
+		});
+
+		test('stops at the window end without converting later timestamps', () => {
+			const result = parseVcd(HEADER + BIG, { tEnd: 100 });
+			assert.strictEqual(result.timeOrigin, 0n);
+			assert.deepStrictEqual(changes(result, 'tb.clk'), ['0=0', '10=1']);
+		});
+
+		test('takes the time origin from a window start past 2^53', () => {
+			// 2^64 - 2048, exact as a double
+			const result = parseVcd(HEADER + BIG, { tStart: 18446744073709549568 });
+			assert.strictEqual(result.timeOrigin, 18446744073709549568n);
+			const trace = result.traces.get('tb.clk')!;
+			// The value carried into the window, then the changes at their offsets
+			assert.deepStrictEqual(changes(result, 'tb.clk').slice(1), ['2032=0', '2047=1']);
+			assert.strictEqual(trace.rawAt(0), '1');
+		});
+	});
+
+	suite('extended VCD ports', () => {
+		const EVCD = `$timescale 1ns $end
+$scope module dut $end
+$var port 1 <0 clk $end
+$var port [7:0] <1 data $end
+$var port 1 <2 ack $end
+$upscope $end
+$enddefinitions $end
+`;
+
+		test('maps port states to values and directions', () => {
+			const result = parseVcd(EVCD + `#0
+$dumpports
+pD 6 0 <0
+pLLLLHHHH 0 6 <1
+pL 0 6 <2
+$end
+#5
+pU 6 0 <0
+#10
+pDDDDLLHX 6 6 <1
+pZ 0 0 <2
+`);
+			assert.deepStrictEqual(changes(result, 'dut.clk'), ['0=0', '5=1']);
+			assert.deepStrictEqual(changes(result, 'dut.data'), ['0=00001111', '10=0000001x']);
+			assert.deepStrictEqual(changes(result, 'dut.ack'), ['0=0', '10=z']);
+			const data = result.descriptors.get('dut.data');
+			assert.deepStrictEqual([data?.width, data?.range], [8, '[7:0]']);
+			assert.deepStrictEqual(['dut.clk', 'dut.data', 'dut.ack'].map(s => result.descriptors.get(s)?.direction),
+				['input', 'inout', 'inout']);
+		});
+
+		test('sets ports to x at $dumpportsoff', () => {
+			const result = parseVcd(EVCD + `#0
+pD 6 0 <0
+pHHHHHHHH 0 6 <1
+#20
+$dumpportsoff
+$end
+#30
+$dumpportson
+pU 6 0 <0
+$end
+`);
+			assert.deepStrictEqual(changes(result, 'dut.clk'), ['0=0', '20=x', '30=1']);
+			assert.deepStrictEqual(changes(result, 'dut.data'), ['0=11111111', '20=xxxxxxxx']);
+			assert.strictEqual(result.descriptors.get('dut.data')?.direction, 'output');
+		});
+	});
+
+	test('parses a stream split inside tokens like the whole text', async () => {
+		const text = HEADER + `#0
+b1010 "
+#12345
+b0101 "
+`;
+		const chunks = text.match(/[^]{1,7}/g)!;
+		async function* source() { yield* chunks; }
+		let progress = 0;
+		const streamed = await parseVcdStream(source(), { onProgress: read => { progress = read; } }, text.length);
+		assert.deepStrictEqual(changes(streamed, 'tb.bus'), changes(parseVcd(text), 'tb.bus'));
+		assert.strictEqual(progress, text.length);
+	});
+
+	test('rejects once the parse is cancelled', async () => {
+		const controller = new AbortController();
+		async function* source() {
+			yield HEADER + '#0\n0!\n';
+			controller.abort();
+			yield '#10\n1!\n';
+		}
+		await assert.rejects(parseVcdStream(source(), { signal: controller.signal }), /Waveform parsing cancelled/);
+	});
+});
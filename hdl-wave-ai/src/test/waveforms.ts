@@ -0,0 +1,69 @@
+/*
+    Copyright (C) 2026 Andrew Capatina
+
+    This program is free software: you can redistribute it and/or modify
+    it under the terms of the GNU Affero General Public License as
+    published by the Free Software Foundation, either version 3 of the
+    License, or (at your option) any later version.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU Affero General Public License for more details.
+
+    You should have received a copy of the GNU Affero General Public License
+    along with this program.  If not, see <http://www.gnu.org/licenses/>.
+*/
+// Small hand-built traces for the unit tests: a VCD writer for signals in
+// one `tb` scope, and helpers for clocks and serial lines.
+import { parseVcd, WaveformIndex } from '../waveform/vcd';
+
+/** A value change: time, signal name (in scope tb) and value ("0", "1010", "x"). */
+export type Change = [number, string, string];
+
+/**
+ * VCD text declaring `vars` (name → width) in scope tb, with `changes`
+ * written in time order (changes at one time keep their order).
+ */
+export function buildVcd(vars: Record<string, number>, changes: Change[], timescale = '1ns'): string {
+	const ids = new Map(Object.keys(vars).map((name, i) => [name, String.fromCharCode(33 + i)]));
+	const lines = [`$timescale ${timescale} $end`, '$scope module tb $end'];
+	for (const [name, width] of Object.entries(vars)) {
+		lines.push(`$var wire ${width} ${ids.get(name)} ${name}${width > 1 ? ` [${width - 1}:0]` : ''} $end`);
+	}
+	lines.push('$upscope $end', '$enddefinitions $end');
+	let time: number | undefined;
+	for (const [t, name, value] of [...changes].sort((a, b) => a[0] - b[0])) {
+		if (t !== time) { lines.push(`#${t}`); time = t; }
+		const id = ids.get(name);
+		if (id === undefined) { throw new Error(`buildVcd: undeclared signal ${name}`); }
+		lines.push(vars[name] > 1 ? `b${value} ${id}` : `${value}${id}`);
+	}
+	return lines.join('\n') + '\n';
+}
+
+/** Parse VCD text into an index, as the extension does for a loaded file. */
+export function indexFromVcd(text: string): WaveformIndex {
+	return new WaveformIndex({ ...parseVcd(text), startTime: 0 });
+}
+
+/** A clock low at `start`, rising half a period later, until `end`. */
+export function clock(name: string, period: number, end: number, start = 0): Change[] {
+	const out: Change[] = [];
+	for (let t = start, level = 0; t <= end; t += period / 2, level ^= 1) { out.push([t, name, String(level)]); }
+	return out;
+}
+
+/** UART 8N1 frames of `bytes` on an idle-high line, back to back from `start`. */
+export function uartFrames(name: string, bytes: number[], bitTime: number, start: number): Change[] {
+	const out: Change[] = [[0, name, '1']];
+	let t = start;
+	for (const byte of bytes) {
+		const bits = [0, ...Array.from({ length: 8 }, (_, k) => (byte >> k) & 1), 1];
+		for (const bit of bits) {
+			out.push([t, name, String(bit)]);
+			t += bitTime;
+		}
+	}
+	return out;
+}
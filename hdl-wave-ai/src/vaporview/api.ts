@@ -277,7 +277,7 @@ export async function collectTransitions(
 }
 
 /**
- * Build context by parsing the waveform file directly (FST or VCD).
+ * Build context by parsing the waveform file directly (FST, VCD, GHW or EVCD).
  * Returns null if parsing fails — caller falls back to VaporView API polling.
  */
 async function buildWaveformContextFromFile(
@@ -293,19 +293,10 @@ async function buildWaveformContextFromFile(
     const filePath = vscode.Uri.parse(uri).fsPath;
     log.appendLine(`[WaveformContext] Parsing file directly: ${filePath}`);
 
-    let parseResult: import('../waveform/vcd').VcdParseResult;
-    try {
-        parseResult = await parseWaveformFile(filePath);
-    } catch (err) {
-        log.appendLine(`[WaveformContext] File parse failed (${err}), falling back to VaporView API`);
-        return null;
-    }
-
-    if (abortSignal?.aborted) { return null; }
-
-    // Resolve time range using markers (same logic as polling path)
+    // Resolve time range using markers (same logic as polling path). Without
+    // markers the end is the end of the file, known only after parsing.
     let resolvedStart: number;
-    let resolvedEnd: number;
+    let resolvedEnd: number | undefined;
 
     if (mainMarker !== null && altMarker !== null) {
         resolvedStart = Math.min(mainMarker, altMarker);
@@ -318,28 +309,41 @@ async function buildWaveformContextFromFile(
         resolvedEnd   = altMarker;
     } else {
         resolvedStart = defaultStart;
-        resolvedEnd   = parseResult.endTime || defaultEnd;
     }
 
-    // Build a lookup of normalized signal names (strip [N:M] bit ranges)
-    // Tracker:  "tb.count[7:0]"  →  VCD parser:  "tb.count"
-    const normToTracked = new Map<string, string>();
-    for (const sig of trackedSignals) {
-        normToTracked.set(sig.replace(/\[[\d:]+\]$/, ''), sig);
+    // Only the tracked signals inside the range are ingested
+    let parseResult: import('../waveform/vcd').VcdParseResult;
+    try {
+        parseResult = await parseWaveformFile(filePath, {
+            signal: abortSignal,
+            signals: trackedSignals,
+            tStart: resolvedStart,
+            tEnd: resolvedEnd,
+        });
+    } catch (err) {
+        if (abortSignal?.aborted) { return null; }
+        log.appendLine(`[WaveformContext] File parse failed (${err}), falling back to VaporView API`);
+        return null;
     }
 
-    // Filter parsed transitions to selected signals and resolved time range
+    if (abortSignal?.aborted) { return null; }
+    resolvedEnd ??= parseResult.endTime || defaultEnd;
+
+    // Collect the tracked signals' changes in the resolved range, renamed
+    // back to the tracker's names. Tracker: "tb.count[7:0]" → parser: "tb.count"
     const filtered: SignalTransition[] = [];
-    for (const t of parseResult.transitions) {
-        if (t.time < resolvedStart || t.time > resolvedEnd) { continue; }
-        const trackedName = normToTracked.get(t.signal);
-        if (trackedName !== undefined) {
-            filtered.push({ time: t.time, signal: trackedName, value: t.value });
+    for (const sig of trackedSignals) {
+        const trace = parseResult.traces.get(sig.replace(/\[[\d:]+\]$/, ''));
+        if (!trace) { continue; }
+        const end = trace.upperBound(resolvedEnd);
+        for (let i = trace.lowerBound(resolvedStart); i < end; i++) {
+            filtered.push({ time: trace.timeAt(i), signal: sig, value: trace.valueAt(i) });
         }
     }
+    filtered.sort((a, b) => a.time - b.time);
 
     log.appendLine(
-        `[WaveformContext] File parse: ${parseResult.transitions.length} total → ` +
+        `[WaveformContext] File parse: ${parseResult.transitionCount} total → ` +
         `${filtered.length} filtered (t=${resolvedStart}–${resolvedEnd}, ` +
         `timescale=${parseResult.timescale})`
     );
@@ -380,10 +384,10 @@ export async function buildWaveformContext(
     const mainMarker = (state?.markerTime !== null && state?.markerTime !== undefined) ? state.markerTime : null;
     const altMarker  = (state?.altMarkerTime !== null && state?.altMarkerTime !== undefined) ? state.altMarkerTime : null;
 
-    // For FST / VCD files: parse directly — avoids the coarse step-size problem
+    // For FST / VCD / GHW files: parse directly — avoids the coarse step-size problem
     // when VaporView doesn't expose the simulation end time.
     const lowerUri = uri.toLowerCase();
-    if (lowerUri.endsWith('.fst') || lowerUri.endsWith('.vcd')) {
+    if (['.fst', '.vcd', '.ghw', '.evcd'].some(ext => lowerUri.endsWith(ext))) {
         const fileCtx = await buildWaveformContextFromFile(
             uri, signals, mainMarker, altMarker, startTime, endTime, tracker.log, signal
         );
@@ -0,0 +1,203 @@
+/*
+    Copyright (C) 2026 Andrew Capatina
+
+    This program is free software: you can redistribute it and/or modify
+    it under the terms of the GNU Affero General Public License as
+    published by the Free Software Foundation, either version 3 of the
+    License, or (at your option) any later version.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU Affero General Public License for more details.
+
+    You should have received a copy of the GNU Affero General Public License
+    along with this program.  If not, see <http://www.gnu.org/licenses/>.
+*/
+import { SignalTrace } from './trace';
+import type { ScopeDescriptor, SignalDescriptor, VcdParseResult } from './vcd';
+
+/** Options that limit and observe waveform ingestion. Honored by every reader. */
+export interface WaveformParseOptions {
+    /** Cancels parsing; the pending parse rejects once the signal fires. */
+    signal?: AbortSignal;
+    /** Called as input is consumed. `totalBytes` is 0 when the size is unknown. */
+    onProgress?: (bytesRead: number, totalBytes: number) => void;
+    /** Called with problems that do not fail the parse, such as a failed index cache write. */
+    onWarning?: (message: string) => void;
+    /** Only ingest these hierarchical paths. Trailing bit ranges (`[7:0]`) are ignored when matching. */
+    signals?: string[];
+    /**
+     * Only ingest value changes at or after this time. The value in effect at
+     * tStart is kept. Window bounds are absolute times as written in the dump,
+     * also for dumps whose times are stored relative to a time origin.
+     */
+    tStart?: number;
+    /** Stop ingesting after this time. */
+    tEnd?: number;
+    /**
+     * Use the on-disk index cache (default true). Only full parses — no
+     * signal subset or time window — are read from or written to it.
+     */
+    cache?: boolean;
+}
+
+/** Strip a trailing bit range: "tb.count[7:0]" → "tb.count". */
+export function stripBitRange(path: string): string {
+    return path.replace(/\s*\[[\d:]+\]$/, '');
+}
+
+/** Largest time that a trace stores exactly (2^53 - 1). */
+export const MAX_SAFE_TIME = BigInt(Number.MAX_SAFE_INTEGER);
+
+export function throwIfAborted(signal?: AbortSignal): void {
+    if (signal?.aborted) { throw new Error('Waveform parsing cancelled'); }
+}
+
+/**
+ * Accumulates value changes from a reader into per-signal SignalTraces,
+ * applying the signal subset and time window from WaveformParseOptions and
+ * dropping repeated values. Readers declare every variable first, then add
+ * changes by id code (VCD identifier, FST handle) so aliased paths share one
+ * trace. Value changes must arrive in time order per id (not across ids).
+ */
+export class WaveformBuilder {
+    private readonly wanted: Set<string> | null;
+    /** The window as given, in absolute time. */
+    private readonly window: { tStart: number; tEnd: number };
+    /** Absolute time of stored time 0 (see setTimeOrigin). */
+    private timeOrigin = 0n;
+    /** The window in stored time: offsets from the time origin. */
+    tStart: number;
+    tEnd: number;
+    private readonly descriptors = new Map<string, SignalDescriptor>();
+    private readonly scopes = new Map<string, ScopeDescriptor>();
+    private readonly traces = new Map<string, SignalTrace>();     // id code → trace
+    /** Latest change before tStart per id — becomes the value in effect at tStart. */
+    private readonly beforeWindow = new Map<string, { time: number; raw: string }>();
+
+    constructor(options: WaveformParseOptions = {}) {
+        this.wanted = options.signals ? new Set(options.signals.map(stripBitRange)) : null;
+        this.window = { tStart: options.tStart ?? -Infinity, tEnd: options.tEnd ?? Infinity };
+        this.tStart = this.window.tStart;
+        this.tEnd = this.window.tEnd;
+    }
+
+    /**
+     * Pick the time origin for a dump whose times start at `first` and return
+     * it. Traces store times as numbers, so a dump whose times pass 2^53 is
+     * stored relative to its first time, or to the window start when that is
+     * later. The window is rebased to match. Call before adding any change.
+     */
+    setTimeOrigin(first: bigint): bigint {
+        const start = Number.isFinite(this.window.tStart) ? BigInt(Math.ceil(this.window.tStart)) : null;
+        const lo = start !== null && start > first ? start : first;
+        this.timeOrigin = lo > MAX_SAFE_TIME ? lo : 0n;
+        if (this.timeOrigin !== 0n) {
+            // The origin is the window start, or the window starts before the dump
+            this.tStart = lo === start ? 0 : -Infinity;
+            if (Number.isFinite(this.window.tEnd)) { this.tEnd = Number(BigInt(Math.floor(this.window.tEnd)) - this.timeOrigin); }
+        }
+        return this.timeOrigin;
+    }
+
+    /**
+     * Stored time of the absolute time `time`. Times past the window end are
+     * Infinity. Times before the window only carry their value to tStart, so
+     * ones more than 2^53 units below the origin are rounded. Throws for a
+     * time in the window more than 2^53 units past the origin.
+     */
+    storedTime(time: bigint): number {
+        const offset = time - this.timeOrigin;
+        if (offset <= MAX_SAFE_TIME) { return Number(offset); }
+        if (Number.isFinite(this.window.tEnd) && time > BigInt(Math.floor(this.window.tEnd))) { return Infinity; }
+        throw new Error(`Time ${time} is more than 2^53 time units after ${this.timeOrigin}; parse a time window (tStart/tEnd) shorter than 2^53 units`);
+    }
+
+    /** Whether value changes for `path` should be ingested at all. */
+    wants(path: string): boolean {
+        return !this.wanted || this.wanted.has(path);
+    }
+
+    /** Whether `time` lies after the requested window, so a time-ordered reader can stop. */
+    isPastWindow(time: number): boolean {
+        return time > this.tEnd;
+    }
+
+    /** Record a scope of the hierarchy. A scope opened again keeps its first type. */
+    declareScope(path: string, type: string): void {
+        if (!this.scopes.has(path)) { this.scopes.set(path, { path, type }); }
+    }
+
+    /** Record a variable declaration. Aliases are resolved in finish(). */
+    declare(desc: Omit<SignalDescriptor, 'aliases'>): void {
+        this.descriptors.set(desc.path, { ...desc, aliases: [] });
+    }
+
+    /**
+     * Record a raw value (bit string without formatting, real or string text)
+     * for the variable(s) declared with `idCode`. `width` is the vector width
+     * used when formatting; pass 1 for scalars, reals and strings.
+     */
+    add(idCode: string, time: number, raw: string, width = 1): void {
+        if (time > this.tEnd) { return; }
+        let trace = this.traces.get(idCode);
+        if (!trace) {
+            trace = new SignalTrace(width);
+            this.traces.set(idCode, trace);
+        }
+        if (time < this.tStart) {
+            const prev = this.beforeWindow.get(idCode);
+            const value = trace.normalize(raw);
+            if (prev?.raw !== value) { this.beforeWindow.set(idCode, { time, raw: value }); }
+            return;
+        }
+        const carried = this.beforeWindow.get(idCode);
+        if (carried) {
+            this.beforeWindow.delete(idCode);
+            trace.push(carried.time, carried.raw);
+        }
+        trace.push(time, raw);
+    }
+
+    finish(endTime: number, timescale: string): VcdParseResult {
+        for (const [idCode, carried] of this.beforeWindow) {
+            this.traces.get(idCode)!.push(carried.time, carried.raw);
+        }
+        this.beforeWindow.clear();
+        for (const trace of this.traces.values()) { trace.compact(); }
+
+        // Paths sharing an id code are aliases of one another
+        const byId = new Map<string, string[]>();
+        for (const desc of this.descriptors.values()) {
+            const paths = byId.get(desc.idCode);
+            if (paths) { paths.push(desc.path); } else { byId.set(desc.idCode, [desc.path]); }
+        }
+
+        const signals: string[] = [];
+        const traces = new Map<string, SignalTrace>();
+        const counted = new Set<SignalTrace>();
+        let transitionCount = 0;
+        for (const desc of this.descriptors.values()) {
+            desc.aliases = byId.get(desc.idCode)!.filter(p => p !== desc.path);
+            const trace = this.traces.get(desc.idCode);
+            if (!trace || trace.length === 0 || !this.wants(desc.path)) { continue; }
+            signals.push(desc.path);
+            traces.set(desc.path, trace);
+            if (!counted.has(trace)) {
+                counted.add(trace);
+                transitionCount += trace.length;
+            }
+        }
+        return {
+            signals,
+            traces,
+            descriptors: this.descriptors,
+            scopes: [...this.scopes.values()],
+            transitionCount,
+            endTime: Math.min(endTime, this.tEnd),
+            timescale,
+            timeOrigin: this.timeOrigin,
+        };
+    }
+}
@@ -0,0 +1,720 @@
+/*
+    Copyright (C) 2026 Andrew Capatina
+
+    This program is free software: you can redistribute it and/or modify
+    it under the terms of the GNU Affero General Public License as
+    published by the Free Software Foundation, either version 3 of the
+    License, or (at your option) any later version.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU Affero General Public License for more details.
+
+    You should have received a copy of the GNU Affero General Public License
+    along with this program.  If not, see <http://www.gnu.org/licenses/>.
+*/
+// Bus protocol decoding: turn the handshakes of an on-chip bus into a
+// transaction list. Each protocol has a set of signal roles (awvalid, psel,
+// htrans, …); a role mapping is suggested from signal names and can be
+// overridden. Every decoder samples its roles just before each rising edge
+// of the bus clock, the way the bus's own flip-flops see them.
+import { formatHex, SignalTrace } from './trace';
+import type { WaveformIndex } from './vcd';
+
+export type BusProtocol = 'axi4' | 'axi4-lite' | 'axi-stream' | 'apb' | 'ahb' | 'wishbone';
+
+export const BUS_PROTOCOLS: BusProtocol[] = ['axi4', 'axi4-lite', 'axi-stream', 'apb', 'ahb', 'wishbone'];
+
+/** One decoded bus transaction (an AXI-Stream packet for axi-stream). */
+export interface BusTransaction {
+    kind: 'read' | 'write' | 'stream';
+    /** Clock edge at which the request was accepted (AXI, AHB) or first presented (APB, Wishbone) */
+    start: number;
+    /** Clock edge at which the transaction completed */
+    end: number;
+    /** Clock cycles from start to end */
+    latency: number;
+    addr?: string;
+    /** Data per beat, in hex */
+    data: string[];
+    /** Number of data beats (data is capped, beats is not) */
+    beats: number;
+    /** Byte strobes per beat: wstrb, pstrb, tkeep or Wishbone sel */
+    strobe?: string[];
+    id?: string;
+    /** Burst type: FIXED/INCR/WRAP (AXI), SINGLE/INCR/WRAP4/… (AHB) */
+    burst?: string;
+    /** Bytes per beat, when the bus signals it */
+    size?: number;
+    /** OKAY/EXOKAY/SLVERR/DECERR (AXI, APB), OKAY/ERROR (AHB), ACK/ERR/RTY (Wishbone) */
+    resp?: string;
+    /** AXI-Stream tid/tdest/tuser of the first beat */
+    sideband?: Record<string, string>;
+    /** Cycles the stream had data valid but not accepted during the packet */
+    stalls?: number;
+}
+
+export interface BusDecodeOptions {
+    /** Explicit role → signal mapping; overrides the suggested roles */
+    roles?: Record<string, string>;
+    /** Restrict role suggestion to signals under this path prefix, e.g. "tb.dut.s_axi_" */
+    prefix?: string;
+    tStart?: number;
+    tEnd?: number;
+    /** Max transactions returned (default 50); `total` counts all of them */
+    maxTransactions?: number;
+}
+
+export interface BusDecodeResult {
+    protocol: BusProtocol;
+    clock: string;
+    /** Role mapping used */
+    roles: Record<string, string>;
+    tStart: number;
+    tEnd: number;
+    transactions: BusTransaction[];
+    total: number;
+    warnings: string[];
+}
+
+/** Beats kept per transaction; longer bursts report `beats` but not every value. */
+const MAX_BEATS = 256;
+
+// ── Roles ────────────────────────────────────────────────────────────────────
+
+interface ProtocolSpec {
+    /** Role → accepted leaf-name spellings, most specific first */
+    roles: Record<string, string[]>;
+    /** Role sets of which at least one must be fully mapped */
+    required: string[][];
+}
+
+/** AXI channel roles, accepting awvalid, aw_valid and Chisel-style aw_bits_addr spellings. */
+function axiRoles(channels: Record<string, string[]>): Record<string, string[]> {
+    const roles: Record<string, string[]> = {};
+    for (const [ch, fields] of Object.entries(channels)) {
+        for (const f of fields) {
+            roles[ch + f] = f === 'valid' || f === 'ready'
+                ? [ch + f, `${ch}_${f}`]
+                : [ch + f, `${ch}_${f}`, `${ch}_bits_${f}`];
+        }
+    }
+    return roles;
+}
+
+const AXI_WRITE = ['awvalid', 'awready', 'awaddr', 'wvalid', 'wready', 'bvalid', 'bready'];
+const AXI_READ = ['arvalid', 'arready', 'araddr', 'rvalid', 'rready'];
+
+const PROTOCOLS: Record<BusProtocol, ProtocolSpec> = {
+    'axi4': {
+        roles: {
+            clk: ['aclk', 'clk', 'clock'],
+            ...axiRoles({
+                aw: ['valid', 'ready', 'addr', 'len', 'size', 'burst', 'id'],
+                w: ['valid', 'ready', 'data', 'strb', 'last'],
+                b: ['valid', 'ready', 'resp', 'id'],
+                ar: ['valid', 'ready', 'addr', 'len', 'size', 'burst', 'id'],
+                r: ['valid', 'ready', 'data', 'resp', 'last', 'id'],
+            }),
+        },
+        required: [AXI_WRITE, AXI_READ],
+    },
+    'axi4-lite': {
+        roles: {
+            clk: ['aclk', 'clk', 'clock'],
+            ...axiRoles({
+                aw: ['valid', 'ready', 'addr'],
+                w: ['valid', 'ready', 'data', 'strb'],
+                b: ['valid', 'ready', 'resp'],
+                ar: ['valid', 'ready', 'addr'],
+                r: ['valid', 'ready', 'data', 'resp'],
+            }),
+        },
+        required: [AXI_WRITE, AXI_READ],
+    },
+    'axi-stream': {
+        roles: {
+            clk: ['aclk', 'clk', 'clock'],
+            tvalid: ['tvalid', 't_valid'],
+            tready: ['tready', 't_ready'],
+            tdata: ['tdata', 't_data'],
+            tstrb: ['tstrb'],
+            tkeep: ['tkeep'],
+            tlast: ['tlast', 't_last'],
+            tid: ['tid'],
+            tdest: ['tdest'],
+            tuser: ['tuser'],
+        },
+        required: [['tvalid']],
+    },
+    'apb': {
+        roles: {
+            clk: ['pclk', 'clk', 'clock'],
+            psel: ['psel', 'pselx', 'psel\\d*'],
+            penable: ['penable'],
+            pwrite: ['pwrite'],
+            paddr: ['paddr'],
+            pwdata: ['pwdata'],
+            prdata: ['prdata'],
+            pready: ['pready'],
+            pslverr: ['pslverr'],
+            pstrb: ['pstrb'],
+        },
+        required: [['psel', 'penable', 'pwrite', 'paddr']],
+    },
+    'ahb': {
+        roles: {
+            clk: ['hclk', 'clk', 'clock'],
+            hsel: ['hsel', 'hselx', 'hsel\\d*'],
+            htrans: ['htrans'],
+            haddr: ['haddr'],
+            hwrite: ['hwrite'],
+            hsize: ['hsize'],
+            hburst: ['hburst'],
+            hwdata: ['hwdata'],
+            hrdata: ['hrdata'],
+            hready: ['hready', 'hreadyin', 'hready_in', 'hreadyout', 'hready_out'],
+            hresp: ['hresp'],
+        },
+        required: [['htrans', 'haddr', 'hwrite']],
+    },
+    'wishbone': {
+        roles: {
+            clk: ['clk', 'wb_clk', 'clock'],
+            cyc: ['cyc'],
+            stb: ['stb'],
+            we: ['we'],
+            adr: ['adr', 'addr'],
+            sel: ['sel'],
+            ack: ['ack'],
+            err: ['err'],
+            rty: ['rty'],
+            stall: ['stall'],
+            // dat_i/dat_o are assigned by perspective in suggestBusRoles
+            wdata: ['dat_w', 'wdata', 'dat_mosi'],
+            rdata: ['dat_r', 'rdata', 'dat_miso'],
+        },
+        required: [['cyc', 'stb', 'ack']],
+    },
+};
+
+/** Roles a protocol understands, for tool descriptions and error messages. */
+export function busRoleNames(protocol: BusProtocol): string[] {
+    return Object.keys(PROTOCOLS[protocol].roles);
+}
+
+function leafOf(path: string): string {
+    return path.slice(path.lastIndexOf('.') + 1);
+}
+
+/**
+ * Suggest a role mapping from signal names: each role's spellings are
+ * matched at the end of leaf names (after "_" or at the start, optionally
+ * followed by _i/_o), and signals are grouped by what precedes the match,
+ * e.g. "tb.dut.s_axi_". The group mapping the most roles wins. The clock
+ * may come from the same scope. Returns the mapping and the group prefix.
+ */
+export function suggestBusRoles(
+    idx: WaveformIndex,
+    protocol: BusProtocol,
+    prefix = '',
+): { roles: Record<string, string>; prefix: string } | null {
+    const spec = PROTOCOLS[protocol];
+    const matchers = Object.entries(spec.roles).map(([role, spellings]) => ({
+        role,
+        re: spellings.map(s => new RegExp(`(?:^|_)(${s})(?:_[io]|_in|_out)?$`, 'i')),
+    }));
+    const wbData = /(?:^|_)(dat)_([io])$/i;
+
+    // group prefix → role → [path, spelling rank]
+    const groups = new Map<string, Map<string, [string, number]>>();
+    // Clocks don't start a group: they are looked up by group prefix, then by scope
+    const groupClocks = new Map<string, [string, number]>();
+    const scopeClocks = new Map<string, [string, number]>();
+    const offer = (map: Map<string, [string, number]>, role: string, path: string, rank: number) => {
+        const cur = map.get(role);
+        if (!cur || rank < cur[1] || (rank === cur[1] && path.length < cur[0].length)) { map.set(role, [path, rank]); }
+    };
+    for (const path of idx.signals) {
+        if (!path.startsWith(prefix)) { continue; }
+        const leaf = leafOf(path);
+        const scope = path.slice(0, path.length - leaf.length);
+        for (const { role, re } of matchers) {
+            for (let rank = 0; rank < re.length; rank++) {
+                const m = re[rank].exec(leaf);
+                if (!m) { continue; }
+                const key = scope + leaf.slice(0, m.index + (m[0].startsWith('_') ? 1 : 0));
+                if (role === 'clk') {
+                    offer(groupClocks, key, path, rank);
+                    offer(scopeClocks, scope, path, rank);
+                } else {
+                    let group = groups.get(key);
+                    if (!group) { group = new Map(); groups.set(key, group); }
+                    offer(group, role, path, rank);
+                }
+                break;
+            }
+        }
+        if (protocol === 'wishbone') {
+            const m = wbData.exec(leaf);
+            if (m) {
+                const key = scope + leaf.slice(0, m.index + (m[0].startsWith('_') ? 1 : 0));
+                let group = groups.get(key);
+                if (!group) { group = new Map(); groups.set(key, group); }
+                offer(group, `dat_${m[2].toLowerCase()}`, path, 9);
+            }
+        }
+    }
+
+    let best: { key: string; group: Map<string, [string, number]> } | null = null;
+    for (const [key, group] of groups) {
+        if (!best || group.size > best.group.size) { best = { key, group }; }
+    }
+    if (!best) { return null; }
+
+    const roles: Record<string, string> = {};
+    for (const [role, [path]] of best.group) { roles[role] = path; }
+    if (protocol === 'wishbone') {
+        // Master side (cyc_o) drives dat_o; a slave (cyc_i) receives write data on dat_i
+        const slave = /_i$/i.test(leafOf(roles['cyc'] ?? ''));
+        const datO = roles['dat_o'], datI = roles['dat_i'];
+        delete roles['dat_o'];
+        delete roles['dat_i'];
+        if (!roles['wdata'] && (slave ? datI : datO)) { roles['wdata'] = slave ? datI : datO; }
+        if (!roles['rdata'] && (slave ? datO : datI)) { roles['rdata'] = slave ? datO : datI; }
+    }
+    const scope = best.key.slice(0, best.key.lastIndexOf('.') + 1);
+    const clock = groupClocks.get(best.key) ?? scopeClocks.get(scope);
+    if (clock) { roles['clk'] = clock[0]; }
+    return { roles, prefix: best.key };
+}
+
+// ── Sampling ─────────────────────────────────────────────────────────────────
+
+/** Walks one trace forward, returning the value just before each (non-decreasing) time. */
+class Sampler {
+    private i: number;
+
+    constructor(private readonly trace: SignalTrace, readonly width: number, start: number) {
+        this.i = trace.lowerBound(start) - 1;
+    }
+
+    before(time: number): string | null {
+        while (this.i + 1 < this.trace.length && this.trace.timeAt(this.i + 1) < time) { this.i++; }
+        return this.i >= 0 ? this.trace.rawAt(this.i) : null;
+    }
+}
+
+/** Role values at the current clock edge. */
+class BusSampler {
+    time = 0;
+    private readonly samplers = new Map<string, Sampler>();
+
+    constructor(idx: WaveformIndex, roles: Record<string, string>, start: number) {
+        for (const [role, path] of Object.entries(roles)) {
+            const trace = idx.getTrace(path);
+            if (!trace || role === 'clk') { continue; }
+            this.samplers.set(role, new Sampler(trace, idx.getDescriptor(path)?.width ?? trace.width, start));
+        }
+    }
+
+    has(role: string): boolean {
+        return this.samplers.has(role);
+    }
+
+    raw(role: string): string | null {
+        return this.samplers.get(role)?.before(this.time) ?? null;
+    }
+
+    /** 1 when the value is known and nonzero; `absent` when the role is not mapped. x/z count as 0. */
+    bit(role: string, absent: 0 | 1 = 0): 0 | 1 {
+        if (!this.has(role)) { return absent; }
+        const v = this.raw(role);
+        return v !== null && /^[01]+$/.test(v) && v.includes('1') ? 1 : 0;
+    }
+
+    /** Small numeric fields (len, size, burst, htrans); null when unmapped or unknown. */
+    num(role: string): number | null {
+        const v = this.raw(role);
+        return v !== null && /^[01]+$/.test(v) ? parseInt(v, 2) : null;
+    }
+
+    hex(role: string): string | undefined {
+        const s = this.samplers.get(role);
+        if (!s) { return undefined; }
+        const v = s.before(this.time);
+        return v === null ? 'x' : formatHex(v, s.width);
+    }
+}
+
+function addBeat(txn: BusTransaction, data: string | undefined, strobe?: string): void {
+    txn.beats++;
+    if (txn.data.length >= MAX_BEATS) { return; }
+    txn.data.push(data ?? '?');
+    if (strobe !== undefined) { (txn.strobe ??= []).push(strobe); }
+}
+
+type Emit = (txn: BusTransaction) => void;
+
+// ── Decoders ─────────────────────────────────────────────────────────────────
+
+const AXI_BURST = ['FIXED', 'INCR', 'WRAP', 'RESERVED'];
+const AXI_RESP = ['OKAY', 'EXOKAY', 'SLVERR', 'DECERR'];
+
+function decodeAxi(s: BusSampler, edges: number[], lite: boolean, emit: Emit, warnings: string[]): void {
+    interface Pending { txn: BusTransaction; edge: number; id: string; expected: number }
+    interface Burst { data: string[]; strobe: string[] }
+    const awaitingData: Pending[] = [];    // AW accepted, write data not yet attached
+    const earlyBursts: Burst[] = [];       // write data completed before its AW
+    const awaitingResp: Pending[] = [];    // AW accepted, waiting for B
+    const reads: Pending[] = [];
+    let wBurst: Burst = { data: [], strobe: [] };
+
+    const request = (kind: 'read' | 'write', ch: 'aw' | 'ar', i: number): Pending => {
+        const len = lite ? 0 : s.num(ch + 'len') ?? 0;
+        const burst = lite ? null : s.num(ch + 'burst');
+        const size = lite ? null : s.num(ch + 'size');
+        const id = lite ? undefined : s.hex(ch + 'id');
+        const txn: BusTransaction = {
+            kind, start: edges[i], end: edges[i], latency: 0,
+            addr: s.hex(ch + 'addr'), data: [], beats: 0,
+            ...(id !== undefined ? { id } : {}),
+            ...(burst !== null ? { burst: AXI_BURST[burst] } : {}),
+            ...(size !== null ? { size: 1 << size } : {}),
+        };
+        return { txn, edge: i, id: id ?? '', expected: len + 1 };
+    };
+    const attach = (p: Pending, b: Burst) => {
+        b.data.forEach((d, k) => addBeat(p.txn, d, b.strobe[k]));
+    };
+    const takeById = (list: Pending[], id: string | undefined): Pending | undefined => {
+        const k = id === undefined ? 0 : list.findIndex(p => p.id === id);
+        return k >= 0 && k < list.length ? list.splice(k, 1)[0] : undefined;
+    };
+
+    for (let i = 0; i < edges.length; i++) {
+        s.time = edges[i];
+        // Write address, then data, then response
+        if (s.bit('awvalid') && s.bit('awready')) {
+            const p = request('write', 'aw', i);
+            awaitingResp.push(p);
+            const early = earlyBursts.shift();
+            if (early) { attach(p, early); } else { awaitingData.push(p); }
+        }
+        if (s.bit('wvalid') && s.bit('wready')) {
+            wBurst.data.push(s.hex('wdata') ?? '?');
+            const strb = s.hex('wstrb');
+            if (strb !== undefined) { wBurst.strobe.push(strb); }
+            const expected = awaitingData[0]?.expected ?? 1;
+            const last = s.has('wlast') ? s.bit('wlast') === 1 : wBurst.data.length >= expected;
+            if (last) {
+                const p = awaitingData.shift();
+                if (p) { attach(p, wBurst); } else { earlyBursts.push(wBurst); }
+                wBurst = { data: [], strobe: [] };
+            }
+        }
+        if (s.bit('bvalid') && s.bit('bready')) {
+            const p = takeById(awaitingResp, s.has('bid') && s.has('awid') ? s.hex('bid') : undefined);
+            if (p) {
+                const k = awaitingData.indexOf(p);
+                if (k >= 0) { awaitingData.splice(k, 1); }
+                const resp = s.num('bresp');
+                p.txn.resp = resp !== null ? AXI_RESP[resp] : s.has('bresp') ? 'x' : undefined;
+                p.txn.end = edges[i];
+                p.txn.latency = i - p.edge;
+                emit(p.txn);
+            } else {
+                warnings.push(`Write response at t=${edges[i]} without a matching write address.`);
+            }
+        }
+
+        if (s.bit('arvalid') && s.bit('arready')) {
+            reads.push(request('read', 'ar', i));
+        }
+        if (s.bit('rvalid') && s.bit('rready')) {
+            const rid = s.has('rid') && s.has('arid') ? s.hex('rid') : undefined;
+            const p = rid === undefined ? reads[0] : reads.find(r => r.id === rid);
+            if (!p) {
+                warnings.push(`Read data at t=${edges[i]} without a matching read address.`);
+                continue;
+            }
+            addBeat(p.txn, s.hex('rdata'));
+            const resp = s.num('rresp');
+            if (resp !== null && (p.txn.resp === undefined || p.txn.resp === 'OKAY' || p.txn.resp === 'EXOKAY')) {
+                p.txn.resp = AXI_RESP[resp];
+            }
+            const last = s.has('rlast') ? s.bit('rlast') === 1 : p.txn.beats >= p.expected;
+            if (last) {
+                reads.splice(reads.indexOf(p), 1);
+                p.txn.end = edges[i];
+                p.txn.latency = i - p.edge;
+                emit(p.txn);
+            }
+        }
+    }
+    if (awaitingResp.length > 0) { warnings.push(`${awaitingResp.length} write(s) still waiting for a response at the end of the window.`); }
+    if (reads.length > 0) { warnings.push(`${reads.length} read(s) still waiting for data at the end of the window.`); }
+}
+
+function decodeAxiStream(s: BusSampler, edges: number[], emit: Emit, warnings: string[]): void {
+    let packet: { txn: BusTransaction; edge: number } | null = null;
+    let stalls = 0;
+    for (let i = 0; i < edges.length; i++) {
+        s.time = edges[i];
+        if (!s.bit('tvalid')) { continue; }
+        if (!s.bit('tready', 1)) {
+            stalls++;
+            continue;
+        }
+        if (!packet) {
+            const sideband: Record<string, string> = {};
+            for (const role of ['tid', 'tdest', 'tuser']) {
+                const v = s.hex(role);
+                if (v !== undefined) { sideband[role] = v; }
+            }
+            packet = {
+                txn: {
+                    kind: 'stream', start: edges[i], end: edges[i], latency: 0, data: [], beats: 0,
+                    ...(Object.keys(sideband).length > 0 ? { sideband } : {}),
+                },
+                edge: i,
+            };
+        }
+        addBeat(packet.txn, s.hex('tdata'), s.hex('tkeep') ?? s.hex('tstrb'));
+        // Without tlast every transfer is its own packet
+        if (!s.has('tlast') || s.bit('tlast')) {
+            packet.txn.end = edges[i];
+            packet.txn.latency = i - packet.edge;
+            if (stalls > 0) { packet.txn.stalls = stalls; }
+            emit(packet.txn);
+            packet = null;
+            stalls = 0;
+        }
+    }
+    if (packet) { warnings.push(`Packet started at t=${packet.txn.start} has no tlast in the window (${packet.txn.beats} beats).`); }
+}
+
+function decodeApb(s: BusSampler, edges: number[], emit: Emit, warnings: string[]): void {
+    let setup: number | null = null;
+    for (let i = 0; i < edges.length; i++) {
+        s.time = edges[i];
+        if (!s.bit('psel')) {
+            setup = null;
+            continue;
+        }
+        if (!s.bit('penable')) {
+            setup = i;
+            continue;
+        }
+        setup ??= i;   // window started mid-transfer
+        if (!s.bit('pready', 1)) { continue; }
+        const write = s.bit('pwrite') === 1;
+        const txn: BusTransaction = {
+            kind: write ? 'write' : 'read',
+            start: edges[setup], end: edges[i], latency: i - setup,
+            addr: s.hex('paddr'), data: [], beats: 0,
+        };
+        addBeat(txn, write ? s.hex('pwdata') : s.hex('prdata'), write ? s.hex('pstrb') : undefined);
+        if (s.has('pslverr')) { txn.resp = s.bit('pslverr') ? 'SLVERR' : 'OKAY'; }
+        emit(txn);
+        setup = null;
+    }
+    if (setup !== null) { warnings.push(`Transfer set up at t=${edges[setup]} had not completed at the end of the window.`); }
+}
+
+const AHB_BURST = ['SINGLE', 'INCR', 'WRAP4', 'INCR4', 'WRAP8', 'INCR8', 'WRAP16', 'INCR16'];
+const HTRANS_IDLE = 0, HTRANS_NONSEQ = 2, HTRANS_SEQ = 3;
+
+function decodeAhb(s: BusSampler, edges: number[], emit: Emit, warnings: string[]): void {
+    // The address phase accepted at one ready edge completes its data phase at the next
+    let current: { txn: BusTransaction; edge: number } | null = null;
+    let dataPhase: { write: boolean } | null = null;
+    const finish = () => {
+        if (current) { emit(current.txn); }
+        current = null;
+    };
+    for (let i = 0; i < edges.length; i++) {
+        s.time = edges[i];
+        if (!s.bit('hready', 1)) { continue; }
+        if (dataPhase && current) {
+            addBeat(current.txn, dataPhase.write ? s.hex('hwdata') : s.hex('hrdata'));
+            const resp = s.num('hresp');
+            if (resp !== null && current.txn.resp !== 'ERROR') { current.txn.resp = resp ? 'ERROR' : 'OKAY'; }
+            current.txn.end = edges[i];
+            current.txn.latency = i - current.edge;
+        }
+        dataPhase = null;
+
+        const trans = s.bit('hsel', 1) ? s.num('htrans') : HTRANS_IDLE;
+        if (trans === HTRANS_NONSEQ) {
+            finish();
+            const write = s.bit('hwrite') === 1;
+            const burst = s.num('hburst');
+            const size = s.num('hsize');
+            current = {
+                txn: {
+                    kind: write ? 'write' : 'read', start: edges[i], end: edges[i], latency: 0,
+                    addr: s.hex('haddr'), data: [], beats: 0,
+                    ...(burst !== null ? { burst: AHB_BURST[burst] } : {}),
+                    ...(size !== null ? { size: 1 << size } : {}),
+                },
+                edge: i,
+            };
+            dataPhase = { write };
+        } else if (trans === HTRANS_SEQ && current) {
+            dataPhase = { write: current.txn.kind === 'write' };
+        } else if (trans === HTRANS_IDLE) {
+            finish();
+        }
+    }
+    if (dataPhase) { warnings.push(`A data phase was still pending at the end of the window.`); }
+    finish();
+}
+
+function decodeWishbone(s: BusSampler, edges: number[], emit: Emit, warnings: string[]): void {
+    const response = (): string | null =>
+        s.bit('ack') ? 'ACK' : s.bit('err') ? 'ERR' : s.bit('rty') ? 'RTY' : null;
+    const request = (i: number): BusTransaction => {
+        const write = s.bit('we') === 1;
+        const txn: BusTransaction = {
+            kind: write ? 'write' : 'read', start: edges[i], end: edges[i], latency: 0,
+            addr: s.hex('adr'), data: [], beats: 0,
+        };
+        if (write) { addBeat(txn, s.hex('wdata'), s.hex('sel')); }
+        return txn;
+    };
+    const complete = (txn: BusTransaction, startEdge: number, i: number, resp: string) => {
+        if (txn.kind === 'read') { addBeat(txn, s.hex('rdata'), s.hex('sel')); }
+        txn.resp = resp;
+        txn.start = edges[startEdge];
+        txn.end = edges[i];
+        txn.latency = i - startEdge;
+        emit(txn);
+    };
+
+    if (s.has('stall')) {
+        // Pipelined: requests are accepted while not stalled and acknowledged in order
+        const queue: { txn: BusTransaction; edge: number }[] = [];
+        for (let i = 0; i < edges.length; i++) {
+            s.time = edges[i];
+            if (!s.bit('cyc')) {
+                if (queue.length > 0) { warnings.push(`${queue.length} request(s) abandoned when cyc dropped at t=${edges[i]}.`); }
+                queue.length = 0;
+                continue;
+            }
+            const resp = response();
+            if (resp && queue.length > 0) {
+                const { txn, edge } = queue.shift()!;
+                complete(txn, edge, i, resp);
+            }
+            if (s.bit('stb') && !s.bit('stall')) { queue.push({ txn: request(i), edge: i }); }
+        }
+        if (queue.length > 0) { warnings.push(`${queue.length} request(s) unacknowledged at the end of the window.`); }
+        return;
+    }
+
+    // Classic: a request is presented with stb until acknowledged
+    let start: number | null = null;
+    for (let i = 0; i < edges.length; i++) {
+        s.time = edges[i];
+        if (!s.bit('cyc') || !s.bit('stb')) {
+            start = null;
+            continue;
+        }
+        start ??= i;
+        const resp = response();
+        if (resp) {
+            complete(request(i), start, i, resp);
+            start = null;
+        }
+    }
+    if (start !== null) { warnings.push(`Request presented at t=${edges[start]} unacknowledged at the end of the window.`); }
+}
+
+// ── Entry points ─────────────────────────────────────────────────────────────
+
+/**
+ * Decode `protocol` transactions over [tStart, tEnd]. Returns an error
+ * message when the roles cannot be mapped or there is no clock.
+ */
+export function decodeBus(idx: WaveformIndex, protocol: BusProtocol, options: BusDecodeOptions = {}): BusDecodeResult | string {
+    const spec = PROTOCOLS[protocol];
+    if (!spec) { return `Unknown protocol "${protocol}". Supported: ${BUS_PROTOCOLS.join(', ')}.`; }
+    const suggested = suggestBusRoles(idx, protocol, options.prefix ?? '');
+    const roles: Record<string, string> = { ...suggested?.roles };
+    for (const [role, path] of Object.entries(options.roles ?? {})) {
+        if (!(role in spec.roles)) { return `Unknown ${protocol} role "${role}". Roles: ${busRoleNames(protocol).join(', ')}.`; }
+        const signal = idx.resolveSignal(path);
+        if (signal === null) { return `Role ${role}: ${idx.signalNotFound(path)}`; }
+        roles[role] = signal;
+    }
+
+    if (!spec.required.some(set => set.every(r => roles[r]))) {
+        const missing = spec.required
+            .map(set => set.filter(r => !roles[r]))
+            .sort((a, b) => a.length - b.length)[0];
+        const found = Object.entries(roles).map(([r, p]) => `${r}=${p}`).join(', ') || 'none';
+        return `Could not map the ${protocol} roles ${missing.join(', ')}. Mapped: ${found}. ` +
+            `Pass roles explicitly (e.g. {"${missing[0]}": "<signal>"}) or a prefix selecting the bus instance.`;
+    }
+
+    // Bus clock: mapped, else the waveform's cycle clock
+    roles['clk'] ??= idx.getCycleTable()?.clock ?? '';
+    if (!roles['clk']) { return `No clock found for the ${protocol} bus. Pass roles: {"clk": "<clock signal>"}.`; }
+    if (!idx.getTrace(roles['clk'])) { return `Unknown clock signal "${roles['clk']}".`; }
+
+    const tStart = options.tStart ?? 0;
+    const tEnd = options.tEnd ?? idx.endTime;
+    const edges = idx.getEdgeTimes(roles['clk'], 'rising', tStart, tEnd);
+    const sampler = new BusSampler(idx, roles, tStart);
+    const transactions: BusTransaction[] = [];
+    const warnings: string[] = [];
+    const emit: Emit = txn => { transactions.push(txn); };
+    switch (protocol) {
+        case 'axi4': decodeAxi(sampler, edges, false, emit, warnings); break;
+        case 'axi4-lite': decodeAxi(sampler, edges, true, emit, warnings); break;
+        case 'axi-stream': decodeAxiStream(sampler, edges, emit, warnings); break;
+        case 'apb': decodeApb(sampler, edges, emit, warnings); break;
+        case 'ahb': decodeAhb(sampler, edges, emit, warnings); break;
+        case 'wishbone': decodeWishbone(sampler, edges, emit, warnings); break;
+    }
+
+    // Responses can complete out of order; list by start
+    transactions.sort((a, b) => a.start - b.start);
+    return {
+        protocol,
+        clock: roles['clk'],
+        roles,
+        tStart,
+        tEnd,
+        transactions: transactions.slice(0, options.maxTransactions ?? 50),
+        total: transactions.length,
+        warnings,
+    };
+}
+
+/** Render a decode result as one line per transaction. */
+export function formatBusDecode(result: BusDecodeResult): string {
+    const roles = Object.entries(result.roles).map(([r, p]) => `${r}=${p}`).join(', ');
+    const lines = [
+        `${result.protocol} on ${result.clock} rising edges, [${result.tStart}, ${result.tEnd}]: ${result.total} transaction(s)` +
+        (result.total > result.transactions.length ? `, first ${result.transactions.length} shown` : ''),
+        `Roles: ${roles}`,
+    ];
+    result.transactions.forEach((t, n) => {
+        const parts = [`#${n} ${t.kind.toUpperCase()} t=${t.start}..${t.end} (${t.latency} cycle${t.latency === 1 ? '' : 's'})`];
+        if (t.addr !== undefined) { parts.push(`addr=${t.addr}`); }
+        if (t.id !== undefined) { parts.push(`id=${t.id}`); }
+        if (t.burst !== undefined) { parts.push(t.burst); }
+        if (t.size !== undefined) { parts.push(`size=${t.size}B`); }
+        const shown = t.data.slice(0, 8).map((d, k) => t.strobe?.[k] !== undefined ? `${d}/${t.strobe[k]}` : d);
+        parts.push(t.beats === 1 ? `data=${shown[0]}` : `beats=${t.beats} data=[${shown.join(', ')}${t.beats > shown.length ? ', …' : ''}]`);
+        if (t.resp !== undefined) { parts.push(`resp=${t.resp}`); }
+        if (t.sideband) { parts.push(Object.entries(t.sideband).map(([k, v]) => `${k}=${v}`).join(' ')); }
+        if (t.stalls) { parts.push(`stalls=${t.stalls}`); }
+        lines.push('  ' + parts.join(' '));
+    });
+    for (const w of result.warnings.slice(0, 10)) { lines.push(`Warning: ${w}`); }
+    return lines.join('\n');
+}
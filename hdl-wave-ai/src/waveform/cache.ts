@@ -0,0 +1,239 @@
+/*
+    Copyright (C) 2026 Andrew Capatina
+
+    This program is free software: you can redistribute it and/or modify
+    it under the terms of the GNU Affero General Public License as
+    published by the Free Software Foundation, either version 3 of the
+    License, or (at your option) any later version.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU Affero General Public License for more details.
+
+    You should have received a copy of the GNU Affero General Public License
+    along with this program.  If not, see <http://www.gnu.org/licenses/>.
+*/
+// On-disk cache of parsed waveforms, shared by the extension and the MCP
+// server. One file per waveform path; an entry is only used while the
+// waveform's mtime and size still match what was parsed.
+//
+// File layout:
+//   "HWIX" | u32 version | u32 header length | JSON header | pad to 8
+//   then per distinct trace: Float64 times | Uint32 codes | pad to 8
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SignalTrace } from './trace';
+import type { ScopeDescriptor, SignalDescriptor, VcdParseResult } from './vcd';
+
+const MAGIC = 'HWIX';
+// Bump whenever the parse result or the layout above changes
+const CACHE_VERSION = 5;
+const DEFAULT_MAX_CACHE_MB = 2048;
+
+interface CacheHeader {
+    source: string;
+    mtimeMs: number;
+    size: number;
+    endTime: number;
+    timescale: string;
+    /** Decimal string — JSON has no bigint */
+    timeOrigin: string;
+    /** Distinct traces, in data order; aliased signals point at the same entry. */
+    traces: { width: number; length: number; dict: readonly string[] }[];
+    signals: { path: string; trace: number }[];
+    descriptors: SignalDescriptor[];
+    scopes: ScopeDescriptor[];
+}
+
+/** Identity of a waveform file at the time it was parsed. */
+export interface SourceStamp {
+    mtimeMs: number;
+    size: number;
+}
+
+/**
+ * Cache directory: $HDL_WAVE_CACHE_DIR, else $XDG_CACHE_HOME/hdl-wave-ai,
+ * else ~/.cache/hdl-wave-ai. Both the extension and hdl-wave-mcp use this.
+ */
+export function getCacheDir(): string {
+    if (process.env.HDL_WAVE_CACHE_DIR) { return process.env.HDL_WAVE_CACHE_DIR; }
+    const base = process.env.XDG_CACHE_HOME || path.join(os.homedir(), '.cache');
+    return path.join(base, 'hdl-wave-ai');
+}
+
+/** Whether the cache is turned off through HDL_WAVE_CACHE=0 (or "off"/"false"). */
+export function isCacheDisabledByEnv(): boolean {
+    const v = (process.env.HDL_WAVE_CACHE ?? '').toLowerCase();
+    return v === '0' || v === 'off' || v === 'false';
+}
+
+function cacheFileFor(sourcePath: string): string {
+    const hash = crypto.createHash('sha1').update(path.resolve(sourcePath)).digest('hex');
+    return path.join(getCacheDir(), `${hash}.hwidx`);
+}
+
+function align8(n: number): number {
+    return (n + 7) & ~7;
+}
+
+/** Copy when the offset is not aligned for a typed-array view. */
+function viewF64(buf: Buffer, off: number, length: number): Float64Array {
+    const abs = buf.byteOffset + off;
+    if (abs % 8 === 0) { return new Float64Array(buf.buffer, abs, length); }
+    return new Float64Array(buf.buffer.slice(abs, abs + length * 8));
+}
+
+function viewU32(buf: Buffer, off: number, length: number): Uint32Array {
+    const abs = buf.byteOffset + off;
+    if (abs % 4 === 0) { return new Uint32Array(buf.buffer, abs, length); }
+    return new Uint32Array(buf.buffer.slice(abs, abs + length * 4));
+}
+
+/**
+ * Load the cached parse of `sourcePath` if it was written for the file's
+ * current mtime and size. Returns null on a miss or any unreadable entry.
+ */
+export async function readIndexCache(sourcePath: string, stamp: SourceStamp): Promise<VcdParseResult | null> {
+    const file = cacheFileFor(sourcePath);
+    let buf: Buffer;
+    try {
+        buf = await fs.promises.readFile(file);
+    } catch {
+        return null;
+    }
+
+    try {
+        if (buf.toString('latin1', 0, 4) !== MAGIC || buf.readUInt32LE(4) !== CACHE_VERSION) { return null; }
+        const headerLen = buf.readUInt32LE(8);
+        const header = JSON.parse(buf.toString('utf8', 12, 12 + headerLen)) as CacheHeader;
+        if (header.source !== path.resolve(sourcePath)
+            || header.mtimeMs !== stamp.mtimeMs || header.size !== stamp.size) {
+            return null;
+        }
+
+        const distinct: SignalTrace[] = [];
+        let transitionCount = 0;
+        let off = align8(12 + headerLen);
+        for (const t of header.traces) {
+            const times = viewF64(buf, off, t.length);
+            off += t.length * 8;
+            const codes = viewU32(buf, off, t.length);
+            off = align8(off + t.length * 4);
+            if (off > buf.length) { return null; } // truncated entry
+            distinct.push(SignalTrace.fromParts(t.width, times, codes, t.dict));
+            transitionCount += t.length;
+        }
+        const traces = new Map<string, SignalTrace>();
+        for (const s of header.signals) { traces.set(s.path, distinct[s.trace]); }
+
+        // Mark as recently used so pruning removes colder entries first
+        const now = new Date();
+        fs.promises.utimes(file, now, now).catch(() => { /* read-only cache dir */ });
+
+        return {
+            signals: header.signals.map(s => s.path),
+            traces,
+            descriptors: new Map(header.descriptors.map(d => [d.path, d])),
+            scopes: header.scopes,
+            transitionCount,
+            endTime: header.endTime,
+            timescale: header.timescale,
+            timeOrigin: BigInt(header.timeOrigin),
+        };
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Write the parse of `sourcePath` to the cache. The entry is written to a
+ * temporary file and renamed into place so readers never see a partial one.
+ * The entry is serialized before the first await, so the write may run in
+ * the background while a WaveformIndex built on `result` adds signals to it.
+ */
+export async function writeIndexCache(sourcePath: string, stamp: SourceStamp, result: VcdParseResult): Promise<void> {
+    const header: CacheHeader = {
+        source: path.resolve(sourcePath),
+        mtimeMs: stamp.mtimeMs,
+        size: stamp.size,
+        endTime: result.endTime,
+        timescale: result.timescale,
+        timeOrigin: result.timeOrigin.toString(),
+        traces: [],
+        signals: [],
+        descriptors: Array.from(result.descriptors.values()),
+        scopes: result.scopes,
+    };
+    const columns: { times: Float64Array; codes: Uint32Array }[] = [];
+    const traceIndex = new Map<SignalTrace, number>();
+    for (const signal of result.signals) {
+        const trace = result.traces.get(signal);
+        if (!trace) { continue; }
+        let index = traceIndex.get(trace);
+        if (index === undefined) {
+            const { times, codes, dict } = trace.parts();
+            index = header.traces.length;
+            traceIndex.set(trace, index);
+            header.traces.push({ width: trace.width, length: times.length, dict });
+            columns.push({ times, codes });
+        }
+        header.signals.push({ path: signal, trace: index });
+    }
+
+    const headerBuf = Buffer.from(JSON.stringify(header), 'utf8');
+    const prefix = Buffer.alloc(align8(12 + headerBuf.length));
+    prefix.write(MAGIC, 0, 'latin1');
+    prefix.writeUInt32LE(CACHE_VERSION, 4);
+    prefix.writeUInt32LE(headerBuf.length, 8);
+    headerBuf.copy(prefix, 12);
+
+    const dir = getCacheDir();
+    await fs.promises.mkdir(dir, { recursive: true });
+    const target = cacheFileFor(sourcePath);
+    const tmp = `${target}.${crypto.randomUUID()}.tmp`;
+    const fh = await fs.promises.open(tmp, 'w');
+    try {
+        await fh.writeFile(prefix);
+        const pad = Buffer.alloc(8);
+        for (const { times, codes } of columns) {
+            await fh.writeFile(Buffer.from(times.buffer, times.byteOffset, times.byteLength));
+            await fh.writeFile(Buffer.from(codes.buffer, codes.byteOffset, codes.byteLength));
+            if (codes.byteLength % 8) { await fh.writeFile(pad.subarray(0, 8 - (codes.byteLength % 8))); }
+        }
+        await fh.close();
+        await fs.promises.rename(tmp, target);
+    } catch (err) {
+        await fh.close().catch(() => { /* already closed */ });
+        await fs.promises.unlink(tmp).catch(() => { /* ignore */ });
+        throw err;
+    }
+
+    await pruneCache(dir, target);
+}
+
+/**
+ * Keep the cache under $HDL_WAVE_CACHE_MAX_MB (default 2 GB) by deleting the
+ * least recently used entries. `keep` is never removed.
+ */
+async function pruneCache(dir: string, keep: string): Promise<void> {
+    const limitMb = Number(process.env.HDL_WAVE_CACHE_MAX_MB) || DEFAULT_MAX_CACHE_MB;
+    const entries: { file: string; size: number; mtimeMs: number }[] = [];
+    for (const name of await fs.promises.readdir(dir)) {
+        if (!name.endsWith('.hwidx')) { continue; }
+        const file = path.join(dir, name);
+        const st = await fs.promises.stat(file).catch(() => null);
+        if (st) { entries.push({ file, size: st.size, mtimeMs: st.mtimeMs }); }
+    }
+
+    let total = entries.reduce((sum, e) => sum + e.size, 0);
+    entries.sort((a, b) => a.mtimeMs - b.mtimeMs);
+    for (const e of entries) {
+        if (total <= limitMb * 1024 * 1024) { break; }
+        if (e.file === keep) { continue; }
+        await fs.promises.unlink(e.file).catch(() => { /* in use elsewhere */ });
+        total -= e.size;
+    }
+}
@@ -0,0 +1,475 @@
+/*
+    Copyright (C) 2026 Andrew Capatina
+
+    This program is free software: you can redistribute it and/or modify
+    it under the terms of the GNU Affero General Public License as
+    published by the Free Software Foundation, either version 3 of the
+    License, or (at your option) any later version.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU Affero General Public License for more details.
+
+    You should have received a copy of the GNU Affero General Public License
+    along with this program.  If not, see <http://www.gnu.org/licenses/>.
+*/
+// Clock-domain-crossing hazards: signals that change in one clock domain
+// (see clocks.ts) and are sampled by flops of another. Crossings come from
+// the RTL registers (extractRegisters) when the source is available, else
+// from the waveform: a destination that copies a signal of another domain.
+// Each crossing is checked for a flop synchronizer chain, for destination
+// edges within a setup window of a source change, and for multi-bit
+// sources that flip several bits at once or update bits at different times.
+import type { RegisterMap } from '../hdl/parser';
+import type { ClockInfo } from './clocks';
+import { ClockEdge, upperBound } from './cycles';
+import type { SignalTrace } from './trace';
+import type { WaveformIndex } from './vcd';
+
+export interface CdcOptions {
+    /** RTL registers; without them, crossings are inferred from the waveform */
+    registers?: RegisterMap;
+    /** A source change this close before a destination edge is a setup violation (default: a tenth of the destination period) */
+    setupWindow?: number;
+    /** Max crossings listed per category (default 20) */
+    maxResults?: number;
+}
+
+/** A window of occurrences: how many, and the first few times. */
+export interface CdcEvents {
+    count: number;
+    times: number[];
+}
+
+export interface CdcCrossing {
+    /** Source signal; the first bit for a bus recorded bit by bit */
+    source: string;
+    /** Clock of the source domain, or null when its changes follow no clock */
+    sourceClock: string | null;
+    /** First destination flop */
+    destination: string;
+    destinationClock: string;
+    destinationEdge: ClockEdge;
+    width: number;
+    /** Flops after the destination forming a synchronizer chain (empty when there is none) */
+    synchronizer: string[];
+    /** Source changes over the dump */
+    changes: number;
+    /** Destination edges within the setup window after a source change */
+    violations: CdcEvents;
+    /** Source changes that flip more than one bit at once */
+    multiBit: CdcEvents;
+    /** Destination edges that fell between the bits of one source update */
+    skewed: CdcEvents;
+    setupWindow: number;
+}
+
+export interface CdcReport {
+    /** Where the crossings came from */
+    evidence: 'rtl' | 'waveform';
+    /** Clocks and the derived or gated clocks that run with them */
+    clocks: { clock: string; period: number; related: string[] }[];
+    crossings: CdcCrossing[];
+    /** Waveform inference stopped early on a very large dump */
+    truncated: boolean;
+    maxResults: number;
+}
+
+/** Occurrence times kept per crossing for the report. */
+const EVENT_TIMES = 5;
+/** Changes of a destination compared when deciding it copies a source (waveform inference). */
+const COPY_SAMPLES = 16;
+/** A destination needs this many changes before it is said to copy anything. */
+const COPY_MIN_CHANGES = 4;
+/** Candidate pairs compared during waveform inference before giving up. */
+const MAX_COMPARISONS = 1_000_000;
+/** Longest synchronizer chain followed. */
+const MAX_STAGES = 4;
+
+/**
+ * Find clock domain crossings and judge each one. Returns an error message
+ * when no clock is detected.
+ */
+export function analyzeCdc(idx: WaveformIndex, options: CdcOptions = {}): CdcReport | string {
+    const clocking = idx.getClocking();
+    if (clocking.clocks.length === 0) { return 'No clocks detected, so there are no clock domains to cross.'; }
+    const nets = new NetMap(idx);
+    const found = options.registers && options.registers.size > 0
+        ? crossingsFromRtl(idx, nets, options.registers)
+        : crossingsFromWaveform(idx, nets);
+
+    const crossings = found.crossings.map(c => measure(idx, nets, c, options.setupWindow));
+    crossings.sort((a, b) => rank(a) - rank(b) || b.violations.count - a.violations.count || a.source.localeCompare(b.source));
+    return {
+        evidence: options.registers && options.registers.size > 0 ? 'rtl' : 'waveform',
+        clocks: clocking.clocks.filter(c => !c.generatedFrom).map(c => ({
+            clock: c.signal,
+            period: c.period,
+            related: clocking.clocks.filter(d => d !== c && nets.root(d.signal) === c.signal).map(d => d.signal),
+        })),
+        crossings,
+        truncated: found.truncated,
+        maxResults: options.maxResults ?? 20,
+    };
+}
+
+/** find_cdc reply and the body of the CDC report command. */
+export function formatCdcReport(report: CdcReport): string {
+    const lines = [report.evidence === 'rtl'
+        ? 'CDC analysis: crossings from the RTL registers (flops whose inputs come from another clock domain).'
+        : 'CDC analysis: no RTL registers available, so crossings are inferred from the waveform (signals that copy a signal of another clock domain one edge later).'];
+    lines.push('Clock domains: ' + report.clocks.map(c =>
+        `${c.clock} (period ${c.period}${c.related.length > 0 ? `; with ${c.related.join(', ')}` : ''})`
+    ).join(', '));
+    if (report.truncated) { lines.push('(the dump is large: only part of the signal pairs were compared)'); }
+    if (report.crossings.length === 0) {
+        lines.push('No crossings found.');
+        return lines.join('\n');
+    }
+
+    const sections: [string, CdcCrossing[]][] = [
+        ['Hazards: unsynchronized crossings sampled within the setup window of a source change', report.crossings.filter(c => rank(c) === 0)],
+        ['Multi-bit crossings through per-bit synchronizers (bits can be captured from different updates)', report.crossings.filter(c => rank(c) === 1)],
+        ['Unsynchronized, no sample near a source change observed (still a metastability risk)', report.crossings.filter(c => rank(c) === 2)],
+        ['Synchronized', report.crossings.filter(c => rank(c) === 3)],
+    ];
+    for (const [title, list] of sections) {
+        if (list.length === 0) { continue; }
+        lines.push('', `${title} (${list.length}):`);
+        for (const c of list.slice(0, report.maxResults)) { lines.push(formatCrossing(c)); }
+        if (list.length > report.maxResults) { lines.push(`  … and ${list.length - report.maxResults} more`); }
+    }
+    return lines.join('\n');
+}
+
+/** Where a crossing was found, before the waveform is measured. */
+interface FoundCrossing {
+    sources: string[];
+    sourceClock: string | null;
+    destination: string;
+    clock: ClockInfo;
+    edge: ClockEdge;
+    synchronizer: string[];
+}
+
+/** Recorded nets with their clock domains, looked up by path or by path without a bit select. */
+class NetMap {
+    readonly byBase = new Map<string, string[]>();
+    /** Domain clock of each net; null when its changes follow no clock (nets that never change are left out) */
+    readonly domain = new Map<SignalTrace, { clock: string; edge: ClockEdge } | null>();
+    readonly clocks = new Map<SignalTrace, ClockInfo>();
+    private readonly clockInfo = new Map<string, ClockInfo>();
+
+    constructor(private readonly idx: WaveformIndex) {
+        const clocking = idx.getClocking();
+        for (const c of clocking.clocks) {
+            this.clocks.set(idx.getTrace(c.signal)!, c);
+            this.clockInfo.set(c.signal, c);
+        }
+        for (const d of clocking.domains) {
+            for (const s of d.signals) { this.domain.set(idx.getTrace(s)!, { clock: d.clock, edge: d.edge }); }
+        }
+        for (const s of clocking.unclocked) { this.domain.set(idx.getTrace(s)!, null); }
+        for (const path of idx.signals) {
+            if (idx.isDerived(path)) { continue; }
+            const base = baseOf(path);
+            const list = this.byBase.get(base);
+            if (list) { list.push(path); } else { this.byBase.set(base, [path]); }
+        }
+    }
+
+    trace(path: string): SignalTrace {
+        return this.idx.getTrace(path)!;
+    }
+
+    clock(name: string): ClockInfo | undefined {
+        return this.clockInfo.get(name);
+    }
+
+    /** The detected clock that `name` refers to in `scope`, if any. */
+    clockNamed(scope: string, name: string): ClockInfo | undefined {
+        const path = this.byBase.get(join(scope, name))?.[0];
+        return path !== undefined ? this.clocks.get(this.trace(path)) : undefined;
+    }
+
+    /** The clock a derived or gated clock comes from (itself for a root clock). */
+    root(clock: string): string {
+        const seen = new Set<string>();
+        let c = this.clockInfo.get(clock);
+        while (c?.generatedFrom && !seen.has(c.signal)) {
+            seen.add(c.signal);
+            c = this.clockInfo.get(c.generatedFrom.clock);
+        }
+        return c?.signal ?? clock;
+    }
+}
+
+/** Crossings into the RTL registers: a register whose data or enable comes from another domain. */
+function crossingsFromRtl(idx: WaveformIndex, nets: NetMap, registers: RegisterMap): { crossings: FoundCrossing[]; truncated: boolean } {
+    const crossings: FoundCrossing[] = [];
+    const seen = new Set<string>();
+    for (const path of idx.signals) {
+        if (idx.isDerived(path)) { continue; }
+        const base = baseOf(path);
+        const scope = scopeOf(base);
+        const leaf = base.slice(scope.length ? scope.length + 1 : 0);
+        const reg = registers.get(leaf);
+        if (!reg) { continue; }
+        // The register's clock as named in its scope, else the domain its changes follow
+        const clock = nets.clockNamed(scope, reg.clock);
+        const domain = nets.domain.get(nets.trace(path));
+        const destination = clock ?? (domain ? nets.clock(domain.clock) : undefined);
+        if (!destination) { continue; }
+        const edge = clock ? reg.edge : domain!.edge;
+
+        for (const id of new Set([...reg.data, ...reg.conditions])) {
+            if (reg.asyncResets.has(id)) { continue; }
+            const sources = nets.byBase.get(join(scope, id));
+            if (!sources) { continue; }
+            // A source register is in its clock's domain, even where its changes also fit another clock
+            const sourceClock = registers.has(id) ? nets.clockNamed(scope, registers.get(id)!.clock) : undefined;
+            const source = sourceClock && !sources.some(s => nets.clocks.has(nets.trace(s)))
+                ? { clock: sourceClock.signal }
+                : sourceDomain(nets, sources);
+            if (source === undefined || (source !== null && nets.root(source.clock) === nets.root(destination.signal))) { continue; }
+            const key = `${baseOf(sources[0])}\n${base}`;
+            if (seen.has(key)) { continue; }
+            seen.add(key);
+
+            // Flops that only pass the value along on the destination clock
+            const synchronizer: string[] = [];
+            if (reg.data.size === 1 && reg.data.has(id)) {
+                let stage = leaf;
+                for (let n = 0; n < MAX_STAGES; n++) {
+                    const next = [...registers].find(([name, r]) =>
+                        name !== stage && r.clock === reg.clock && r.data.size === 1 && r.data.has(stage))?.[0];
+                    if (!next || synchronizer.includes(join(scope, next))) { break; }
+                    synchronizer.push(join(scope, next));
+                    stage = next;
+                }
+            }
+            crossings.push({
+                sources,
+                sourceClock: source?.clock ?? null,
+                destination: base,
+                clock: destination,
+                edge,
+                synchronizer,
+            });
+        }
+    }
+    return { crossings, truncated: false };
+}
+
+/**
+ * Crossings seen in the waveform: a net of one domain whose every sampled
+ * change takes the value a net of another domain (or no domain) had just
+ * before the destination edge. Flops that copy the destination on the same
+ * clock form its synchronizer chain.
+ */
+function crossingsFromWaveform(idx: WaveformIndex, nets: NetMap): { crossings: FoundCrossing[]; truncated: boolean } {
+    const clocking = idx.getClocking();
+    const edges = new Map<string, Float64Array>();
+    const edgesOf = (clock: string, edge: ClockEdge) => {
+        const key = `${clock} ${edge}`;
+        let times = edges.get(key);
+        if (!times) {
+            times = Float64Array.from(idx.getEdgeTimes(clock, edge));
+            edges.set(key, times);
+        }
+        return times;
+    };
+    const sources = [
+        ...clocking.domains.flatMap(d => d.signals.map(s => ({ path: s, clock: d.clock as string | null }))),
+        ...clocking.unclocked.map(s => ({ path: s, clock: null })),
+    ];
+    let comparisons = 0;
+    let truncated = false;
+    const crossings: FoundCrossing[] = [];
+    for (const domain of clocking.domains) {
+        const clock = nets.clock(domain.clock)!;
+        const times = edgesOf(domain.clock, domain.edge);
+        const root = nets.root(domain.clock);
+        const candidates = domain.signals.filter(s => nets.trace(s).length > COPY_MIN_CHANGES);
+        for (const destination of candidates) {
+            const dst = nets.trace(destination);
+            for (const source of sources) {
+                if (source.path === destination || (source.clock !== null && nets.root(source.clock) === root)) { continue; }
+                const src = nets.trace(source.path);
+                if (src.width !== dst.width) { continue; }
+                if (++comparisons > MAX_COMPARISONS) {
+                    truncated = true;
+                    break;
+                }
+                if (!copies(dst, src, times)) { continue; }
+                crossings.push({
+                    sources: [source.path],
+                    sourceClock: source.clock,
+                    destination,
+                    clock,
+                    edge: domain.edge,
+                    synchronizer: [],
+                });
+            }
+        }
+    }
+
+    // Follow each first flop along flops that copy it on the same clock
+    const downstream = new Set<string>();
+    for (const c of crossings) {
+        const domain = clocking.domains.find(d => d.clock === c.clock.signal && d.edge === c.edge)!;
+        const times = edgesOf(c.clock.signal, c.edge);
+        let stage = c.destination;
+        for (let n = 0; n < MAX_STAGES; n++) {
+            const from = nets.trace(stage);
+            const next = domain.signals.find(s => s !== stage && s !== c.destination && !c.synchronizer.includes(s) &&
+                nets.trace(s).width === from.width && copies(nets.trace(s), from, times));
+            if (!next) { break; }
+            c.synchronizer.push(next);
+            downstream.add(`${c.sources[0]}\n${next}`);
+            stage = next;
+        }
+    }
+    // A later stage also copies the source, but it is not a crossing of its own
+    return { crossings: crossings.filter(c => !downstream.has(`${c.sources[0]}\n${c.destination}`)), truncated };
+}
+
+/** Whether every sampled change of `dst` takes the value `src` had just before the edge in `edges` it follows. */
+function copies(dst: SignalTrace, src: SignalTrace, edges: Float64Array): boolean {
+    const changes = dst.length - 1;
+    if (changes < COPY_MIN_CHANGES) { return false; }
+    const step = Math.max(1, changes / COPY_SAMPLES);
+    for (let k = 1; k < dst.length; k += step) {
+        const i = Math.floor(k);
+        const e = upperBound(edges, dst.timeAt(i)) - 1;
+        if (e < 0) { return false; }
+        const before = src.lowerBound(edges[e]) - 1;
+        if (before < 0 || src.rawAt(before) !== dst.rawAt(i)) { return false; }
+    }
+    return true;
+}
+
+/** Domain of a source: its clock, null when it follows none, undefined when it never changes or is a clock. */
+function sourceDomain(nets: NetMap, paths: string[]): { clock: string } | null | undefined {
+    let result: { clock: string } | null | undefined;
+    for (const path of paths) {
+        const trace = nets.trace(path);
+        if (nets.clocks.has(trace)) { return undefined; }
+        const domain = nets.domain.get(trace);
+        if (domain) { return domain; }
+        if (domain === null) { result = null; }
+    }
+    return result;
+}
+
+/** Setup-window violations, multi-bit changes and skewed updates of one crossing. */
+function measure(idx: WaveformIndex, nets: NetMap, found: FoundCrossing, setupWindow?: number): CdcCrossing {
+    const edges = Float64Array.from(idx.getEdgeTimes(found.clock.signal, found.edge));
+    const window = setupWindow ?? found.clock.period / 10;
+    const traces = [...new Set(found.sources.map(s => nets.trace(s)))];
+    const width = traces.length > 1 ? traces.length : traces[0].width;
+
+    // Source changes in time order, with how many bits each one flips
+    const flips = new Map<number, number>();
+    for (const trace of traces) {
+        for (let i = 1; i < trace.length; i++) {
+            const t = trace.timeAt(i);
+            flips.set(t, (flips.get(t) ?? 0) + (traces.length > 1 ? 1 : bitsChanged(trace.rawAt(i - 1), trace.rawAt(i))));
+        }
+    }
+    const changes = [...flips.keys()].sort((a, b) => a - b);
+
+    const violations: CdcEvents = { count: 0, times: [] };
+    const multiBit: CdcEvents = { count: 0, times: [] };
+    const skewed: CdcEvents = { count: 0, times: [] };
+    const sourceInfo = found.sourceClock !== null ? nets.clock(found.sourceClock) : undefined;
+    // Changes closer together than this belong to one update of the bus
+    const burst = (sourceInfo?.period ?? found.clock.period) / 2;
+    for (let k = 0; k < changes.length; k++) {
+        const t = changes[k];
+        const i = upperBound(edges, t);
+        const edge = i > 0 && edges[i - 1] === t ? t : i < edges.length ? edges[i] : null;
+        if (edge !== null && edge - t <= window) { note(violations, edge); }
+        if (width > 1 && flips.get(t)! > 1) { note(multiBit, t); }
+        if (width > 1 && k > 0 && t - changes[k - 1] < burst) {
+            // A destination edge strictly between two parts of one update samples a mix
+            const j = upperBound(edges, changes[k - 1]);
+            if (j < edges.length && edges[j] < t) { note(skewed, edges[j]); }
+        }
+    }
+    return {
+        source: found.sources[0],
+        sourceClock: found.sourceClock,
+        destination: found.destination,
+        destinationClock: found.clock.signal,
+        destinationEdge: found.edge,
+        width,
+        synchronizer: found.synchronizer,
+        changes: changes.length,
+        violations,
+        multiBit,
+        skewed,
+        setupWindow: window,
+    };
+}
+
+/** 0 hazard, 1 multi-bit through a synchronizer, 2 unsynchronized without violations, 3 synchronized. */
+function rank(c: CdcCrossing): number {
+    if (c.synchronizer.length === 0) { return c.violations.count > 0 ? 0 : 2; }
+    return c.width > 1 && (c.multiBit.count > 0 || c.skewed.count > 0) ? 1 : 3;
+}
+
+function formatCrossing(c: CdcCrossing): string {
+    const path = [c.source, c.destination, ...c.synchronizer].join(' → ');
+    const from = c.sourceClock ?? 'no clock';
+    const parts = [`${path} (${from} → ${c.destinationClock} ${c.destinationEdge}), ${c.width} bit${c.width !== 1 ? 's' : ''}`];
+    parts.push(c.synchronizer.length > 0 ? `${c.synchronizer.length + 1}-flop synchronizer` : 'no synchronizer');
+    const window = c.setupWindow > 0 ? `within ${c.setupWindow} of` : 'at the same time as';
+    parts.push(c.violations.count > 0
+        ? `sampled ${window} a source change ${times(c.violations.count)} (${formatTimes(c.violations)})`
+        : `${c.changes} source change${c.changes !== 1 ? 's' : ''}, none sampled ${window} one`);
+    if (c.multiBit.count > 0) {
+        parts.push(`${c.multiBit.count} of ${c.changes} changes flip several bits at once, not Gray-coded (${formatTimes(c.multiBit)})`);
+    }
+    if (c.skewed.count > 0) {
+        parts.push(`bits update at different times and a destination edge fell in between ${times(c.skewed.count)} (${formatTimes(c.skewed)})`);
+    }
+    return `  ${parts.join('; ')}`;
+}
+
+function note(events: CdcEvents, time: number): void {
+    if (events.times.length < EVENT_TIMES && events.times[events.times.length - 1] !== time) { events.times.push(time); }
+    events.count++;
+}
+
+function formatTimes(events: CdcEvents): string {
+    return 't=' + events.times.join(', ') + (events.count > events.times.length ? ', …' : '');
+}
+
+function times(n: number): string {
+    return n === 1 ? 'once' : `${n} times`;
+}
+
+/** Bits that differ between two width-padded raw values (x/z count as different). */
+function bitsChanged(a: string, b: string): number {
+    if (a.length !== b.length) { return Math.max(a.length, b.length); }
+    let n = 0;
+    for (let i = 0; i < a.length; i++) {
+        if (a[i] !== b[i]) { n++; }
+    }
+    return n;
+}
+
+function baseOf(path: string): string {
+    return path.replace(/\[[^\]]*\]$/, '').replace(/\(\d+\)$/, '');
+}
+
+function scopeOf(path: string): string {
+    const dot = path.lastIndexOf('.');
+    return dot >= 0 ? path.slice(0, dot) : '';
+}
+
+function join(scope: string, name: string): string {
+    return scope ? `${scope}.${name}` : name;
+}
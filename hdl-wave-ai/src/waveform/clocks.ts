@@ -0,0 +1,391 @@
+/*
+    Copyright (C) 2026 Andrew Capatina
+
+    This program is free software: you can redistribute it and/or modify
+    it under the terms of the GNU Affero General Public License as
+    published by the Free Software Foundation, either version 3 of the
+    License, or (at your option) any later version.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU Affero General Public License for more details.
+
+    You should have received a copy of the GNU Affero General Public License
+    along with this program.  If not, see <http://www.gnu.org/licenses/>.
+*/
+// Clocking of a waveform: every single-bit net that toggles with a stable
+// period, characterised over the whole dump (frequency, duty cycle, jitter,
+// stretches where it stops or is gated), the resets and when they are
+// asserted, and which clock each other signal changes with.
+import {
+    ACTIVE_LOW_RESET_RE, CLOCK_NAME_RE, ClockEdge, DETECT_EDGES, leafName, levelOf, medianInterval,
+    RESET_NAME_RE, scalarNets, upperBound,
+} from './cycles';
+import type { SignalTrace } from './trace';
+import { timescaleSeconds, WaveformIndex } from './vcd';
+
+/** A stretch between two rising edges much longer than the period. */
+export interface ClockGap {
+    /** Last rising edge before the gap */
+    from: number;
+    /** Next rising edge, or null when the clock never resumes */
+    to: number | null;
+    /** Level the clock holds during the gap (null for x/z) */
+    level: 0 | 1 | null;
+}
+
+export interface ClockInfo {
+    signal: string;
+    /** Median time between rising edges */
+    period: number;
+    /** Shortest and longest period outside gaps */
+    periodMin: number;
+    periodMax: number;
+    /** Largest change in period from one cycle to the next */
+    cycleJitter: number;
+    /** Seconds per period, when the timescale is known */
+    periodSeconds?: number;
+    /** Fraction of each period spent high (null when it cannot be measured) */
+    duty: number | null;
+    risingEdges: number;
+    firstEdge: number;
+    lastEdge: number;
+    gaps: ClockGap[];
+    /** Clock whose edges this one's edges fall on, for divided or gated clocks */
+    generatedFrom?: { clock: string; edge: ClockEdge };
+}
+
+export interface ResetInfo {
+    signal: string;
+    active: 'high' | 'low';
+    /** Spans the reset is asserted; `to` is null when it is never released */
+    windows: { from: number; to: number | null }[];
+}
+
+export interface ClockDomain {
+    clock: string;
+    edge: ClockEdge;
+    signals: string[];
+}
+
+export interface ClockReport {
+    clocks: ClockInfo[];
+    resets: ResetInfo[];
+    domains: ClockDomain[];
+    /** Signals whose changes do not follow any one clock (async inputs, resets, mixed logic) or change too rarely to tell */
+    unclocked: string[];
+    /** Signals that never change */
+    quiet: number;
+}
+
+/** Active edges of one clock, as matched against other signals' changes. */
+interface EdgeCandidate {
+    clock: string;
+    edge: ClockEdge;
+    period: number;
+    times: Float64Array;
+}
+
+/** How far (as a share of the period) a rising-edge interval may stray and still count as regular; allows for jitter. */
+const PERIOD_TOLERANCE = 0.1;
+/** Rising-edge intervals longer than this many periods are gaps. */
+const GAP_PERIODS = 1.5;
+/** Transitions sampled per signal when assigning clock domains. */
+const DOMAIN_SAMPLES = 64;
+/** Share of sampled transitions that must follow one clock's edge. */
+const DOMAIN_MATCH = 0.9;
+/** Fewer changes than this could line up with a clock by chance. */
+const DOMAIN_MIN_CHANGES = 3;
+
+/**
+ * Find every clock in the waveform, its resets and its clock domains.
+ * Derived signals are left out; the report covers recorded nets only.
+ */
+export function analyzeClocks(idx: WaveformIndex): ClockReport {
+    const recorded = (path: string) => !idx.isDerived(path);
+    const seconds = timescaleSeconds(idx.timescale);
+    const periodic: ClockInfo[] = [];
+    for (const path of scalarNets(idx, recorded)) {
+        const info = characterizeClock(idx, path, seconds);
+        if (info) { periodic.push(info); }
+    }
+    periodic.sort((a, b) => a.period - b.period || a.signal.localeCompare(b.signal));
+
+    // A periodic net whose edges follow another clock is a divided or gated
+    // clock only when named like one; otherwise it is data that happens to
+    // toggle regularly (a counter bit, a strobe) and belongs to that domain
+    const all = edgeCandidates(idx, periodic);
+    const clocks = periodic.filter(c => CLOCK_NAME_RE.test(leafName(c.signal)) ||
+        !bestClock(idx.getTrace(c.signal)!, all.filter(e => e.clock !== c.signal)));
+    const candidates = edgeCandidates(idx, clocks);
+    for (const c of clocks) {
+        const best = bestClock(idx.getTrace(c.signal)!, candidates.filter(e => e.clock !== c.signal));
+        if (best) { c.generatedFrom = best; }
+    }
+    const clockNames = new Set(clocks.map(c => c.signal));
+
+    const resets = scalarNets(idx, p => recorded(p) && !clockNames.has(p) && RESET_NAME_RE.test(leafName(p)))
+        .sort((a, b) => a.length - b.length)
+        .map(path => resetWindows(idx, path));
+
+    const domains = new Map<string, ClockDomain>();
+    const unclocked: string[] = [];
+    let quiet = 0;
+    for (const path of recordedNets(idx)) {
+        const trace = idx.getTrace(path)!;
+        if (trace.length < 2) {
+            quiet++;
+            continue;
+        }
+        if (clockNames.has(path)) { continue; }
+        const best = bestClock(trace, candidates);
+        if (!best) {
+            unclocked.push(path);
+            continue;
+        }
+        const key = `${best.clock} ${best.edge}`;
+        let domain = domains.get(key);
+        if (!domain) {
+            domain = { clock: best.clock, edge: best.edge, signals: [] };
+            domains.set(key, domain);
+        }
+        domain.signals.push(path);
+    }
+    return {
+        clocks,
+        resets,
+        domains: [...domains.values()].sort((a, b) => b.signals.length - a.signals.length),
+        unclocked,
+        quiet,
+    };
+}
+
+/** list_clocks reply and the clocking part of the waveform summary; `examples` caps the names listed per domain. */
+export function formatClockReport(report: ClockReport, idx: WaveformIndex, examples = 10): string {
+    const seconds = timescaleSeconds(idx.timescale);
+    const lines: string[] = [];
+    if (report.clocks.length === 0) {
+        lines.push('Clocks: none detected (no single-bit signal toggles with a stable period)');
+    } else {
+        lines.push(`Clocks (${report.clocks.length}):`);
+        for (const c of report.clocks) { lines.push(...formatClock(c, idx.endTime)); }
+    }
+
+    if (report.resets.length > 0) {
+        lines.push('Resets:');
+        for (const r of report.resets) {
+            const windows = r.windows.length === 0
+                ? 'never asserted'
+                : 'asserted ' + r.windows.slice(0, 5).map(w => `t=${w.from}..${w.to ?? 'end (never released)'}`).join(', ') +
+                    (r.windows.length > 5 ? `, … (${r.windows.length} times)` : '');
+            lines.push(`  ${r.signal} (active ${r.active}): ${windows}`);
+        }
+    }
+
+    if (report.clocks.length > 0) {
+        lines.push('Clock domains (the clock edge each signal\'s changes follow):');
+        for (const d of report.domains) {
+            lines.push(`  ${d.clock} ${d.edge}: ${countOf(d.signals.length, 'signal')} — ${listNames(d.signals, examples)}`);
+        }
+        if (report.unclocked.length > 0) {
+            lines.push(`  not aligned with any one clock (or too few changes to tell): ${countOf(report.unclocked.length, 'signal')} — ${listNames(report.unclocked, examples)}`);
+        }
+        if (report.quiet > 0) { lines.push(`  never change: ${countOf(report.quiet, 'signal')}`); }
+    }
+    if (seconds === null && report.clocks.length > 0) {
+        lines.push(`(timescale "${idx.timescale}" not recognised; periods are in time units only)`);
+    }
+    return lines.join('\n');
+}
+
+/** Period, duty cycle, jitter and gaps of `path`, or null when its rising edges are not periodic. */
+function characterizeClock(idx: WaveformIndex, path: string, seconds: number | null): ClockInfo | null {
+    const trace = idx.getTrace(path)!;
+    if (trace.length < 4) { return null; }
+    // Judge regularity on the first edges, as detectClock does (but allowing for jitter), before walking the whole dump
+    const limit = trace.timeAt(Math.min(trace.length, DETECT_EDGES * 2) - 1);
+    const early = idx.getEdgeTimes(path, 'rising', -Infinity, limit);
+    if (early.length < 3) { return null; }
+    const earlyPeriod = medianInterval(early);
+    if (earlyPeriod <= 0) { return null; }
+    let regular = 0;
+    for (let i = 1; i < early.length; i++) {
+        if (Math.abs(early[i] - early[i - 1] - earlyPeriod) <= earlyPeriod * PERIOD_TOLERANCE) { regular++; }
+    }
+    if (regular / (early.length - 1) < 0.8) { return null; }
+
+    const rising = idx.getEdgeTimes(path, 'rising');
+    const falling = idx.getEdgeTimes(path, 'falling');
+    const period = medianInterval(rising);
+    const gaps: ClockGap[] = [];
+    let periodMin = Infinity, periodMax = 0, cycleJitter = 0;
+    let high = 0, measured = 0;
+    let previous: number | null = null;
+    let f = 0;
+    for (let i = 1; i < rising.length; i++) {
+        const from = rising[i - 1], to = rising[i];
+        const length = to - from;
+        if (length > period * GAP_PERIODS) {
+            gaps.push({ from, to, level: levelAt(idx, path, from + period) });
+            previous = null;
+            continue;
+        }
+        periodMin = Math.min(periodMin, length);
+        periodMax = Math.max(periodMax, length);
+        if (previous !== null) { cycleJitter = Math.max(cycleJitter, Math.abs(length - previous)); }
+        previous = length;
+        // Duty cycle from the falling edge inside this period
+        while (f < falling.length && falling[f] <= from) { f++; }
+        if (f < falling.length && falling[f] < to) {
+            high += falling[f] - from;
+            measured += length;
+        }
+    }
+    const lastEdge = rising[rising.length - 1];
+    if (idx.endTime - lastEdge > period * GAP_PERIODS) {
+        gaps.push({ from: lastEdge, to: null, level: levelAt(idx, path, idx.endTime) });
+    }
+    return {
+        signal: path,
+        period,
+        periodMin: Number.isFinite(periodMin) ? periodMin : period,
+        periodMax: periodMax || period,
+        cycleJitter,
+        periodSeconds: seconds === null ? undefined : period * seconds,
+        duty: measured > 0 ? high / measured : null,
+        risingEdges: rising.length,
+        firstEdge: rising[0],
+        lastEdge,
+        gaps,
+    };
+}
+
+/** Spans where the reset `path` is at its asserted level, judged by name as buildCycleTable does. */
+function resetWindows(idx: WaveformIndex, path: string): ResetInfo {
+    const trace = idx.getTrace(path)!;
+    const active = ACTIVE_LOW_RESET_RE.test(leafName(path)) ? 'low' : 'high';
+    const level = active === 'high' ? 1 : 0;
+    const windows: ResetInfo['windows'] = [];
+    let from: number | null = null;
+    for (let i = 0; i < trace.length; i++) {
+        const l = levelOf(trace.rawAt(i));
+        if (l === level && from === null) {
+            from = trace.timeAt(i);
+        } else if (l !== level && l !== null && from !== null) {
+            windows.push({ from, to: trace.timeAt(i) });
+            from = null;
+        }
+    }
+    if (from !== null) { windows.push({ from, to: null }); }
+    return { signal: path, active, windows };
+}
+
+/** Both edges of every clock, to match other signals' changes against. */
+function edgeCandidates(idx: WaveformIndex, clocks: ClockInfo[]): EdgeCandidate[] {
+    return clocks.flatMap(c => (['rising', 'falling'] as const).map(edge => ({
+        clock: c.signal,
+        edge,
+        period: c.period,
+        times: Float64Array.from(idx.getEdgeTimes(c.signal, edge)),
+    })));
+}
+
+/** Recorded signals, one path per net (the shortest), in signal order. */
+function recordedNets(idx: WaveformIndex): string[] {
+    const byTrace = new Map<unknown, string>();
+    for (const path of idx.signals) {
+        if (idx.isDerived(path)) { continue; }
+        const trace = idx.getTrace(path);
+        if (!trace) { continue; }
+        const seen = byTrace.get(trace);
+        if (seen === undefined || path.length < seen.length) { byTrace.set(trace, path); }
+    }
+    return [...byTrace.values()];
+}
+
+/**
+ * The clock edge that the changes of `trace` follow: each sampled change
+ * must come at or shortly after (within a quarter period) an active edge.
+ * Among equally good matches the slowest clock wins, since lining up with
+ * sparser edges is the stronger evidence.
+ */
+function bestClock(
+    trace: SignalTrace,
+    candidates: EdgeCandidate[],
+): { clock: string; edge: ClockEdge } | null {
+    // Skip the initial value; it is not a change
+    const changes = trace.length - 1;
+    if (changes < DOMAIN_MIN_CHANGES) { return null; }
+    const step = Math.max(1, changes / DOMAIN_SAMPLES);
+    const samples: number[] = [];
+    for (let k = 1; k < trace.length && samples.length < DOMAIN_SAMPLES; k += step) {
+        samples.push(trace.timeAt(Math.floor(k)));
+    }
+    let best: { clock: string; edge: ClockEdge; score: number; period: number } | null = null;
+    for (const c of candidates) {
+        const window = c.period / 4;
+        let matched = 0;
+        for (const t of samples) {
+            const i = upperBound(c.times, t) - 1;
+            if (i >= 0 && t - c.times[i] <= window) { matched++; }
+        }
+        const score = matched / samples.length;
+        if (score < DOMAIN_MATCH) { continue; }
+        if (!best || score > best.score + 0.02 || (score >= best.score - 0.02 && c.period > best.period)) {
+            best = { clock: c.clock, edge: c.edge, score, period: c.period };
+        }
+    }
+    return best && { clock: best.clock, edge: best.edge };
+}
+
+/** 0/1 level of scalar `path` at `time`. */
+function levelAt(idx: WaveformIndex, path: string, time: number): 0 | 1 | null {
+    const trace = idx.getTrace(path)!;
+    const i = trace.upperBound(time) - 1;
+    return i >= 0 ? levelOf(trace.rawAt(i)) : null;
+}
+
+function formatClock(c: ClockInfo, endTime: number): string[] {
+    const real = c.periodSeconds !== undefined
+        ? ` (${formatSeconds(c.periodSeconds)}, ${formatFrequency(1 / c.periodSeconds)})`
+        : '';
+    const parts = [`period ${c.period}${real}`];
+    if (c.duty !== null) { parts.push(`duty ${+(c.duty * 100).toFixed(1)}%`); }
+    parts.push(`${countOf(c.risingEdges, 'rising edge')} t=${c.firstEdge}..${c.lastEdge}`);
+    if (c.generatedFrom) { parts.push(`edges fall on ${c.generatedFrom.clock} ${c.generatedFrom.edge} edges (derived or gated)`); }
+    const lines = [`  ${c.signal}: ${parts.join(', ')}`];
+    if (c.periodMax > c.periodMin) {
+        lines.push(`    jitter: period ${c.periodMin}..${c.periodMax}, up to ${c.cycleJitter} from one cycle to the next`);
+    }
+    if (c.gaps.length > 0) {
+        const shown = c.gaps.slice(0, 5).map(g => {
+            const held = g.level === null ? 'x' : String(g.level);
+            return g.to === null
+                ? `stops after t=${g.from} (held ${held} to the end, t=${endTime})`
+                : `t=${g.from}..${g.to} (held ${held}, ${+((g.to - g.from) / c.period).toFixed(1)} periods)`;
+        });
+        lines.push(`    stopped or gated ${countOf(c.gaps.length, 'time')}: ${shown.join('; ')}${c.gaps.length > 5 ? '; …' : ''}`);
+    }
+    return lines;
+}
+
+function formatSeconds(s: number): string {
+    const units: [number, string][] = [[1, 's'], [1e-3, 'ms'], [1e-6, 'us'], [1e-9, 'ns'], [1e-12, 'ps'], [1e-15, 'fs']];
+    const [scale, unit] = units.find(([scale]) => s >= scale * 0.9995) ?? units[units.length - 1];
+    return `${+(s / scale).toPrecision(4)} ${unit}`;
+}
+
+function formatFrequency(hz: number): string {
+    const units: [number, string][] = [[1e12, 'THz'], [1e9, 'GHz'], [1e6, 'MHz'], [1e3, 'kHz'], [1, 'Hz']];
+    const [scale, unit] = units.find(([scale]) => hz >= scale * 0.9995) ?? units[units.length - 1];
+    return `${+(hz / scale).toPrecision(4)} ${unit}`;
+}
+
+function countOf(n: number, noun: string): string {
+    return `${n} ${noun}${n !== 1 ? 's' : ''}`;
+}
+
+function listNames(names: string[], max: number): string {
+    return names.slice(0, max).join(', ') + (names.length > max ? ', …' : '');
+}
@@ -0,0 +1,206 @@
+/*
+    Copyright (C) 2026 Andrew Capatina
+
+    This program is free software: you can redistribute it and/or modify
+    it under the terms of the GNU Affero General Public License as
+    published by the Free Software Foundation, either version 3 of the
+    License, or (at your option) any later version.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU Affero General Public License for more details.
+
+    You should have received a copy of the GNU Affero General Public License
+    along with this program.  If not, see <http://www.gnu.org/licenses/>.
+*/
+// Toggle coverage from a dump: for every bit of every logic signal, how
+// often it went 0→1 and 1→0. A bit is covered once it has done both.
+// Transitions through x/z do not count, and neither does a signal's initial
+// value settling at its first timestamp. Rendered as a summary for the
+// model, a Markdown table or JSON.
+import type { SignalTrace } from './trace';
+import type { WaveformIndex } from './vcd';
+
+export interface ToggleOptions {
+    /** Only signals at any depth below this scope (default: all) */
+    scope?: string;
+    tStart?: number;
+    tEnd?: number;
+}
+
+export interface BitToggles {
+    /** Bit number by the declared range, else width-1..0 */
+    bit: number;
+    rose: number;
+    fell: number;
+}
+
+export interface SignalToggles {
+    signal: string;
+    width: number;
+    /** Declared bit range such as "[7:0]", when present */
+    range?: string;
+    /** Msb first, in declaration order */
+    bits: BitToggles[];
+    /** Bits that went both 0→1 and 1→0 */
+    covered: number;
+}
+
+export interface ToggleCoverage {
+    /** Resolved scope path, when limited to one */
+    scope?: string;
+    tStart: number;
+    tEnd: number;
+    signals: SignalToggles[];
+    totalBits: number;
+    coveredBits: number;
+}
+
+/**
+ * Toggle coverage of the logic signals (aliases once) in `options.scope`
+ * over [tStart, tEnd]. Returns an error message for an unknown scope or a
+ * window outside the dump.
+ */
+export function toggleCoverage(idx: WaveformIndex, options: ToggleOptions = {}): ToggleCoverage | string {
+    const tStart = Math.max(options.tStart ?? idx.startTime, idx.startTime);
+    const tEnd = Math.min(options.tEnd ?? idx.endTime, idx.endTime);
+    if (tEnd < tStart) { return `The window [${options.tStart}, ${options.tEnd}] is outside the dump (${idx.startTime}–${idx.endTime}).`; }
+    let signals = idx.signals;
+    let scope: string | undefined;
+    if (options.scope !== undefined && options.scope !== '') {
+        const tree = idx.getScopeTree();
+        const path = tree.resolve(options.scope);
+        if (path === null) { return tree.notFound(options.scope); }
+        scope = path;
+        signals = tree.signalsIn(path, true);
+    }
+
+    const out: SignalToggles[] = [];
+    const seen = new Set<SignalTrace>();
+    for (const signal of signals) {
+        const trace = idx.getTrace(signal);
+        const desc = idx.getDescriptor(signal);
+        // Aliased paths share a trace — count each net once
+        if (!trace || trace.length === 0 || seen.has(trace) || (desc && desc.kind !== 'logic')) { continue; }
+        seen.add(trace);
+        // Values from a sampled context are pre-formatted — count the leading bits
+        const width = desc?.width ?? trace.bitsAt(0).length;
+        out.push(toggles(trace, signal, width, desc?.range, tStart, tEnd));
+    }
+    return {
+        scope,
+        tStart,
+        tEnd,
+        signals: out,
+        totalBits: out.reduce((sum, s) => sum + s.width, 0),
+        coveredBits: out.reduce((sum, s) => sum + s.covered, 0),
+    };
+}
+
+/**
+ * Coverage for the model: the overall figure, then each signal that is not
+ * fully covered (fewest covered bits first) with the bits that never
+ * toggled, only rose or only fell.
+ */
+export function formatToggleSummary(cov: ToggleCoverage, maxResults = 30): string {
+    const full = cov.signals.filter(s => s.covered === s.width).length;
+    const where = cov.scope ? ` under ${cov.scope}` : '';
+    const lines = [`Toggle coverage in [${cov.tStart}, ${cov.tEnd}]${where}: ${percent(cov.coveredBits, cov.totalBits)} of bits `
+        + `(${cov.coveredBits} of ${cov.totalBits}) went both 0→1 and 1→0; ${full} of ${cov.signals.length} signals fully covered.`];
+    const partial = cov.signals.filter(s => s.covered < s.width)
+        .sort((a, b) => a.covered / a.width - b.covered / b.width || b.width - a.width || a.signal.localeCompare(b.signal));
+    if (partial.length === 0) { return lines.join('\n'); }
+    lines.push('', `Not fully covered (${partial.length}):`);
+    for (const s of partial.slice(0, maxResults)) {
+        const { never, rose, fell } = missing(s);
+        const scalar = s.width === 1 && !s.range;
+        const parts = scalar ? [] : [`${s.covered} of ${s.width} bits`];
+        const label = (text: string, bits: number[]) => scalar ? text : `${text} ${bitList(s, bits)}`;
+        if (never.length > 0) { parts.push(label('never toggled', never)); }
+        if (rose.length > 0) { parts.push(label('only 0→1', rose)); }
+        if (fell.length > 0) { parts.push(label('only 1→0', fell)); }
+        lines.push(`  ${s.signal}${s.range ?? ''}: ${parts.join('; ')}`);
+    }
+    if (partial.length > maxResults) { lines.push(`  … ${partial.length - maxResults} more`); }
+    return lines.join('\n');
+}
+
+/** One Markdown table row per signal, in dump order. */
+export function formatToggleTable(cov: ToggleCoverage): string {
+    const lines = [
+        '| Signal | Bits | Covered | % | Never toggled | Only 0→1 | Only 1→0 |',
+        '|---|---|---|---|---|---|---|',
+    ];
+    for (const s of cov.signals) {
+        const { never, rose, fell } = missing(s);
+        lines.push(`| \`${s.signal}${s.range ?? ''}\` | ${s.width} | ${s.covered} | ${percent(s.covered, s.width)} `
+            + `| ${bitList(s, never)} | ${bitList(s, rose)} | ${bitList(s, fell)} |`);
+    }
+    lines.push(`| **Total** | ${cov.totalBits} | ${cov.coveredBits} | ${percent(cov.coveredBits, cov.totalBits)} | | | |`);
+    return lines.join('\n');
+}
+
+/** The coverage with per-bit toggle counts, as indented JSON. */
+export function toggleCoverageJson(cov: ToggleCoverage): string {
+    return JSON.stringify({
+        ...cov,
+        percent: cov.totalBits > 0 ? +(100 * cov.coveredBits / cov.totalBits).toFixed(2) : null,
+    }, null, 2);
+}
+
+function toggles(trace: SignalTrace, signal: string, width: number, range: string | undefined, tStart: number, tEnd: number): SignalToggles {
+    const m = range?.match(/^\[(-?\d+):(-?\d+)\]$/);
+    const msb = m ? Number(m[1]) : width - 1;
+    const step = m && Number(m[1]) < Number(m[2]) ? 1 : -1;
+    const bits = Array.from({ length: width }, (_, p) => ({ bit: msb + step * p, rose: 0, fell: 0 }));
+    // Each distinct value is split into bits once
+    const memo = new Map<number, string>();
+    const bitsAt = (i: number): string => {
+        const code = trace.codeAt(i);
+        let v = memo.get(code);
+        if (v === undefined) {
+            v = trace.bitsAt(i).padStart(width, '0');
+            memo.set(code, v);
+        }
+        return v;
+    };
+    const settled = trace.timeAt(0);
+    const end = trace.upperBound(tEnd);
+    for (let i = Math.max(1, trace.lowerBound(tStart)); i < end; i++) {
+        if (trace.timeAt(i) === settled) { continue; }
+        const prev = bitsAt(i - 1);
+        const cur = bitsAt(i);
+        for (let p = 0; p < width; p++) {
+            if (prev[p] === '0' && cur[p] === '1') { bits[p].rose++; } else if (prev[p] === '1' && cur[p] === '0') { bits[p].fell++; }
+        }
+    }
+    return { signal, width, range, bits, covered: bits.filter(b => b.rose > 0 && b.fell > 0).length };
+}
+
+/** Bit numbers of `s` that never toggled, only rose or only fell. */
+function missing(s: SignalToggles): { never: number[]; rose: number[]; fell: number[] } {
+    const out = { never: [] as number[], rose: [] as number[], fell: [] as number[] };
+    for (const b of s.bits) {
+        if (b.rose === 0 && b.fell === 0) { out.never.push(b.bit); } else if (b.fell === 0) { out.rose.push(b.bit); } else if (b.rose === 0) { out.fell.push(b.bit); }
+    }
+    return out;
+}
+
+/** "[31:16], [3]": runs of adjacent bit numbers. A scalar's only bit is "yes". */
+function bitList(s: SignalToggles, bits: number[]): string {
+    if (bits.length === 0) { return ''; }
+    if (s.width === 1 && !s.range) { return 'yes'; }
+    const groups: string[] = [];
+    for (let i = 0; i < bits.length;) {
+        let j = i;
+        while (j + 1 < bits.length && Math.abs(bits[j + 1] - bits[j]) === 1) { j++; }
+        groups.push(`[${bits[i]}${j > i ? `:${bits[j]}` : ''}]`);
+        i = j + 1;
+    }
+    return groups.join(', ');
+}
+
+function percent(n: number, total: number): string {
+    return total > 0 ? `${(100 * n / total).toFixed(1)}%` : 'n/a';
+}
@@ -0,0 +1,342 @@
+/*
+    Copyright (C) 2026 Andrew Capatina
+
+    This program is free software: you can redistribute it and/or modify
+    it under the terms of the GNU Affero General Public License as
+    published by the Free Software Foundation, either version 3 of the
+    License, or (at your option) any later version.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU Affero General Public License for more details.
+
+    You should have received a copy of the GNU Affero General Public License
+    along with this program.  If not, see <http://www.gnu.org/licenses/>.
+*/
+// Cycle view of a waveform: the active edges of one clock numbered as
+// cycles, so tools can take and report cycle numbers instead of raw times.
+// Cycle 0 is the first active edge, or the first one after reset is
+// released when a reset is known; earlier edges get negative numbers.
+import { formatRunLengths, Page, PAGE_SIZE, PageRequest, pageNote, RunLengths } from './paging';
+import type { SignalTrace } from './trace';
+import type { WaveformIndex } from './vcd';
+
+export type ClockEdge = 'rising' | 'falling';
+
+export interface ClockSpec {
+    clock: string;
+    /** Active edge (default rising) */
+    edge?: ClockEdge;
+    /** Optional reset; cycle 0 becomes the first active edge after it is released */
+    reset?: string;
+    /** Asserted level of the reset (default: low for names like rst_n/resetn/nreset, else high) */
+    resetActive?: 'high' | 'low';
+}
+
+/** Clock names: clk, clock, sys_clk, clk_i, aclk, … */
+export const CLOCK_NAME_RE = /clk|clock/i;
+export const RESET_NAME_RE = /rst|reset/i;
+export const ACTIVE_LOW_RESET_RE = /^n_?(rst|reset)|(rst|reset)_?(n|b|l|ni)$/i;
+
+/** Edges examined per candidate when detecting a clock; enough to judge regularity. */
+export const DETECT_EDGES = 2048;
+
+/** Active edge times of one clock, numbered as cycles. */
+export class CycleTable {
+    readonly clock: string;
+    readonly edge: ClockEdge;
+    readonly reset?: string;
+    readonly resetActive?: 'high' | 'low';
+    /** Time the reset was released (null when no reset, or it never deasserts) */
+    readonly resetRelease: number | null;
+    /** Median time between active edges */
+    readonly period: number;
+    private readonly edges: Float64Array;
+    /** Index in `edges` of cycle 0 */
+    private readonly origin: number;
+
+    constructor(spec: ClockSpec, edgeTimes: number[], resetRelease: number | null) {
+        this.clock = spec.clock;
+        this.edge = spec.edge ?? 'rising';
+        this.reset = spec.reset;
+        this.resetActive = spec.resetActive;
+        this.resetRelease = resetRelease;
+        this.edges = Float64Array.from(edgeTimes);
+        this.period = medianInterval(this.edges);
+        if (resetRelease === null) {
+            this.origin = 0;
+        } else {
+            // The first edge that no longer sees reset asserted
+            const i = upperBound(this.edges, resetRelease);
+            this.origin = Math.min(i, Math.max(this.edges.length - 1, 0));
+        }
+    }
+
+    get edgeCount(): number {
+        return this.edges.length;
+    }
+
+    get firstCycle(): number {
+        return -this.origin;
+    }
+
+    get lastCycle(): number {
+        return this.edges.length - 1 - this.origin;
+    }
+
+    /** Time of the active edge that starts `cycle`, or null outside the dump. */
+    cycleToTime(cycle: number): number | null {
+        const i = cycle + this.origin;
+        if (!Number.isInteger(i) || i < 0 || i >= this.edges.length) { return null; }
+        return this.edges[i];
+    }
+
+    /**
+     * The cycle containing `time`: cycle n spans [edge n, edge n+1). Null
+     * before the first active edge.
+     */
+    timeToCycle(time: number): { cycle: number; edgeTime: number; offset: number } | null {
+        const i = upperBound(this.edges, time) - 1;
+        if (i < 0) { return null; }
+        return { cycle: i - this.origin, edgeTime: this.edges[i], offset: time - this.edges[i] };
+    }
+
+    /** One line describing the clock, for summaries and tool results. */
+    describe(): string {
+        if (this.edges.length === 0) { return `${this.clock} (${this.edge} edge): no active edges`; }
+        const parts = [
+            `${this.clock} (${this.edge} edge)`,
+            `period ${this.period}`,
+            `cycles ${this.firstCycle}..${this.lastCycle}`,
+        ];
+        if (this.reset) {
+            parts.push(this.resetRelease !== null
+                ? `reset ${this.reset} (active ${this.resetActive}) released at t=${this.resetRelease}, cycle 0 at t=${this.cycleToTime(0)}`
+                : `reset ${this.reset} (active ${this.resetActive}) never released, cycle 0 at t=${this.cycleToTime(0)}`);
+        } else {
+            parts.push(`cycle 0 at t=${this.cycleToTime(0)}`);
+        }
+        return parts.join(', ');
+    }
+}
+
+export function upperBound(times: Float64Array, time: number): number {
+    let lo = 0, hi = times.length;
+    while (lo < hi) {
+        const mid = (lo + hi) >> 1;
+        if (times[mid] <= time) { lo = mid + 1; } else { hi = mid; }
+    }
+    return lo;
+}
+
+export function medianInterval(times: ArrayLike<number>): number {
+    if (times.length < 2) { return 0; }
+    const intervals = Float64Array.from({ length: times.length - 1 }, (_, i) => times[i + 1] - times[i]);
+    intervals.sort();
+    return intervals[intervals.length >> 1];
+}
+
+export function leafName(path: string): string {
+    return path.slice(path.lastIndexOf('.') + 1);
+}
+
+/** 0/1 level of a raw scalar value, or null for x/z and other states. */
+export function levelOf(raw: string): 0 | 1 | null {
+    if (/^0+$/.test(raw)) { return 0; }
+    if (/^[01]+$/.test(raw)) { return 1; }
+    return null;
+}
+
+/** Single-bit logic signals, one path per net (the shortest, usually the top-level one). */
+export function scalarNets(idx: WaveformIndex, accept: (path: string) => boolean): string[] {
+    const byTrace = new Map<unknown, string>();
+    for (const path of idx.signals) {
+        if (!accept(path)) { continue; }
+        const trace = idx.getTrace(path);
+        if (!trace || trace.length === 0) { continue; }
+        const desc = idx.getDescriptor(path);
+        if ((desc?.width ?? trace.width) !== 1 || (desc && desc.kind !== 'logic')) { continue; }
+        const seen = byTrace.get(trace);
+        if (seen === undefined || path.length < seen.length) { byTrace.set(trace, path); }
+    }
+    return [...byTrace.values()];
+}
+
+/**
+ * Guess the design clock: the single-bit signal whose rising edges are most
+ * regular, preferring clk/clock names, then the fastest. Also picks a reset
+ * by name when there is one. Returns null when nothing toggles regularly.
+ */
+export function detectClock(idx: WaveformIndex): ClockSpec | null {
+    let best: { path: string; score: number; rate: number } | null = null;
+    for (const path of scalarNets(idx, () => true)) {
+        const trace = idx.getTrace(path)!;
+        if (trace.length < 4) { continue; }
+        const limit = trace.timeAt(Math.min(trace.length, DETECT_EDGES * 2) - 1);
+        const edges = idx.getEdgeTimes(path, 'rising', -Infinity, limit);
+        if (edges.length < 3) { continue; }
+        const period = medianInterval(edges);
+        if (period <= 0) { continue; }
+        let regular = 0;
+        for (let i = 1; i < edges.length; i++) {
+            if (Math.abs(edges[i] - edges[i - 1] - period) <= period * 0.01) { regular++; }
+        }
+        const regularity = regular / (edges.length - 1);
+        if (regularity < 0.8) { continue; }
+        const score = regularity + (CLOCK_NAME_RE.test(leafName(path)) ? 1 : 0);
+        const rate = 1 / period;
+        if (!best || score > best.score + 1e-9 || (Math.abs(score - best.score) <= 1e-9 && rate > best.rate)) {
+            best = { path, score, rate };
+        }
+    }
+    if (!best) { return null; }
+
+    const resets = scalarNets(idx, p => RESET_NAME_RE.test(leafName(p)))
+        .sort((a, b) => a.length - b.length);
+    return resets.length > 0
+        ? { clock: best.path, edge: 'rising', reset: resets[0] }
+        : { clock: best.path, edge: 'rising' };
+}
+
+/**
+ * Build the cycle table for `spec`. Returns an error message when the clock
+ * or reset is not in the waveform.
+ */
+export function buildCycleTable(idx: WaveformIndex, spec: ClockSpec): CycleTable | string {
+    const edge = spec.edge ?? 'rising';
+    const clock = idx.resolveSignal(spec.clock);
+    if (clock === null) { return `Clock: ${idx.signalNotFound(spec.clock)}`; }
+    const edges = idx.getEdgeTimes(clock, edge);
+
+    if (!spec.reset) { return new CycleTable({ ...spec, clock, edge }, edges, null); }
+    const reset = idx.resolveSignal(spec.reset);
+    if (reset === null) { return `Reset: ${idx.signalNotFound(spec.reset)}`; }
+    const trace = idx.getTrace(reset);
+    if (!trace) { return `Reset signal "${reset}" has no recorded values.`; }
+    const resetActive = spec.resetActive ?? (ACTIVE_LOW_RESET_RE.test(leafName(reset)) ? 'low' : 'high');
+    const active = resetActive === 'high' ? 1 : 0;
+
+    // Release: the first change to the inactive level after reset was asserted
+    let asserted = false;
+    let release: number | null = null;
+    for (let i = 0; i < trace.length; i++) {
+        const level = levelOf(trace.rawAt(i));
+        if (level === active) {
+            asserted = true;
+        } else if (level !== null && asserted) {
+            release = trace.timeAt(i);
+            break;
+        }
+    }
+    return new CycleTable({ ...spec, clock, reset, edge, resetActive }, edges, release);
+}
+
+export interface CycleSample {
+    cycle: number;
+    time: number;
+    values: string[];
+}
+
+/** Index of the value sampled at an edge at `time`: the one just before it, or just after with `after`. */
+function sampleIndex(trace: SignalTrace, time: number, after: boolean): number {
+    return after ? trace.upperBound(time) - 1 : trace.lowerBound(time) - 1;
+}
+
+/**
+ * Values of `signals` at each active edge from `cycleStart` to `cycleEnd`,
+ * one page of rows at a time. By default each value is the one just before
+ * the edge — what a flip-flop clocked by it captures; `after` samples the
+ * value right after the edge. With `changesOnly`, cycles where no sampled
+ * value changed are skipped.
+ */
+export function sampleOnClock(
+    idx: WaveformIndex,
+    table: CycleTable,
+    signals: string[],
+    cycleStart: number,
+    cycleEnd: number,
+    options: { sample?: 'before' | 'after'; changesOnly?: boolean } & PageRequest = {},
+): Page<CycleSample> {
+    const offset = Math.max(0, Math.floor(options.offset ?? 0));
+    const limit = options.limit ?? PAGE_SIZE.cycles;
+    const after = options.sample === 'after';
+    const traces = signals.map(s => idx.getTrace(s));
+    const items: CycleSample[] = [];
+    let total = 0;
+    let previous: (number | undefined)[] | null = null;
+    const first = Math.max(cycleStart, table.firstCycle);
+    const last = Math.min(cycleEnd, table.lastCycle);
+    for (let cycle = first; cycle <= last; cycle++) {
+        const time = table.cycleToTime(cycle)!;
+        const at = traces.map(trace => trace ? sampleIndex(trace, time, after) : -1);
+        // Compare value codes so rows outside the page are never formatted
+        const codes = at.map((i, k) => i >= 0 ? traces[k]!.codeAt(i) : undefined);
+        const changed = !previous || codes.some((c, k) => c !== previous![k]);
+        previous = codes;
+        if (options.changesOnly && !changed) { continue; }
+        if (total >= offset && items.length < limit) {
+            items.push({ cycle, time, values: at.map((i, k) => i >= 0 ? traces[k]!.valueAt(i) : 'x') });
+        }
+        total++;
+    }
+    return { items, offset, total };
+}
+
+/** Render a page of sampleOnClock() rows, one line per cycle. */
+export function formatCycleSamples(
+    table: CycleTable,
+    signals: string[],
+    page: Page<CycleSample>,
+    cycleStart: number,
+    cycleEnd: number,
+    cursor?: string,
+): string {
+    const header = `Sampled on ${table.clock} ${table.edge} edges, cycles ${cycleStart}..${cycleEnd}:`;
+    if (page.total === 0) { return `${header}\n  (no clock edges in range; cycles ${table.firstCycle}..${table.lastCycle} exist)`; }
+    return pageNote(page, 'Rows', cursor) + header + '\n' + page.items.map(r =>
+        `  cycle ${r.cycle} (t=${r.time}): ` + signals.map((s, k) => `${s}=${r.values[k]}`).join(', ')
+    ).join('\n');
+}
+
+/** summary mode of sample_on_clock: for each signal, how many cycles each sampled value persisted. */
+export function summarizeOnClock(
+    idx: WaveformIndex,
+    table: CycleTable,
+    signals: string[],
+    cycleStart: number,
+    cycleEnd: number,
+    sample?: 'before' | 'after',
+): string {
+    const header = `Sampled on ${table.clock} ${table.edge} edges, cycles ${cycleStart}..${cycleEnd}:`;
+    const first = Math.max(cycleStart, table.firstCycle);
+    const last = Math.min(cycleEnd, table.lastCycle);
+    if (last < first) { return `${header}\n  (no clock edges in range; cycles ${table.firstCycle}..${table.lastCycle} exist)`; }
+    const cycles = last - first + 1;
+    const lines = [`${header} ${cycles} cycles; run lengths in cycles per value.`];
+    for (const signal of signals) {
+        const trace = idx.getTrace(signal);
+        const runs = new RunLengths();
+        let code: number | undefined;
+        let value = '';
+        let length = 0;
+        let changes = 0;
+        for (let cycle = first; cycle <= last; cycle++) {
+            const i = trace ? sampleIndex(trace, table.cycleToTime(cycle)!, sample === 'after') : -1;
+            const c = i >= 0 ? trace!.codeAt(i) : undefined;
+            if (length > 0 && c === code) { length++; continue; }
+            if (length > 0) {
+                runs.add(value, length);
+                changes++;
+            }
+            code = c;
+            value = i >= 0 ? trace!.valueAt(i) : 'x';
+            length = 1;
+        }
+        runs.add(value, length);
+        const list = runs.list();
+        lines.push(`${signal}: ${changes} change${changes !== 1 ? 's' : ''}, ${list.length} distinct value${list.length !== 1 ? 's' : ''}`,
+            ...formatRunLengths(list, cycles, 'cycles'));
+    }
+    return lines.join('\n');
+}
@@ -0,0 +1,136 @@
+/*
+    Copyright (C) 2026 Andrew Capatina
+
+    This program is free software: you can redistribute it and/or modify
+    it under the terms of the GNU Affero General Public License as
+    published by the Free Software Foundation, either version 3 of the
+    License, or (at your option) any later version.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU Affero General Public License for more details.
+
+    You should have received a copy of the GNU Affero General Public License
+    along with this program.  If not, see <http://www.gnu.org/licenses/>.
+*/
+// Block decompressors used by the FST reader. zlib/gzip come from Node's
+// built-in zlib module; LZ4 and FastLZ have no Node equivalent, so the
+// (small) decoders live here.
+
+/**
+ * Decompress a raw LZ4 block (no frame header) into exactly `outLen` bytes.
+ */
+export function lz4DecompressBlock(src: Uint8Array, outLen: number): Buffer {
+    const out = Buffer.alloc(outLen);
+    let ip = 0;
+    let op = 0;
+    const end = src.length;
+
+    while (ip < end) {
+        const token = src[ip++];
+
+        // Literals
+        let litLen = token >> 4;
+        if (litLen === 15) {
+            let b: number;
+            do { b = src[ip++]; litLen += b; } while (b === 255 && ip < end);
+        }
+        if (ip + litLen > end || op + litLen > outLen) {
+            throw new Error('LZ4: literal run overflows buffer');
+        }
+        out.set(src.subarray(ip, ip + litLen), op);
+        ip += litLen;
+        op += litLen;
+        if (ip >= end) { break; } // last sequence has literals only
+
+        // Match
+        const offset = src[ip] | (src[ip + 1] << 8);
+        ip += 2;
+        if (offset === 0 || offset > op) {
+            throw new Error('LZ4: invalid match offset');
+        }
+        let matchLen = token & 15;
+        if (matchLen === 15) {
+            let b: number;
+            do { b = src[ip++]; matchLen += b; } while (b === 255 && ip < end);
+        }
+        matchLen += 4;
+        if (op + matchLen > outLen) {
+            throw new Error('LZ4: match overflows buffer');
+        }
+        // Byte-by-byte: matches may overlap their own output
+        let ref = op - offset;
+        for (let k = 0; k < matchLen; k++) { out[op++] = out[ref++]; }
+    }
+
+    if (op !== outLen) {
+        throw new Error(`LZ4: expected ${outLen} bytes, got ${op}`);
+    }
+    return out;
+}
+
+/**
+ * Decompress a FastLZ block (level 1 or 2, selected by the first byte)
+ * into exactly `outLen` bytes.
+ */
+export function fastlzDecompress(src: Uint8Array, outLen: number): Buffer {
+    const out = Buffer.alloc(outLen);
+    if (src.length === 0) { return out; }
+
+    const level = (src[0] >> 5) + 1;
+    if (level !== 1 && level !== 2) {
+        throw new Error(`FastLZ: unsupported level ${level}`);
+    }
+
+    let ip = 0;
+    let op = 0;
+    let ctrl = src[ip++] & 31;
+
+    for (;;) {
+        if (ctrl >= 32) {
+            let len = (ctrl >> 5) - 1;
+            let ofs = (ctrl & 31) << 8;
+            let ref = op - ofs - 1;
+
+            if (level === 1) {
+                if (len === 7 - 1) { len += src[ip++]; }
+                ref -= src[ip++];
+            } else {
+                if (len === 7 - 1) {
+                    let code: number;
+                    do { code = src[ip++]; len += code; } while (code === 255);
+                }
+                const code = src[ip++];
+                ref -= code;
+                // 16-bit distance escape
+                if (code === 255 && ofs === (31 << 8)) {
+                    ofs = (src[ip++] << 8) + src[ip++];
+                    ref = op - ofs - 8191 - 1;
+                }
+            }
+            len += 3;
+
+            if (ref < 0 || op + len > outLen) {
+                throw new Error('FastLZ: invalid back-reference');
+            }
+            for (let k = 0; k < len; k++) { out[op++] = out[ref++]; }
+        } else {
+            ctrl++;
+            if (op + ctrl > outLen || ip + ctrl > src.length) {
+                throw new Error('FastLZ: literal run overflows buffer');
+            }
+            out.set(src.subarray(ip, ip + ctrl), op);
+            ip += ctrl;
+            op += ctrl;
+        }
+
+        if (ip >= src.length) { break; }
+        ctrl = src[ip++];
+    }
+
+    if (op !== outLen) {
+        throw new Error(`FastLZ: expected ${outLen} bytes, got ${op}`);
+    }
+    return out;
+}
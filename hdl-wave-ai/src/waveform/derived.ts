@@ -0,0 +1,101 @@
+/*
+    Copyright (C) 2026 Andrew Capatina
+
+    This program is free software: you can redistribute it and/or modify
+    it under the terms of the GNU Affero General Public License as
+    published by the Free Software Foundation, either version 3 of the
+    License, or (at your option) any later version.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU Affero General Public License for more details.
+
+    You should have received a copy of the GNU Affero General Public License
+    along with this program.  If not, see <http://www.gnu.org/licenses/>.
+*/
+// Derived (virtual) signals: named expressions over recorded signals such
+// as "valid & ready", "{hi, lo}" or "data[15:8]". A derived signal's trace
+// is built on first use by re-evaluating the expression at every change
+// of the signals it reads, so every tool sees it like any other signal.
+import { Expr, ExprParser, SignalExpr, evaluate, exprIsString, exprSignals, exprWidth, signalResolver, signalValue, valueToRaw } from './expr';
+import { SignalTrace } from './trace';
+import type { SignalDescriptor, WaveformIndex } from './vcd';
+
+export interface DerivedSignal {
+    name: string;
+    /** Expression as written */
+    expression: string;
+    expr: Expr;
+    /** Result width in bits (1 for enumeration results) */
+    width: number;
+    /** True when the result is an enumeration name rather than bits */
+    isString: boolean;
+    /** Signals the expression reads */
+    sources: string[];
+}
+
+const NAME_RE = /^[A-Za-z_][\w$]*(?:\.[A-Za-z_][\w$]*)*$/;
+
+/**
+ * Parse `expression` as the definition of derived signal `name`. Signal
+ * names resolve as in check_property (full path or unique leaf name).
+ * Returns an error message for bad names or expressions.
+ */
+export function parseDerivedSignal(idx: WaveformIndex, name: string, expression: string): DerivedSignal | string {
+    if (!NAME_RE.test(name)) {
+        return `Invalid signal name "${name}": use letters, digits and underscores (dots for a scope).`;
+    }
+    let expr: Expr;
+    try {
+        expr = new ExprParser(expression, signalResolver(idx)).parseOnly();
+    } catch (err) {
+        return `Could not parse expression: ${err instanceof Error ? err.message : err}`;
+    }
+    const isString = exprIsString(expr);
+    return {
+        name,
+        expression: expression.trim(),
+        expr,
+        width: isString ? 1 : exprWidth(expr),
+        isString,
+        sources: [...exprSignals(expr)],
+    };
+}
+
+/** Evaluate a derived signal at every change of its sources. */
+export function buildDerivedTrace(idx: WaveformIndex, def: DerivedSignal): SignalTrace {
+    const sources = def.sources.map(s => idx.getTrace(s)!);
+    const cursor = new Map(def.sources.map(s => [s, -1]));
+    const traceOf = new Map(def.sources.map((s, i) => [s, sources[i]]));
+    const next = sources.map(() => 0);
+    const trace = new SignalTrace(def.width);
+    const sample = (e: SignalExpr) => {
+        const i = cursor.get(e.path)!;
+        return signalValue(e, i >= 0 ? traceOf.get(e.path)!.rawAt(i) : undefined);
+    };
+
+    // k-way merge of the source change times; evaluate once per distinct time
+    for (;;) {
+        let time = Infinity;
+        sources.forEach((t, k) => { if (next[k] < t.length) { time = Math.min(time, t.timeAt(next[k])); } });
+        if (time === Infinity) { break; }
+        sources.forEach((t, k) => {
+            while (next[k] < t.length && t.timeAt(next[k]) === time) { next[k]++; }
+            cursor.set(def.sources[k], next[k] - 1);
+        });
+        trace.push(time, valueToRaw(evaluate(def.expr, sample), def.width));
+    }
+    trace.compact();
+    return trace;
+}
+
+/** One-line confirmation for define_signal, with the new signal's activity. */
+export function formatDerivedSignal(idx: WaveformIndex, desc: SignalDescriptor): string {
+    const trace = idx.getTrace(desc.path);
+    const n = trace?.length ?? 0;
+    const type = desc.kind === 'string' ? 'enumeration' : `${desc.width} bit${desc.width !== 1 ? 's' : ''}`;
+    const activity = n === 0 ? 'no values (its sources never change)'
+        : `${n} value change${n !== 1 ? 's' : ''}, first ${trace!.valueAt(0)} at t=${trace!.timeAt(0)}`;
+    return `Defined ${desc.path} = ${desc.expression} (${type}): ${activity}. Use "${desc.path}" as a signal name in any tool.`;
+}
@@ -0,0 +1,253 @@
+/*
+    Copyright (C) 2026 Andrew Capatina
+
+    This program is free software: you can redistribute it and/or modify
+    it under the terms of the GNU Affero General Public License as
+    published by the Free Software Foundation, either version 3 of the
+    License, or (at your option) any later version.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU Affero General Public License for more details.
+
+    You should have received a copy of the GNU Affero General Public License
+    along with this program.  If not, see <http://www.gnu.org/licenses/>.
+*/
+// Compare two waveforms signal by signal, e.g. a failing run against a
+// known-good one. Signals are matched by hierarchical path after optional
+// prefix remapping; each matched pair is walked once over the merged change
+// times of both traces.
+import { SignalTrace } from './trace';
+import { WaveformIndex, timescaleSeconds } from './vcd';
+
+export interface WaveformDiffOptions {
+    /**
+     * Path prefixes of the compared waveform to rewrite before matching,
+     * e.g. { "tb_new.dut": "tb.dut" }. Prefixes match whole scope names.
+     */
+    prefixMap?: Record<string, string>;
+    /** Only compare these reference signals, resolved like other signal names (default: every signal). */
+    signals?: string[];
+    /** Comparison window (default: 0 to the earlier of the two end times). */
+    tStart?: number;
+    tEnd?: number;
+    /** Max divergences listed (default 50); counts always cover every signal. */
+    maxDivergences?: number;
+}
+
+export interface SignalDivergence {
+    /** Path in the reference waveform */
+    signal: string;
+    /** Path in the compared waveform, when remapping changed it */
+    comparedSignal?: string;
+    /** Start of the first interval where the values differ */
+    firstDivergence: number;
+    referenceValue: string;
+    comparedValue: string;
+    /** Number of separate intervals in which the values differ */
+    mismatchIntervals: number;
+    /** Total time the values differ within the window */
+    mismatchTime: number;
+    /** Set when the declared widths differ */
+    widths?: [number, number];
+}
+
+export interface WaveformDiff {
+    tStart: number;
+    tEnd: number;
+    /** Signal pairs compared (aliases of one net are compared once) */
+    compared: number;
+    identical: number;
+    /** Every diverging signal, earliest divergence first (see `divergences` for the listed ones) */
+    divergingCount: number;
+    divergences: SignalDivergence[];
+    onlyInReference: string[];
+    onlyInCompared: string[];
+}
+
+/** Value shown when a signal has no value yet at a time. */
+const NO_VALUE = '(no value)';
+
+/** Rewrite a path using the longest matching prefix in `map`. */
+function remapPath(path: string, prefixes: [string, string][]): string {
+    for (const [from, to] of prefixes) {
+        if (path === from) { return to; }
+        if (path.startsWith(from + '.')) { return to + path.slice(from.length); }
+    }
+    return path;
+}
+
+/** Index of the change in effect at `time` (-1 before the first change). */
+function indexAt(trace: SignalTrace, time: number): number {
+    return trace.upperBound(time) - 1;
+}
+
+/** Compare one pair of traces over [tStart, tEnd]. Returns null when they agree throughout. */
+function compareTraces(
+    ref: SignalTrace,
+    cmp: SignalTrace,
+    tStart: number,
+    tEnd: number,
+): Omit<SignalDivergence, 'signal' | 'comparedSignal' | 'widths'> | null {
+    let ia = indexAt(ref, tStart);
+    let ib = indexAt(cmp, tStart);
+    let time = tStart;
+    let first: { time: number; ia: number; ib: number } | null = null;
+    let intervals = 0;
+    let mismatchTime = 0;
+    let mismatchSince: number | null = null;
+
+    for (;;) {
+        const va = ia >= 0 ? ref.rawAt(ia) : null;
+        const vb = ib >= 0 ? cmp.rawAt(ib) : null;
+        const differ = va !== vb;
+        if (differ && mismatchSince === null) {
+            mismatchSince = time;
+            intervals++;
+            first ??= { time, ia, ib };
+        } else if (!differ && mismatchSince !== null) {
+            mismatchTime += time - mismatchSince;
+            mismatchSince = null;
+        }
+
+        const nextA = ia + 1 < ref.length ? ref.timeAt(ia + 1) : Infinity;
+        const nextB = ib + 1 < cmp.length ? cmp.timeAt(ib + 1) : Infinity;
+        const next = Math.min(nextA, nextB);
+        if (next > tEnd) { break; }
+        time = next;
+        // Advance past every change at this time (same-time changes settle to the last)
+        while (ia + 1 < ref.length && ref.timeAt(ia + 1) === next) { ia++; }
+        while (ib + 1 < cmp.length && cmp.timeAt(ib + 1) === next) { ib++; }
+    }
+    if (mismatchSince !== null) { mismatchTime += tEnd - mismatchSince; }
+    if (!first) { return null; }
+
+    return {
+        firstDivergence: first.time,
+        referenceValue: first.ia >= 0 ? ref.valueAt(first.ia) : NO_VALUE,
+        comparedValue: first.ib >= 0 ? cmp.valueAt(first.ib) : NO_VALUE,
+        mismatchIntervals: intervals,
+        mismatchTime,
+    };
+}
+
+/**
+ * Diff `compared` against `reference`. Values are compared exactly (as
+ * stored, so "0101" and "101" of the same width are equal, x and z are
+ * values like any other). Returns an error message for an unknown signal or
+ * when the two dumps use different timescales, whose times do not line up.
+ */
+export function diffWaveforms(
+    reference: WaveformIndex,
+    compared: WaveformIndex,
+    options: WaveformDiffOptions = {},
+): WaveformDiff | string {
+    if (!sameTimescale(reference.timescale, compared.timescale)) {
+        return `The waveforms use different timescales (reference ${reference.timescale}, compared ${compared.timescale}); `
+            + 're-dump one of them with the timescale of the other to compare them.';
+    }
+    let refSignals = reference.signals;
+    if (options.signals && options.signals.length > 0) {
+        const resolved = reference.resolveSignals(options.signals);
+        if (typeof resolved === 'string') { return resolved; }
+        refSignals = resolved;
+    }
+    const prefixes = Object.entries(options.prefixMap ?? {})
+        .sort((a, b) => b[0].length - a[0].length);
+    const tStart = options.tStart ?? 0;
+    const tEnd = options.tEnd ?? Math.min(reference.endTime, compared.endTime);
+    const maxDivergences = options.maxDivergences ?? 50;
+
+    // Compared-side paths as they appear after remapping → original path
+    const comparedPaths = new Map<string, string>();
+    for (const path of compared.signals) { comparedPaths.set(remapPath(path, prefixes), path); }
+
+    const onlyInReference: string[] = [];
+    const matched = new Set<string>();
+    const seenPairs = new Map<SignalTrace, Set<SignalTrace>>();
+    const divergences: SignalDivergence[] = [];
+    let comparedCount = 0;
+
+    for (const signal of refSignals) {
+        const ref = reference.getTrace(signal);
+        const cmpPath = comparedPaths.get(signal);
+        const cmp = cmpPath !== undefined ? compared.getTrace(cmpPath) : undefined;
+        if (!ref || !cmp || cmpPath === undefined) {
+            onlyInReference.push(signal);
+            continue;
+        }
+        matched.add(cmpPath);
+
+        // Aliases share traces: compare each net pair once
+        let pairs = seenPairs.get(ref);
+        if (!pairs) { pairs = new Set(); seenPairs.set(ref, pairs); }
+        if (pairs.has(cmp)) { continue; }
+        pairs.add(cmp);
+        comparedCount++;
+
+        const result = compareTraces(ref, cmp, tStart, tEnd);
+        if (!result) { continue; }
+        const wa = reference.getDescriptor(signal)?.width ?? ref.width;
+        const wb = compared.getDescriptor(cmpPath)?.width ?? cmp.width;
+        divergences.push({
+            signal,
+            ...(cmpPath !== signal ? { comparedSignal: cmpPath } : {}),
+            ...result,
+            ...(wa !== wb ? { widths: [wa, wb] as [number, number] } : {}),
+        });
+    }
+
+    divergences.sort((a, b) => a.firstDivergence - b.firstDivergence || a.signal.localeCompare(b.signal));
+    const onlyInCompared = refSignals !== reference.signals
+        ? []
+        : compared.signals.filter(p => !matched.has(p));
+
+    return {
+        tStart,
+        tEnd,
+        compared: comparedCount,
+        identical: comparedCount - divergences.length,
+        divergingCount: divergences.length,
+        divergences: divergences.slice(0, maxDivergences),
+        onlyInReference,
+        onlyInCompared,
+    };
+}
+
+/** Render a diff for a tool result: summary counts, then divergences in time order. */
+export function formatWaveformDiff(diff: WaveformDiff, referenceName: string, comparedName: string): string {
+    const lines = [
+        `Diff of ${comparedName} against reference ${referenceName} over [${diff.tStart}, ${diff.tEnd}]:`,
+        `  ${diff.compared} signals compared, ${diff.identical} identical, ${diff.divergingCount} diverge`,
+    ];
+    const listNames = (label: string, names: string[]) => {
+        if (names.length === 0) { return; }
+        const shown = names.slice(0, 20).join(', ');
+        lines.push(`  ${label} (${names.length}): ${shown}${names.length > 20 ? ', …' : ''}`);
+    };
+    listNames(`Only in ${referenceName}`, diff.onlyInReference);
+    listNames(`Only in ${comparedName}`, diff.onlyInCompared);
+
+    if (diff.divergingCount === 0) {
+        lines.push('', 'No divergences in the window.');
+        return lines.join('\n');
+    }
+    lines.push('', `Divergences, earliest first${diff.divergingCount > diff.divergences.length ? ` (first ${diff.divergences.length} of ${diff.divergingCount})` : ''}:`);
+    for (const d of diff.divergences) {
+        const name = d.comparedSignal ? `${d.signal} (${comparedName}: ${d.comparedSignal})` : d.signal;
+        const widths = d.widths ? ` [width ${d.widths[0]} vs ${d.widths[1]}]` : '';
+        lines.push(
+            `  t=${d.firstDivergence}: ${name}: ${referenceName}=${d.referenceValue}, ${comparedName}=${d.comparedValue}` +
+            ` — ${d.mismatchIntervals} mismatch interval${d.mismatchIntervals === 1 ? '' : 's'}, ${d.mismatchTime} time units${widths}`);
+    }
+    return lines.join('\n');
+}
+
+/** Whether two timescales have the same unit ("1ns" and "1 ns" do); unrecognised ones must match as text. */
+function sameTimescale(a: string, b: string): boolean {
+    const sa = timescaleSeconds(a);
+    const sb = timescaleSeconds(b);
+    if (sa === null || sb === null) { return a.replace(/\s+/g, '') === b.replace(/\s+/g, ''); }
+    return Math.abs(sa - sb) <= 1e-9 * Math.max(sa, sb);
+}
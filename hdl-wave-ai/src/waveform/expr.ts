@@ -0,0 +1,465 @@
+/*
+    Copyright (C) 2026 Andrew Capatina
+
+    This program is free software: you can redistribute it and/or modify
+    it under the terms of the GNU Affero General Public License as
+    published by the Free Software Foundation, either version 3 of the
+    License, or (at your option) any later version.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU Affero General Public License for more details.
+
+    You should have received a copy of the GNU Affero General Public License
+    along with this program.  If not, see <http://www.gnu.org/licenses/>.
+*/
+// Verilog-style expressions over waveform signals, shared by derived
+// signals and the assertion checker: operators, bit and part selects,
+// {…} concatenation, sized literals and a few system functions. Values are
+// unsigned bit vectors (x when any input bit is x/z) or, for enumeration
+// signals dumped as strings, their literal names.
+import { bitsOf } from './trace';
+import type { WaveformIndex } from './vcd';
+
+export type Expr =
+    | SignalExpr
+    | { k: 'num'; v: bigint | null; w: number; src: string }
+    | { k: 'str'; v: string; src: string }
+    | { k: 'un'; op: string; a: Expr; src: string }
+    | { k: 'bin'; op: string; a: Expr; b: Expr; src: string }
+    | { k: 'cond'; c: Expr; a: Expr; b: Expr; src: string }
+    | CallExpr
+    | { k: 'concat'; parts: Expr[]; src: string };
+
+/** A signal reference; `msb`/`lsb` are string positions of a part select (0 = leftmost bit). */
+export interface SignalExpr { k: 'sig'; path: string; width: number; isString: boolean; msb?: number; lsb?: number; src: string }
+
+export interface CallExpr { k: 'call'; fn: string; args: Expr[]; src: string }
+
+export type Value = { v: bigint | null; w: number } | { s: string };
+
+export interface SignalRef {
+    path: string;
+    width: number;
+    isString: boolean;
+    range?: string;
+}
+
+/** System functions that only look at the current value. */
+export const COMBINATIONAL_FUNCTIONS = ['$onehot', '$onehot0', '$isunknown', '$countones'];
+
+// ── Tokenizer ────────────────────────────────────────────────────────────────
+
+export interface Token {
+    kind: 'id' | 'sys' | 'num' | 'str' | 'op' | 'eof';
+    text: string;
+    pos: number;
+    end: number;
+}
+
+const OPERATORS = [
+    '|->', '|=>', '===', '!==', '[->', '[+]', '##', '[*', '[=', '==', '!=', '<=', '>=', '&&', '||', '<<', '>>',
+    '~&', '~|', '~^', '^~', '(', ')', '[', ']', '{', '}', ':', ',', '!', '~', '&', '|', '^', '+', '-', '*', '/', '%', '<', '>', '?', '@', '$',
+];
+
+export function tokenize(text: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+    while (i < text.length) {
+        const rest = text.slice(i);
+        const ws = /^\s+/.exec(rest);
+        if (ws) { i += ws[0].length; continue; }
+        const m =
+            /^(\d+\s*)?'[sS]?[bBoOdDhH]\s*[0-9a-fA-FxXzZ?_]+/.exec(rest) ?? /^\d[\d_]*/.exec(rest);
+        if (m) { tokens.push({ kind: 'num', text: m[0], pos: i, end: i + m[0].length }); i += m[0].length; continue; }
+        const sys = /^\$[a-z_][a-z0-9_]*/.exec(rest);
+        if (sys) { tokens.push({ kind: 'sys', text: sys[0], pos: i, end: i + sys[0].length }); i += sys[0].length; continue; }
+        const id = /^[A-Za-z_][\w$]*(?:\.[A-Za-z_][\w$]*)*/.exec(rest);
+        if (id) { tokens.push({ kind: 'id', text: id[0], pos: i, end: i + id[0].length }); i += id[0].length; continue; }
+        const str = /^"([^"]*)"/.exec(rest);
+        if (str) { tokens.push({ kind: 'str', text: str[1], pos: i, end: i + str[0].length }); i += str[0].length; continue; }
+        const op = OPERATORS.find(o => rest.startsWith(o));
+        if (!op) { throw new Error(`Unexpected character "${rest[0]}" at column ${i + 1}`); }
+        tokens.push({ kind: 'op', text: op, pos: i, end: i + op.length });
+        i += op.length;
+    }
+    tokens.push({ kind: 'eof', text: '', pos: text.length, end: text.length });
+    return tokens;
+}
+
+/** Value of a Verilog literal; null when it has x/z bits. */
+export function parseLiteral(text: string): { v: bigint | null; w: number } {
+    const t = text.replace(/[_\s]/g, '');
+    const based = /^(\d+)?'[sS]?([bBoOdDhH])(.+)$/.exec(t);
+    if (!based) { return { v: BigInt(t), w: 32 }; }
+    const radix = based[2].toLowerCase();
+    const digits = based[3];
+    const bitsPer = radix === 'b' ? 1 : radix === 'o' ? 3 : radix === 'h' ? 4 : 0;
+    const w = based[1] ? parseInt(based[1], 10) : Math.max(32, bitsPer * digits.length);
+    if (/[xXzZ?]/.test(digits)) { return { v: null, w }; }
+    const v = radix === 'd' ? BigInt(digits) : BigInt(`0${radix === 'h' ? 'x' : radix}${digits}`);
+    return { v: BigInt.asUintN(w, v), w };
+}
+
+// ── Parser ───────────────────────────────────────────────────────────────────
+
+/** Binary operator precedence, loosest first (Verilog order). */
+const BINARY_LEVELS = [['||'], ['&&'], ['|'], ['^', '~^', '^~'], ['&'], ['==', '!=', '===', '!=='], ['<', '<=', '>', '>='], ['<<', '>>'], ['+', '-'], ['*', '/', '%']];
+
+/**
+ * Recursive-descent parser for expressions. Subclasses (the property
+ * parser) add their own grammar on top and may allow more system functions
+ * or reserve keywords.
+ */
+export class ExprParser {
+    protected pos = 0;
+    protected readonly tokens: Token[];
+
+    constructor(
+        protected readonly text: string,
+        protected readonly resolve: (name: string) => SignalRef,
+        protected readonly systemFunctions: readonly string[] = COMBINATIONAL_FUNCTIONS,
+        protected readonly keywords: ReadonlySet<string> = new Set(),
+        /** What the text is, for error messages */
+        protected readonly what = 'expression',
+    ) {
+        this.tokens = tokenize(text);
+    }
+
+    /** Parse the whole text as one expression. */
+    parseOnly(): Expr {
+        const e = this.parseExpr();
+        if (this.peek().kind !== 'eof') { this.fail(this.peek(), `end of ${this.what}`); }
+        return e;
+    }
+
+    parseExpr(): Expr {
+        const start = this.peek().pos;
+        const c = this.parseBinary(0);
+        if (!this.accept('?')) { return c; }
+        const a = this.parseExpr();
+        this.expect(':');
+        const b = this.parseExpr();
+        return { k: 'cond', c, a, b, src: this.src(start) };
+    }
+
+    private parseBinary(level: number): Expr {
+        if (level >= BINARY_LEVELS.length) { return this.parseUnary(); }
+        const start = this.peek().pos;
+        let a = this.parseBinary(level + 1);
+        while (this.peek().kind === 'op' && BINARY_LEVELS[level].includes(this.peek().text)) {
+            const op = this.next().text;
+            const b = this.parseBinary(level + 1);
+            a = { k: 'bin', op, a, b, src: this.src(start) };
+        }
+        return a;
+    }
+
+    private parseUnary(): Expr {
+        const start = this.peek().pos;
+        const t = this.peek();
+        if (t.kind === 'op' && ['!', '~', '-', '&', '|', '^', '~&', '~|', '~^', '^~'].includes(t.text)) {
+            this.next();
+            return { k: 'un', op: t.text, a: this.parseUnary(), src: this.src(start) };
+        }
+        return this.parsePrimary();
+    }
+
+    private parsePrimary(): Expr {
+        const start = this.peek().pos;
+        const t = this.next();
+        if (t.kind === 'num') { return { k: 'num', ...parseLiteral(t.text), src: t.text }; }
+        if (t.kind === 'str') { return { k: 'str', v: t.text, src: this.src(start) }; }
+        if (t.kind === 'op' && t.text === '(') {
+            const e = this.parseExpr();
+            this.expect(')');
+            return e;
+        }
+        if (t.kind === 'op' && t.text === '{') {
+            const parts = [this.parseExpr()];
+            while (this.accept(',')) { parts.push(this.parseExpr()); }
+            this.expect('}');
+            return { k: 'concat', parts, src: this.src(start) };
+        }
+        if (t.kind === 'sys') {
+            if (!this.systemFunctions.includes(t.text)) {
+                throw new Error(`Unsupported system function ${t.text} (supported: ${this.systemFunctions.join(', ')})`);
+            }
+            this.expect('(');
+            const args = [this.parseExpr()];
+            while (this.accept(',')) { args.push(this.parseExpr()); }
+            this.expect(')');
+            return { k: 'call', fn: t.text, args, src: this.src(start) };
+        }
+        if (t.kind === 'id' && !this.keywords.has(t.text)) {
+            const sig = this.resolve(t.text);
+            const expr: SignalExpr = { k: 'sig', path: sig.path, width: sig.width, isString: sig.isString, src: t.text };
+            // Bit or part select, but not a repetition operator
+            if (this.peek().text === '[') {
+                this.next();
+                const hi = this.next();
+                if (hi.kind !== 'num') { this.fail(hi, 'a bit index'); }
+                let lo = hi;
+                if (this.accept(':')) {
+                    lo = this.next();
+                    if (lo.kind !== 'num') { this.fail(lo, 'a bit index'); }
+                }
+                this.expect(']');
+                const [declMsb, declLsb] = declaredRange(sig.range, sig.width);
+                const toPos = (bit: number) => declMsb >= declLsb ? declMsb - bit : bit - declMsb;
+                const msb = toPos(Number(parseLiteral(hi.text).v));
+                const lsb = toPos(Number(parseLiteral(lo.text).v));
+                if (Math.min(msb, lsb) < 0 || Math.max(msb, lsb) >= sig.width) { throw new Error(`Bit select out of range in "${this.src(start)}"`); }
+                return { ...expr, msb: Math.min(msb, lsb), lsb: Math.max(msb, lsb), src: this.src(start) };
+            }
+            return expr;
+        }
+        return this.fail(t, 'an expression');
+    }
+
+    // Helpers
+
+    protected peek(): Token {
+        return this.tokens[this.pos];
+    }
+
+    protected next(): Token {
+        const t = this.tokens[this.pos];
+        if (t.kind !== 'eof') { this.pos++; }
+        return t;
+    }
+
+    protected accept(text: string): boolean {
+        if (this.peek().kind === 'op' && this.peek().text === text) { this.pos++; return true; }
+        return false;
+    }
+
+    protected expect(text: string): void {
+        if (!this.accept(text)) { this.fail(this.peek(), `"${text}"`); }
+    }
+
+    protected expectWord(text: string): void {
+        if (this.peek().text !== text) { this.fail(this.peek(), `"${text}"`); }
+        this.next();
+    }
+
+    /** Source text from `start` to the end of the last consumed token. */
+    protected src(start: number): string {
+        const end = this.pos > 0 ? this.tokens[this.pos - 1].end : start;
+        return this.text.slice(start, end).trim();
+    }
+
+    protected fail(t: Token, expected: string): never {
+        throw new Error(`Expected ${expected} at column ${t.pos + 1}, found ${t.kind === 'eof' ? `end of ${this.what}` : `"${t.text}"`}`);
+    }
+}
+
+/** [msb, lsb] of a declared range such as "[7:0]" or "[0:3]"; [width-1, 0] when absent. */
+function declaredRange(range: string | undefined, width: number): [number, number] {
+    const m = range ? /\[(-?\d+):(-?\d+)\]/.exec(range) : null;
+    return m ? [parseInt(m[1], 10), parseInt(m[2], 10)] : [width - 1, 0];
+}
+
+/**
+ * Resolve a signal name in `idx` (see WaveformIndex.resolveSignal). Throws
+ * the not-found message for unknown or ambiguous names.
+ */
+export function signalResolver(idx: WaveformIndex): (name: string) => SignalRef {
+    return (name: string) => {
+        const path = idx.resolveSignal(name) ?? name;
+        const trace = idx.getTrace(path);
+        if (!trace) { throw new Error(idx.signalNotFound(name)); }
+        const desc = idx.getDescriptor(path);
+        return { path, width: desc?.width ?? trace.width, isString: desc?.kind === 'string', range: desc?.range };
+    };
+}
+
+/** Every signal path an expression reads. */
+export function exprSignals(e: Expr, into = new Set<string>()): Set<string> {
+    switch (e.k) {
+        case 'sig': into.add(e.path); break;
+        case 'un': exprSignals(e.a, into); break;
+        case 'bin': exprSignals(e.a, into); exprSignals(e.b, into); break;
+        case 'cond': exprSignals(e.c, into); exprSignals(e.a, into); exprSignals(e.b, into); break;
+        case 'call': e.args.forEach(a => exprSignals(a, into)); break;
+        case 'concat': e.parts.forEach(p => exprSignals(p, into)); break;
+    }
+    return into;
+}
+
+/** Result width of an expression, matching what evaluate() produces (1 for strings). */
+export function exprWidth(e: Expr): number {
+    switch (e.k) {
+        case 'sig': return e.isString ? 1 : e.msb !== undefined ? e.lsb! - e.msb + 1 : e.width;
+        case 'num': return e.w;
+        case 'str': return 1;
+        case 'un': return e.op === '~' || e.op === '-' ? exprWidth(e.a) : 1;
+        case 'cond': return Math.max(exprWidth(e.a), exprWidth(e.b));
+        case 'call': return e.fn === '$countones' ? 32 : e.fn === '$past' ? exprWidth(e.args[0]) : 1;
+        case 'concat': return e.parts.reduce((w, p) => w + exprWidth(p), 0);
+        case 'bin': {
+            const a = exprWidth(e.a), b = exprWidth(e.b);
+            switch (e.op) {
+                case '&': case '|': case '^': case '~^': case '^~': case '+': case '-': case '/': case '%': return Math.max(a, b);
+                case '*': return a + b;
+                case '<<': case '>>': return a;
+                default: return 1;
+            }
+        }
+    }
+}
+
+/** Whether an expression yields enumeration names rather than bits. */
+export function exprIsString(e: Expr): boolean {
+    switch (e.k) {
+        case 'sig': return e.isString && e.msb === undefined;
+        case 'str': return true;
+        case 'cond': return exprIsString(e.a) || exprIsString(e.b);
+        case 'call': return e.fn === '$past' && exprIsString(e.args[0]);
+        default: return false;
+    }
+}
+
+// ── Evaluation ───────────────────────────────────────────────────────────────
+
+export const X1: Value = { v: null, w: 1 };
+
+export function bool(b: boolean): Value {
+    return { v: b ? 1n : 0n, w: 1 };
+}
+
+function mask(w: number): bigint {
+    return (1n << BigInt(w)) - 1n;
+}
+
+export function showValue(val: Value): string {
+    if ('s' in val) { return val.s; }
+    if (val.v === null) { return 'x'; }
+    return val.w > 1 ? `0x${val.v.toString(16)}` : val.v.toString();
+}
+
+/** Known-true, known-false or unknown (x). */
+export function truth(val: Value): boolean | null {
+    if ('s' in val) { return val.s.length > 0; }
+    return val.v === null ? null : val.v !== 0n;
+}
+
+/** Value of a signal reference given the raw trace value (undefined before its first change). */
+export function signalValue(e: SignalExpr, raw: string | undefined): Value {
+    if (e.isString && e.msb === undefined) { return { s: raw ?? '' }; }
+    // Sampled (VaporView) contexts store formatted values such as "0101 (0x5)"
+    let bits = raw !== undefined ? bitsOf(raw) : 'x';
+    if (bits.length < e.width) { bits = bits.padStart(e.width, /^[xz]/.test(bits) ? bits[0] : '0'); }
+    if (e.msb !== undefined) { bits = bits.slice(e.msb, e.lsb! + 1); }
+    return /^[01]+$/.test(bits) ? { v: BigInt('0b' + bits), w: bits.length } : { v: null, w: bits.length };
+}
+
+/** Raw trace value for a result: a bit string of `width`, or the name for enumeration results. */
+export function valueToRaw(val: Value, width: number): string {
+    if ('s' in val) { return val.s; }
+    if (val.v === null) { return 'x'.repeat(width); }
+    return val.v.toString(2).padStart(width, '0').slice(-width);
+}
+
+/**
+ * Evaluate an expression. `sample` supplies signal values; `call` may
+ * handle system functions that need more than the current value ($past,
+ * $rose, …) and returns undefined for the rest.
+ */
+export function evaluate(e: Expr, sample: (e: SignalExpr) => Value, call?: (e: CallExpr) => Value | undefined): Value {
+    const ev = (x: Expr) => evaluate(x, sample, call);
+    switch (e.k) {
+        case 'sig': return sample(e);
+        case 'num': return { v: e.v, w: e.w };
+        case 'str': return { s: e.v };
+        case 'cond': {
+            const c = truth(ev(e.c));
+            return c === null ? X1 : ev(c ? e.a : e.b);
+        }
+        case 'call': return call?.(e) ?? evalFunction(e.fn, ev(e.args[0]));
+        case 'concat': {
+            let v: bigint | null = 0n, w = 0;
+            for (const part of e.parts) {
+                const p = ev(part);
+                if ('s' in p) { return X1; }
+                v = v === null || p.v === null ? null : (v << BigInt(p.w)) | p.v;
+                w += p.w;
+            }
+            return { v, w };
+        }
+        case 'un': return evalUnary(e.op, ev(e.a));
+        case 'bin': return evalBinary(e.op, ev(e.a), () => ev(e.b));
+    }
+}
+
+function evalFunction(fn: string, v: Value): Value {
+    if (fn === '$isunknown') { return bool(!('s' in v) && v.v === null); }
+    if ('s' in v || v.v === null) { return X1; }
+    const ones = v.v.toString(2).replace(/0/g, '').length;
+    if (fn === '$countones') { return { v: BigInt(ones), w: 32 }; }
+    return bool(fn === '$onehot' ? ones === 1 : ones <= 1);
+}
+
+function evalUnary(op: string, a: Value): Value {
+    if (op === '!') { const t = truth(a); return t === null ? X1 : bool(!t); }
+    if ('s' in a || a.v === null) { return { v: null, w: 's' in a ? 1 : a.w }; }
+    const ones = a.v.toString(2).replace(/0/g, '').length;
+    switch (op) {
+        case '~': return { v: ~a.v & mask(a.w), w: a.w };
+        case '-': return { v: -a.v & mask(a.w), w: a.w };
+        case '&': return bool(ones === a.w);
+        case '~&': return bool(ones !== a.w);
+        case '|': return bool(ones > 0);
+        case '~|': return bool(ones === 0);
+        case '^': return bool(ones % 2 === 1);
+        default: return bool(ones % 2 === 0);
+    }
+}
+
+/** `rhs` is lazy so && and || short-circuit. */
+function evalBinary(op: string, a: Value, rhs: () => Value): Value {
+    if (op === '&&' || op === '||') {
+        const ta = truth(a);
+        if (op === '&&' && ta === false) { return bool(false); }
+        if (op === '||' && ta === true) { return bool(true); }
+        const tb = truth(rhs());
+        if (op === '&&') { return tb === false ? bool(false) : ta === null || tb === null ? X1 : bool(true); }
+        return tb === true ? bool(true) : ta === null || tb === null ? X1 : bool(false);
+    }
+    const b = rhs();
+    if ('s' in a || 's' in b) {
+        // Enumeration literals (GHW, SystemVerilog string dumps) compare by name
+        const sa = showValue(a), sb = showValue(b);
+        if (op === '==' || op === '===') { return bool(sa.toLowerCase() === sb.toLowerCase()); }
+        if (op === '!=' || op === '!==') { return bool(sa.toLowerCase() !== sb.toLowerCase()); }
+        return X1;
+    }
+    if (op === '===' || op === '!==') {
+        const same = a.v === b.v && (a.v !== null || a.w === b.w);
+        return bool(op === '===' ? same : !same);
+    }
+    const w = Math.max(a.w, b.w);
+    const relational = ['==', '!=', '<', '<=', '>', '>='].includes(op);
+    if (a.v === null || b.v === null) { return relational ? X1 : { v: null, w: op === '*' ? a.w + b.w : op === '<<' || op === '>>' ? a.w : w }; }
+    switch (op) {
+        case '==': return bool(a.v === b.v);
+        case '!=': return bool(a.v !== b.v);
+        case '<': return bool(a.v < b.v);
+        case '<=': return bool(a.v <= b.v);
+        case '>': return bool(a.v > b.v);
+        case '>=': return bool(a.v >= b.v);
+        case '&': return { v: a.v & b.v, w };
+        case '|': return { v: a.v | b.v, w };
+        case '^': return { v: a.v ^ b.v, w };
+        case '~^': case '^~': return { v: ~(a.v ^ b.v) & mask(w), w };
+        case '<<': return { v: (a.v << b.v) & mask(a.w), w: a.w };
+        case '>>': return { v: a.v >> b.v, w: a.w };
+        // Self-determined width as in Verilog: the carry out of the wider operand is dropped
+        case '+': return { v: (a.v + b.v) & mask(w), w };
+        case '-': return { v: (a.v - b.v) & mask(w), w };
+        case '*': return { v: (a.v * b.v) & mask(a.w + b.w), w: a.w + b.w };
+        case '/': return b.v === 0n ? { v: null, w } : { v: a.v / b.v, w };
+        default: return b.v === 0n ? { v: null, w } : { v: a.v % b.v, w };
+    }
+}
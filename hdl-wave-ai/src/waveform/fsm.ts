@@ -0,0 +1,418 @@
+/*
+    Copyright (C) 2026 Andrew Capatina
+
+    This program is free software: you can redistribute it and/or modify
+    it under the terms of the GNU Affero General Public License as
+    published by the Free Software Foundation, either version 3 of the
+    License, or (at your option) any later version.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU Affero General Public License for more details.
+
+    You should have received a copy of the GNU Affero General Public License
+    along with this program.  If not, see <http://www.gnu.org/licenses/>.
+*/
+// State machine extraction: find state registers (by RTL state encodings,
+// then by name) and build the state-transition graph observed in the
+// waveform, with visit counts and dwell times per state.
+import type { StateEncoding } from '../hdl/parser';
+import { formatHex, SignalTrace } from './trace';
+import type { WaveformIndex } from './vcd';
+
+export interface FsmOptions {
+    /** State registers to analyse (default: detected from encodings and names) */
+    signals?: string[];
+    /** State encodings found in the RTL, used to detect and name states */
+    encodings?: StateEncoding[];
+    tStart?: number;
+    tEnd?: number;
+    /** Max state machines reported when detecting (default 8) */
+    maxFsms?: number;
+}
+
+export interface FsmState {
+    /** State name from the encoding, else the value ("0x5"), or "x" */
+    name: string;
+    /** Encoded value, when known */
+    value?: number;
+    /** Whether the RTL encoding declares this state */
+    declared: boolean;
+    visits: number;
+    /** Time (or cycles, see FsmGraph.unit) spent in the state; the last visit is cut at tEnd */
+    totalDwell: number;
+    minDwell: number;
+    maxDwell: number;
+}
+
+export interface FsmTransition {
+    from: string;
+    to: string;
+    count: number;
+    firstTime: number;
+}
+
+export interface FsmGraph {
+    signal: string;
+    width: number;
+    /** How the register was recognised, e.g. "typedef enum state_t" or "name" */
+    detectedBy: string;
+    encoding?: StateEncoding;
+    /** Dwell unit: cycles of the known clock, else waveform time units */
+    unit: 'cycles' | 'time';
+    clock?: string;
+    tStart: number;
+    tEnd: number;
+    /** Visited states in order of first visit, then never-visited declared states */
+    states: FsmState[];
+    transitions: FsmTransition[];
+    /** Declared states never entered in the window */
+    unvisited: string[];
+    /** Visited values that the encoding does not declare */
+    undeclared: string[];
+    initial: string | null;
+    final: string | null;
+}
+
+/** Register names that look like state: state, fsm, cur_state, cs, ps, mode, phase, … */
+const STATE_NAME_RE = /state|fsm|(^|_)(st|cs|ps|mode|phase)(_|\d|$)/i;
+/** Next-state (combinational) copies, skipped when detecting */
+const NEXT_STATE_RE = /next|nxt|(^|_)ns(_|\d|$)/i;
+/** More distinct values than this is a counter or data, not a state register */
+const MAX_STATES = 64;
+const MAX_WIDTH = 32;
+
+function leafName(path: string): string {
+    return path.slice(path.lastIndexOf('.') + 1).replace(/\[[^\]]*\]$/, '');
+}
+
+/** Distinct raw values of a trace, or null when there are more than MAX_STATES. */
+function distinctValues(trace: SignalTrace): Set<string> | null {
+    const values = new Set<string>();
+    for (let i = 0; i < trace.length; i++) {
+        values.add(trace.rawAt(i));
+        if (values.size > MAX_STATES) { return null; }
+    }
+    return values;
+}
+
+/** Numeric value of a raw 0/1 vector, or null for x/z and non-logic values. */
+function rawNumber(raw: string): number | null {
+    return /^[01]+$/.test(raw) ? parseInt(raw, 2) : null;
+}
+
+/**
+ * How well an encoding fits a register: declared with it (2), or every
+ * known value observed is one of its states (1, when at least two are).
+ * Returns 0 when it does not fit.
+ */
+function encodingFit(encoding: StateEncoding, leaf: string, values: Set<string>, isString: boolean): number {
+    const declared = encoding.signals.includes(leaf) ? 2 : 0;
+    let known = 0, matched = 0;
+    for (const raw of values) {
+        if (isString) {
+            known++;
+            if (encoding.states.some(s => s.name.toLowerCase() === raw.toLowerCase())) { matched++; }
+        } else {
+            const n = rawNumber(raw);
+            if (n === null) { continue; }
+            known++;
+            if (encoding.states.some(s => s.value === n)) { matched++; }
+        }
+    }
+    const subset = known > 0 && matched === known && matched >= 2 ? 1 : 0;
+    return declared + subset;
+}
+
+interface Candidate {
+    signal: string;
+    encoding?: StateEncoding;
+    detectedBy: string;
+}
+
+/** State registers in the waveform, one path per net, best evidence first. */
+function detectStateRegisters(idx: WaveformIndex, encodings: StateEncoding[]): (Candidate & { score: number })[] {
+    const byTrace = new Map<SignalTrace, Candidate & { score: number }>();
+    for (const signal of idx.signals) {
+        const trace = idx.getTrace(signal);
+        if (!trace || trace.length < 2) { continue; }
+        const desc = idx.getDescriptor(signal);
+        const kind = desc?.kind ?? 'logic';
+        if (kind !== 'logic' && kind !== 'string') { continue; }
+        const width = desc?.width ?? trace.width;
+        if (kind === 'logic' && (width < 2 || width > MAX_WIDTH)) { continue; }
+        const leaf = leafName(signal);
+        if (NEXT_STATE_RE.test(leaf)) { continue; }
+        const values = distinctValues(trace);
+        if (!values || values.size < 2) { continue; }
+
+        let best: { encoding: StateEncoding; fit: number } | null = null;
+        for (const encoding of encodings) {
+            const fit = encodingFit(encoding, leaf, values, kind === 'string');
+            if (fit > 0 && (!best || fit > best.fit)) { best = { encoding, fit }; }
+        }
+        const named = STATE_NAME_RE.test(leaf);
+        // A value-set match alone also fits counters, so it needs a state-like name
+        if (!(best && best.fit >= 2) && !named) { continue; }
+        const candidate = best
+            ? { signal, encoding: best.encoding, detectedBy: `${best.encoding.source} ${best.encoding.name}`, score: best.fit + (named ? 1 : 0) }
+            : { signal, detectedBy: 'name', score: 0 };
+
+        const seen = byTrace.get(trace);
+        if (!seen || candidate.score > seen.score || (candidate.score === seen.score && signal.length < seen.signal.length)) {
+            byTrace.set(trace, candidate);
+        }
+    }
+    return [...byTrace.values()].sort((a, b) => b.score - a.score || a.signal.localeCompare(b.signal));
+}
+
+/** Walk one register's trace and build its transition graph. */
+function buildGraph(idx: WaveformIndex, candidate: Candidate, tStart: number, tEnd: number): FsmGraph {
+    const trace = idx.getTrace(candidate.signal)!;
+    const desc = idx.getDescriptor(candidate.signal);
+    const isString = desc?.kind === 'string';
+    const width = desc?.width ?? trace.width;
+    const encoding = candidate.encoding;
+    const table = idx.getCycleTable();
+
+    const byValue = new Map<number, string>();
+    const byName = new Map<string, { name: string; value: number }>();
+    for (const s of encoding?.states ?? []) {
+        if (!byValue.has(s.value)) { byValue.set(s.value, s.name); }
+        byName.set(s.name.toLowerCase(), s);
+    }
+
+    const states = new Map<string, FsmState>();
+    const stateFor = (raw: string): FsmState => {
+        let name: string, value: number | undefined, declared = false;
+        if (isString) {
+            const s = byName.get(raw.toLowerCase());
+            name = s?.name ?? raw;
+            value = s?.value;
+            declared = s !== undefined;
+        } else {
+            const n = rawNumber(raw);
+            if (n === null) {
+                name = /[01]/.test(raw) ? formatHex(raw, width) : 'x';
+            } else {
+                value = n;
+                declared = byValue.has(n);
+                name = byValue.get(n) ?? formatHex(raw, width);
+            }
+        }
+        let state = states.get(name);
+        if (!state) {
+            state = { name, value, declared, visits: 0, totalDwell: 0, minDwell: Infinity, maxDwell: 0 };
+            states.set(name, state);
+        }
+        return state;
+    };
+
+    const cycleOf = (time: number): number => table?.timeToCycle(time)?.cycle ?? (table ? table.firstCycle - 1 : 0);
+    const dwell = (start: number, end: number): number => table ? cycleOf(end) - cycleOf(start) : end - start;
+
+    const transitions = new Map<string, FsmTransition>();
+    let current: { state: FsmState; start: number } | null = null;
+    let initial: string | null = null;
+    const leave = (end: number) => {
+        if (!current) { return; }
+        const d = dwell(current.start, end);
+        current.state.totalDwell += d;
+        current.state.minDwell = Math.min(current.state.minDwell, d);
+        current.state.maxDwell = Math.max(current.state.maxDwell, d);
+    };
+
+    for (let i = Math.max(trace.upperBound(tStart) - 1, 0); i < trace.length; i++) {
+        const t = Math.max(trace.timeAt(i), tStart);
+        if (t > tEnd) { break; }
+        const state = stateFor(trace.rawAt(i));
+        if (current && current.state === state) { continue; }
+        if (current) {
+            leave(t);
+            const key = `${current.state.name}\u0000${state.name}`;
+            const tr = transitions.get(key);
+            if (tr) { tr.count++; } else { transitions.set(key, { from: current.state.name, to: state.name, count: 1, firstTime: t }); }
+        } else {
+            initial = state.name;
+        }
+        state.visits++;
+        current = { state, start: t };
+    }
+    leave(tEnd);
+    const final = current ? current.state.name : null;
+
+    const visited = [...states.values()];
+    const unvisited = (encoding?.states ?? []).filter(s => !states.has(isString ? s.name : (byValue.get(s.value) ?? s.name)));
+    const undeclared = encoding ? visited.filter(s => !s.declared && s.name !== 'x').map(s => s.name) : [];
+    return {
+        signal: candidate.signal,
+        width,
+        detectedBy: candidate.detectedBy,
+        encoding,
+        unit: table ? 'cycles' : 'time',
+        clock: table?.clock,
+        tStart,
+        tEnd,
+        states: [
+            ...visited,
+            ...unvisited.map(s => ({ name: s.name, value: s.value, declared: true, visits: 0, totalDwell: 0, minDwell: 0, maxDwell: 0 })),
+        ],
+        transitions: [...transitions.values()],
+        unvisited: unvisited.map(s => s.name),
+        undeclared,
+        initial,
+        final,
+    };
+}
+
+/**
+ * Extract state machines and their observed transition graphs. With
+ * `signals`, exactly those registers are analysed (named by the best-fitting
+ * encoding); otherwise state registers are detected from the encodings and
+ * from state-like names. Returns an error message when nothing is found.
+ */
+export function extractFsms(idx: WaveformIndex, options: FsmOptions = {}): FsmGraph[] | string {
+    const encodings = options.encodings ?? [];
+    const tStart = options.tStart ?? 0;
+    const tEnd = options.tEnd ?? idx.endTime;
+
+    let candidates: Candidate[];
+    if (options.signals && options.signals.length > 0) {
+        candidates = [];
+        for (const name of options.signals) {
+            const signal = idx.resolveSignal(name) ?? name;
+            const trace = idx.getTrace(signal);
+            if (!trace) { return idx.signalNotFound(name); }
+            const values = distinctValues(trace) ?? new Set<string>();
+            const isString = idx.getDescriptor(signal)?.kind === 'string';
+            let best: { encoding: StateEncoding; fit: number } | null = null;
+            for (const encoding of encodings) {
+                const fit = encodingFit(encoding, leafName(signal), values, isString);
+                if (fit > 0 && (!best || fit > best.fit)) { best = { encoding, fit }; }
+            }
+            candidates.push(best
+                ? { signal, encoding: best.encoding, detectedBy: `${best.encoding.source} ${best.encoding.name}` }
+                : { signal, detectedBy: 'requested' });
+        }
+    } else {
+        candidates = detectStateRegisters(idx, encodings).slice(0, options.maxFsms ?? 8);
+    }
+    if (candidates.length === 0) {
+        return encodings.length > 0
+            ? `No state registers found (${encodings.length} RTL state encodings checked). Pass the register with signals.`
+            : 'No state registers found and no RTL state encodings available. Pass the register with signals.';
+    }
+    return candidates.map(c => buildGraph(idx, c, tStart, tEnd));
+}
+
+/** Render one graph as text for tool results. */
+export function formatFsm(graph: FsmGraph): string {
+    const unit = graph.unit === 'cycles' ? ` cycles` : '';
+    const lines = [
+        `FSM ${graph.signal} (${graph.width > 1 ? `${graph.width} bits, ` : ''}detected by ${graph.detectedBy}), t=${graph.tStart}..${graph.tEnd}` +
+        (graph.unit === 'cycles' ? `, dwell in cycles of ${graph.clock}:` : ', dwell in time units:'),
+        `  Initial: ${graph.initial ?? '(no value)'}, final: ${graph.final ?? '(no value)'}`,
+        '  States:',
+    ];
+    for (const s of graph.states) {
+        const value = s.value !== undefined && graph.encoding ? ` = ${s.value}` : '';
+        if (s.visits === 0) {
+            lines.push(`    ${s.name}${value}: never visited`);
+            continue;
+        }
+        const avg = Math.round(s.totalDwell / s.visits * 100) / 100;
+        lines.push(`    ${s.name}${value}${graph.encoding && !s.declared && s.name !== 'x' ? ' (not in encoding)' : ''}: ${s.visits} visit${s.visits !== 1 ? 's' : ''}, ` +
+            `${s.totalDwell}${unit} total (avg ${avg}, min ${s.minDwell}, max ${s.maxDwell})`);
+    }
+    lines.push('  Transitions:');
+    if (graph.transitions.length === 0) { lines.push('    (none in window)'); }
+    for (const t of graph.transitions) {
+        lines.push(`    ${t.from} -> ${t.to}: ${t.count}x (first at t=${t.firstTime})`);
+    }
+    if (graph.unvisited.length > 0) { lines.push(`  Never visited (declared but unreached): ${graph.unvisited.join(', ')}`); }
+    if (graph.undeclared.length > 0) { lines.push(`  Values outside the encoding: ${graph.undeclared.join(', ')}`); }
+    const exits = new Set(graph.transitions.map(t => t.from));
+    const stuck = graph.states.filter(s => s.visits > 0 && !exits.has(s.name)).map(s => s.name);
+    if (stuck.length > 0) { lines.push(`  Never left: ${stuck.join(', ')}`); }
+    return lines.join('\n');
+}
+
+/** Mermaid stateDiagram for clients that render Markdown diagrams. */
+export function fsmToMermaid(graph: FsmGraph): string {
+    const ids = new Map(graph.states.map((s, i) => [s.name, `s${i}`]));
+    const lines = ['stateDiagram-v2'];
+    for (const s of graph.states) {
+        lines.push(`    state "${s.name.replace(/"/g, "'")}" as ${ids.get(s.name)}`);
+    }
+    if (graph.initial !== null) { lines.push(`    [*] --> ${ids.get(graph.initial)}`); }
+    for (const t of graph.transitions) {
+        lines.push(`    ${ids.get(t.from)} --> ${ids.get(t.to)}: ${t.count}`);
+    }
+    return lines.join('\n');
+}
+
+function escapeXml(text: string): string {
+    return text.replace(/[<>&"']/g, c => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;', '\'': '&#39;' }[c]!));
+}
+
+/**
+ * Render one graph as a self-contained SVG: states on a circle, transitions
+ * as curved arrows labelled with their counts. Never-visited states are
+ * dashed; the initial state has a double ring. Colours follow the VS Code
+ * theme variables when shown in a webview.
+ */
+export function fsmToSvg(graph: FsmGraph): string {
+    const n = graph.states.length;
+    const nodeR = 28;
+    const ringR = n <= 1 ? 0 : Math.max(90, (n * (nodeR * 2 + 24)) / (2 * Math.PI));
+    const size = Math.ceil(2 * (ringR + nodeR + 30));
+    const c = size / 2;
+    const pos = new Map(graph.states.map((s, i) => {
+        const a = -Math.PI / 2 + (2 * Math.PI * i) / Math.max(n, 1);
+        return [s.name, { x: c + ringR * Math.cos(a), y: c + ringR * Math.sin(a) }];
+    }));
+    const fg = 'var(--vscode-foreground, #333)';
+    const dim = 'var(--vscode-descriptionForeground, #888)';
+    const accent = 'var(--vscode-textLink-foreground, #3794ff)';
+    const f = (v: number) => v.toFixed(1);
+
+    const parts = [
+        `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${size} ${size}" width="${size}" height="${size}" font-family="sans-serif" font-size="11">`,
+        `<title>${escapeXml(`FSM ${graph.signal}`)}</title>`,
+        `<defs><marker id="fsm-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="7" markerHeight="7" orient="auto-start-reverse">` +
+        `<path d="M0,0 L10,5 L0,10 z" style="fill:${accent}"/></marker></defs>`,
+    ];
+    for (const t of graph.transitions) {
+        const a = pos.get(t.from)!, b = pos.get(t.to)!;
+        const dx = b.x - a.x, dy = b.y - a.y;
+        const len = Math.hypot(dx, dy) || 1;
+        // Bend to the right of the direction of travel so A→B and B→A do not overlap
+        const bend = Math.min(40, len / 3);
+        const ctrl = { x: (a.x + b.x) / 2 - (dy / len) * bend, y: (a.y + b.y) / 2 + (dx / len) * bend };
+        const trim = (p: { x: number; y: number }) => {
+            const ex = ctrl.x - p.x, ey = ctrl.y - p.y;
+            const el = Math.hypot(ex, ey) || 1;
+            return { x: p.x + (ex / el) * nodeR, y: p.y + (ey / el) * nodeR };
+        };
+        const p0 = trim(a), p2 = trim(b);
+        const label = { x: 0.25 * p0.x + 0.5 * ctrl.x + 0.25 * p2.x, y: 0.25 * p0.y + 0.5 * ctrl.y + 0.25 * p2.y };
+        parts.push(`<path d="M${f(p0.x)},${f(p0.y)} Q${f(ctrl.x)},${f(ctrl.y)} ${f(p2.x)},${f(p2.y)}" fill="none" style="stroke:${accent}" stroke-width="1.3" marker-end="url(#fsm-arrow)"/>`);
+        parts.push(`<text x="${f(label.x)}" y="${f(label.y)}" text-anchor="middle" dominant-baseline="middle" style="fill:${fg}">${t.count}</text>`);
+    }
+    for (const s of graph.states) {
+        const p = pos.get(s.name)!;
+        const stroke = s.visits === 0 ? dim : fg;
+        const dash = s.visits === 0 ? ' stroke-dasharray="4 3"' : '';
+        const name = s.name.length > 10 ? s.name.slice(0, 9) + '…' : s.name;
+        parts.push(`<g><title>${escapeXml(`${s.name}: ${s.visits} visits`)}</title>`);
+        parts.push(`<circle cx="${f(p.x)}" cy="${f(p.y)}" r="${nodeR}" fill="none" style="stroke:${stroke}" stroke-width="1.5"${dash}/>`);
+        if (s.name === graph.initial) {
+            parts.push(`<circle cx="${f(p.x)}" cy="${f(p.y)}" r="${nodeR - 4}" fill="none" style="stroke:${stroke}"/>`);
+        }
+        parts.push(`<text x="${f(p.x)}" y="${f(p.y - 3)}" text-anchor="middle" style="fill:${stroke}">${escapeXml(name)}</text>`);
+        parts.push(`<text x="${f(p.x)}" y="${f(p.y + 10)}" text-anchor="middle" font-size="9" style="fill:${dim}">×${s.visits}</text></g>`);
+    }
+    parts.push('</svg>');
+    return parts.join('');
+}
@@ -14,26 +14,44 @@
     You should have received a copy of the GNU Affero General Public License
     along with this program.  If not, see <http://www.gnu.org/licenses/>.
 */
-import { execFile } from 'child_process';
-import { promisify } from 'util';
+import { spawn } from 'child_process';
 import * as fs from 'fs';
-import { parseVcd, VcdParseResult } from './vcd';
+import { WaveformParseOptions } from './builder';
+import { isCacheDisabledByEnv, readIndexCache, writeIndexCache } from './cache';
+import { parseVcdStream, VcdParseResult } from './vcd';
+import { parseFstFile } from './fstReader';
+import { parseGhwFile } from './ghwReader';
 
-const execFileAsync = promisify(execFile);
+export type { WaveformParseOptions } from './builder';
 
 /**
- * Convert an FST file to VCD text using the fst2vcd command-line tool
- * (included with GTKWave: `sudo apt install gtkwave`).
+ * Convert an FST file to VCD with the fst2vcd command-line tool (included
+ * with GTKWave: `sudo apt install gtkwave`) and stream its output straight
+ * into the VCD parser. Only used as a fallback when the native reader
+ * rejects a file.
  */
-export async function fstToVcdText(fstPath: string): Promise<string> {
+export async function parseFstViaFst2vcd(fstPath: string, options: WaveformParseOptions = {}): Promise<VcdParseResult> {
+    const child = spawn('fst2vcd', [fstPath], { stdio: ['ignore', 'pipe', 'pipe'] });
+    let stderr = '';
+    child.stderr.on('data', (d: Buffer) => { stderr += d.toString(); });
+    const exited = new Promise<number | null>((resolve, reject) => {
+        child.on('error', reject);
+        child.on('close', resolve);
+    });
+    exited.catch(() => { /* surfaced when awaited below */ });
+    const onAbort = () => child.kill();
+    options.signal?.addEventListener('abort', onAbort);
+
     try {
-        const { stdout } = await execFileAsync('fst2vcd', [fstPath], {
-            maxBuffer: 200 * 1024 * 1024,  // 200 MB
-        });
-        if (!stdout) {
-            throw new Error('fst2vcd produced no output — the file may be empty or corrupt');
+        const result = await parseVcdStream(child.stdout, options);
+        // The time window may end parsing early; the rest of the output is not needed
+        const stoppedEarly = child.exitCode === null;
+        if (stoppedEarly) { child.kill(); }
+        const code = await exited;
+        if (!stoppedEarly && code !== 0) {
+            throw new Error(stderr.trim() || `exit code ${code}`);
         }
-        return stdout;
+        return result;
     } catch (err: unknown) {
         const e = err as { code?: string; message?: string };
         if (e.code === 'ENOENT') {
@@ -43,25 +61,76 @@ export async function fstToVcdText(fstPath: string): Promise<string> {
             );
         }
         throw new Error(`fst2vcd failed: ${e.message ?? String(err)}`);
+    } finally {
+        options.signal?.removeEventListener('abort', onAbort);
     }
 }
 
 /**
  * Parse a waveform file (.fst or .vcd) and return the structured result.
- * FST files are converted to VCD via fst2vcd before parsing.
+ * A full parse is served from the on-disk index cache when the file is
+ * unchanged since it was last parsed, and written to it otherwise.
  */
-export async function parseWaveformFile(filePath: string): Promise<VcdParseResult> {
+export async function parseWaveformFile(filePath: string, options: WaveformParseOptions = {}): Promise<VcdParseResult> {
+    const useCache = options.cache !== false && !isCacheDisabledByEnv()
+        && !options.signals && options.tStart === undefined && options.tEnd === undefined;
+    if (!useCache) { return parseWaveformFileUncached(filePath, options); }
+
+    const { mtimeMs, size } = await fs.promises.stat(filePath);
+    const cached = await readIndexCache(filePath, { mtimeMs, size });
+    if (cached) {
+        options.onProgress?.(size, size);
+        return cached;
+    }
+
+    const result = await parseWaveformFileUncached(filePath, options);
+    // Best effort, in the background: a failed write only costs a re-parse next time
+    writeIndexCache(filePath, { mtimeMs, size }, result).catch(err => {
+        options.onWarning?.(`Waveform index cache write failed: ${err instanceof Error ? err.message : String(err)}`);
+    });
+    return result;
+}
+
+/**
+ * Parse without the index cache.
+ * FST files are decoded natively; if that fails and GTKWave's fst2vcd is
+ * installed, the file is converted to VCD and parsed from there. GHW files
+ * (GHDL) are decoded natively. VCD and EVCD files are streamed, so memory is
+ * bounded by the retained value changes rather than the file size;
+ * `options` narrows those further.
+ */
+async function parseWaveformFileUncached(filePath: string, options: WaveformParseOptions): Promise<VcdParseResult> {
     const ext = filePath.toLowerCase();
 
     if (ext.endsWith('.fst')) {
-        const vcdText = await fstToVcdText(filePath);
-        return parseVcd(vcdText);
+        try {
+            return await parseFstFile(filePath, options);
+        } catch (nativeErr: unknown) {
+            if (options.signal?.aborted) { throw nativeErr; }
+            try {
+                return await parseFstViaFst2vcd(filePath, options);
+            } catch {
+                // fst2vcd missing or failed too — report the native error
+                const msg = nativeErr instanceof Error ? nativeErr.message : String(nativeErr);
+                throw new Error(`Failed to read FST file: ${msg}`);
+            }
+        }
+    }
+
+    if (ext.endsWith('.ghw')) {
+        return parseGhwFile(filePath, options);
     }
 
-    if (ext.endsWith('.vcd')) {
-        const vcdText = fs.readFileSync(filePath, 'utf8');
-        return parseVcd(vcdText);
+    // Extended VCD shares the VCD syntax; its port records are read by the same parser
+    if (ext.endsWith('.vcd') || ext.endsWith('.evcd')) {
+        const { size } = await fs.promises.stat(filePath);
+        const stream = fs.createReadStream(filePath, { highWaterMark: 1024 * 1024 });
+        try {
+            return await parseVcdStream(stream, options, size);
+        } finally {
+            stream.destroy();
+        }
     }
 
-    throw new Error(`Unsupported waveform format. Expected .fst or .vcd, got: ${filePath}`);
-}
\ No newline at end of file
+    throw new Error(`Unsupported waveform format. Expected .vcd, .fst, .ghw or .evcd, got: ${filePath}`);
+}
@@ -0,0 +1,683 @@
+/*
+    Copyright (C) 2026 Andrew Capatina
+
+    This program is free software: you can redistribute it and/or modify
+    it under the terms of the GNU Affero General Public License as
+    published by the Free Software Foundation, either version 3 of the
+    License, or (at your option) any later version.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU Affero General Public License for more details.
+
+    You should have received a copy of the GNU Affero General Public License
+    along with this program.  If not, see <http://www.gnu.org/licenses/>.
+*/
+// Native reader for GTKWave's FST format. Mirrors the block layout handled
+// by fstapi.c (fstReaderIterBlocks2): header, geometry, hierarchy, blackout
+// and value-change blocks, with zlib / LZ4 / FastLZ payload compression.
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { pipeline } from 'stream/promises';
+import { fastlzDecompress, lz4DecompressBlock } from './decompress';
+import { throwIfAborted, WaveformBuilder, WaveformParseOptions } from './builder';
+import { kindForVarType, ScopeDescriptor, SignalDescriptor, SignalDirection, VcdParseResult } from './vcd';
+
+// Block types
+const FST_BL_HDR = 0;
+const FST_BL_VCDATA = 1;
+const FST_BL_BLACKOUT = 2;
+const FST_BL_GEOM = 3;
+const FST_BL_HIER = 4;
+const FST_BL_VCDATA_DYN_ALIAS = 5;
+const FST_BL_HIER_LZ4 = 6;
+const FST_BL_HIER_LZ4DUO = 7;
+const FST_BL_VCDATA_DYN_ALIAS2 = 8;
+const FST_BL_ZWRAPPER = 254;
+
+// Hierarchy tags (values below FST_ST_GEN_ATTRBEGIN are variable types)
+const FST_ST_GEN_ATTRBEGIN = 252;
+const FST_ST_GEN_ATTREND = 253;
+const FST_ST_VCD_SCOPE = 254;
+const FST_ST_VCD_UPSCOPE = 255;
+
+/** Value characters for the 3-bit encoded non-0/1 states of 1-bit signals. */
+const FST_RCV_STR = 'xzhuwl-?';
+
+/** Geometry length marking a variable-length (string) signal. */
+const FST_VARLEN = 0xFFFFFFFF;
+
+const HDR_SECTION_LEN = 329;
+
+interface FstHeader {
+    startTime: bigint;
+    endTime: bigint;
+    /**
+     * Times are stored as offsets from this: 0n unless they exceed 2^53, when
+     * the builder picks it from the start time and the parse window.
+     */
+    timeOrigin: bigint;
+    /** True when doubles in the file are little-endian. */
+    doubleLE: boolean;
+    maxHandle: number;
+    timescale: string;
+}
+
+interface FstBlock {
+    type: number;
+    /** File offset of the 8-byte section length that follows the type byte. */
+    pos: number;
+    /** Section length, including the 8-byte length field itself. */
+    len: number;
+}
+
+/** FST variable type codes (fstVarType), indexed by the hierarchy tag. */
+const FST_VAR_TYPES = [
+    'event', 'integer', 'parameter', 'real', 'real_parameter', 'reg', 'supply0',
+    'supply1', 'time', 'tri', 'triand', 'trior', 'trireg', 'tri0', 'tri1', 'wand',
+    'wire', 'wor', 'port', 'sparray', 'realtime', 'string', 'bit', 'logic', 'int',
+    'shortint', 'longint', 'byte', 'enum', 'shortreal',
+];
+
+/** FST scope type codes (fstScopeType), as VCD/GTKWave name them. */
+const FST_SCOPE_TYPES = [
+    'module', 'task', 'function', 'begin', 'fork', 'generate', 'struct', 'union',
+    'class', 'interface', 'package', 'program', 'vhdl_architecture', 'vhdl_procedure',
+    'vhdl_function', 'vhdl_record', 'vhdl_process', 'vhdl_block', 'vhdl_for_generate',
+    'vhdl_if_generate', 'vhdl_generate', 'vhdl_package',
+];
+
+/** Port directions by fstVarDir code (implicit and linkage have none). */
+const FST_DIRECTIONS: (SignalDirection | undefined)[] = [undefined, 'input', 'output', 'inout', 'output'];
+
+/** Sequential reader over an in-memory section. */
+class ByteReader {
+    pos = 0;
+    constructor(readonly buf: Buffer) {}
+
+    get remaining(): number { return this.buf.length - this.pos; }
+
+    u8(): number { return this.buf[this.pos++]; }
+
+    u64Big(): bigint {
+        const v = this.buf.readBigUInt64BE(this.pos);
+        this.pos += 8;
+        return v;
+    }
+
+    u64(): number {
+        const v = this.buf.readBigUInt64BE(this.pos);
+        this.pos += 8;
+        return Number(v);
+    }
+
+    /** Unsigned LEB128. */
+    varint(): number {
+        let result = 0;
+        let mul = 1;
+        let b: number;
+        do {
+            b = this.buf[this.pos++];
+            result += (b & 0x7f) * mul;
+            mul *= 128;
+        } while (b & 0x80);
+        return result;
+    }
+
+    /** Unsigned LEB128 as bigint, for values that may exceed 2^53. */
+    varintBig(): bigint {
+        let result = 0n;
+        let shift = 0n;
+        let b: number;
+        do {
+            b = this.buf[this.pos++];
+            result |= BigInt(b & 0x7f) << shift;
+            shift += 7n;
+        } while (b & 0x80);
+        return result;
+    }
+
+    /** Signed LEB128. */
+    svarint(): number {
+        let result = 0;
+        let mul = 1;
+        let b: number;
+        do {
+            b = this.buf[this.pos++];
+            result += (b & 0x7f) * mul;
+            mul *= 128;
+        } while (b & 0x80);
+        if (b & 0x40) { result -= mul; }
+        return result;
+    }
+
+    /** NUL-terminated string. */
+    zstr(): string {
+        const end = this.buf.indexOf(0, this.pos);
+        const stop = end < 0 ? this.buf.length : end;
+        const s = this.buf.toString('latin1', this.pos, stop);
+        this.pos = stop + 1;
+        return s;
+    }
+
+    bytes(n: number): Buffer {
+        const b = this.buf.subarray(this.pos, this.pos + n);
+        this.pos += n;
+        return b;
+    }
+}
+
+async function readAt(fh: fs.promises.FileHandle, pos: number, len: number): Promise<Buffer> {
+    const buf = Buffer.alloc(len);
+    const { bytesRead } = await fh.read(buf, 0, len, pos);
+    if (bytesRead !== len) {
+        throw new Error(`FST: unexpected end of file at offset ${pos}`);
+    }
+    return buf;
+}
+
+function timescaleFromExponent(exp: number): string {
+    const units = ['s', 'ms', 'us', 'ns', 'ps', 'fs', 'as', 'zs'];
+    const unitIdx = Math.ceil(-exp / 3);
+    if (unitIdx < 0 || unitIdx >= units.length) { return `1e${exp} s`; }
+    const magnitude = 10 ** (exp + unitIdx * 3);
+    return `${magnitude} ${units[unitIdx]}`;
+}
+
+/** Decompress a payload that is stored raw when its compressed size equals the uncompressed size. */
+function maybeInflate(data: Buffer, uncompressedLen: number): Buffer {
+    return data.length === uncompressedLen ? data : zlib.inflateSync(data);
+}
+
+function parseHeader(buf: Buffer): FstHeader {
+    const r = new ByteReader(buf);
+    const startTime = r.u64Big();
+    const endTime = r.u64Big();
+    // The writer stores e (2.718281828...) in its native byte order
+    const doubleLE = Math.abs(buf.readDoubleLE(r.pos) - Math.E) < 1e-12;
+    r.pos += 8;
+    r.u64(); // memory used by writer
+    r.u64(); // scope count
+    r.u64(); // var count
+    const maxHandle = r.u64();
+    r.u64(); // value-change section count
+    const exp = buf.readInt8(r.pos);
+    return { startTime, endTime, timeOrigin: 0n, doubleLE, maxHandle, timescale: timescaleFromExponent(exp) };
+}
+
+/** Parse geometry: per-handle bit length (0 = real, -1 = variable length string). */
+function parseGeometry(buf: Buffer, maxHandle: number): Int32Array {
+    const r = new ByteReader(buf);
+    const lens = new Int32Array(maxHandle);
+    for (let i = 0; i < maxHandle && r.remaining > 0; i++) {
+        const v = r.varint();
+        lens[i] = v === 0 ? 0 : v === FST_VARLEN ? -1 : v;
+    }
+    return lens;
+}
+
+/** A $dumpoff..$dumpon interval in stored time; `on` is Infinity when dumping never resumes. */
+interface FstBlackout {
+    off: number;
+    on: number;
+}
+
+/**
+ * Parse the blackout block: dump on/off events with times as deltas from the
+ * previous event. Consecutive events of the same kind are merged.
+ */
+function parseBlackouts(buf: Buffer, builder: WaveformBuilder): FstBlackout[] {
+    const r = new ByteReader(buf);
+    const count = r.varint();
+    const out: FstBlackout[] = [];
+    let time = 0n;
+    let dumping = true;
+    for (let i = 0; i < count && r.remaining > 0; i++) {
+        const active = r.u8() !== 0;
+        time += r.varintBig();
+        if (active === dumping) { continue; }
+        dumping = active;
+        if (active) { out[out.length - 1].on = builder.storedTime(time); } else { out.push({ off: builder.storedTime(time), on: Infinity }); }
+    }
+    return out;
+}
+
+interface FstHierarchy {
+    /** One descriptor per declared variable; aliases share a handle */
+    vars: Omit<SignalDescriptor, 'aliases'>[];
+    scopes: ScopeDescriptor[];
+}
+
+/** Parse the hierarchy into its variables and scopes. */
+function parseHierarchy(buf: Buffer): FstHierarchy {
+    const r = new ByteReader(buf);
+    const scopes: string[] = [];
+    const vars: Omit<SignalDescriptor, 'aliases'>[] = [];
+    const declaredScopes: ScopeDescriptor[] = [];
+    let nextHandle = 0;
+
+    while (r.remaining > 0) {
+        const tag = r.u8();
+        switch (tag) {
+            case FST_ST_VCD_SCOPE: {
+                const type = r.u8();
+                scopes.push(r.zstr());  // name
+                r.zstr();               // component
+                declaredScopes.push({ path: scopes.join('.'), type: FST_SCOPE_TYPES[type] ?? 'unknown' });
+                break;
+            }
+            case FST_ST_VCD_UPSCOPE:
+                scopes.pop();
+                break;
+            case FST_ST_GEN_ATTRBEGIN: {
+                r.u8();     // attr type
+                r.u8();     // subtype
+                r.zstr();   // name
+                r.varint(); // argument
+                break;
+            }
+            case FST_ST_GEN_ATTREND:
+                break;
+            default: {
+                // Variable: tag is the var type
+                const direction = FST_DIRECTIONS[r.u8()];
+                const rawName = r.zstr();
+                const width = r.varint();
+                const alias = r.varint();
+                const handle = alias === 0 ? nextHandle++ : alias - 1;
+                const rangeMatch = rawName.match(/^(.*?)\s*(\[[^\]]*\])$/);
+                const name = rangeMatch ? rangeMatch[1] : rawName;
+                const scope = scopes.join('.');
+                const varType = FST_VAR_TYPES[tag] ?? 'unknown';
+                const kind = kindForVarType(varType);
+                vars.push({
+                    path: scope ? `${scope}.${name}` : name,
+                    name,
+                    scope,
+                    varType,
+                    width: kind === 'real' ? 64 : width, // as VCD declares reals
+                    range: rangeMatch?.[2],
+                    kind,
+                    idCode: String(handle),
+                    ...(direction ? { direction } : {}),
+                });
+                break;
+            }
+        }
+    }
+    return { vars, scopes: declaredScopes };
+}
+
+async function readHierarchy(fh: fs.promises.FileHandle, block: FstBlock): Promise<FstHierarchy> {
+    const buf = await readAt(fh, block.pos + 8, block.len - 8);
+    const uclen = Number(buf.readBigUInt64BE(0));
+    let data: Buffer;
+    if (block.type === FST_BL_HIER) {
+        data = zlib.gunzipSync(buf.subarray(8));
+    } else if (block.type === FST_BL_HIER_LZ4) {
+        data = lz4DecompressBlock(buf.subarray(8), uclen);
+    } else {
+        const r = new ByteReader(buf);
+        r.pos = 8;
+        const midLen = r.varint();
+        data = lz4DecompressBlock(lz4DecompressBlock(buf.subarray(r.pos), midLen), uclen);
+    }
+    return parseHierarchy(data);
+}
+
+/** Build the chain table: per-handle [offset, length] of value-change data relative to vc_start. */
+function parseChainTable(
+    chain: Buffer,
+    blockType: number,
+    vcMaxHandle: number,
+    chainEnd: number,
+): { offsets: Float64Array; lengths: Float64Array } {
+    const offsets = new Float64Array(vcMaxHandle + 1);
+    const lengths = new Float64Array(vcMaxHandle + 1);
+    const r = new ByteReader(chain);
+    let idx = 0;
+    let pidx = 0;
+    let pval = 0;
+
+    if (blockType === FST_BL_VCDATA_DYN_ALIAS2) {
+        let prevAlias = 0;
+        while (r.remaining > 0 && idx <= vcMaxHandle) {
+            if (chain[r.pos] & 1) {
+                const shval = Math.floor(r.svarint() / 2);
+                if (shval > 0) {
+                    pval = offsets[idx] = pval + shval;
+                    if (idx) { lengths[pidx] = pval - offsets[pidx]; }
+                    pidx = idx++;
+                } else if (shval < 0) {
+                    offsets[idx] = 0;
+                    lengths[idx] = prevAlias = shval;
+                    idx++;
+                } else {
+                    offsets[idx] = 0;
+                    lengths[idx] = prevAlias;
+                    idx++;
+                }
+            } else {
+                const loopcnt = Math.floor(r.varint() / 2);
+                for (let i = 0; i < loopcnt; i++) { offsets[idx++] = 0; }
+            }
+        }
+    } else {
+        while (r.remaining > 0 && idx <= vcMaxHandle) {
+            const val = r.varint();
+            if (val === 0) {
+                offsets[idx] = 0;
+                lengths[idx] = -r.varint();
+                idx++;
+            } else if (val & 1) {
+                pval = offsets[idx] = pval + Math.floor(val / 2);
+                if (idx) { lengths[pidx] = pval - offsets[pidx]; }
+                pidx = idx++;
+            } else {
+                const loopcnt = Math.floor(val / 2);
+                for (let i = 0; i < loopcnt; i++) { offsets[idx++] = 0; }
+            }
+        }
+    }
+
+    offsets[idx] = chainEnd;
+    lengths[pidx] = chainEnd - offsets[pidx];
+
+    // Resolve aliases: a negative length with no offset points at another handle
+    for (let i = 0; i < idx; i++) {
+        const v = lengths[i];
+        if (v < 0 && offsets[i] === 0) {
+            const src = -v - 1;
+            if (src < i) {
+                offsets[i] = offsets[src];
+                lengths[i] = lengths[src];
+            }
+        }
+    }
+    return { offsets, lengths };
+}
+
+/** Receives decoded values for one handle, in time order. */
+type ValueSink = (handle: number, time: number, value: string) => void;
+
+/** Read the start and end time of a value-change block (as offsets from the time origin) without loading it. */
+async function readBlockTimes(fh: fs.promises.FileHandle, block: FstBlock, timeOrigin: bigint): Promise<[number, number]> {
+    const buf = await readAt(fh, block.pos + 8, 16);
+    return [Number(buf.readBigUInt64BE(0) - timeOrigin), Number(buf.readBigUInt64BE(8) - timeOrigin)];
+}
+
+/**
+ * Decode one value-change block, reporting the frame value and changes of
+ * every handle accepted by `wanted` to `emit`. A change at the block start
+ * time replaces that handle's frame value.
+ */
+async function readValueChangeBlock(
+    fh: fs.promises.FileHandle,
+    block: FstBlock,
+    hdr: FstHeader,
+    lens: Int32Array,
+    wanted: (handle: number) => boolean,
+    emit: ValueSink,
+): Promise<void> {
+    const buf = await readAt(fh, block.pos, block.len);
+    const r = new ByteReader(buf);
+    r.pos = 8;
+    const begTime = Number(r.u64Big() - hdr.timeOrigin);
+    r.u64(); // end time
+    r.u64(); // memory required for traversal
+
+    const readDouble = (b: Buffer, off: number) => hdr.doubleLE ? b.readDoubleLE(off) : b.readDoubleBE(off);
+
+    // ── Time table (trailer at the end of the block) ─────────────────────
+    const tsecUclen = Number(buf.readBigUInt64BE(block.len - 24));
+    const tsecClen = Number(buf.readBigUInt64BE(block.len - 16));
+    const tsecItems = Number(buf.readBigUInt64BE(block.len - 8));
+    const tsecStart = block.len - 24 - tsecClen;
+    const timeData = maybeInflate(buf.subarray(tsecStart, tsecStart + tsecClen), tsecUclen);
+    const times = new Float64Array(tsecItems);
+    {
+        const tr = new ByteReader(timeData);
+        let t = 0;
+        if (hdr.timeOrigin === 0n) {
+            for (let i = 0; i < tsecItems; i++) { t += tr.varint(); times[i] = t; }
+        } else {
+            // The first delta is absolute — accumulate exactly, then store offsets
+            let tb = 0n;
+            for (let i = 0; i < tsecItems; i++) { tb += tr.varintBig(); times[i] = Number(tb - hdr.timeOrigin); }
+        }
+    }
+
+    // ── Frame: values of every signal at the block start time ────────────
+    const frameUclen = r.varint();
+    const frameClen = r.varint();
+    const frameMaxHandle = r.varint();
+    const frame = maybeInflate(r.bytes(frameClen), frameUclen);
+    const frameValues: (string | undefined)[] = new Array(frameMaxHandle);
+    let off = 0;
+    for (let h = 0; h < frameMaxHandle; h++) {
+        const len = lens[h];
+        if (len < 0) { continue; } // variable-length signals have no frame entry
+        if (len === 0) { // real
+            if (wanted(h)) { frameValues[h] = String(readDouble(frame, off)); }
+            off += 8;
+        } else {
+            if (wanted(h)) { frameValues[h] = frame.toString('latin1', off, off + len); }
+            off += len;
+        }
+    }
+
+    // ── Value changes ────────────────────────────────────────────────────
+    const vcMaxHandle = r.varint();
+    const vcStart = r.pos;
+    const packType = String.fromCharCode(buf[vcStart]);
+
+    const chainClenPos = tsecStart - 8;
+    const chainClen = Number(buf.readBigUInt64BE(chainClenPos));
+    const indexPos = chainClenPos - chainClen;
+    const { offsets, lengths } = parseChainTable(
+        buf.subarray(indexPos, chainClenPos), block.type, vcMaxHandle, indexPos - vcStart,
+    );
+
+    const decodeChanges = (h: number): [number, string][] => {
+        const changes: [number, string][] = [];
+        if (h >= vcMaxHandle || !offsets[h] || lengths[h] <= 0) { return changes; }
+        const start = vcStart + offsets[h];
+        const raw = buf.subarray(start, start + lengths[h]);
+        const hr = new ByteReader(raw);
+        const destLen = hr.varint();
+        let data: Buffer;
+        if (destLen === 0) {
+            data = raw.subarray(hr.pos);
+        } else if (packType === '4') {
+            data = lz4DecompressBlock(raw.subarray(hr.pos), destLen);
+        } else if (packType === 'F') {
+            data = fastlzDecompress(raw.subarray(hr.pos), destLen);
+        } else {
+            data = zlib.inflateSync(raw.subarray(hr.pos));
+        }
+
+        const vr = new ByteReader(data);
+        const len = lens[h];
+        let tIdx = 0;
+        while (vr.remaining > 0) {
+            if (len === 1) {
+                const vli = vr.varint();
+                let ch: string;
+                if (!(vli & 1)) {
+                    tIdx += Math.floor(vli / 4);
+                    ch = (vli >> 1) & 1 ? '1' : '0';
+                } else {
+                    tIdx += Math.floor(vli / 16);
+                    ch = FST_RCV_STR[(vli >> 1) & 7];
+                }
+                changes.push([times[tIdx], ch]);
+            } else if (len < 0) {
+                tIdx += Math.floor(vr.varint() / 2);
+                const slen = vr.varint();
+                changes.push([times[tIdx], vr.bytes(slen).toString('latin1')]);
+            } else {
+                const vli = vr.varint();
+                tIdx += Math.floor(vli / 2);
+                if (len === 0) {
+                    // Real: binary double, or its text form when the low bit is set
+                    changes.push([times[tIdx], !(vli & 1)
+                        ? String(readDouble(vr.bytes(8), 0))
+                        : vr.bytes(8).toString('latin1')]);
+                } else if (!(vli & 1)) {
+                    // Bit-packed, MSB first
+                    const packed = vr.bytes((len + 7) >> 3);
+                    let bits = '';
+                    for (let j = 0; j < len; j++) {
+                        bits += (packed[j >> 3] >> (7 - (j & 7))) & 1 ? '1' : '0';
+                    }
+                    changes.push([times[tIdx], bits]);
+                } else {
+                    changes.push([times[tIdx], vr.bytes(len).toString('latin1')]);
+                }
+            }
+        }
+        return changes;
+    };
+
+    const maxHandle = Math.max(frameMaxHandle, vcMaxHandle);
+    for (let h = 0; h < maxHandle; h++) {
+        if (!wanted(h)) { continue; }
+        const changes = decodeChanges(h);
+        const frameValue = frameValues[h];
+        if (frameValue !== undefined && (changes.length === 0 || changes[0][0] !== begTime)) {
+            emit(h, begTime, frameValue);
+        }
+        for (const [time, value] of changes) { emit(h, time, value); }
+    }
+}
+
+/** Unwrap a gzip-compressed FST (FST_BL_ZWRAPPER) into a temporary file. */
+async function unwrapToTempFile(filePath: string, block: FstBlock): Promise<string> {
+    const tmp = path.join(os.tmpdir(), `hdl-wave-ai-${process.pid}-${Date.now()}.fst`);
+    await pipeline(
+        fs.createReadStream(filePath, { start: block.pos + 16, end: block.pos + block.len - 1 }),
+        zlib.createGunzip(),
+        fs.createWriteStream(tmp),
+    );
+    return tmp;
+}
+
+async function scanBlocks(fh: fs.promises.FileHandle, fileSize: number): Promise<FstBlock[]> {
+    const blocks: FstBlock[] = [];
+    let pos = 0;
+    const head = Buffer.alloc(9);
+    while (pos + 9 <= fileSize) {
+        await fh.read(head, 0, 9, pos);
+        const type = head[0];
+        const len = Number(head.readBigUInt64BE(1));
+        if (len === 0) { break; } // writer did not finish this block
+        blocks.push({ type, pos: pos + 1, len });
+        pos += 1 + len;
+    }
+    return blocks;
+}
+
+/**
+ * Parse an FST file natively and return the same shape as parseVcd.
+ * Blocks outside the requested time window are never read.
+ */
+export async function parseFstFile(filePath: string, options: WaveformParseOptions = {}): Promise<VcdParseResult> {
+    const fh = await fs.promises.open(filePath, 'r');
+    let tempPath: string | undefined;
+    try {
+        const { size } = await fh.stat();
+        const blocks = await scanBlocks(fh, size);
+
+        const wrapper = blocks.find(b => b.type === FST_BL_ZWRAPPER);
+        if (wrapper) {
+            tempPath = await unwrapToTempFile(filePath, wrapper);
+            return await parseFstFile(tempPath, options);
+        }
+
+        const hdrBlock = blocks.find(b => b.type === FST_BL_HDR);
+        if (!hdrBlock || hdrBlock.len !== HDR_SECTION_LEN) {
+            throw new Error('FST: missing or malformed header block');
+        }
+        const hdr = parseHeader(await readAt(fh, hdrBlock.pos + 8, hdrBlock.len - 8));
+
+        const geomBlock = blocks.find(b => b.type === FST_BL_GEOM);
+        if (!geomBlock) { throw new Error('FST: missing geometry block'); }
+        const geomBuf = await readAt(fh, geomBlock.pos + 8, geomBlock.len - 8);
+        const geomUclen = Number(geomBuf.readBigUInt64BE(0));
+        const maxHandle = Number(geomBuf.readBigUInt64BE(8));
+        const lens = parseGeometry(maybeInflate(geomBuf.subarray(16), geomUclen), maxHandle);
+
+        const hierBlock = blocks.find(b =>
+            b.type === FST_BL_HIER || b.type === FST_BL_HIER_LZ4 || b.type === FST_BL_HIER_LZ4DUO);
+        if (!hierBlock) { throw new Error('FST: missing hierarchy block'); }
+        const { vars, scopes } = await readHierarchy(fh, hierBlock);
+
+        // ── Value changes (each block is time-ordered per handle) ─────────────
+        const builder = new WaveformBuilder(options);
+        hdr.timeOrigin = builder.setTimeOrigin(hdr.startTime);
+        // Throws up front when the dump (or the window) spans more than 2^53 units
+        const endTime = builder.storedTime(hdr.endTime);
+        for (const s of scopes) { builder.declareScope(s.path, s.type); }
+        const keep = new Uint8Array(maxHandle);
+        const kinds: SignalDescriptor['kind'][] = new Array(maxHandle);
+        for (const v of vars) {
+            builder.declare(v);
+            const handle = Number(v.idCode);
+            if (handle >= maxHandle) { continue; }
+            kinds[handle] ??= v.kind;
+            if (builder.wants(v.path)) { keep[handle] = 1; }
+        }
+        const wanted = (handle: number) => keep[handle] === 1;
+
+        // Dumpoff sets logic signals to x as in VCD; values frozen in the
+        // frames of blocks that start during a blackout are dropped
+        const blackoutBlock = blocks.find(b => b.type === FST_BL_BLACKOUT);
+        const blackouts = blackoutBlock
+            ? parseBlackouts(await readAt(fh, blackoutBlock.pos + 8, blackoutBlock.len - 8), builder)
+            : [];
+        const nextBlackout = new Uint32Array(maxHandle);
+        const widthOf = (handle: number) => kinds[handle] === 'logic' ? Math.max(lens[handle], 1) : 1;
+        const blackoutUntil = (handle: number, time: number) => {
+            let k = nextBlackout[handle];
+            for (; k < blackouts.length && blackouts[k].off < time; k++) {
+                if (kinds[handle] === 'logic') { builder.add(String(handle), blackouts[k].off, 'x'.repeat(widthOf(handle)), widthOf(handle)); }
+            }
+            nextBlackout[handle] = k;
+            return k > 0 && time < blackouts[k - 1].on;
+        };
+        const emit: ValueSink = (handle, time, value) => {
+            if (blackouts.length > 0 && blackoutUntil(handle, time)) { return; }
+            builder.add(String(handle), time, value, widthOf(handle));
+        };
+
+        const vcBlocks = blocks.filter(b => b.type === FST_BL_VCDATA
+            || b.type === FST_BL_VCDATA_DYN_ALIAS || b.type === FST_BL_VCDATA_DYN_ALIAS2);
+        const spans = await Promise.all(vcBlocks.map(b => readBlockTimes(fh, b, hdr.timeOrigin)));
+        for (let i = 0; i < vcBlocks.length; i++) {
+            throwIfAborted(options.signal);
+            const block = vcBlocks[i];
+            const [begin, end] = spans[i];
+            if (builder.isPastWindow(begin)) { break; }
+            // A block entirely before the window can be skipped when the next
+            // block's frame already holds the values in effect at tStart
+            const nextBegin = i + 1 < spans.length ? spans[i + 1][0] : Infinity;
+            if (end >= builder.tStart || nextBegin > builder.tStart) {
+                await readValueChangeBlock(fh, block, hdr, lens, wanted, emit);
+            }
+            options.onProgress?.(block.pos + block.len, size);
+        }
+        if (blackouts.length > 0) {
+            for (let handle = 0; handle < maxHandle; handle++) {
+                if (wanted(handle)) { blackoutUntil(handle, Infinity); }
+            }
+        }
+
+        return builder.finish(endTime, hdr.timescale);
+    } finally {
+        await fh.close();
+        if (tempPath) { fs.promises.unlink(tempPath).catch(() => { /* ignore */ }); }
+    }
+}
@@ -0,0 +1,972 @@
+/*
+    Copyright (C) 2026 Andrew Capatina
+
+    This program is free software: you can redistribute it and/or modify
+    it under the terms of the GNU Affero General Public License as
+    published by the Free Software Foundation, either version 3 of the
+    License, or (at your option) any later version.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU Affero General Public License for more details.
+
+    You should have received a copy of the GNU Affero General Public License
+    along with this program.  If not, see <http://www.gnu.org/licenses/>.
+*/
+// Native reader for GHDL's GHW format. Mirrors libghw (ghwlib.c): string,
+// type, well-known-type and hierarchy sections, then a snapshot of every
+// basic signal followed by delta-encoded cycles of changed signals.
+//
+// VHDL composites are flattened the way GTKWave shows them: 1-D arrays of
+// bit / boolean / std_ulogic become one vector, other arrays and records
+// are split into `name(i)` and `name.field` elements.
+import * as fs from 'fs';
+import { throwIfAborted, WaveformBuilder, WaveformParseOptions } from './builder';
+import { ScopeDescriptor, SignalDescriptor, SignalDirection, SignalKind, VcdParseResult } from './vcd';
+
+const GHW_MAGIC = 'GHDLwave\n';
+
+// Hierarchy entry kinds (ghw_hie_kind)
+const HIE_EOH = 0;
+const HIE_BLOCK = 3;
+const HIE_GENERATE_IF = 4;
+const HIE_GENERATE_FOR = 5;
+const HIE_INSTANCE = 6;
+const HIE_PACKAGE = 7;
+const HIE_PROCESS = 13;
+const HIE_GENERIC = 14;
+const HIE_EOS = 15;
+const HIE_SIGNAL = 16;
+const HIE_PORT_IN = 17;
+const HIE_PORT_OUT = 18;
+const HIE_PORT_INOUT = 19;
+const HIE_PORT_BUFFER = 20;
+const HIE_PORT_LINKAGE = 21;
+
+// Type kinds (ghdl_rtik)
+const RTIK_TYPE_B2 = 22;
+const RTIK_TYPE_E8 = 23;
+const RTIK_TYPE_E32 = 24;
+const RTIK_TYPE_I32 = 25;
+const RTIK_TYPE_I64 = 26;
+const RTIK_TYPE_F64 = 27;
+const RTIK_TYPE_P32 = 28;
+const RTIK_TYPE_P64 = 29;
+const RTIK_TYPE_ARRAY = 31;
+const RTIK_TYPE_RECORD = 32;
+const RTIK_SUBTYPE_SCALAR = 34;
+const RTIK_SUBTYPE_ARRAY = 35;
+const RTIK_SUBTYPE_RECORD = 38;
+
+// Well-known enumeration types (ghw_wkt_type)
+const WKT_BOOLEAN = 1;
+const WKT_BIT = 2;
+const WKT_STD_ULOGIC = 3;
+
+/** std_ulogic literals in position order, as the VCD reader stores them. */
+const STD_ULOGIC_STATES = 'ux01zwlh-';
+
+
+/** Bytes consumed between progress reports (and abort checks). */
+const PROGRESS_INTERVAL = 1024 * 1024;
+
+interface GhwRange {
+    kind: number;
+    downto: boolean;
+    left: number;
+    right: number;
+}
+
+interface GhwEnumType {
+    kind: typeof RTIK_TYPE_B2 | typeof RTIK_TYPE_E8;
+    name: string;
+    lits: string[];
+    wkt: number;
+}
+
+interface GhwScalarType {
+    kind: typeof RTIK_TYPE_E32 | typeof RTIK_TYPE_I32 | typeof RTIK_TYPE_I64
+        | typeof RTIK_TYPE_F64 | typeof RTIK_TYPE_P32 | typeof RTIK_TYPE_P64;
+    name: string;
+}
+
+interface GhwSubtypeScalar {
+    kind: typeof RTIK_SUBTYPE_SCALAR;
+    name: string;
+    base: GhwType;
+    range: GhwRange;
+}
+
+interface GhwArrayType {
+    kind: typeof RTIK_TYPE_ARRAY;
+    name: string;
+    el: GhwType;
+    dims: GhwType[];
+}
+
+interface GhwSubtypeArray {
+    kind: typeof RTIK_SUBTYPE_ARRAY;
+    name: string;
+    base: GhwArrayType;
+    ranges: GhwRange[];
+    el: GhwType;
+    nbrScalars: number;
+}
+
+interface GhwRecordField {
+    name: string;
+    type: GhwType;
+}
+
+interface GhwRecordType {
+    kind: typeof RTIK_TYPE_RECORD | typeof RTIK_SUBTYPE_RECORD;
+    name: string;
+    fields: GhwRecordField[];
+    /** -1 while any field is unbounded */
+    nbrScalars: number;
+}
+
+type GhwType = GhwEnumType | GhwScalarType | GhwSubtypeScalar | GhwArrayType | GhwSubtypeArray | GhwRecordType;
+
+/** One flattened hierarchy leaf: a scalar, a vector or a composite element. */
+interface GhwLeaf {
+    desc: Omit<SignalDescriptor, 'aliases'>;
+    /** Basic signal numbers, left to right */
+    sigs: number[];
+}
+
+/** A read past the buffered bytes while more of the file is still unread. */
+class GhwUnderflow extends Error {
+    constructor() {
+        super('GHW: a value is longer than its type allows');
+    }
+}
+
+/**
+ * Sequential reader over the file. GHW has no block index, so the file is
+ * read front to back. `fill` loads bytes ahead asynchronously; the readers
+ * below only consume what is buffered.
+ */
+class GhwStream {
+    private buf = Buffer.alloc(0);
+    private pos = 0;
+    /** File offset of the next byte to read from disk */
+    private filePos = 0;
+    bigEndian = false;
+
+    constructor(private readonly fh: fs.promises.FileHandle, private readonly size: number) {}
+
+    /** Bytes consumed so far. */
+    get offset(): number {
+        return this.filePos - (this.buf.length - this.pos);
+    }
+
+    get atEnd(): boolean {
+        return this.offset >= this.size;
+    }
+
+    /** Position to come back to with `rewind`; valid until the next `fill`. */
+    get mark(): number {
+        return this.pos;
+    }
+
+    rewind(mark: number): void {
+        this.pos = mark;
+    }
+
+    /** Buffer at least `n` unread bytes, or the rest of the file if shorter. */
+    async fill(n: number): Promise<void> {
+        const want = Math.min(n, this.size - this.offset);
+        if (this.buf.length - this.pos >= want) { return; }
+        const rest = this.buf.subarray(this.pos);
+        const next = Buffer.allocUnsafe(Math.max(PROGRESS_INTERVAL, want));
+        rest.copy(next, 0);
+        let len = rest.length;
+        while (len < want) {
+            const { bytesRead } = await this.fh.read(next, len, next.length - len, this.filePos);
+            if (bytesRead === 0) { throw new Error(`GHW: unexpected end of file at offset ${this.filePos}`); }
+            len += bytesRead;
+            this.filePos += bytesRead;
+        }
+        this.buf = next.subarray(0, len);
+        this.pos = 0;
+    }
+
+    private need(n: number): void {
+        if (this.buf.length - this.pos >= n) { return; }
+        if (this.filePos < this.size) { throw new GhwUnderflow(); }
+        throw new Error(`GHW: unexpected end of file at offset ${this.offset}`);
+    }
+
+    u8(): number {
+        this.need(1);
+        return this.buf[this.pos++];
+    }
+
+    /** Section tag: three letters and a NUL, e.g. "HIE". */
+    tag(): string {
+        this.need(4);
+        const s = this.buf.toString('latin1', this.pos, this.pos + 3);
+        this.pos += 4;
+        return s;
+    }
+
+    bytes(n: number): Buffer {
+        this.need(n);
+        const b = this.buf.subarray(this.pos, this.pos + n);
+        this.pos += n;
+        return b;
+    }
+
+    i32(): number {
+        const b = this.bytes(4);
+        return this.bigEndian ? b.readInt32BE(0) : b.readInt32LE(0);
+    }
+
+    i64(): bigint {
+        const b = this.bytes(8);
+        return this.bigEndian ? b.readBigInt64BE(0) : b.readBigInt64LE(0);
+    }
+
+    f64(): number {
+        const b = this.bytes(8);
+        return this.bigEndian ? b.readDoubleBE(0) : b.readDoubleLE(0);
+    }
+
+    /** Unsigned LEB128. */
+    uleb(): number {
+        let result = 0;
+        let mul = 1;
+        let b: number;
+        do {
+            b = this.u8();
+            result += (b & 0x7f) * mul;
+            mul *= 128;
+        } while (b & 0x80);
+        return result;
+    }
+
+    /** Signed LEB128 (exact up to 2^53). */
+    sleb(): number {
+        let result = 0;
+        let mul = 1;
+        let b: number;
+        do {
+            b = this.u8();
+            result += (b & 0x7f) * mul;
+            mul *= 128;
+        } while (b & 0x80);
+        if (b & 0x40) { result -= mul; }
+        return result;
+    }
+
+    /** Signed LEB128 as bigint, for 64-bit values. */
+    slebBig(): bigint {
+        let result = 0n;
+        let shift = 0n;
+        let b: number;
+        do {
+            b = this.u8();
+            result |= BigInt(b & 0x7f) << shift;
+            shift += 7n;
+        } while (b & 0x80);
+        if (b & 0x40) { result -= 1n << shift; }
+        return result;
+    }
+
+    /** Four bytes that must be zero, as at the start of most sections. */
+    expectZero(section: string): void {
+        if (this.i32() !== 0) { throw new Error(`GHW: malformed ${section} section`); }
+    }
+
+    expectTag(expected: string): void {
+        const t = this.tag();
+        if (t !== expected) { throw new Error(`GHW: expected ${expected}, found "${t}"`); }
+    }
+}
+
+/** Read the string table. Each string shares a prefix with the previous one. */
+function readStrings(s: GhwStream): string[] {
+    s.expectZero('STR');
+    const count = s.i32();
+    s.i32(); // total size of the string contents
+    const table = ['<anon>'];
+    let prevLen = 0;
+    for (let i = 1; i <= count; i++) {
+        let str = table[i - 1].slice(0, prevLen);
+        let c: number;
+        // Text bytes are printable; a control byte ends the string and encodes the next prefix length
+        for (;;) {
+            c = s.u8();
+            if (c <= 31 || (c >= 128 && c <= 159)) { break; }
+            str += String.fromCharCode(c);
+        }
+        table.push(str);
+        prevLen = c & 0x1f;
+        let shift = 5;
+        while (c >= 128) {
+            c = s.u8();
+            prevLen |= (c & 0x1f) << shift;
+            shift += 5;
+        }
+    }
+    s.expectTag('EOS');
+    return table;
+}
+
+function readRange(s: GhwStream): GhwRange {
+    const t = s.u8();
+    const kind = t & 0x7f;
+    const downto = (t & 0x80) !== 0;
+    switch (kind) {
+        case RTIK_TYPE_B2:
+        case RTIK_TYPE_E8:
+            return { kind, downto, left: s.u8(), right: s.u8() };
+        case RTIK_TYPE_I32:
+        case RTIK_TYPE_P32:
+            return { kind, downto, left: s.sleb(), right: s.sleb() };
+        case RTIK_TYPE_I64:
+        case RTIK_TYPE_P64:
+            return { kind, downto, left: Number(s.slebBig()), right: Number(s.slebBig()) };
+        case RTIK_TYPE_F64:
+            return { kind, downto, left: s.f64(), right: s.f64() };
+        default:
+            throw new Error(`GHW: unsupported range kind ${kind}`);
+    }
+}
+
+function rangeLength(r: GhwRange): number {
+    const len = (r.downto ? r.left - r.right : r.right - r.left) + 1;
+    return len > 0 ? len : 0;
+}
+
+/** Number of basic signals in one value of `t`, or -1 for an unbounded array or record. */
+function scalarCount(t: GhwType): number {
+    switch (t.kind) {
+        case RTIK_TYPE_ARRAY:
+            return -1;
+        case RTIK_SUBTYPE_ARRAY:
+        case RTIK_TYPE_RECORD:
+        case RTIK_SUBTYPE_RECORD:
+            return t.nbrScalars;
+        default:
+            return 1;
+    }
+}
+
+function baseType(t: GhwType): GhwType {
+    if (t.kind === RTIK_SUBTYPE_SCALAR || t.kind === RTIK_SUBTYPE_ARRAY) { return baseType(t.base); }
+    return t;
+}
+
+function typeName(t: GhwType): string {
+    if (t.name && t.name !== '<anon>') { return t.name; }
+    if (t.kind === RTIK_SUBTYPE_SCALAR || t.kind === RTIK_SUBTYPE_ARRAY) { return typeName(t.base); }
+    return '<anon>';
+}
+
+/** Whether a scalar element reads as one logic bit (bit, boolean, std_ulogic). */
+function isBitLike(t: GhwType): boolean {
+    const b = baseType(t);
+    return (b.kind === RTIK_TYPE_B2 || b.kind === RTIK_TYPE_E8) && b.wkt !== 0;
+}
+
+class GhwTypeTable {
+    readonly types: GhwType[] = [];
+
+    constructor(private readonly strings: string[]) {}
+
+    str(s: GhwStream): string {
+        return this.strings[s.uleb()] ?? '';
+    }
+
+    typeId(s: GhwStream): GhwType {
+        const t = this.types[s.uleb() - 1];
+        if (!t) { throw new Error('GHW: reference to an undefined type'); }
+        return t;
+    }
+
+    read(s: GhwStream): void {
+        s.expectZero('TYP');
+        const count = s.i32();
+        for (let i = 0; i < count; i++) {
+            const kind = s.u8();
+            switch (kind) {
+                case RTIK_TYPE_B2:
+                case RTIK_TYPE_E8: {
+                    const name = this.str(s);
+                    const n = s.uleb();
+                    const lits: string[] = [];
+                    for (let j = 0; j < n; j++) { lits.push(this.str(s)); }
+                    this.types.push({ kind, name, lits, wkt: 0 });
+                    break;
+                }
+                case RTIK_TYPE_I32:
+                case RTIK_TYPE_I64:
+                case RTIK_TYPE_F64:
+                    this.types.push({ kind, name: this.str(s) });
+                    break;
+                case RTIK_TYPE_P32:
+                case RTIK_TYPE_P64: {
+                    const name = this.str(s);
+                    const units = s.uleb();
+                    for (let j = 0; j < units; j++) {
+                        s.uleb();     // unit name
+                        s.slebBig();  // unit value
+                    }
+                    this.types.push({ kind, name });
+                    break;
+                }
+                case RTIK_SUBTYPE_SCALAR: {
+                    const name = this.str(s);
+                    const base = this.typeId(s);
+                    this.types.push({ kind, name, base, range: readRange(s) });
+                    break;
+                }
+                case RTIK_TYPE_ARRAY: {
+                    const name = this.str(s);
+                    const el = this.typeId(s);
+                    const ndims = s.uleb();
+                    const dims: GhwType[] = [];
+                    for (let j = 0; j < ndims; j++) { dims.push(this.typeId(s)); }
+                    this.types.push({ kind, name, el, dims });
+                    break;
+                }
+                case RTIK_SUBTYPE_ARRAY: {
+                    const name = this.str(s);
+                    const base = this.typeId(s);
+                    this.types.push({ ...this.arraySubtype(s, base), name });
+                    break;
+                }
+                case RTIK_TYPE_RECORD: {
+                    const name = this.str(s);
+                    const n = s.uleb();
+                    const fields: GhwRecordField[] = [];
+                    let nbrScalars = 0;
+                    for (let j = 0; j < n; j++) {
+                        const field = { name: this.str(s), type: this.typeId(s) };
+                        fields.push(field);
+                        const c = scalarCount(field.type);
+                        nbrScalars = nbrScalars < 0 || c < 0 ? -1 : nbrScalars + c;
+                    }
+                    this.types.push({ kind, name, fields, nbrScalars });
+                    break;
+                }
+                case RTIK_SUBTYPE_RECORD: {
+                    const name = this.str(s);
+                    const base = this.typeId(s);
+                    this.types.push({ ...this.recordSubtype(s, base), name });
+                    break;
+                }
+                default:
+                    throw new Error(`GHW: unsupported type kind ${kind}`);
+            }
+        }
+        if (s.u8() !== 0) { throw new Error('GHW: malformed TYP section'); }
+    }
+
+    /** Well-known types: marks the enumerations that are bit, boolean or std_ulogic. */
+    readWellKnown(s: GhwStream): void {
+        s.expectZero('WKT');
+        for (;;) {
+            const wkt = s.u8();
+            if (wkt === 0) { break; }
+            const t = this.typeId(s);
+            if (t.kind === RTIK_TYPE_B2 || t.kind === RTIK_TYPE_E8) { t.wkt = wkt; }
+        }
+    }
+
+    private arraySubtype(s: GhwStream, base: GhwType): GhwSubtypeArray {
+        const arr = baseType(base);
+        if (arr.kind !== RTIK_TYPE_ARRAY) { throw new Error('GHW: array subtype of a non-array type'); }
+        const ranges: GhwRange[] = [];
+        let nbrScalars = 1;
+        for (let j = 0; j < arr.dims.length; j++) {
+            const r = readRange(s);
+            ranges.push(r);
+            nbrScalars *= rangeLength(r);
+        }
+        // An unbounded element type has its bounds written here
+        const el = scalarCount(arr.el) >= 0 ? arr.el : this.typeBounds(s, arr.el);
+        return { kind: RTIK_SUBTYPE_ARRAY, name: '', base: arr, ranges, el, nbrScalars: nbrScalars * scalarCount(el) };
+    }
+
+    private recordSubtype(s: GhwStream, base: GhwType): GhwRecordType {
+        if (base.kind !== RTIK_TYPE_RECORD && base.kind !== RTIK_SUBTYPE_RECORD) {
+            throw new Error('GHW: record subtype of a non-record type');
+        }
+        if (base.nbrScalars >= 0) {
+            return { kind: RTIK_SUBTYPE_RECORD, name: '', fields: base.fields, nbrScalars: base.nbrScalars };
+        }
+        const fields: GhwRecordField[] = [];
+        let nbrScalars = 0;
+        for (const f of base.fields) {
+            const type = scalarCount(f.type) >= 0 ? f.type : this.typeBounds(s, f.type);
+            fields.push({ name: f.name, type });
+            nbrScalars += scalarCount(type);
+        }
+        return { kind: RTIK_SUBTYPE_RECORD, name: '', fields, nbrScalars };
+    }
+
+    private typeBounds(s: GhwStream, base: GhwType): GhwType {
+        switch (base.kind) {
+            case RTIK_TYPE_ARRAY:
+            case RTIK_SUBTYPE_ARRAY:
+                return this.arraySubtype(s, base);
+            case RTIK_TYPE_RECORD:
+            case RTIK_SUBTYPE_RECORD:
+                return this.recordSubtype(s, base);
+            default:
+                throw new Error(`GHW: cannot bound type kind ${base.kind}`);
+        }
+    }
+}
+
+/** Read one value of scalar type `t` and render it as stored in traces. */
+function readValue(s: GhwStream, t: GhwType): string {
+    const b = baseType(t);
+    switch (b.kind) {
+        case RTIK_TYPE_B2:
+        case RTIK_TYPE_E8: {
+            const v = s.u8();
+            if (b.wkt === WKT_STD_ULOGIC) { return STD_ULOGIC_STATES[v] ?? 'x'; }
+            if (b.wkt === WKT_BIT || b.wkt === WKT_BOOLEAN) { return v ? '1' : '0'; }
+            return b.lits[v] ?? String(v);
+        }
+        case RTIK_TYPE_I32:
+        case RTIK_TYPE_P32:
+            return (s.sleb() >>> 0).toString(2).padStart(32, '0');
+        case RTIK_TYPE_I64:
+        case RTIK_TYPE_P64:
+            return BigInt.asUintN(64, s.slebBig()).toString(2).padStart(64, '0');
+        case RTIK_TYPE_F64:
+            return String(s.f64());
+        default:
+            throw new Error(`GHW: unsupported signal type kind ${b.kind}`);
+    }
+}
+
+/** Most bytes `readValue` consumes for one value of `t`. */
+function maxValueBytes(t: GhwType): number {
+    switch (baseType(t).kind) {
+        case RTIK_TYPE_I32:
+        case RTIK_TYPE_P32:
+            return 5;
+        case RTIK_TYPE_I64:
+        case RTIK_TYPE_P64:
+            return 10;
+        case RTIK_TYPE_F64:
+            return 8;
+        default:
+            return 1;
+    }
+}
+
+/** Read a generate-for iteration value and render it as VHDL would print the index. */
+function readIterationValue(s: GhwStream, t: GhwType): string {
+    const b = baseType(t);
+    switch (b.kind) {
+        case RTIK_TYPE_B2:
+        case RTIK_TYPE_E8: {
+            const v = s.u8();
+            return b.lits[v] ?? String(v);
+        }
+        case RTIK_TYPE_I32:
+        case RTIK_TYPE_P32:
+            return String(s.sleb());
+        case RTIK_TYPE_I64:
+        case RTIK_TYPE_P64:
+            return s.slebBig().toString();
+        case RTIK_TYPE_F64:
+            return String(s.f64());
+        default:
+            throw new Error(`GHW: unsupported generate index kind ${b.kind}`);
+    }
+}
+
+/** Width and value kind of a basic signal of scalar type `t`. */
+function scalarShape(t: GhwType): { width: number; kind: SignalKind } {
+    const b = baseType(t);
+    switch (b.kind) {
+        case RTIK_TYPE_B2:
+        case RTIK_TYPE_E8:
+            return b.wkt !== 0 ? { width: 1, kind: 'logic' } : { width: 1, kind: 'string' };
+        case RTIK_TYPE_I32:
+        case RTIK_TYPE_P32:
+            return { width: 32, kind: 'logic' };
+        case RTIK_TYPE_I64:
+        case RTIK_TYPE_P64:
+            return { width: 64, kind: 'logic' };
+        default:
+            return { width: 64, kind: 'real' };
+    }
+}
+
+/** Index labels of one array dimension, left to right: numbers, or literals for enum indices. */
+function indexLabels(range: GhwRange, indexType: GhwType): string[] {
+    const labels: string[] = [];
+    const step = range.downto ? -1 : 1;
+    const idx = baseType(indexType);
+    for (let i = 0, v = range.left; i < rangeLength(range); i++, v += step) {
+        labels.push(idx.kind === RTIK_TYPE_B2 || idx.kind === RTIK_TYPE_E8 ? (idx.lits[v] ?? String(v)) : String(v));
+    }
+    return labels;
+}
+
+/** Flatten a declared signal into leaves (see the file header). */
+function flattenSignal(
+    name: string,
+    type: GhwType,
+    sigs: number[],
+    scalarTypes: GhwType[],
+    emit: (name: string, type: GhwType, sigs: number[], range?: string) => void,
+): void {
+    if (type.kind === RTIK_SUBTYPE_ARRAY) {
+        const stride = scalarCount(type.el);
+        if (type.ranges.length === 1 && stride === 1 && isBitLike(type.el)) {
+            const r = type.ranges[0];
+            emit(name, type, sigs, `[${r.left}:${r.right}]`);
+            return;
+        }
+        // Row-major over every dimension
+        const dims = type.ranges.map((r, d) => indexLabels(r, type.base.dims[d]));
+        const total = dims.reduce((n, labels) => n * labels.length, 1);
+        for (let k = 0; k < total; k++) {
+            const parts: string[] = [];
+            let rest = k;
+            for (let d = dims.length - 1; d >= 0; d--) {
+                parts.unshift(dims[d][rest % dims[d].length]);
+                rest = Math.floor(rest / dims[d].length);
+            }
+            const off = k * stride;
+            flattenSignal(`${name}(${parts.join(',')})`, type.el, sigs.slice(off, off + stride),
+                scalarTypes.slice(off, off + stride), emit);
+        }
+        return;
+    }
+    if (type.kind === RTIK_TYPE_RECORD || type.kind === RTIK_SUBTYPE_RECORD) {
+        let off = 0;
+        for (const f of type.fields) {
+            const n = scalarCount(f.type);
+            flattenSignal(`${name}.${f.name}`, f.type, sigs.slice(off, off + n), scalarTypes.slice(off, off + n), emit);
+            off += n;
+        }
+        return;
+    }
+    emit(name, type, sigs);
+}
+
+/** Scalar element types of `t` in signal-number order. */
+function scalarTypesOf(t: GhwType, out: GhwType[] = []): GhwType[] {
+    if (t.kind === RTIK_SUBTYPE_ARRAY) {
+        const n = t.nbrScalars / Math.max(scalarCount(t.el), 1);
+        for (let i = 0; i < n; i++) { scalarTypesOf(t.el, out); }
+    } else if (t.kind === RTIK_TYPE_RECORD || t.kind === RTIK_SUBTYPE_RECORD) {
+        for (const f of t.fields) { scalarTypesOf(f.type, out); }
+    } else {
+        out.push(t);
+    }
+    return out;
+}
+
+const SCOPE_TYPES: Record<number, string> = {
+    [HIE_BLOCK]: 'block',
+    [HIE_GENERATE_IF]: 'if_generate',
+    [HIE_GENERATE_FOR]: 'for_generate',
+    [HIE_INSTANCE]: 'instance',
+    [HIE_PACKAGE]: 'package',
+    [HIE_GENERIC]: 'generic',
+};
+
+const PORT_DIRECTIONS: Record<number, SignalDirection | undefined> = {
+    [HIE_PORT_IN]: 'input',
+    [HIE_PORT_OUT]: 'output',
+    [HIE_PORT_INOUT]: 'inout',
+    [HIE_PORT_BUFFER]: 'output',
+};
+
+/**
+ * Read the design hierarchy. Returns the flattened leaves and the scalar
+ * type of every basic signal number that appears in them.
+ */
+function readHierarchy(s: GhwStream, table: GhwTypeTable): { leaves: GhwLeaf[]; sigTypes: (GhwType | undefined)[]; scopes: ScopeDescriptor[] } {
+    s.expectZero('HIE');
+    s.i32(); // scope count
+    s.i32(); // declared signal count
+    const nbrSigs = s.i32();
+    const sigTypes: (GhwType | undefined)[] = new Array(nbrSigs + 1);
+    const leaves: GhwLeaf[] = [];
+    const scopes: string[] = [];
+    const declaredScopes: ScopeDescriptor[] = [];
+
+    for (;;) {
+        const kind = s.u8();
+        if (kind === HIE_EOH) { break; }
+        if (kind === HIE_EOS) {
+            scopes.pop();
+            continue;
+        }
+        const name = table.str(s);
+        switch (kind) {
+            case HIE_PROCESS:
+                break;
+            case HIE_BLOCK:
+            case HIE_GENERATE_IF:
+            case HIE_INSTANCE:
+            case HIE_GENERIC:
+            case HIE_PACKAGE:
+                scopes.push(name);
+                declaredScopes.push({ path: scopes.join('.'), type: SCOPE_TYPES[kind] });
+                break;
+            case HIE_GENERATE_FOR:
+                // Iterations are named by their index value, e.g. "gen(3)"
+                scopes.push(`${name}(${readIterationValue(s, table.typeId(s))})`);
+                declaredScopes.push({ path: scopes.join('.'), type: SCOPE_TYPES[kind] });
+                break;
+            case HIE_SIGNAL:
+            case HIE_PORT_IN:
+            case HIE_PORT_OUT:
+            case HIE_PORT_INOUT:
+            case HIE_PORT_BUFFER:
+            case HIE_PORT_LINKAGE: {
+                const type = table.typeId(s);
+                const count = scalarCount(type);
+                if (count < 0) { throw new Error(`GHW: signal ${name} has an unbounded type`); }
+                const scalarTypes = scalarTypesOf(type);
+                const sigs: number[] = [];
+                for (let i = 0; i < count; i++) {
+                    const sig = s.uleb();
+                    if (sig === 0 || sig > nbrSigs) { throw new Error(`GHW: bad signal number ${sig}`); }
+                    sigs.push(sig);
+                    sigTypes[sig] ??= scalarTypes[i];
+                }
+                const scope = scopes.join('.');
+                const direction = PORT_DIRECTIONS[kind];
+                flattenSignal(name, type, sigs, scalarTypes, (leafName, leafType, leafSigs, range) => {
+                    const shape = range ? { width: leafSigs.length, kind: 'logic' as const } : scalarShape(leafType);
+                    leaves.push({
+                        sigs: leafSigs,
+                        desc: {
+                            path: scope ? `${scope}.${leafName}` : leafName,
+                            name: leafName,
+                            scope,
+                            varType: typeName(leafType),
+                            width: shape.width,
+                            range,
+                            kind: shape.kind,
+                            // Port maps reuse the actual's signal numbers, so connected nets alias
+                            idCode: leafSigs.join(','),
+                            ...(direction ? { direction } : {}),
+                        },
+                    });
+                });
+                break;
+            }
+            default:
+                throw new Error(`GHW: unsupported hierarchy entry kind ${kind}`);
+        }
+    }
+    return { leaves, sigTypes, scopes: declaredScopes };
+}
+
+/** Read the header and the definition sections, up to the end-of-hierarchy tag. */
+function readDefinitions(s: GhwStream): ReturnType<typeof readHierarchy> {
+    // ── Header ────────────────────────────────────────────────────────────────
+    const hdr = s.bytes(16);
+    if (hdr.toString('latin1', 0, GHW_MAGIC.length) !== GHW_MAGIC) {
+        throw new Error('Not a GHW file (bad magic)');
+    }
+    if (hdr[9] !== 16 || hdr[10] !== 0 || hdr[11] > 1) {
+        throw new Error(`GHW: unsupported format version ${hdr[10]}.${hdr[11]}`);
+    }
+    if (hdr[12] !== 1 && hdr[12] !== 2) { throw new Error('GHW: bad byte-order marker'); }
+    s.bigEndian = hdr[12] === 2;
+
+    // ── Definitions ───────────────────────────────────────────────────────────
+    let table: GhwTypeTable | null = null;
+    let hierarchy: ReturnType<typeof readHierarchy> | null = null;
+    for (let tag = s.tag(); tag !== 'EOH'; tag = s.tag()) {
+        switch (tag) {
+            case 'STR': table = new GhwTypeTable(readStrings(s)); break;
+            case 'TYP': requireTable(table).read(s); break;
+            case 'WKT': requireTable(table).readWellKnown(s); break;
+            case 'HIE': hierarchy = readHierarchy(s, requireTable(table)); break;
+            default: throw new Error(`GHW: unknown section "${tag}"`);
+        }
+    }
+    if (!hierarchy) { throw new Error('GHW: missing hierarchy'); }
+    return hierarchy;
+}
+
+/**
+ * Parse a GHW file into the same shape as the VCD and FST readers. Times
+ * are in femtoseconds, GHDL's resolution. The file is read sequentially
+ * without blocking reads; parsing yields to the event loop every
+ * PROGRESS_INTERVAL bytes so progress reports and cancellation get through.
+ */
+export async function parseGhwFile(filePath: string, options: WaveformParseOptions = {}): Promise<VcdParseResult> {
+    const fh = await fs.promises.open(filePath, 'r');
+    try {
+        const { size } = await fh.stat();
+        const s = new GhwStream(fh, size);
+
+        // ── Header and definitions ────────────────────────────────────────────
+        // Their size is not known up front: parse again from a larger buffer until they fit
+        let definitions: ReturnType<typeof readHierarchy> | undefined;
+        for (let want = PROGRESS_INTERVAL; !definitions; want *= 2) {
+            await s.fill(want);
+            const mark = s.mark;
+            try {
+                definitions = readDefinitions(s);
+            } catch (err) {
+                if (!(err instanceof GhwUnderflow)) { throw err; }
+                s.rewind(mark);
+            }
+        }
+        const { leaves, sigTypes, scopes } = definitions;
+
+        // ── Nets: one per distinct list of basic signals ──────────────────────
+        const builder = new WaveformBuilder(options);
+        for (const scope of scopes) { builder.declareScope(scope.path, scope.type); }
+        const nets = new Map<string, { sigs: number[]; width: number; keep: boolean }>();
+        for (const leaf of leaves) {
+            builder.declare(leaf.desc);
+            const wants = builder.wants(leaf.desc.path);
+            const net = nets.get(leaf.desc.idCode);
+            if (net) {
+                net.keep ||= wants;
+            } else {
+                const width = leaf.desc.kind === 'logic' ? leaf.desc.width : 1;
+                nets.set(leaf.desc.idCode, { sigs: leaf.sigs, width, keep: wants });
+            }
+        }
+        const netIds: string[] = [];
+        const netWidths: number[] = [];
+        const netSigs: number[][] = [];
+        const netsOfSig: number[][] = Array.from({ length: sigTypes.length }, () => []);
+        for (const [idCode, net] of nets) {
+            if (!net.keep) { continue; }
+            const n = netIds.length;
+            netIds.push(idCode);
+            netWidths.push(net.width);
+            netSigs.push(net.sigs);
+            for (const sig of net.sigs) { netsOfSig[sig].push(n); }
+        }
+        // Signal numbers that carry values, in order; cycles address them by rank
+        const typedSigs: number[] = [];
+        for (let sig = 1; sig < sigTypes.length; sig++) {
+            if (sigTypes[sig]) { typedSigs.push(sig); }
+        }
+
+        const values: string[] = new Array(sigTypes.length).fill('');
+        const dirty = new Uint8Array(netIds.length);
+        const dirtyNets: number[] = [];
+        const readSig = (sig: number) => {
+            values[sig] = readValue(s, sigTypes[sig]!);
+            for (const n of netsOfSig[sig]) {
+                if (!dirty[n]) {
+                    dirty[n] = 1;
+                    dirtyNets.push(n);
+                }
+            }
+        };
+        const flush = (time: number) => {
+            for (const n of dirtyNets) {
+                dirty[n] = 0;
+                const sigs = netSigs[n];
+                const raw = sigs.length === 1 ? values[sigs[0]] : sigs.map(sig => values[sig]).join('');
+                builder.add(netIds[n], time, raw, netWidths[n]);
+            }
+            dirtyNets.length = 0;
+        };
+
+        // ── Value changes ─────────────────────────────────────────────────────
+        let timeOrigin: bigint | null = null;
+        let time = 0;
+        let endTime = 0;
+        let lastReport = 0;
+        const toOffset = (abs: bigint): number => {
+            timeOrigin ??= builder.setTimeOrigin(abs);
+            return builder.storedTime(abs);
+        };
+        const step = async (): Promise<void> => {
+            if (s.offset - lastReport < PROGRESS_INTERVAL) { return; }
+            lastReport = s.offset;
+            options.onProgress?.(s.offset, size);
+            await new Promise(resolve => setImmediate(resolve));
+            throwIfAborted(options.signal);
+        };
+        // Upper bound on a snapshot or one cycle step, section tags and times
+        // included (a rank delta takes at most 5 bytes), buffered before each
+        const stepBytes = 32 + typedSigs.reduce((n, sig) => n + 5 + maxValueBytes(sigTypes[sig]!), 0);
+
+        sections: while (!s.atEnd) {
+            throwIfAborted(options.signal);
+            await s.fill(stepBytes);
+            const tag = s.tag();
+            switch (tag) {
+                case 'SNP': {
+                    s.expectZero('SNP');
+                    time = toOffset(s.i64());
+                    if (builder.isPastWindow(time)) { break sections; }
+                    for (const sig of typedSigs) { readSig(sig); }
+                    s.expectTag('ESN');
+                    flush(time);
+                    endTime = Math.max(endTime, time);
+                    break;
+                }
+                case 'CYC': {
+                    time = toOffset(s.i64());
+                    for (;;) {
+                        if (builder.isPastWindow(time)) { break sections; }
+                        await s.fill(stepBytes);
+                        // Changed signals as rank deltas, ended by 0
+                        for (let rank = -1, d = s.uleb(); d !== 0; d = s.uleb()) {
+                            rank += d;
+                            const sig = typedSigs[rank];
+                            if (sig === undefined) { throw new Error('GHW: bad signal delta in cycle'); }
+                            readSig(sig);
+                        }
+                        flush(time);
+                        endTime = Math.max(endTime, time);
+                        const delta = s.sleb();
+                        if (delta === -1) { break; }
+                        time += delta;
+                        if (time > Number.MAX_SAFE_INTEGER && !builder.isPastWindow(time)) {
+                            throw new Error('GHW: time span exceeds 2^53 fs; parse a time window (tStart/tEnd) shorter than that');
+                        }
+                        await step();
+                    }
+                    s.expectTag('ECY');
+                    break;
+                }
+                case 'DIR': {
+                    // Directory of section offsets; not needed for a sequential read
+                    s.expectZero('DIR');
+                    const entries = s.i32();
+                    await s.fill(entries * 8 + 4);
+                    s.bytes(entries * 8);
+                    s.expectTag('EOD');
+                    break;
+                }
+                case 'TAI':
+                    s.bytes(8);
+                    break;
+                default:
+                    throw new Error(`GHW: unknown section "${tag}"`);
+            }
+            await step();
+        }
+        options.onProgress?.(s.offset, size);
+
+        return builder.finish(endTime, '1 fs');
+    } finally {
+        await fh.close();
+    }
+}
+
+function requireTable(table: GhwTypeTable | null): GhwTypeTable {
+    if (!table) { throw new Error('GHW: type information before the string table'); }
+    return table;
+}
@@ -0,0 +1,277 @@
+/*
+    Copyright (C) 2026 Andrew Capatina
+
+    This program is free software: you can redistribute it and/or modify
+    it under the terms of the GNU Affero General Public License as
+    published by the Free Software Foundation, either version 3 of the
+    License, or (at your option) any later version.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU Affero General Public License for more details.
+
+    You should have received a copy of the GNU Affero General Public License
+    along with this program.  If not, see <http://www.gnu.org/licenses/>.
+*/
+// Glitch detection for gate-level and timing-annotated simulations: values
+// held for less than a threshold, either a fixed number of time units or a
+// fraction of the clock period of the signal's domain (see clocks.ts).
+// Several changes of one signal at the same timestamp (delta-cycle glitches)
+// are kept by the parsers, so they show up here as zero-width pulses.
+import type { ClockReport } from './clocks';
+import type { SignalTrace } from './trace';
+import type { WaveformIndex } from './vcd';
+
+export interface GlitchOptions {
+    /** Signals to check (default: every recorded logic signal) */
+    signals?: string[];
+    tStart?: number;
+    tEnd?: number;
+    /** Values held for less than this many time units are glitches; overrides periodFraction */
+    maxWidth?: number;
+    /** Values held for less than this fraction of the signal's clock period are glitches (default 0.1) */
+    periodFraction?: number;
+    /** Max signals listed (default 20) */
+    maxResults?: number;
+}
+
+/** One short-lived value. */
+export interface Glitch {
+    /** When the short value appeared */
+    time: number;
+    /** How long it was held; 0 for several changes at one time */
+    width: number;
+    /** Value before, the short value, and the value after (formatted) */
+    before: string;
+    value: string;
+    after: string;
+}
+
+export interface SignalGlitches {
+    signal: string;
+    /** Values held for less than this are glitches (zero-width ones always are) */
+    threshold: number;
+    /** Clock whose period set the threshold */
+    clock?: string;
+    count: number;
+    /** Glitches of width 0 */
+    zeroWidth: number;
+    /** Glitches that return to the value before them (the rest pass through an intermediate value) */
+    pulses: number;
+    narrowest: number;
+    first: number;
+    last: number;
+    /** The first few glitches */
+    examples: Glitch[];
+}
+
+export interface GlitchReport {
+    tStart: number;
+    tEnd: number;
+    maxWidth?: number;
+    periodFraction?: number;
+    /** Signals checked (aliases counted once) */
+    checked: number;
+    /** Signals with glitches, most first (at most maxResults) */
+    signals: SignalGlitches[];
+    /** Signals with glitches left out by maxResults */
+    omitted: number;
+    total: number;
+    /** Glitches of width 0 on every signal */
+    zeroWidth: number;
+    /** Glitch count over equal slices of [tStart, tEnd] */
+    windows: { tStart: number; tEnd: number; count: number }[];
+    /** Signals checked for zero-width glitches only, because they have no clock to scale periodFraction by */
+    unclocked: number;
+}
+
+const DEFAULT_PERIOD_FRACTION = 0.1;
+const DEFAULT_MAX_RESULTS = 20;
+/** Glitches listed per signal. */
+const EXAMPLES = 5;
+/** Slices of the window the glitch count is broken down into. */
+const WINDOWS = 10;
+
+/**
+ * Find values held for less than the threshold in [tStart, tEnd]. Changes
+ * at a trace's first timestamp are its initial value settling and are not
+ * counted. Returns an error message for unknown signals or a bad window.
+ */
+export function findGlitches(idx: WaveformIndex, options: GlitchOptions = {}): GlitchReport | string {
+    const tStart = options.tStart ?? idx.startTime;
+    const tEnd = Math.min(options.tEnd ?? idx.endTime, idx.endTime);
+    if (tEnd < tStart) { return `Empty window [${tStart}, ${tEnd}]: the dump ends at ${idx.endTime}.`; }
+    if (options.maxWidth !== undefined && !(options.maxWidth >= 0)) { return 'max_width must be a non-negative number.'; }
+    if (options.periodFraction !== undefined && !(options.periodFraction > 0 && options.periodFraction < 1)) {
+        return 'period_fraction must be between 0 and 1.';
+    }
+    let signals = idx.signals;
+    if (options.signals && options.signals.length > 0) {
+        const resolved = idx.resolveSignals(options.signals);
+        if (typeof resolved === 'string') { return resolved; }
+        signals = resolved;
+    }
+
+    const fraction = options.maxWidth === undefined ? options.periodFraction ?? DEFAULT_PERIOD_FRACTION : undefined;
+    const clockOf = fraction !== undefined ? clockPeriods(idx.getClocking()) : new Map<string, { clock: string; period: number }>();
+    const fastest = [...clockOf.values()].reduce<{ clock: string; period: number } | undefined>(
+        (best, c) => (!best || c.period < best.period ? c : best), undefined);
+
+    const found: SignalGlitches[] = [];
+    const seen = new Set<SignalTrace>();
+    // Whole-unit slice bounds unless the window is shorter than WINDOWS units
+    const span = tEnd - tStart;
+    const bounds = Array.from({ length: WINDOWS + 1 }, (_, i) =>
+        i === WINDOWS ? tEnd : tStart + (span >= WINDOWS ? Math.round(i * span / WINDOWS) : i * span / WINDOWS));
+    const counts = new Array<number>(WINDOWS).fill(0);
+    const tally = (t: number) => {
+        let k = WINDOWS - 1;
+        while (k > 0 && t < bounds[k]) { k--; }
+        counts[k]++;
+    };
+    let unclocked = 0;
+    for (const signal of signals) {
+        const trace = idx.getTrace(signal);
+        // Aliased paths share a trace — check each net once
+        if (!trace || seen.has(trace) || !hasLogicValues(idx, signal)) { continue; }
+        seen.add(trace);
+        let threshold = options.maxWidth ?? 0;
+        let clock: { clock: string; period: number } | undefined;
+        if (fraction !== undefined) {
+            clock = clockOf.get(signal) ?? fastest;
+            if (clock) { threshold = clock.period * fraction; } else { unclocked++; }
+        }
+        const result = scan(trace, tStart, tEnd, threshold, tally);
+        if (result.count === 0) { continue; }
+        found.push({
+            signal,
+            threshold,
+            clock: clock?.clock,
+            count: result.count,
+            zeroWidth: result.zeroWidth,
+            pulses: result.pulses,
+            narrowest: result.narrowest,
+            first: result.first,
+            last: result.last,
+            examples: result.examples,
+        });
+    }
+    found.sort((a, b) => b.count - a.count || a.first - b.first || a.signal.localeCompare(b.signal));
+
+    const maxResults = options.maxResults ?? DEFAULT_MAX_RESULTS;
+    return {
+        tStart,
+        tEnd,
+        maxWidth: options.maxWidth,
+        periodFraction: fraction,
+        checked: seen.size,
+        signals: found.slice(0, maxResults),
+        omitted: Math.max(0, found.length - maxResults),
+        total: found.reduce((sum, s) => sum + s.count, 0),
+        zeroWidth: found.reduce((sum, s) => sum + s.zeroWidth, 0),
+        windows: counts.map((count, i) => ({ tStart: bounds[i], tEnd: bounds[i + 1], count })),
+        unclocked,
+    };
+}
+
+export function formatGlitchReport(report: GlitchReport): string {
+    const rule = report.maxWidth !== undefined
+        ? `held for less than ${report.maxWidth} time units`
+        : `held for less than ${+(report.periodFraction! * 100).toPrecision(6)}% of the signal's clock period`;
+    const lines = [`Glitches in [${report.tStart}, ${report.tEnd}] (values ${rule}; width 0 means several changes at one time):`];
+    if (report.total === 0) {
+        lines.push(`None found on ${report.checked} signal${report.checked !== 1 ? 's' : ''}.`);
+    } else {
+        const listed = report.signals.length + report.omitted;
+        lines.push(`${report.total} glitch${report.total !== 1 ? 'es' : ''} on ${listed} of ${report.checked} signals`
+            + (report.zeroWidth > 0 ? ` (${report.zeroWidth} zero-width)` : '') + '.');
+        for (const s of report.signals) {
+            lines.push('', formatSignal(s));
+            for (const g of s.examples) {
+                lines.push(`  t=${g.time}: ${g.before} → ${g.value} → ${g.after} (width ${g.width})`);
+            }
+            if (s.count > s.examples.length) { lines.push(`  … ${s.count - s.examples.length} more`); }
+        }
+        if (report.omitted > 0) { lines.push('', `… ${report.omitted} more signal${report.omitted !== 1 ? 's' : ''} with glitches`); }
+        lines.push('', 'By time window:');
+        for (const w of report.windows) {
+            if (w.count > 0) { lines.push(`  [${w.tStart}, ${w.tEnd}]: ${w.count}`); }
+        }
+    }
+    if (report.unclocked > 0) {
+        lines.push('', `No clock detected: ${report.unclocked} signal${report.unclocked !== 1 ? 's were' : ' was'} checked for zero-width glitches only (pass max_width for a fixed threshold).`);
+    }
+    return lines.join('\n');
+}
+
+/** Clock (and period) of each signal in a clock domain; a clock is scaled by its own period. */
+function clockPeriods(clocking: ClockReport): Map<string, { clock: string; period: number }> {
+    const periods = new Map(clocking.clocks.map(c => [c.signal, c.period]));
+    const out = new Map<string, { clock: string; period: number }>();
+    for (const d of clocking.domains) {
+        const period = periods.get(d.clock);
+        if (period === undefined) { continue; }
+        for (const s of d.signals) { out.set(s, { clock: d.clock, period }); }
+    }
+    for (const [clock, period] of periods) { out.set(clock, { clock, period }); }
+    return out;
+}
+
+function hasLogicValues(idx: WaveformIndex, signal: string): boolean {
+    const kind = idx.getDescriptor(signal)?.kind;
+    return kind === undefined || kind === 'logic';
+}
+
+/**
+ * Values of `trace` appearing in [tStart, tEnd] and held for less than
+ * `threshold` (or not at all). `tally` is called with each glitch's time.
+ */
+function scan(trace: SignalTrace, tStart: number, tEnd: number, threshold: number, tally: (time: number) => void): {
+    count: number;
+    zeroWidth: number;
+    pulses: number;
+    narrowest: number;
+    first: number;
+    last: number;
+    examples: Glitch[];
+} {
+    const out = { count: 0, zeroWidth: 0, pulses: 0, narrowest: Infinity, first: NaN, last: NaN, examples: [] as Glitch[] };
+    if (trace.length < 3) { return out; }
+    const settled = trace.timeAt(0);
+    const end = Math.min(trace.upperBound(tEnd), trace.length - 1);
+    for (let i = Math.max(1, trace.lowerBound(tStart)); i < end; i++) {
+        const time = trace.timeAt(i);
+        if (time === settled) { continue; }
+        const width = trace.timeAt(i + 1) - time;
+        if (width > 0 && width >= threshold) { continue; }
+        if (out.count++ === 0) { out.first = time; }
+        out.last = time;
+        tally(time);
+        if (width === 0) { out.zeroWidth++; }
+        if (trace.codeAt(i - 1) === trace.codeAt(i + 1)) { out.pulses++; }
+        out.narrowest = Math.min(out.narrowest, width);
+        if (out.examples.length < EXAMPLES) {
+            out.examples.push({
+                time,
+                width,
+                before: trace.valueAt(i - 1),
+                value: trace.valueAt(i),
+                after: trace.valueAt(i + 1),
+            });
+        }
+    }
+    return out;
+}
+
+function formatSignal(s: SignalGlitches): string {
+    const threshold = s.threshold > 0
+        ? `narrower than ${+s.threshold.toPrecision(6)}${s.clock ? ` (scaled by ${s.clock})` : ''}`
+        : 'zero-width only';
+    const parts = [`${s.signal}: ${s.count} glitch${s.count !== 1 ? 'es' : ''} ${threshold}`];
+    if (s.zeroWidth > 0) { parts.push(`${s.zeroWidth} zero-width`); }
+    if (s.pulses > 0) { parts.push(`${s.pulses} pulse${s.pulses !== 1 ? 's' : ''} returning to the previous value`); }
+    if (s.count > s.pulses) { parts.push(`${s.count - s.pulses} passing through an intermediate value`); }
+    parts.push(`narrowest ${s.narrowest}`, s.first === s.last ? `at t=${s.first}` : `from t=${s.first} to t=${s.last}`);
+    return parts.join(', ');
+}
@@ -0,0 +1,199 @@
+/*
+    Copyright (C) 2026 Andrew Capatina
+
+    This program is free software: you can redistribute it and/or modify
+    it under the terms of the GNU Affero General Public License as
+    published by the Free Software Foundation, either version 3 of the
+    License, or (at your option) any later version.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU Affero General Public License for more details.
+
+    You should have received a copy of the GNU Affero General Public License
+    along with this program.  If not, see <http://www.gnu.org/licenses/>.
+*/
+// Design hierarchy: the scope tree of a waveform, rebuilt from the scopes
+// the readers record and the scope of every signal, so large designs can be
+// browsed one level at a time (list_scopes) or searched by name
+// (search_signals) instead of listed whole.
+import type { ScopeDescriptor } from './vcd';
+
+/** One entry of listScopes(). */
+export interface ScopeListing {
+    path: string;
+    /** Scope kind (module, task, begin, instance, …), when the format records it */
+    type?: string;
+    /** Signals directly inside the scope */
+    signals: number;
+    /** Signals inside the scope at any depth */
+    totalSignals: number;
+    /** Child scopes */
+    scopes: number;
+}
+
+interface ScopeNode {
+    path: string;
+    type?: string;
+    children: ScopeNode[];
+    signals: string[];
+    totalSignals: number;
+}
+
+export class ScopeTree {
+    private readonly nodes = new Map<string, ScopeNode>();
+    private readonly root: ScopeNode;
+
+    /**
+     * `signals` in index order; `scopeOf` gives each one's enclosing scope
+     * path. Declared `scopes` add their types and scopes without signals.
+     */
+    constructor(signals: readonly string[], scopeOf: (signal: string) => string, scopes: readonly ScopeDescriptor[] = []) {
+        this.root = { path: '', children: [], signals: [], totalSignals: 0 };
+        this.nodes.set('', this.root);
+        for (const s of scopes) { this.node(s.path).type = s.type; }
+        for (const signal of signals) { this.node(scopeOf(signal)).signals.push(signal); }
+        const count = (n: ScopeNode): number =>
+            (n.totalSignals = n.signals.length + n.children.reduce((sum, c) => sum + count(c), 0));
+        count(this.root);
+    }
+
+    /**
+     * Canonical path of a scope: exact, else case-insensitive, else a
+     * unique scope with that name. '' is the top level; null when no single
+     * scope matches.
+     */
+    resolve(path: string): string | null {
+        const key = path.trim().replace(/^\.+|\.+$/g, '');
+        if (this.nodes.has(key)) { return key; }
+        const matches = this.matches(key);
+        return matches.length === 1 ? matches[0] : null;
+    }
+
+    /** Error message for a scope that resolve() rejected. */
+    notFound(path: string): string {
+        const matches = this.matches(path.trim());
+        if (matches.length > 1) {
+            return `Scope "${path}" is ambiguous: it matches ${matches.slice(0, 8).join(', ')}${matches.length > 8 ? ', …' : ''}. Use the full path.`;
+        }
+        return `Unknown scope "${path}". Use list_scopes without a path to browse from the top.`;
+    }
+
+    /** The scope itself, for a header line. */
+    describe(path: string): ScopeListing {
+        return listing(this.nodes.get(path)!);
+    }
+
+    /** Child scopes of a resolved scope, in declaration order. */
+    children(path: string): ScopeListing[] {
+        return this.nodes.get(path)!.children.map(listing);
+    }
+
+    /** Signals of a resolved scope: directly inside it, or at any depth with `recursive`. */
+    signalsIn(path: string, recursive: boolean): string[] {
+        const node = this.nodes.get(path)!;
+        if (!recursive) { return node.signals; }
+        const out: string[] = [];
+        const walk = (n: ScopeNode) => {
+            out.push(...n.signals);
+            n.children.forEach(walk);
+        };
+        walk(node);
+        return out;
+    }
+
+    private node(path: string): ScopeNode {
+        let node = this.nodes.get(path);
+        if (node) { return node; }
+        const dot = path.lastIndexOf('.');
+        const parent = this.node(dot >= 0 ? path.slice(0, dot) : '');
+        node = { path, children: [], signals: [], totalSignals: 0 };
+        parent.children.push(node);
+        this.nodes.set(path, node);
+        return node;
+    }
+
+    private matches(path: string): string[] {
+        const key = path.toLowerCase();
+        const exact = [...this.nodes.keys()].filter(p => p.toLowerCase() === key);
+        if (exact.length > 0) { return exact; }
+        return [...this.nodes.keys()].filter(p => p.toLowerCase().endsWith('.' + key));
+    }
+}
+
+function listing(node: ScopeNode): ScopeListing {
+    return {
+        path: node.path,
+        ...(node.type && { type: node.type }),
+        signals: node.signals.length,
+        totalSignals: node.totalSignals,
+        scopes: node.children.length,
+    };
+}
+
+/**
+ * Compile a search_signals pattern. "/regex/flags" is a regular expression
+ * searched anywhere in the full path. Anything else is a case-insensitive
+ * glob matched against the end of the path on a scope boundary, so "*valid"
+ * matches leaf names, "dut.*" the signals directly in any scope named dut
+ * and "u_core.**" everything below it. "*" and "?" stay within one name,
+ * "**" crosses scopes, and [abc] and {a,b} work as in shells.
+ */
+export function compileSignalPattern(pattern: string): RegExp | string {
+    const re = /^\/(.*)\/([a-z]*)$/s.exec(pattern.trim());
+    if (re) {
+        try {
+            return new RegExp(re[1], re[2]);
+        } catch (err) {
+            return `Invalid regular expression ${pattern}: ${err instanceof Error ? err.message : err}`;
+        }
+    }
+    let src = '';
+    let braces = 0;
+    const glob = pattern.trim();
+    for (let i = 0; i < glob.length; i++) {
+        const c = glob[i];
+        if (c === '*' && glob[i + 1] === '*') {
+            src += '.*';
+            i++;
+        } else if (c === '*') {
+            src += '[^.]*';
+        } else if (c === '?') {
+            src += '[^.]';
+        } else if (c === '[') {
+            const end = glob.indexOf(']', i + 2);
+            if (end < 0) { return `Invalid glob "${pattern}": unclosed "[".`; }
+            const body = glob.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\');
+            src += `[${body}]`;
+            i = end;
+        } else if (c === '{') {
+            src += '(?:';
+            braces++;
+        } else if (c === '}' && braces > 0) {
+            src += ')';
+            braces--;
+        } else if (c === ',' && braces > 0) {
+            src += '|';
+        } else {
+            src += c.replace(/[.+^$()|\\/{}[\]]/g, '\\$&');
+        }
+    }
+    if (braces > 0) { return `Invalid glob "${pattern}": unclosed "{".`; }
+    return new RegExp(`(?:^|\\.)${src}$`, 'i');
+}
+
+/** list_scopes reply: the scope, then one line per child scope. */
+export function formatScopes(scope: ScopeListing, children: ScopeListing[]): string {
+    const describe = (s: ScopeListing) =>
+        `${s.type ? ` (${s.type})` : ''}: ${s.signals} signal${s.signals !== 1 ? 's' : ''}` +
+        (s.scopes > 0 ? `, ${s.scopes} child scope${s.scopes !== 1 ? 's' : ''}, ${s.totalSignals} signals in total` : '');
+    const lines = [`${scope.path || '(top level)'}${describe(scope)}`];
+    if (children.length === 0) {
+        lines.push('  (no child scopes)');
+    } else {
+        lines.push(...children.map(c => `  ${c.path}${describe(c)}`));
+    }
+    lines.push('Use list_signals with scope to list the signals of one scope, or search_signals to find signals by name.');
+    return lines.join('\n');
+}
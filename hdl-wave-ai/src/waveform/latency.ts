@@ -0,0 +1,480 @@
+/*
+    Copyright (C) 2026 Andrew Capatina
+
+    This program is free software: you can redistribute it and/or modify
+    it under the terms of the GNU Affero General Public License as
+    published by the Free Software Foundation, either version 3 of the
+    License, or (at your option) any later version.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU Affero General Public License for more details.
+
+    You should have received a copy of the GNU Affero General Public License
+    along with this program.  If not, see <http://www.gnu.org/licenses/>.
+*/
+// Performance measurement: latency between paired start and end events
+// ("req" rising to "ack" rising, an AXI address handshake to its response
+// with matching IDs) and event throughput over windows. Events are edges of
+// a signal or expression, or clock edges where an expression holds, so
+// valid/ready handshakes count one event per transfer cycle.
+import { buildDerivedTrace, parseDerivedSignal } from './derived';
+import type { SignalTrace } from './trace';
+import { timescaleSeconds, WaveformIndex } from './vcd';
+
+/**
+ * When an event fires: when the expression becomes true (rising), becomes
+ * false (falling) or changes (any), or at every active edge of the cycle
+ * clock where it is true just before the edge (cycle).
+ */
+export type EventEdge = 'rising' | 'falling' | 'any' | 'cycle';
+
+export interface EventSpec {
+    /** Signal name or expression over signals (see expr.ts), e.g. "req", "state == 3", "valid & ready" */
+    expression: string;
+    edge?: EventEdge;
+    /** Signal sampled at each event; starts and ends pair only when their IDs are equal */
+    id?: string;
+}
+
+export interface LatencyOptions {
+    start: EventSpec;
+    /** The end's id defaults to the start's */
+    end: EventSpec;
+    /** Only starts in [tStart, tEnd] are measured; their ends may come later (default: whole dump) */
+    tStart?: number;
+    tEnd?: number;
+    /** Max outliers and unfinished starts listed (default 10) */
+    maxResults?: number;
+}
+
+export interface LatencySample {
+    start: number;
+    end: number;
+    /** Latency in the result's unit */
+    latency: number;
+    id?: string;
+}
+
+export interface HistogramBin {
+    /** Inclusive lower and upper latency of the bin */
+    from: number;
+    to: number;
+    count: number;
+}
+
+export interface LatencyResult {
+    start: string;
+    end: string;
+    /** Latency unit: cycles of the cycle clock, else waveform time units */
+    unit: 'cycles' | 'time';
+    clock?: string;
+    tStart: number;
+    tEnd: number;
+    startEvents: number;
+    endEvents: number;
+    /** Every matched start/end pair, in start order */
+    samples: LatencySample[];
+    min: number;
+    mean: number;
+    max: number;
+    p50: number;
+    p90: number;
+    p99: number;
+    histogram: HistogramBin[];
+    /** Upper Tukey fence (Q3 + 1.5 × IQR); samples above it are outliers */
+    fence: number;
+    /** Samples above the fence, slowest first (at most maxResults) */
+    outliers: LatencySample[];
+    outlierCount: number;
+    /** Starts with no end by the end of the dump (at most maxResults) */
+    unfinished: { time: number; id?: string }[];
+    unfinishedCount: number;
+    /** Ends with no pending start */
+    unmatchedEnds: number;
+}
+
+export interface ThroughputOptions {
+    event: EventSpec;
+    /** Data signal whose width (in bytes) each event carries */
+    data?: string;
+    /** Bytes carried per event; overrides data */
+    bytesPerEvent?: number;
+    /** Window length in cycles of the cycle clock (time units without one); default: 20 windows */
+    window?: number;
+    tStart?: number;
+    tEnd?: number;
+}
+
+export interface ThroughputWindow {
+    tStart: number;
+    tEnd: number;
+    events: number;
+}
+
+export interface ThroughputResult {
+    event: string;
+    unit: 'cycles' | 'time';
+    clock?: string;
+    tStart: number;
+    tEnd: number;
+    /** Length of [tStart, tEnd] in the unit */
+    span: number;
+    events: number;
+    firstEvent: number | null;
+    lastEvent: number | null;
+    /** Events per unit over the whole window, and from the first to the last event (the whole window for one event) */
+    rate: number;
+    sustainedRate: number;
+    bytesPerEvent?: number;
+    /** Seconds per unit (time unit or clock period), when the timescale is known */
+    secondsPerUnit?: number;
+    windowLength: number;
+    windows: ThroughputWindow[];
+    /** Longest stretch without events inside [firstEvent, lastEvent], in the unit */
+    longestGap: { from: number; to: number; length: number } | null;
+}
+
+const DEFAULT_MAX_RESULTS = 10;
+const DEFAULT_WINDOWS = 20;
+/** Distinct latencies up to this get one histogram bin each */
+const EXACT_BINS = 12;
+const BINS = 10;
+
+/**
+ * Pair start events with end events and measure the latency of each pair.
+ * Without an ID, ends complete starts in order (the oldest pending start
+ * first); with one, the oldest pending start with the same ID. Latency is
+ * in cycles when a cycle clock is known. Returns an error message for bad
+ * expressions or a missing clock.
+ */
+export function measureLatency(idx: WaveformIndex, options: LatencyOptions): LatencyResult | string {
+    const tStart = options.tStart ?? idx.startTime;
+    const tEnd = options.tEnd ?? idx.endTime;
+    const maxResults = options.maxResults ?? DEFAULT_MAX_RESULTS;
+    const starts = findEvents(idx, options.start, tStart, tEnd);
+    if (typeof starts === 'string') { return `Start: ${starts}`; }
+    const ends = findEvents(idx, { ...options.end, id: options.end.id ?? options.start.id }, tStart, idx.endTime);
+    if (typeof ends === 'string') { return `End: ${ends}`; }
+    const units = unitOf(idx);
+
+    // Walk both event lists in time order. At a shared time, ends first
+    // complete earlier starts, then the new starts queue, then any ends
+    // left over complete starts from that same time (zero latency).
+    const pending = new Map<string, number[]>();
+    const samples: LatencySample[] = [];
+    let unmatchedEnds = 0, open = 0;
+    const complete = (k: number, time: number): boolean => {
+        const key = ends.ids?.[k] ?? '';
+        const queue = pending.get(key);
+        if (!queue || queue.length === 0) { return false; }
+        const start = queue.shift()!;
+        open--;
+        samples.push({ start, end: time, latency: units.between(start, time), ...(ends.ids && { id: key }) });
+        return true;
+    };
+    let s = 0, e = 0;
+    while (s < starts.times.length || e < ends.times.length) {
+        const time = Math.min(starts.times[s] ?? Infinity, ends.times[e] ?? Infinity);
+        const leftover: number[] = [];
+        for (; e < ends.times.length && ends.times[e] === time; e++) {
+            if (!complete(e, time)) { leftover.push(e); }
+        }
+        for (; s < starts.times.length && starts.times[s] === time; s++) {
+            const key = starts.ids?.[s] ?? '';
+            const queue = pending.get(key);
+            if (queue) { queue.push(time); } else { pending.set(key, [time]); }
+            open++;
+        }
+        for (const k of leftover) {
+            if (!complete(k, time) && time <= tEnd) { unmatchedEnds++; }
+        }
+        // Ends after every start has completed cannot match anything more
+        if (s === starts.times.length && open === 0) {
+            unmatchedEnds += ends.times.slice(e).filter(t => t <= tEnd).length;
+            break;
+        }
+    }
+    samples.sort((a, b) => a.start - b.start || a.end - b.end);
+
+    const unfinished = [...pending.entries()]
+        .flatMap(([id, times]) => times.map(time => ({ time, ...(starts.ids && { id }) })))
+        .sort((a, b) => a.time - b.time);
+    const sorted = samples.map(x => x.latency).sort((a, b) => a - b);
+    const n = sorted.length;
+    const fence = n >= 4 ? percentile(sorted, 75) + 1.5 * (percentile(sorted, 75) - percentile(sorted, 25)) : Infinity;
+    const outliers = samples.filter(x => x.latency > fence).sort((a, b) => b.latency - a.latency || a.start - b.start);
+    return {
+        start: describeEvent(options.start),
+        end: describeEvent(options.end),
+        unit: units.unit,
+        clock: units.clock,
+        tStart,
+        tEnd,
+        startEvents: starts.times.length,
+        endEvents: ends.times.filter(t => t <= tEnd).length,
+        samples,
+        min: n > 0 ? sorted[0] : 0,
+        mean: n > 0 ? +(sorted.reduce((sum, x) => sum + x, 0) / n).toFixed(2) : 0,
+        max: n > 0 ? sorted[n - 1] : 0,
+        p50: percentile(sorted, 50),
+        p90: percentile(sorted, 90),
+        p99: percentile(sorted, 99),
+        histogram: histogram(sorted),
+        fence,
+        outliers: outliers.slice(0, maxResults),
+        outlierCount: outliers.length,
+        unfinished: unfinished.slice(0, maxResults),
+        unfinishedCount: unfinished.length,
+        unmatchedEnds,
+    };
+}
+
+/**
+ * Count events per window: overall and sustained (first to last event)
+ * rates, the per-window profile and the longest idle gap. Rates are per
+ * cycle when a cycle clock is known. Returns an error message for bad
+ * expressions or a missing clock.
+ */
+export function measureThroughput(idx: WaveformIndex, options: ThroughputOptions): ThroughputResult | string {
+    const tStart = options.tStart ?? idx.startTime;
+    const tEnd = Math.min(options.tEnd ?? idx.endTime, idx.endTime);
+    if (tEnd <= tStart) { return `The window [${tStart}, ${tEnd}] is empty.`; }
+    const event: EventSpec = { ...options.event, edge: options.event.edge ?? (idx.getCycleTable() ? 'cycle' : 'rising') };
+    const found = findEvents(idx, event, tStart, tEnd);
+    if (typeof found === 'string') { return found; }
+    let bytesPerEvent = options.bytesPerEvent;
+    if (bytesPerEvent === undefined && options.data !== undefined) {
+        const data = idx.resolveSignal(options.data);
+        if (data === null) { return `Data: ${idx.signalNotFound(options.data)}`; }
+        bytesPerEvent = (idx.getDescriptor(data)?.width ?? idx.getTrace(data)?.width ?? 1) / 8;
+    }
+    const units = unitOf(idx);
+    const times = found.times;
+    const span = units.between(tStart, tEnd);
+    const windowLength = Math.max(1, options.window ?? Math.ceil(span / DEFAULT_WINDOWS));
+
+    // Windows are counted in the unit: cycle k spans [edge k, edge k+1)
+    const windows: ThroughputWindow[] = [];
+    let k = 0;
+    for (let from = 0; from < span; from += windowLength) {
+        const to = from + windowLength;
+        const w = { tStart: units.after(tStart, from), tEnd: to < span ? units.after(tStart, to) : tEnd, events: 0 };
+        while (k < times.length && times[k] < w.tEnd) { k++; w.events++; }
+        windows.push(w);
+    }
+    if (windows.length > 0) { windows[windows.length - 1].events += times.length - k; }
+
+    let longestGap: ThroughputResult['longestGap'] = null;
+    for (let i = 1; i < times.length; i++) {
+        const length = units.between(times[i - 1], times[i]);
+        if (!longestGap || length > longestGap.length) { longestGap = { from: times[i - 1], to: times[i], length }; }
+    }
+    const first = times.length > 0 ? times[0] : null;
+    const last = times.length > 0 ? times[times.length - 1] : null;
+    const busy = first !== null ? units.between(first, last!) + (units.unit === 'cycles' ? 1 : 0) : 0;
+    const seconds = timescaleSeconds(idx.timescale);
+    const table = idx.getCycleTable();
+    return {
+        event: describeEvent(event),
+        unit: units.unit,
+        clock: units.clock,
+        tStart,
+        tEnd,
+        span,
+        events: times.length,
+        firstEvent: first,
+        lastEvent: last,
+        rate: span > 0 ? times.length / span : 0,
+        sustainedRate: busy > 0 ? times.length / busy : span > 0 ? times.length / span : 0,
+        bytesPerEvent,
+        secondsPerUnit: seconds === null ? undefined : units.unit === 'cycles' ? seconds * table!.period : seconds,
+        windowLength,
+        windows,
+        longestGap,
+    };
+}
+
+/** measure_latency reply. */
+export function formatLatency(result: LatencyResult): string {
+    const unit = result.unit === 'cycles' ? `cycles of ${result.clock}` : 'time units';
+    const n = result.samples.length;
+    const lines = [
+        `Latency from ${result.start} to ${result.end}, starts in [${result.tStart}, ${result.tEnd}], in ${unit}:`,
+        `  ${result.startEvents} start${result.startEvents !== 1 ? 's' : ''}, ${result.endEvents} end${result.endEvents !== 1 ? 's' : ''}, ${n} matched` +
+        `; ${result.unfinishedCount} never ended, ${result.unmatchedEnds} end${result.unmatchedEnds !== 1 ? 's' : ''} without a start.`,
+    ];
+    if (n === 0) {
+        lines.push('  No start was followed by a matching end. Check the event expressions and edges (edge "cycle" counts every clock edge where the expression holds).');
+    } else {
+        const slowest = result.samples.reduce((a, b) => b.latency > a.latency ? b : a);
+        lines.push(`  min ${result.min} / mean ${result.mean} / max ${result.max}; p50 ${result.p50}, p90 ${result.p90}, p99 ${result.p99}.`);
+        lines.push(`  Slowest: ${formatSample(slowest)}.`);
+        lines.push('  Histogram:');
+        const peak = Math.max(...result.histogram.map(b => b.count));
+        for (const b of result.histogram) {
+            const label = b.from === b.to ? `${b.from}` : `${b.from}–${b.to}`;
+            lines.push(`    ${label.padStart(9)}: ${'#'.repeat(Math.ceil(30 * b.count / peak))} ${b.count}`);
+        }
+        if (result.outlierCount > 0) {
+            lines.push(`  Outliers (above ${+result.fence.toFixed(2)}), slowest first${result.outlierCount > result.outliers.length ? ` (${result.outliers.length} of ${result.outlierCount})` : ''}:`);
+            lines.push(...result.outliers.map(x => `    ${formatSample(x)}`));
+        }
+    }
+    if (result.unfinishedCount > 0) {
+        const shown = result.unfinished.map(u => `t=${u.time}${u.id !== undefined ? ` (id ${u.id})` : ''}`).join(', ');
+        lines.push(`  Never ended: ${shown}${result.unfinishedCount > result.unfinished.length ? `, … ${result.unfinishedCount - result.unfinished.length} more` : ''}.`);
+    }
+    return lines.join('\n');
+}
+
+/** measure_throughput reply. */
+export function formatThroughput(result: ThroughputResult): string {
+    const unit = result.unit === 'cycles' ? 'cycle' : 'time unit';
+    const per = (rate: number) => `${+rate.toFixed(4)} per ${unit}`;
+    const count = (n: number) => `${n} ${unit}${n !== 1 ? 's' : ''}`;
+    const lines = [
+        `Throughput of ${result.event} in [${result.tStart}, ${result.tEnd}] (${count(result.span)}${result.clock ? ` of ${result.clock}` : ''}):`,
+    ];
+    if (result.events === 0) {
+        lines.push('  No events. Check the expression and edge (edge "cycle" counts every clock edge where the expression holds).');
+        return lines.join('\n');
+    }
+    lines.push(`  ${result.events} event${result.events !== 1 ? 's' : ''}, ${per(result.rate)} overall` +
+        (result.events > 1 ? `; ${per(result.sustainedRate)} sustained from t=${result.firstEvent} to t=${result.lastEvent}.` : ` (at t=${result.firstEvent}).`));
+    if (result.bytesPerEvent !== undefined) {
+        const bytes = result.events * result.bytesPerEvent;
+        const line = [`  ${+bytes.toFixed(2)} bytes (${result.bytesPerEvent} per event)`, `${+(result.rate * result.bytesPerEvent).toFixed(4)} bytes per ${unit} overall`];
+        if (result.secondsPerUnit !== undefined) {
+            line.push(`${formatBandwidth(result.rate * result.bytesPerEvent / result.secondsPerUnit)} overall`);
+            if (result.events > 1) { line.push(`${formatBandwidth(result.sustainedRate * result.bytesPerEvent / result.secondsPerUnit)} sustained`); }
+        }
+        lines.push(line.join(', ') + '.');
+    }
+    if (result.longestGap) {
+        lines.push(`  Longest gap between events: ${count(result.longestGap.length)}, t=${result.longestGap.from} to t=${result.longestGap.to}.`);
+    }
+    const counts = result.windows.map(w => w.events);
+    lines.push(`  Per window of ${count(result.windowLength)}: min ${Math.min(...counts)} / mean ${+(result.events / counts.length).toFixed(2)} / max ${Math.max(...counts)} events.`);
+    const peak = Math.max(...counts, 1);
+    const shown = result.windows.length > 40
+        ? [...result.windows].sort((a, b) => b.events - a.events).filter((_, i, all) => i < 5 || i >= all.length - 5).sort((a, b) => a.tStart - b.tStart)
+        : result.windows;
+    if (shown.length < result.windows.length) { lines.push(`  Busiest and quietest 5 of ${result.windows.length} windows:`); }
+    for (const w of shown) {
+        lines.push(`    t=${w.tStart}–${w.tEnd}: ${'#'.repeat(Math.ceil(30 * w.events / peak))} ${w.events}`);
+    }
+    return lines.join('\n');
+}
+
+interface Events {
+    times: number[];
+    /** Formatted ID value per event, when the spec has an id */
+    ids?: string[];
+}
+
+/** Times (and IDs) of the events of `spec` in [tStart, tEnd]. */
+function findEvents(idx: WaveformIndex, spec: EventSpec, tStart: number, tEnd: number): Events | string {
+    const def = parseDerivedSignal(idx, 'event', spec.expression);
+    if (typeof def === 'string') { return def; }
+    const trace = buildDerivedTrace(idx, def);
+    const idSignal = spec.id !== undefined ? idx.resolveSignal(spec.id) : undefined;
+    if (idSignal === null) { return `ID: ${idx.signalNotFound(spec.id!)}`; }
+    const idTrace = idSignal !== undefined ? idx.getTrace(idSignal) : undefined;
+    const edge = spec.edge ?? 'rising';
+    const times: number[] = [];
+
+    if (edge === 'cycle') {
+        const table = idx.getCycleTable();
+        if (!table) { return 'Edge "cycle" needs a clock. Call set_clock with the clock signal name.'; }
+        // Sampled just before each active edge, like a flip-flop
+        for (const tick of idx.getEdgeTimes(table.clock, table.edge, tStart, tEnd)) {
+            if (isTrue(trace, trace.lowerBound(tick) - 1)) { times.push(tick); }
+        }
+        return { times, ...(idTrace && { ids: times.map(t => valueAt(idTrace, idTrace.lowerBound(t) - 1)) }) };
+    }
+    const end = trace.upperBound(tEnd);
+    for (let i = trace.lowerBound(tStart); i < end; i++) {
+        const was = i > 0 && isTrue(trace, i - 1);
+        const now = isTrue(trace, i);
+        if (edge === 'any' || (edge === 'rising' ? !was && now : was && !now)) { times.push(trace.timeAt(i)); }
+    }
+    return { times, ...(idTrace && { ids: times.map(t => valueAt(idTrace, idTrace.upperBound(t) - 1)) }) };
+}
+
+/** Whether entry i holds a known non-zero value (false before the first value). */
+function isTrue(trace: SignalTrace, i: number): boolean {
+    if (i < 0) { return false; }
+    const bits = trace.rawAt(i);
+    return /^[01]+$/.test(bits) && bits.includes('1');
+}
+
+function valueAt(trace: SignalTrace, i: number): string {
+    return i >= 0 ? trace.valueAt(i) : 'x';
+}
+
+/** Latency unit of `idx`: cycles of the cycle clock when there is one, else time. */
+function unitOf(idx: WaveformIndex): {
+    unit: 'cycles' | 'time';
+    clock?: string;
+    /** Length of [from, to] in the unit */
+    between: (from: number, to: number) => number;
+    /** The time `length` units after `from` */
+    after: (from: number, length: number) => number;
+} {
+    const table = idx.getCycleTable();
+    if (!table) { return { unit: 'time', between: (from, to) => to - from, after: (from, length) => from + length }; }
+    const cycleOf = (time: number): number => table.timeToCycle(time)?.cycle ?? table.firstCycle - 1;
+    return {
+        unit: 'cycles',
+        clock: table.clock,
+        between: (from, to) => cycleOf(to) - cycleOf(from),
+        after: (from, length) => length === 0 ? from : table.cycleToTime(cycleOf(from) + length) ?? idx.endTime,
+    };
+}
+
+function describeEvent(spec: EventSpec): string {
+    const edge = spec.edge ?? 'rising';
+    return `"${spec.expression.trim()}" (${edge === 'cycle' ? 'each cycle it holds' : edge})${spec.id !== undefined ? ` by id ${spec.id}` : ''}`;
+}
+
+/** Nearest-rank percentile of ascending `sorted`. */
+function percentile(sorted: number[], p: number): number {
+    if (sorted.length === 0) { return 0; }
+    return sorted[Math.max(0, Math.ceil(p / 100 * sorted.length) - 1)];
+}
+
+/** One bin per latency when there are few distinct values, else BINS equal-width bins. */
+function histogram(sorted: number[]): HistogramBin[] {
+    if (sorted.length === 0) { return []; }
+    const distinct = [...new Set(sorted)];
+    if (distinct.length <= EXACT_BINS) {
+        return distinct.map(v => ({ from: v, to: v, count: sorted.filter(x => x === v).length }));
+    }
+    const min = sorted[0], max = sorted[sorted.length - 1];
+    const integral = sorted.every(Number.isInteger);
+    const width = integral ? Math.ceil((max - min + 1) / BINS) : (max - min) / BINS;
+    const bins: HistogramBin[] = [];
+    for (let from = min; from <= max; from += width) {
+        const to = integral ? from + width - 1 : from + width;
+        bins.push({ from: +from.toFixed(2), to: +to.toFixed(2), count: 0 });
+    }
+    for (const x of sorted) { bins[Math.min(bins.length - 1, Math.floor((x - min) / width))].count++; }
+    return bins;
+}
+
+function formatSample(x: LatencySample): string {
+    return `${x.latency} from t=${x.start} to t=${x.end}${x.id !== undefined ? ` (id ${x.id})` : ''}`;
+}
+
+/** "12.5 MB/s" */
+function formatBandwidth(bytesPerSecond: number): string {
+    const units = ['B/s', 'KB/s', 'MB/s', 'GB/s', 'TB/s'];
+    let i = 0;
+    while (bytesPerSecond >= 1000 && i < units.length - 1) {
+        bytesPerSecond /= 1000;
+        i++;
+    }
+    return `${+bytesPerSecond.toFixed(2)} ${units[i]}`;
+}
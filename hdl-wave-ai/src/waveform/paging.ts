@@ -0,0 +1,273 @@
+/*
+    Copyright (C) 2026 Andrew Capatina
+
+    This program is free software: you can redistribute it and/or modify
+    it under the terms of the GNU Affero General Public License as
+    published by the Free Software Foundation, either version 3 of the
+    License, or (at your option) any later version.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU Affero General Public License for more details.
+
+    You should have received a copy of the GNU Affero General Public License
+    along with this program.  If not, see <http://www.gnu.org/licenses/>.
+*/
+// Pagination for the capped query tools (query_transitions, find_pattern,
+// get_edges, sample_on_clock). A page is a contiguous slice of the full
+// result: nothing is dropped from the middle, the reply says how many items
+// remain, and a cursor token carries the query and offset of the next page.
+// Run-length summaries are the alternative when the model wants the shape
+// of the activity rather than every sample.
+import type { SignalTransition, WaveformIndex } from './vcd';
+
+/** find_pattern's match rule: case-insensitive substring, so "0x1f" finds "00011111 (0x1F)". */
+export function valueMatches(value: string, pattern: string): boolean {
+    return value.toLowerCase().includes(pattern.toLowerCase());
+}
+
+/** Contiguous slice of a result list. */
+export interface Page<T> {
+    items: T[];
+    /** Position of the first item within the full result */
+    offset: number;
+    /** Size of the full result */
+    total: number;
+}
+
+export interface PageRequest {
+    /** Items to skip (default 0) */
+    offset?: number;
+    /** Page size */
+    limit?: number;
+}
+
+/** Default page sizes, per tool */
+export const PAGE_SIZE = {
+    transitions: 150,
+    matches: 50,
+    edges: 150,
+    cycles: 150,
+    signals: 200,
+} as const;
+
+/** Slice `items` (the full result) according to `page`. */
+export function takePage<T>(items: T[], page: PageRequest, limit: number): Page<T> {
+    const offset = Math.max(0, Math.floor(page.offset ?? 0));
+    return { items: items.slice(offset, offset + (page.limit ?? limit)), offset, total: items.length };
+}
+
+/** Fields the paged tools put in their queries, and the values each may hold. */
+const QUERY_FIELDS: Record<string, (value: unknown) => boolean> = {
+    signal: v => typeof v === 'string',
+    signals: v => Array.isArray(v) && v.every(s => typeof s === 'string'),
+    value: v => typeof v === 'string',
+    pattern: v => typeof v === 'string',
+    scope: v => typeof v === 'string',
+    tStart: v => typeof v === 'number',
+    tEnd: v => typeof v === 'number',
+    cycleStart: v => typeof v === 'number',
+    cycleEnd: v => typeof v === 'number',
+    edgeType: v => v === 'rising' || v === 'falling' || v === 'any',
+    sample: v => v === 'before' || v === 'after',
+    recursive: v => typeof v === 'boolean',
+    changesOnly: v => typeof v === 'boolean',
+};
+
+interface CursorPayload<Q> {
+    tool: string;
+    query: Q;
+    offset: number;
+    /** Name of the waveform paged through, where several can be loaded (MCP) */
+    waveform?: string;
+}
+
+/**
+ * Cursor for the page after `page`, or undefined when it was the last one.
+ * The token is opaque to the model: base64url JSON of the tool, its
+ * (resolved) query, the next offset and, when given, the waveform name.
+ */
+export function nextCursor<Q>(tool: string, query: Q, page: Page<unknown>, waveform?: string): string | undefined {
+    const offset = page.offset + page.items.length;
+    if (offset >= page.total) { return undefined; }
+    const payload: CursorPayload<Q> = { tool, query, offset, waveform };
+    return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+/** The waveform name a cursor was issued for, or undefined (none recorded, or a damaged token). */
+export function cursorWaveform(token: string): string | undefined {
+    try {
+        const payload = JSON.parse(Buffer.from(token, 'base64url').toString('utf8')) as CursorPayload<unknown> | null;
+        return typeof payload?.waveform === 'string' ? payload.waveform : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * The query a paged tool call runs: decoded from `cursor` when one is
+ * given (and checked against `idx`), else built from the call's arguments
+ * by `fresh` (which returns an error message for bad arguments).
+ */
+export function resumeQuery<Q extends object>(idx: WaveformIndex, tool: string, cursor: string | undefined, fresh: () => Q | string): { query: Q; offset: number } | string {
+    if (cursor !== undefined) { return decodeCursor<Q>(idx, cursor, tool); }
+    const query = fresh();
+    return typeof query === 'string' ? query : { query, offset: 0 };
+}
+
+/**
+ * Decode a cursor issued by nextCursor() for `tool`. The token comes back
+ * from the model, so its query is checked field by field and its signals
+ * against `idx`. Returns an error message for foreign, damaged or stale
+ * tokens.
+ */
+function decodeCursor<Q>(idx: WaveformIndex, token: string, tool: string): { query: Q; offset: number } | string {
+    const invalid = `Invalid cursor "${token}": pass the cursor string exactly as a previous ${tool} result returned it.`;
+    let payload: CursorPayload<Q>;
+    try {
+        payload = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'));
+    } catch {
+        return invalid;
+    }
+    if (!payload || typeof payload !== 'object' || !Number.isInteger(payload.offset) || payload.offset < 0
+        || !payload.query || typeof payload.query !== 'object' || Array.isArray(payload.query)) {
+        return invalid;
+    }
+    if (payload.tool !== tool) {
+        return `This cursor belongs to ${payload.tool}, not ${tool}.`;
+    }
+    for (const [field, value] of Object.entries(payload.query)) {
+        const check = QUERY_FIELDS[field];
+        if (!check || !check(value)) { return invalid; }
+    }
+    const query = payload.query as { signal?: string; signals?: string[] };
+    const missing = [...(query.signal !== undefined ? [query.signal] : []), ...(query.signals ?? [])].find(s => !idx.hasSignal(s));
+    if (missing !== undefined) { return idx.signalNotFound(missing); }
+    return { query: payload.query, offset: payload.offset };
+}
+
+/**
+ * Header line describing where `page` sits in the full result, e.g.
+ * "[Transitions 1–150 of 812; 662 more. …]". Empty when the page is the
+ * whole result. `summary` mentions the tool's summary mode.
+ */
+export function pageNote(page: Page<unknown>, noun: string, cursor: string | undefined, summary = true): string {
+    const n = page.items.length;
+    if (page.offset === 0 && n === page.total) { return ''; }
+    const range = n > 0 ? `${noun} ${page.offset + 1}–${page.offset + n} of ${page.total}` : `No ${noun.toLowerCase()} at offset ${page.offset} of ${page.total}`;
+    if (!cursor) { return `[${range}; this is the last page.]\n`; }
+    const remaining = page.total - page.offset - n;
+    const alternative = summary ? ', or summary: true for run-length stats' : '';
+    return `[${range}; ${remaining} more. Pass cursor "${cursor}" for the next page${alternative}.]\n`;
+}
+
+/** Run-length statistics of one value. */
+export interface RunStats {
+    value: string;
+    runs: number;
+    /** Summed length of the runs */
+    total: number;
+    min: number;
+    max: number;
+}
+
+/** Accumulates how long (in time or cycles) each value persisted. */
+export class RunLengths {
+    private readonly stats = new Map<string, RunStats>();
+
+    add(value: string, length: number): void {
+        const s = this.stats.get(value);
+        if (!s) {
+            this.stats.set(value, { value, runs: 1, total: length, min: length, max: length });
+            return;
+        }
+        s.runs++;
+        s.total += length;
+        s.min = Math.min(s.min, length);
+        s.max = Math.max(s.max, length);
+    }
+
+    /** Per-value stats, largest total first. */
+    list(): RunStats[] {
+        return [...this.stats.values()].sort((a, b) => b.total - a.total || b.runs - a.runs);
+    }
+}
+
+/** One line per value: runs, share of `span`, and min/mean/max run length. */
+export function formatRunLengths(runs: RunStats[], span: number, unit: string, cap = 16): string[] {
+    const lines = runs.slice(0, cap).map(s => {
+        const share = span > 0 ? ` (${(100 * s.total / span).toFixed(1)}%)` : '';
+        const mean = +(s.total / s.runs).toFixed(2);
+        return `  ${s.value}: ${s.runs} run${s.runs !== 1 ? 's' : ''}, ${s.total} ${unit}${share}, min ${s.min} / mean ${mean} / max ${s.max}`;
+    });
+    if (runs.length > cap) { lines.push(`  … and ${runs.length - cap} more values`); }
+    return lines;
+}
+
+/** "min 10 / mean 12.5 / max 20" over the gaps between successive times, with the most common gaps. */
+function formatIntervals(times: number[]): string {
+    const gaps = new RunLengths();
+    let min = Infinity, max = 0;
+    for (let i = 1; i < times.length; i++) {
+        const gap = times[i] - times[i - 1];
+        gaps.add(String(gap), 1);
+        min = Math.min(min, gap);
+        max = Math.max(max, gap);
+    }
+    const mean = +((times[times.length - 1] - times[0]) / (times.length - 1)).toFixed(2);
+    if (min === max) { return `every ${min} (regular)`; }
+    const common = gaps.list().slice(0, 5).map(g => `${g.value} ×${g.runs}`).join(', ');
+    return `min ${min} / mean ${mean} / max ${max}; most common: ${common}`;
+}
+
+/** summary mode of query_transitions: how long the signal held each value. */
+export function summarizeTransitions(idx: WaveformIndex, signal: string, tStart: number, tEnd: number): string {
+    const count = idx.countTransitions(signal, tStart, tEnd);
+    const runs = idx.runLengths(signal, tStart, tEnd).list();
+    const lines = [`"${signal}" in [${tStart}, ${tEnd}]: ${count} transition${count !== 1 ? 's' : ''}, ${runs.length} distinct value${runs.length !== 1 ? 's' : ''}.`];
+    if (runs.length > 0) {
+        lines.push('Time held per value (largest total first):', ...formatRunLengths(runs, Math.min(tEnd, idx.endTime) - tStart, 'time units'));
+    }
+    return lines.join('\n');
+}
+
+/** summary mode of find_pattern: match count, spacing and time spent in matching values. */
+export function summarizePattern(idx: WaveformIndex, signal: string, value: string, tStart: number, tEnd: number): string {
+    const times = idx.findPattern(signal, value, tStart, tEnd, { limit: Infinity }).items;
+    if (times.length === 0) { return `"${signal}" never equals "${value}" in [${tStart}, ${tEnd}].`; }
+    const n = times.length;
+    const lines = [`"${signal}" changes to a value matching "${value}" ${n} time${n !== 1 ? 's' : ''} in [${tStart}, ${tEnd}]: first t=${times[0]}, last t=${times[n - 1]}.`];
+    if (n > 1) { lines.push(`Spacing between matches: ${formatIntervals(times)}.`); }
+    const runs = idx.runLengths(signal, tStart, tEnd).list().filter(r => valueMatches(r.value, value));
+    const span = Math.min(tEnd, idx.endTime) - tStart;
+    const held = runs.reduce((sum, r) => sum + r.total, 0);
+    lines.push(`Held a matching value for ${held} of ${span} time units${span > 0 ? ` (${(100 * held / span).toFixed(1)}%)` : ''}:`, ...formatRunLengths(runs, span, 'time units'));
+    return lines.join('\n');
+}
+
+/** summary mode of get_edges: edge count and spacing. */
+export function summarizeEdges(idx: WaveformIndex, signal: string, tStart: number, tEnd: number, edgeType: 'rising' | 'falling' | 'any'): string {
+    const times = idx.getEdgeTimes(signal, edgeType, tStart, tEnd);
+    if (times.length === 0) { return `No ${edgeType} edges for "${signal}" in [${tStart}, ${tEnd}].`; }
+    const n = times.length;
+    const lines = [`${n} ${edgeType} edge${n !== 1 ? 's' : ''} of "${signal}" in [${tStart}, ${tEnd}]: first t=${times[0]}, last t=${times[n - 1]}.`];
+    if (n > 1) { lines.push(`Spacing between edges: ${formatIntervals(times)}.`); }
+    const zeroWidth = times.filter(t => isZeroWidth(idx, signal, t)).length;
+    if (zeroWidth > 0) { lines.push(`${zeroWidth} of them share their time with another change of the signal (zero-width glitches; find_glitches lists them).`); }
+    return lines.join('\n');
+}
+
+/**
+ * Page lines of get_edges. An edge sharing its time with another change of
+ * the signal is a zero-width (delta-cycle) glitch, not a real edge, and is marked.
+ */
+export function formatEdges(idx: WaveformIndex, signal: string, edges: SignalTransition[]): string {
+    return edges.map(e => `t=${e.time}: ${e.value}` + (isZeroWidth(idx, signal, e.time) ? ' (zero-width glitch)' : '')).join('\n');
+}
+
+/** Several changes of `signal` at `time`, other than its initial value settling at the first timestamp. */
+function isZeroWidth(idx: WaveformIndex, signal: string, time: number): boolean {
+    const trace = idx.getTrace(signal);
+    return !!trace && trace.length > 0 && time > trace.timeAt(0) && trace.upperBound(time) - trace.lowerBound(time) > 1;
+}
@@ -0,0 +1,595 @@
+/*
+    Copyright (C) 2026 Andrew Capatina
+
+    This program is free software: you can redistribute it and/or modify
+    it under the terms of the GNU Affero General Public License as
+    published by the Free Software Foundation, either version 3 of the
+    License, or (at your option) any later version.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU Affero General Public License for more details.
+
+    You should have received a copy of the GNU Affero General Public License
+    along with this program.  If not, see <http://www.gnu.org/licenses/>.
+*/
+// Serial protocol decoders: UART, SPI, I2C and JTAG lines turned into
+// timestamped frames. Unlike the bus decoders these are not tied to a
+// system clock: UART is timed by its baud rate, the others by their own
+// serial clock.
+import { SignalTrace } from './trace';
+import { timescaleSeconds, WaveformIndex } from './vcd';
+
+export type SerialProtocol = 'uart' | 'spi' | 'i2c' | 'jtag';
+
+export const SERIAL_PROTOCOLS: SerialProtocol[] = ['uart', 'spi', 'i2c', 'jtag'];
+
+export interface SerialFrame {
+    start: number;
+    end: number;
+    /** uart: byte; spi: word; i2c: start/restart/stop/address/data; jtag: reset/shift-ir/shift-dr */
+    kind: string;
+    /** Decoded fields, e.g. { byte: "0x41", char: "A" } or { addr: "0x50", rw: "W", ack: "ACK" } */
+    fields: Record<string, string>;
+    errors?: string[];
+}
+
+export interface SerialDecodeOptions {
+    /** Role → signal: uart line; spi sclk/mosi/miso/cs; i2c scl/sda; jtag tck/tms/tdi/tdo/trst */
+    roles?: Record<string, string>;
+    /** Restrict role suggestion to signals under this path prefix */
+    prefix?: string;
+    tStart?: number;
+    tEnd?: number;
+    /** Max frames returned (default 100); `total` counts all of them */
+    maxFrames?: number;
+    // UART
+    /** Baud rate in bits per second (converted with the waveform's timescale) */
+    baud?: number;
+    /** Bit period in waveform time units; overrides baud. Estimated when neither is given. */
+    bitTime?: number;
+    dataBits?: number;
+    parity?: 'none' | 'even' | 'odd';
+    stopBits?: number;
+    /** Line idles low (inverted UART) */
+    invert?: boolean;
+    // SPI
+    cpol?: 0 | 1;
+    cpha?: 0 | 1;
+    bitsPerWord?: number;
+    /** SPI chip select level (default low) */
+    csActive?: 'high' | 'low';
+    /** Bit order: SPI defaults to MSB first, UART to LSB first */
+    msbFirst?: boolean;
+}
+
+export interface SerialDecodeResult {
+    protocol: SerialProtocol;
+    roles: Record<string, string>;
+    /** Decoder settings in effect, e.g. "115200 baud (bit time 8680.6), 8N1" */
+    settings: string;
+    tStart: number;
+    tEnd: number;
+    frames: SerialFrame[];
+    total: number;
+    /** Protocol-level summary lines, e.g. the UART text */
+    summary: string[];
+    warnings: string[];
+}
+
+// ── Roles ────────────────────────────────────────────────────────────────────
+
+/** Role → leaf-name pattern, and which roles are required. */
+const ROLES: Record<SerialProtocol, { roles: Record<string, RegExp>; required: string[] }> = {
+    uart: {
+        roles: { line: /(^|_)(tx|rx|txd|rxd|sout|sin)(_[io])?$/i },
+        required: ['line'],
+    },
+    spi: {
+        roles: {
+            sclk: /(^|_)(sclk|sck|spi_clk)(_[io])?$/i,
+            mosi: /(^|_)(mosi|sdi|copi)(_[io])?$/i,
+            miso: /(^|_)(miso|sdo|cipo)(_[io])?$/i,
+            cs: /(^|_)(cs_?n?|ss_?n?|csb|nss|ncs)(_[io])?$/i,
+        },
+        required: ['sclk'],
+    },
+    i2c: {
+        roles: {
+            scl: /(^|_)scl(_[io]|_in)?$/i,
+            sda: /(^|_)sda(_[io]|_in)?$/i,
+        },
+        required: ['scl', 'sda'],
+    },
+    jtag: {
+        roles: {
+            tck: /(^|_)tck(_[io])?$/i,
+            tms: /(^|_)tms(_[io])?$/i,
+            tdi: /(^|_)tdi(_[io])?$/i,
+            tdo: /(^|_)tdo(_[io])?$/i,
+            trst: /(^|_)trst_?n?(_[io])?$/i,
+        },
+        required: ['tck', 'tms'],
+    },
+};
+
+/**
+ * Suggest roles from leaf names: for each role, the shortest matching path,
+ * preferring paths in the scope of the first required role found.
+ */
+function suggestSerialRoles(idx: WaveformIndex, protocol: SerialProtocol, prefix: string): Record<string, string> {
+    const spec = ROLES[protocol];
+    const candidates = new Map<string, string[]>();
+    for (const path of idx.signals) {
+        if (!path.startsWith(prefix)) { continue; }
+        const leaf = path.slice(path.lastIndexOf('.') + 1);
+        for (const [role, re] of Object.entries(spec.roles)) {
+            if (re.test(leaf)) {
+                const list = candidates.get(role) ?? [];
+                list.push(path);
+                candidates.set(role, list);
+            }
+        }
+    }
+    const roles: Record<string, string> = {};
+    let scope: string | null = null;
+    for (const role of [...spec.required, ...Object.keys(spec.roles).filter(r => !spec.required.includes(r))]) {
+        const list = (candidates.get(role) ?? []).sort((a, b) => a.length - b.length);
+        const inScope: string | undefined = scope !== null ? list.find(p => p.startsWith(scope!)) : undefined;
+        const pick: string | undefined = inScope ?? list[0];
+        if (!pick) { continue; }
+        roles[role] = pick;
+        scope ??= pick.slice(0, pick.lastIndexOf('.') + 1);
+    }
+    return roles;
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+/** 0/1 level of a raw scalar (std_logic weak states included); null for x/z. */
+function levelOf(raw: string): 0 | 1 | null {
+    if (raw === '1' || raw === 'h' || raw === 'H') { return 1; }
+    if (raw === '0' || raw === 'l' || raw === 'L') { return 0; }
+    if (/^[01]+$/.test(raw)) { return raw.includes('1') ? 1 : 0; }
+    return null;
+}
+
+/** Level in effect at `time` (after any change at that time). */
+function levelAt(trace: SignalTrace, time: number): 0 | 1 | null {
+    const i = trace.upperBound(time) - 1;
+    return i >= 0 ? levelOf(trace.rawAt(i)) : null;
+}
+
+/** Level just before `time` (what an edge at `time` samples). */
+function levelBefore(trace: SignalTrace, time: number): 0 | 1 | null {
+    const i = trace.lowerBound(time) - 1;
+    return i >= 0 ? levelOf(trace.rawAt(i)) : null;
+}
+
+/** Bits (first shifted first) as hex; "x" when any bit is unknown. */
+function bitsToHex(bits: (0 | 1 | null)[], msbFirst: boolean): string {
+    if (bits.length === 0) { return ''; }
+    if (bits.some(b => b === null)) { return 'x'; }
+    const ordered = msbFirst ? bits : [...bits].reverse();
+    return '0x' + BigInt('0b' + ordered.join('')).toString(16).toUpperCase().padStart(Math.ceil(bits.length / 4), '0');
+}
+
+function printable(byte: number): string {
+    if (byte >= 0x20 && byte < 0x7f) { return String.fromCharCode(byte); }
+    return ({ 0x0a: '\\n', 0x0d: '\\r', 0x09: '\\t' } as Record<number, string>)[byte] ?? `\\x${byte.toString(16).padStart(2, '0')}`;
+}
+
+// ── UART ─────────────────────────────────────────────────────────────────────
+
+/**
+ * Estimate the UART bit time as the shortest interval between line changes
+ * (one isolated bit). Only looks at the first few thousand changes.
+ */
+function estimateBitTime(trace: SignalTrace, tStart: number, tEnd: number): number | null {
+    let shortest = Infinity;
+    const first = trace.lowerBound(tStart);
+    const end = Math.min(trace.upperBound(tEnd), first + 4096);
+    for (let i = first + 1; i < end; i++) {
+        const d = trace.timeAt(i) - trace.timeAt(i - 1);
+        if (d > 0 && d < shortest) { shortest = d; }
+    }
+    return Number.isFinite(shortest) ? shortest : null;
+}
+
+function decodeUart(
+    idx: WaveformIndex,
+    trace: SignalTrace,
+    options: SerialDecodeOptions,
+    tStart: number,
+    tEnd: number,
+    out: SerialDecodeResult,
+): void {
+    const dataBits = options.dataBits ?? 8;
+    const parity = options.parity ?? 'none';
+    const stopBits = options.stopBits ?? 1;
+    const idle: 0 | 1 = options.invert ? 0 : 1;
+    const msbFirst = options.msbFirst ?? false;
+
+    let bitTime = options.bitTime;
+    let source: string;
+    if (bitTime !== undefined) {
+        source = `bit time ${bitTime}`;
+    } else if (options.baud !== undefined) {
+        const unit = timescaleSeconds(idx.timescale);
+        if (unit === null) {
+            out.warnings.push(`Unknown timescale "${idx.timescale}": pass bit_time in waveform time units instead of baud.`);
+            return;
+        }
+        bitTime = 1 / options.baud / unit;
+        source = `${options.baud} baud (bit time ${+bitTime.toPrecision(6)})`;
+    } else {
+        const estimate = estimateBitTime(trace, tStart, tEnd);
+        if (estimate === null) {
+            out.warnings.push('The line does not change in the window, so the bit time cannot be estimated.');
+            return;
+        }
+        bitTime = estimate;
+        const unit = timescaleSeconds(idx.timescale);
+        source = `estimated bit time ${bitTime}` + (unit !== null ? ` (~${Math.round(1 / (bitTime * unit))} baud)` : '');
+    }
+    out.settings = `${source}, ${dataBits}${parity[0].toUpperCase()}${stopBits}${options.invert ? ', inverted' : ''}`;
+
+    const frameBits = 1 + dataBits + (parity === 'none' ? 0 : 1) + stopBits;
+    const bytes: number[] = [];
+    let t = tStart;
+    for (;;) {
+        // Start bit: the next change from idle to the active level
+        let i = trace.upperBound(t);
+        while (i < trace.length && !(levelOf(trace.rawAt(i)) === 1 - idle && (i === 0 || levelOf(trace.rawAt(i - 1)) === idle))) { i++; }
+        if (i >= trace.length) { break; }
+        const t0 = trace.timeAt(i);
+        if (t0 > tEnd) { break; }
+        // A frame cut off by the end of the window is still reported, flagged;
+        // bits sampled after the end are unknown
+        const truncated = t0 + frameBits * bitTime > tEnd;
+        const sampled = (bit: number) => t0 + (bit + 0.5) * bitTime! <= tEnd;
+        const sample = (bit: number) => {
+            const level = sampled(bit) ? levelAt(trace, t0 + (bit + 0.5) * bitTime!) : null;
+            return level === null ? null : (options.invert ? (1 - level) as 0 | 1 : level);
+        };
+        if (sample(0) !== 0) {
+            // Glitch shorter than half a bit: not a start bit
+            t = t0;
+            continue;
+        }
+        const bits = Array.from({ length: dataBits }, (_, k) => sample(1 + k));
+        const errors: string[] = [];
+        if (truncated) { errors.push(`truncated (runs past the end of the ${tEnd >= idx.endTime ? 'dump' : 'window'})`); }
+        const fields: Record<string, string> = {};
+        const value = bitsToHex(bits, msbFirst);
+        fields['byte'] = value;
+        if (value !== 'x') {
+            const n = parseInt(value, 16);
+            fields['char'] = printable(n);
+            bytes.push(n);
+        } else {
+            errors.push('unknown data bits');
+        }
+        if (parity !== 'none' && sampled(1 + dataBits)) {
+            const p = sample(1 + dataBits);
+            const ones = bits.filter(b => b === 1).length + (p ?? 0);
+            if (p === null || (parity === 'even') !== (ones % 2 === 0)) { errors.push('parity error'); }
+        }
+        const stopStart = frameBits - stopBits;
+        for (let k = 0; k < Math.ceil(stopBits) && sampled(stopStart + k); k++) {
+            if (sample(stopStart + k) !== 1) {
+                errors.push('framing error (stop bit low)');
+                break;
+            }
+        }
+        out.frames.push({
+            start: t0,
+            end: Math.min(t0 + frameBits * bitTime, tEnd),
+            kind: 'byte',
+            fields,
+            ...(errors.length > 0 ? { errors } : {}),
+        });
+        if (truncated) { break; }
+        // Resume searching from the middle of the (first) stop bit
+        t = t0 + (stopStart + 0.5) * bitTime;
+    }
+    if (bytes.length > 0) {
+        out.summary.push(`Bytes: ${bytes.map(b => b.toString(16).padStart(2, '0')).join(' ')}`);
+        out.summary.push(`Text: "${bytes.map(printable).join('')}"`);
+    }
+}
+
+// ── SPI ──────────────────────────────────────────────────────────────────────
+
+function decodeSpi(
+    idx: WaveformIndex,
+    roles: Record<string, string>,
+    options: SerialDecodeOptions,
+    tStart: number,
+    tEnd: number,
+    out: SerialDecodeResult,
+): void {
+    const cpol = options.cpol ?? 0;
+    const cpha = options.cpha ?? 0;
+    const wordBits = options.bitsPerWord ?? 8;
+    const msbFirst = options.msbFirst ?? true;
+    const csActive = options.csActive === 'high' ? 1 : 0;
+    // Modes 0 and 3 sample on the rising edge, 1 and 2 on the falling edge
+    const sampleEdge = cpol === cpha ? 'rising' : 'falling';
+    out.settings = `mode ${cpol * 2 + cpha} (CPOL=${cpol}, CPHA=${cpha}), sampled on ${sampleEdge} SCLK edges, ${wordBits}-bit words, ${msbFirst ? 'MSB' : 'LSB'} first` +
+        (roles['cs'] ? `, CS active ${csActive ? 'high' : 'low'}` : '');
+
+    const mosi = roles['mosi'] ? idx.getTrace(roles['mosi']) : undefined;
+    const miso = roles['miso'] ? idx.getTrace(roles['miso']) : undefined;
+    const cs = roles['cs'] ? idx.getTrace(roles['cs']) : undefined;
+    const edges = idx.getEdgeTimes(roles['sclk'], sampleEdge, tStart, tEnd);
+
+    let word: { start: number; end: number; mosi: (0 | 1 | null)[]; miso: (0 | 1 | null)[]; txn: number } | null = null;
+    let transaction = 0;
+    let lastSelect = -2;
+    const flush = () => {
+        if (!word) { return; }
+        const fields: Record<string, string> = { transaction: String(word.txn) };
+        if (mosi) { fields['mosi'] = bitsToHex(word.mosi, msbFirst); }
+        if (miso) { fields['miso'] = bitsToHex(word.miso, msbFirst); }
+        const partial = word.mosi.length < wordBits;
+        out.frames.push({
+            start: word.start, end: word.end, kind: 'word', fields,
+            ...(partial ? { errors: [`partial word (${word.mosi.length} of ${wordBits} bits)`] } : {}),
+        });
+        word = null;
+    };
+
+    for (const t of edges) {
+        if (cs) {
+            // Index of the CS change in effect identifies the select period
+            const select = cs.upperBound(t) - 1;
+            if (select < 0 || levelOf(cs.rawAt(select)) !== csActive) {
+                flush();
+                continue;
+            }
+            if (select !== lastSelect) {
+                flush();
+                transaction++;
+                lastSelect = select;
+            }
+        } else if (transaction === 0) {
+            transaction = 1;
+        }
+        word ??= { start: t, end: t, mosi: [], miso: [], txn: transaction };
+        word.mosi.push(mosi ? levelBefore(mosi, t) : 0);
+        word.miso.push(miso ? levelBefore(miso, t) : 0);
+        word.end = t;
+        if (word.mosi.length === wordBits) { flush(); }
+    }
+    flush();
+    if (out.frames.length > 0) {
+        const bytes = (key: string) => out.frames.map(f => f.fields[key]).filter(v => v !== undefined).join(' ');
+        if (mosi) { out.summary.push(`MOSI: ${bytes('mosi')}`); }
+        if (miso) { out.summary.push(`MISO: ${bytes('miso')}`); }
+    }
+}
+
+// ── I2C ──────────────────────────────────────────────────────────────────────
+
+function decodeI2c(
+    idx: WaveformIndex,
+    roles: Record<string, string>,
+    tStart: number,
+    tEnd: number,
+    out: SerialDecodeResult,
+): void {
+    const scl = idx.getTrace(roles['scl'])!;
+    const sda = idx.getTrace(roles['sda'])!;
+    out.settings = '7-bit addressing';
+
+    let sclLevel = levelAt(scl, tStart);
+    let sdaLevel = levelAt(sda, tStart);
+    let i = scl.upperBound(tStart);
+    let j = sda.upperBound(tStart);
+    let inTransfer = false;
+    let bits: (0 | 1 | null)[] = [];
+    let byteStart = 0;
+    let isAddress = false;
+
+    while (i < scl.length || j < sda.length) {
+        const t = Math.min(i < scl.length ? scl.timeAt(i) : Infinity, j < sda.length ? sda.timeAt(j) : Infinity);
+        if (t > tEnd) { break; }
+        while (i < scl.length && scl.timeAt(i) === t) { i++; }
+        while (j < sda.length && sda.timeAt(j) === t) { j++; }
+        const newScl = i > 0 ? levelOf(scl.rawAt(i - 1)) : null;
+        const newSda = j > 0 ? levelOf(sda.rawAt(j - 1)) : null;
+
+        if (sclLevel === 1 && newScl === 1 && sdaLevel !== newSda) {
+            if (sdaLevel === 1 && newSda === 0) {
+                // START, or repeated START inside a transfer
+                out.frames.push({ start: t, end: t, kind: inTransfer ? 'restart' : 'start', fields: {} });
+                // The SCL rise that precedes a START or STOP reads as one bit
+                if (bits.length > 1) { out.warnings.push(`Incomplete byte (${bits.length - 1} bits) before START at t=${t}.`); }
+                inTransfer = true;
+                isAddress = true;
+                bits = [];
+            } else if (sdaLevel === 0 && newSda === 1) {
+                if (bits.length > 1) { out.warnings.push(`Incomplete byte (${bits.length - 1} bits) before STOP at t=${t}.`); }
+                out.frames.push({ start: t, end: t, kind: 'stop', fields: {} });
+                inTransfer = false;
+                bits = [];
+            }
+        } else if (sclLevel === 0 && newScl === 1 && inTransfer) {
+            if (bits.length === 0) { byteStart = t; }
+            bits.push(newSda);
+            if (bits.length === 9) {
+                const byte = bitsToHex(bits.slice(0, 8), true);
+                const ack = bits[8] === 0 ? 'ACK' : bits[8] === 1 ? 'NACK' : 'x';
+                if (isAddress) {
+                    const value = byte === 'x' ? null : parseInt(byte, 16);
+                    const fields: Record<string, string> = {
+                        addr: value === null ? 'x' : '0x' + (value >> 1).toString(16).toUpperCase().padStart(2, '0'),
+                        rw: value === null ? 'x' : value & 1 ? 'R' : 'W',
+                        ack,
+                    };
+                    const errors = value !== null && (value & 0xf8) === 0xf0 ? ['10-bit address: first byte only'] : undefined;
+                    out.frames.push({ start: byteStart, end: t, kind: 'address', fields, ...(errors ? { errors } : {}) });
+                    isAddress = false;
+                } else {
+                    out.frames.push({ start: byteStart, end: t, kind: 'data', fields: { byte, ack } });
+                }
+                bits = [];
+            }
+        }
+        sclLevel = newScl;
+        sdaLevel = newSda;
+    }
+    if (inTransfer) { out.warnings.push('Transfer still open (no STOP) at the end of the window.'); }
+}
+
+// ── JTAG ─────────────────────────────────────────────────────────────────────
+
+const TAP_STATES = [
+    'TEST-LOGIC-RESET', 'RUN-TEST/IDLE',
+    'SELECT-DR-SCAN', 'CAPTURE-DR', 'SHIFT-DR', 'EXIT1-DR', 'PAUSE-DR', 'EXIT2-DR', 'UPDATE-DR',
+    'SELECT-IR-SCAN', 'CAPTURE-IR', 'SHIFT-IR', 'EXIT1-IR', 'PAUSE-IR', 'EXIT2-IR', 'UPDATE-IR',
+] as const;
+type TapState = typeof TAP_STATES[number];
+
+/** IEEE 1149.1 TAP controller: next state for TMS = 0 and TMS = 1. */
+const TAP_NEXT: Record<TapState, [TapState, TapState]> = {
+    'TEST-LOGIC-RESET': ['RUN-TEST/IDLE', 'TEST-LOGIC-RESET'],
+    'RUN-TEST/IDLE': ['RUN-TEST/IDLE', 'SELECT-DR-SCAN'],
+    'SELECT-DR-SCAN': ['CAPTURE-DR', 'SELECT-IR-SCAN'],
+    'CAPTURE-DR': ['SHIFT-DR', 'EXIT1-DR'],
+    'SHIFT-DR': ['SHIFT-DR', 'EXIT1-DR'],
+    'EXIT1-DR': ['PAUSE-DR', 'UPDATE-DR'],
+    'PAUSE-DR': ['PAUSE-DR', 'EXIT2-DR'],
+    'EXIT2-DR': ['SHIFT-DR', 'UPDATE-DR'],
+    'UPDATE-DR': ['RUN-TEST/IDLE', 'SELECT-DR-SCAN'],
+    'SELECT-IR-SCAN': ['CAPTURE-IR', 'TEST-LOGIC-RESET'],
+    'CAPTURE-IR': ['SHIFT-IR', 'EXIT1-IR'],
+    'SHIFT-IR': ['SHIFT-IR', 'EXIT1-IR'],
+    'EXIT1-IR': ['PAUSE-IR', 'UPDATE-IR'],
+    'PAUSE-IR': ['PAUSE-IR', 'EXIT2-IR'],
+    'EXIT2-IR': ['SHIFT-IR', 'UPDATE-IR'],
+    'UPDATE-IR': ['RUN-TEST/IDLE', 'SELECT-DR-SCAN'],
+};
+
+function decodeJtag(
+    idx: WaveformIndex,
+    roles: Record<string, string>,
+    tStart: number,
+    tEnd: number,
+    out: SerialDecodeResult,
+): void {
+    const tms = idx.getTrace(roles['tms'])!;
+    const tdi = roles['tdi'] ? idx.getTrace(roles['tdi']) : undefined;
+    const tdo = roles['tdo'] ? idx.getTrace(roles['tdo']) : undefined;
+    const trst = roles['trst'] ? idx.getTrace(roles['trst']) : undefined;
+    out.settings = 'TAP assumed in TEST-LOGIC-RESET at the start of the window; data shifted LSB first';
+
+    let state: TapState = 'TEST-LOGIC-RESET';
+    let shift: { kind: 'shift-ir' | 'shift-dr'; start: number; end: number; tdi: (0 | 1 | null)[]; tdo: (0 | 1 | null)[] } | null = null;
+    let pending: SerialFrame | null = null;   // shifted, waiting to see whether UPDATE follows
+    let ir: string | null = null;
+    let lastTrst = -1;
+
+    for (const t of idx.getEdgeTimes(roles['tck'], 'rising', tStart, tEnd)) {
+        if (trst) {
+            // TRST* (active low) resets the TAP asynchronously
+            const k = trst.upperBound(t) - 1;
+            if (k >= 0 && levelOf(trst.rawAt(k)) === 0) {
+                if (k !== lastTrst) {
+                    out.frames.push({ start: trst.timeAt(k), end: trst.timeAt(k), kind: 'reset', fields: { by: 'TRST' } });
+                    lastTrst = k;
+                }
+                state = 'TEST-LOGIC-RESET';
+                shift = null;
+                continue;
+            }
+        }
+        if (state === 'SHIFT-DR' || state === 'SHIFT-IR') {
+            shift ??= { kind: state === 'SHIFT-IR' ? 'shift-ir' : 'shift-dr', start: t, end: t, tdi: [], tdo: [] };
+            shift.tdi.push(tdi ? levelBefore(tdi, t) : 0);
+            shift.tdo.push(tdo ? levelBefore(tdo, t) : 0);
+            shift.end = t;
+        }
+        const tmsLevel = levelBefore(tms, t);
+        if (tmsLevel === null) {
+            out.warnings.push(`TMS unknown at t=${t}; TAP state tracking may be wrong from here.`);
+            continue;
+        }
+        const next: TapState = TAP_NEXT[state][tmsLevel];
+        if (shift && (state === 'SHIFT-DR' || state === 'SHIFT-IR') && next !== state) {
+            const fields: Record<string, string> = { bits: String(shift.tdi.length) };
+            if (tdi) { fields['tdi'] = bitsToHex(shift.tdi, false); }
+            if (tdo) { fields['tdo'] = bitsToHex(shift.tdo, false); }
+            if (shift.kind === 'shift-dr' && ir !== null) { fields['ir'] = ir; }
+            pending = { start: shift.start, end: shift.end, kind: shift.kind, fields };
+            out.frames.push(pending);
+            shift = null;
+        }
+        if ((next === 'UPDATE-IR' || next === 'UPDATE-DR') && pending) {
+            pending.fields['update'] = 'yes';
+            if (next === 'UPDATE-IR' && pending.fields['tdi']) { ir = pending.fields['tdi']; }
+            pending = null;
+        }
+        if (next === 'TEST-LOGIC-RESET' && state !== 'TEST-LOGIC-RESET') {
+            out.frames.push({ start: t, end: t, kind: 'reset', fields: { by: 'TMS' } });
+            ir = null;
+        }
+        state = next;
+    }
+    out.summary.push(`TAP state at end of window: ${state}` + (ir !== null ? `, IR=${ir}` : ''));
+}
+
+// ── Entry point ──────────────────────────────────────────────────────────────
+
+/** Decode a serial protocol. Returns an error message when required lines cannot be mapped. */
+export function decodeSerial(idx: WaveformIndex, protocol: SerialProtocol, options: SerialDecodeOptions = {}): SerialDecodeResult | string {
+    const spec = ROLES[protocol];
+    if (!spec) { return `Unknown protocol "${protocol}". Supported: ${SERIAL_PROTOCOLS.join(', ')}.`; }
+    const roles = suggestSerialRoles(idx, protocol, options.prefix ?? '');
+    for (const [role, path] of Object.entries(options.roles ?? {})) {
+        if (!(role in spec.roles)) { return `Unknown ${protocol} role "${role}". Roles: ${Object.keys(spec.roles).join(', ')}.`; }
+        const signal = idx.resolveSignal(path);
+        if (signal === null) { return `Role ${role}: ${idx.signalNotFound(path)}`; }
+        roles[role] = signal;
+    }
+    const missing = spec.required.filter(r => !roles[r]);
+    if (missing.length > 0) {
+        return `Could not find the ${protocol} ${missing.join(', ')} signal(s). Pass roles explicitly, e.g. {"${missing[0]}": "<signal>"}.`;
+    }
+
+    const tStart = options.tStart ?? 0;
+    const tEnd = options.tEnd ?? idx.endTime;
+    const result: SerialDecodeResult = {
+        protocol, roles, settings: '', tStart, tEnd, frames: [], total: 0, summary: [], warnings: [],
+    };
+    switch (protocol) {
+        case 'uart': decodeUart(idx, idx.getTrace(roles['line'])!, options, tStart, tEnd, result); break;
+        case 'spi': decodeSpi(idx, roles, options, tStart, tEnd, result); break;
+        case 'i2c': decodeI2c(idx, roles, tStart, tEnd, result); break;
+        case 'jtag': decodeJtag(idx, roles, tStart, tEnd, result); break;
+    }
+    result.total = result.frames.length;
+    result.frames = result.frames.slice(0, options.maxFrames ?? 100);
+    return result;
+}
+
+/** Render a decode result: settings, summary, then one line per frame. */
+export function formatSerialDecode(result: SerialDecodeResult): string {
+    const roles = Object.entries(result.roles).map(([r, p]) => `${r}=${p}`).join(', ');
+    const lines = [
+        `${result.protocol.toUpperCase()} [${result.tStart}, ${result.tEnd}]: ${result.total} frame(s)` +
+        (result.total > result.frames.length ? `, first ${result.frames.length} shown` : ''),
+        `Signals: ${roles}`,
+    ];
+    if (result.settings) { lines.push(`Settings: ${result.settings}`); }
+    lines.push(...result.summary);
+    for (const f of result.frames) {
+        const time = f.start === f.end ? `t=${f.start}` : `t=${f.start}..${+f.end.toPrecision(12)}`;
+        const fields = Object.entries(f.fields).map(([k, v]) => `${k}=${v}`).join(' ');
+        lines.push(`  ${time} ${f.kind.toUpperCase()}${fields ? ' ' + fields : ''}${f.errors ? ` [${f.errors.join('; ')}]` : ''}`);
+    }
+    for (const w of result.warnings.slice(0, 10)) { lines.push(`Warning: ${w}`); }
+    return lines.join('\n');
+}
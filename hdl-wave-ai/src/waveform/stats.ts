@@ -0,0 +1,319 @@
+/*
+    Copyright (C) 2026 Andrew Capatina
+
+    This program is free software: you can redistribute it and/or modify
+    it under the terms of the GNU Affero General Public License as
+    published by the Free Software Foundation, either version 3 of the
+    License, or (at your option) any later version.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU Affero General Public License for more details.
+
+    You should have received a copy of the GNU Affero General Public License
+    along with this program.  If not, see <http://www.gnu.org/licenses/>.
+*/
+// Signal statistics: how long a signal held each value over a time window,
+// its range, high time, pulse widths, toggle rate and whether it (or some of
+// its bits) was stuck. Computed over every change in the window, so "what is
+// the duty cycle of busy" is answered exactly rather than from samples.
+import { bitsOf } from './trace';
+import type { SignalKind, WaveformIndex } from './vcd';
+
+/** Time-weighted occupancy of one value. */
+export interface ValueOccupancy {
+    value: string;
+    /** Times the value was entered (the value in effect at tStart counts once) */
+    runs: number;
+    /** Time spent holding the value */
+    time: number;
+}
+
+/** Widths of complete pulses: both edges inside the window. */
+export interface PulseWidths {
+    count: number;
+    min: number;
+    mean: number;
+    max: number;
+    /** Most common widths, most frequent first */
+    common: { width: number; count: number }[];
+}
+
+export interface SignalStats {
+    signal: string;
+    kind: SignalKind;
+    width: number;
+    tStart: number;
+    /** End of the window, clipped to the end of the dump */
+    tEnd: number;
+    /** Value changes in the window; the first value of the dump is not one */
+    transitions: number;
+    /** Mean time between changes, null without changes */
+    meanInterval: number | null;
+    /** Changes per cycle of the cycle clock, when one is known */
+    perCycle?: { rate: number; clock: string };
+    distinctValues: number;
+    /** Values by time held, largest first (at most MAX_VALUES) */
+    values: ValueOccupancy[];
+    /** Smallest and largest value held, for numeric vectors and reals */
+    min?: string;
+    max?: string;
+    /** Time spent high (non-zero for vectors), low (zero) and unknown (x/z, or before the first value) */
+    high: number;
+    low: number;
+    unknown: number;
+    /** Pulse widths of single-bit signals */
+    highPulses?: PulseWidths;
+    lowPulses?: PulseWidths;
+    /** The value held for the whole window, when the signal never changed in it */
+    stuckAt: string | null;
+    /** Vector bits that held one value throughout the window (when the vector itself changed) */
+    stuckBits: { bit: number; value: string }[];
+    /** Last change inside the window; the final value is held from here to tEnd */
+    lastChange: number | null;
+}
+
+/** Values listed per signal */
+const MAX_VALUES = 16;
+
+type Level = 'high' | 'low' | 'unknown' | 'none';
+
+/**
+ * Statistics of `signal` over [tStart, tEnd] (clipped to the dump). The
+ * signal must be resolved. Returns an error message for an empty window.
+ */
+export function signalStats(idx: WaveformIndex, signal: string, tStart: number, tEnd: number): SignalStats | string {
+    const from = Math.max(tStart, idx.startTime);
+    const to = Math.min(tEnd, idx.endTime);
+    if (to < from) { return `The window [${tStart}, ${tEnd}] is outside the dump (${idx.startTime}–${idx.endTime}).`; }
+    const trace = idx.getTrace(signal);
+    const desc = idx.getDescriptor(signal);
+    const kind = desc?.kind ?? 'logic';
+    // Values from a sampled context are pre-formatted — count the leading bits
+    const width = desc?.width ?? (trace && trace.length > 0 ? bitsOf(trace.rawAt(0)).length : 1);
+    const stats: SignalStats = {
+        signal, kind, width, tStart: from, tEnd: to,
+        transitions: 0, meanInterval: null, distinctValues: 0, values: [],
+        high: 0, low: 0, unknown: 0, stuckAt: null, stuckBits: [], lastChange: null,
+    };
+    if (!trace || trace.length === 0) {
+        stats.unknown = to - from;
+        return stats;
+    }
+
+    const first = trace.lowerBound(from);
+    const end = trace.upperBound(to);
+    // The first value of the dump is not a change
+    stats.transitions = end - first - (first === 0 && end > 0 && trace.timeAt(0) === from ? 1 : 0);
+    stats.lastChange = stats.transitions > 0 ? trace.timeAt(end - 1) : null;
+    if (stats.transitions > 0) { stats.meanInterval = +((to - from) / stats.transitions).toFixed(2); }
+    const table = idx.getCycleTable();
+    if (table && table.clock !== signal && stats.transitions > 0) {
+        const cycleOf = (time: number): number => table.timeToCycle(time)?.cycle ?? table.firstCycle - 1;
+        const cycles = cycleOf(to) - cycleOf(from);
+        if (cycles > 0) { stats.perCycle = { rate: +(stats.transitions / cycles).toFixed(3), clock: table.clock }; }
+    }
+    if (trace.timeAt(0) > from) { stats.unknown += Math.min(trace.timeAt(0), to) - from; }
+
+    // Occupancy and level per distinct value code
+    const byCode = new Map<number, { runs: number; time: number; level: Level }>();
+    const scalar = kind === 'logic' && width === 1;
+    const pulses: Record<'high' | 'low', number[]> = { high: [], low: [] };
+    let run = null as { level: Level; start: number; bounded: boolean } | null;
+    for (let i = Math.max(0, first - 1); i < end; i++) {
+        const start = Math.max(trace.timeAt(i), from);
+        const stop = i + 1 < end ? trace.timeAt(i + 1) : to;
+        // The value before the window is replaced right at tStart
+        if (i < first && stop <= start) { continue; }
+        const code = trace.codeAt(i);
+        let occ = byCode.get(code);
+        if (!occ) {
+            occ = { runs: 0, time: 0, level: levelOf(trace.rawAt(i), kind) };
+            byCode.set(code, occ);
+        }
+        occ.runs++;
+        occ.time += stop - start;
+        if (occ.level !== 'none') { stats[occ.level] += stop - start; }
+        if (run?.level === occ.level) { continue; }
+        // A level change closes a pulse that also began inside the window
+        if (scalar && run?.bounded && (run.level === 'high' || run.level === 'low')) { pulses[run.level].push(start - run.start); }
+        run = { level: occ.level, start, bounded: i > 0 && i >= first };
+    }
+    if (scalar) {
+        stats.highPulses = pulseWidths(pulses.high);
+        stats.lowPulses = pulseWidths(pulses.low);
+    }
+
+    const held = [...byCode.entries()].sort((a, b) => b[1].time - a[1].time || b[1].runs - a[1].runs);
+    stats.distinctValues = held.length;
+    stats.values = held.slice(0, MAX_VALUES).map(([code, o]) => ({ value: trace.formatCode(code), runs: o.runs, time: o.time }));
+    if (stats.transitions === 0 && held.length > 0) { stats.stuckAt = stats.values[0].value; }
+
+    if (kind === 'real' || (kind === 'logic' && width > 1)) {
+        let min: { code: number; n: number | bigint } | null = null;
+        let max: { code: number; n: number | bigint } | null = null;
+        for (const code of byCode.keys()) {
+            const n = numberOf(trace.formatCode(code), kind);
+            if (n === null) { continue; }
+            if (!min || n < min.n) { min = { code, n }; }
+            if (!max || n > max.n) { max = { code, n }; }
+        }
+        if (min && max) {
+            stats.min = trace.formatCode(min.code);
+            stats.max = trace.formatCode(max.code);
+        }
+    }
+    if (kind === 'logic' && width > 1 && stats.transitions > 0) {
+        stats.stuckBits = stuckBits([...byCode.keys()], code => bitsOf(trace.formatCode(code)), width, desc?.range);
+    }
+    return stats;
+}
+
+/** signal_stats reply for one signal. */
+export function formatSignalStats(stats: SignalStats): string {
+    const span = stats.tEnd - stats.tStart;
+    const share = (time: number) => span > 0 ? `${(100 * time / span).toFixed(1)}%` : '-';
+    const size = stats.kind === 'logic' ? `${stats.width} bit${stats.width !== 1 ? 's' : ''}` : stats.kind;
+    const lines = [`"${stats.signal}" in [${stats.tStart}, ${stats.tEnd}] (${size}):`];
+
+    if (stats.transitions === 0) {
+        lines.push(stats.stuckAt !== null
+            ? `  Stuck at ${stats.stuckAt} for the whole window (no changes).`
+            : '  No value recorded in the window.');
+    } else {
+        const perCycle = stats.perCycle ? ` (${stats.perCycle.rate} per cycle of ${stats.perCycle.clock})` : '';
+        const every = stats.transitions > 1 ? `, one every ${stats.meanInterval} time units on average` : '';
+        lines.push(`  Changes: ${stats.transitions}${every}${perCycle}.`);
+        const heldFor = stats.tEnd - stats.lastChange!;
+        lines.push(`  Last change at t=${stats.lastChange}; the final value was then held for ${heldFor} (${share(heldFor)} of the window).`);
+    }
+
+    if (stats.kind !== 'string') {
+        const [high, low] = stats.width === 1 && stats.kind === 'logic' ? ['high', 'low'] : ['non-zero', 'zero'];
+        const levels = [`${high} ${share(stats.high)}`, `${low} ${share(stats.low)}`];
+        if (stats.unknown > 0) { levels.push(`x/z ${share(stats.unknown)}`); }
+        lines.push(`  Time ${levels.join(', ')}.`);
+    }
+    if (stats.highPulses) { lines.push(`  High pulses: ${formatPulses(stats.highPulses)}`); }
+    if (stats.lowPulses) { lines.push(`  Low pulses: ${formatPulses(stats.lowPulses)}`); }
+    if (stats.min !== undefined && stats.min !== stats.max) { lines.push(`  Range: min ${stats.min}, max ${stats.max}.`); }
+    if (stats.stuckBits.length > 0) { lines.push(`  Bits that never changed: ${formatStuckBits(stats.stuckBits)}.`); }
+
+    if (!(stats.kind === 'logic' && stats.width === 1) && stats.distinctValues > 1) {
+        lines.push(`  ${stats.distinctValues} distinct value${stats.distinctValues !== 1 ? 's' : ''}; time held per value (largest first):`);
+        for (const v of stats.values) {
+            lines.push(`    ${v.value}: ${v.runs} run${v.runs !== 1 ? 's' : ''}, ${v.time} (${share(v.time)})`);
+        }
+        if (stats.distinctValues > stats.values.length) { lines.push(`    … and ${stats.distinctValues - stats.values.length} more values`); }
+    }
+    return lines.join('\n');
+}
+
+/** One-line activity profile for the waveform summary. */
+export function formatActivity(stats: SignalStats): string {
+    if (stats.transitions === 0) {
+        return stats.stuckAt !== null ? `stuck at ${stats.stuckAt}` : 'no value';
+    }
+    const parts = [`${stats.transitions} transition${stats.transitions !== 1 ? 's' : ''}`];
+    if (stats.transitions > 1) { parts.push(`one every ${stats.meanInterval}`); }
+    const span = stats.tEnd - stats.tStart;
+    const high = stats.highPulses, low = stats.lowPulses;
+    if (high && low && high.count > 1 && low.count > 1 && high.min === high.max && low.min === low.max) {
+        parts.push(`clock-like, period ${high.min + low.min}, duty ${(100 * high.min / (high.min + low.min)).toFixed(1)}%`);
+    } else if (stats.kind === 'logic' && stats.width === 1 && span > 0) {
+        parts.push(`high ${(100 * stats.high / span).toFixed(1)}%`);
+    } else if (stats.kind !== 'string') {
+        // Just the hex of formatted vectors: "00001111 (0xF)" → "0xF"
+        const hex = (v: string) => /\((0x[0-9A-FXZ]+)\)$/.exec(v)?.[1] ?? v;
+        const range = stats.min !== undefined && stats.min !== stats.max ? ` (${hex(stats.min)}–${hex(stats.max!)})` : '';
+        parts.push(`${stats.distinctValues} values${range}`);
+    }
+    if (stats.unknown > 0 && span > 0) { parts.push(`x/z ${(100 * stats.unknown / span).toFixed(1)}%`); }
+    if (stats.stuckBits.length > 0) { parts.push(`bits ${formatStuckBits(stats.stuckBits)} never change`); }
+    return parts.join(', ');
+}
+
+/** Level of a raw value: x/z anywhere is unknown, all-zero is low. Strings have no level. */
+function levelOf(raw: string, kind: SignalKind): Level {
+    if (kind === 'string' || kind === 'event') { return 'none'; }
+    if (kind === 'real') {
+        const n = Number(raw);
+        return Number.isNaN(n) ? 'unknown' : n === 0 ? 'low' : 'high';
+    }
+    const bits = bitsOf(raw);
+    if (/[^01]/.test(bits)) { return 'unknown'; }
+    return /1/.test(bits) ? 'high' : 'low';
+}
+
+/** Numeric value of a formatted value, or null for x/z and non-numeric values. */
+function numberOf(value: string, kind: SignalKind): number | bigint | null {
+    if (kind === 'real') {
+        const n = Number(value);
+        return Number.isFinite(n) ? n : null;
+    }
+    const bits = bitsOf(value);
+    return /^[01]+$/.test(bits) ? BigInt('0b' + bits) : null;
+}
+
+function pulseWidths(widths: number[]): PulseWidths | undefined {
+    if (widths.length === 0) { return undefined; }
+    const counts = new Map<number, number>();
+    let min = Infinity, max = 0, total = 0;
+    for (const w of widths) {
+        counts.set(w, (counts.get(w) ?? 0) + 1);
+        min = Math.min(min, w);
+        max = Math.max(max, w);
+        total += w;
+    }
+    const common = [...counts.entries()]
+        .sort((a, b) => b[1] - a[1] || a[0] - b[0])
+        .slice(0, 5)
+        .map(([width, count]) => ({ width, count }));
+    return { count: widths.length, min, mean: +(total / widths.length).toFixed(2), max, common };
+}
+
+function formatPulses(p: PulseWidths): string {
+    if (p.min === p.max) { return `${p.count}, all ${p.min} wide.`; }
+    return `${p.count}, width min ${p.min} / mean ${p.mean} / max ${p.max}; most common: ${p.common.map(c => `${c.width} ×${c.count}`).join(', ')}.`;
+}
+
+/**
+ * Bits (numbered by the declared range, else width-1..0) that have the same
+ * value in every one of `codes`; `bitsOf` gives a code's msb-first bits.
+ */
+function stuckBits(codes: number[], bitsOf: (code: number) => string, width: number, range?: string): { bit: number; value: string }[] {
+    const m = range?.match(/^\[(-?\d+):(-?\d+)\]$/);
+    const msb = m ? Number(m[1]) : width - 1;
+    const step = m && Number(m[1]) < Number(m[2]) ? 1 : -1;
+    const ref = bitsOf(codes[0]).padStart(width, '0');
+    const constant = Array.from({ length: width }, () => true);
+    let remaining = width;
+    for (const code of codes) {
+        if (remaining === 0) { break; }
+        const bits = bitsOf(code).padStart(width, '0');
+        for (let p = 0; p < width; p++) {
+            if (constant[p] && bits[p] !== ref[p]) {
+                constant[p] = false;
+                remaining--;
+            }
+        }
+    }
+    const out: { bit: number; value: string }[] = [];
+    for (let p = 0; p < width; p++) {
+        if (constant[p]) { out.push({ bit: msb + step * p, value: ref[p] }); }
+    }
+    return out;
+}
+
+/** "[7:4]=0, [0]=1": runs of adjacent stuck bits with the same value. */
+function formatStuckBits(bits: { bit: number; value: string }[]): string {
+    const groups: string[] = [];
+    for (let i = 0; i < bits.length;) {
+        let j = i;
+        while (j + 1 < bits.length && bits[j + 1].value === bits[i].value && Math.abs(bits[j + 1].bit - bits[j].bit) === 1) { j++; }
+        groups.push(`[${bits[i].bit}${j > i ? `:${bits[j].bit}` : ''}]=${bits[i].value}`);
+        i = j + 1;
+    }
+    return groups.join(', ');
+}
@@ -0,0 +1,648 @@
+/*
+    Copyright (C) 2026 Andrew Capatina
+
+    This program is free software: you can redistribute it and/or modify
+    it under the terms of the GNU Affero General Public License as
+    published by the Free Software Foundation, either version 3 of the
+    License, or (at your option) any later version.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU Affero General Public License for more details.
+
+    You should have received a copy of the GNU Affero General Public License
+    along with this program.  If not, see <http://www.gnu.org/licenses/>.
+*/
+// Assertion checking against a recorded waveform: a subset of SystemVerilog
+// Assertions evaluated on clock ticks, with values sampled just before each
+// active edge (the preponed region). One attempt starts at every tick; each
+// failing attempt is reported with the time it failed and why.
+//
+// Supported: boolean expressions with Verilog operators, bit selects,
+// concatenation and sized literals; $rose $fell $stable $changed $past
+// $onehot $onehot0 $isunknown $countones; sequences with ##n / ##[m:n] /
+// ##[m:$], [*m:n], [+], [->m:n] and throughout; properties with |-> |=>
+// not and or until s_until until_with s_until_with; @(posedge/negedge clk)
+// and disable iff.
+import { CallExpr, Expr, ExprParser, SignalExpr, SignalRef, Value, bool, evaluate, parseLiteral, showValue, signalResolver, signalValue, truth } from './expr';
+import type { WaveformIndex } from './vcd';
+
+export interface PropertyCheckOptions {
+    /** Clock when the property has no @(…) event (default: the cycle-table clock) */
+    clock?: string;
+    edge?: 'rising' | 'falling';
+    /** Only attempts starting in [tStart, tEnd] are checked (default: whole dump) */
+    tStart?: number;
+    tEnd?: number;
+    /** Max failures listed (default 20); counts always cover every attempt */
+    maxFailures?: number;
+}
+
+export interface PropertyFailure {
+    /** Time of the tick that started the failing attempt */
+    attemptTime: number;
+    /** Time of the tick at which the failure was decided */
+    failTime: number;
+    reason: string;
+}
+
+export interface PropertyCheckResult {
+    property: string;
+    clock: string;
+    edge: 'rising' | 'falling';
+    disableIff?: string;
+    tStart: number;
+    tEnd: number;
+    attempts: number;
+    /** Attempts whose antecedent matched (all attempts for non-implications) */
+    triggered: number;
+    passed: number;
+    failed: number;
+    vacuous: number;
+    disabled: number;
+    /** Attempts still undecided when the dump ends */
+    incomplete: number;
+    failures: PropertyFailure[];
+    /** Set when the evaluation budget ran out before every attempt was checked */
+    stoppedAt?: number;
+}
+
+// ── Syntax tree ──────────────────────────────────────────────────────────────
+
+type Seq =
+    | { k: 'bool'; e: Expr; src: string }
+    | { k: 'delay'; lhs: Seq | null; min: number; max: number; rhs: Seq; src: string }
+    | { k: 'rep'; s: Seq; min: number; max: number; src: string }
+    | { k: 'goto'; e: Expr; min: number; max: number; src: string }
+    | { k: 'throughout'; e: Expr; s: Seq; src: string };
+
+type Prop =
+    | { k: 'seq'; s: Seq; src: string }
+    | { k: 'impl'; overlap: boolean; ante: Seq; cons: Prop; src: string }
+    | { k: 'not'; p: Prop; src: string }
+    | { k: 'and' | 'or'; a: Prop; b: Prop; src: string }
+    | { k: 'until'; strong: boolean; inclusive: boolean; a: Prop; b: Prop; src: string };
+
+interface Assertion {
+    clock?: { path: string; edge: 'rising' | 'falling' };
+    disable?: Expr;
+    prop: Prop;
+}
+
+// ── Parser ───────────────────────────────────────────────────────────────────
+
+const PROPERTY_KEYWORDS = new Set(['not', 'and', 'or', 'until', 's_until', 'until_with', 's_until_with', 'throughout', 'disable', 'iff', 'posedge', 'negedge']);
+const SYSTEM_FUNCTIONS = ['$rose', '$fell', '$stable', '$changed', '$past', '$onehot', '$onehot0', '$isunknown', '$countones'];
+
+class Parser extends ExprParser {
+    constructor(text: string, resolve: (name: string) => SignalRef) {
+        super(text, resolve, SYSTEM_FUNCTIONS, PROPERTY_KEYWORDS, 'property');
+    }
+
+    parseAssertion(): Assertion {
+        let clock: Assertion['clock'];
+        let disable: Expr | undefined;
+        if (this.accept('@')) {
+            this.expect('(');
+            const edgeTok = this.next();
+            if (edgeTok.text !== 'posedge' && edgeTok.text !== 'negedge') { this.fail(edgeTok, 'posedge or negedge'); }
+            const clk = this.next();
+            if (clk.kind !== 'id') { this.fail(clk, 'a clock signal'); }
+            clock = { path: this.resolve(clk.text).path, edge: edgeTok.text === 'posedge' ? 'rising' : 'falling' };
+            this.expect(')');
+        }
+        if (this.peek().text === 'disable') {
+            this.next();
+            this.expectWord('iff');
+            this.expect('(');
+            disable = this.parseExpr();
+            this.expect(')');
+        }
+        const prop = this.parseProp();
+        if (this.peek().kind !== 'eof') { this.fail(this.peek(), 'end of property'); }
+        return { clock, disable, prop };
+    }
+
+    // Properties, loosest first: |-> |=>, until, or, and, not
+
+    private parseProp(): Prop {
+        const start = this.peek().pos;
+        const lhs = this.parseUntil();
+        const op = this.peek().text;
+        if (op !== '|->' && op !== '|=>') { return lhs; }
+        if (lhs.k !== 'seq') { this.fail(this.peek(), 'a sequence before the implication'); }
+        this.next();
+        const cons = this.parseProp();
+        return { k: 'impl', overlap: op === '|->', ante: (lhs as { s: Seq }).s, cons, src: this.src(start) };
+    }
+
+    private parseUntil(): Prop {
+        const start = this.peek().pos;
+        const a = this.parseOr();
+        const op = this.peek().text;
+        if (!['until', 's_until', 'until_with', 's_until_with'].includes(op)) { return a; }
+        this.next();
+        const b = this.parseUntil();
+        return { k: 'until', strong: op.startsWith('s_'), inclusive: op.endsWith('_with'), a, b, src: this.src(start) };
+    }
+
+    private parseOr(): Prop {
+        const start = this.peek().pos;
+        let a = this.parseAnd();
+        while (this.peek().text === 'or') {
+            this.next();
+            a = { k: 'or', a, b: this.parseAnd(), src: this.src(start) };
+        }
+        return a;
+    }
+
+    private parseAnd(): Prop {
+        const start = this.peek().pos;
+        let a = this.parseNot();
+        while (this.peek().text === 'and') {
+            this.next();
+            a = { k: 'and', a, b: this.parseNot(), src: this.src(start) };
+        }
+        return a;
+    }
+
+    private parseNot(): Prop {
+        const start = this.peek().pos;
+        if (this.peek().text === 'not') {
+            this.next();
+            return { k: 'not', p: this.parseNot(), src: this.src(start) };
+        }
+        if (this.peek().text === '(') {
+            // "(…)" is a sequence or expression when it parses as one, else a parenthesised property
+            const saved = this.pos;
+            try {
+                const s = this.parseSeq();
+                return { k: 'seq', s, src: s.src };
+            } catch {
+                this.pos = saved;
+            }
+            this.next();
+            const p = this.parseProp();
+            this.expect(')');
+            return p;
+        }
+        const s = this.parseSeq();
+        return { k: 'seq', s, src: s.src };
+    }
+
+    // Sequences: throughout, ##, repetition
+
+    private parseSeq(): Seq {
+        const start = this.peek().pos;
+        const lhs = this.parseDelaySeq();
+        if (this.peek().text !== 'throughout') { return lhs; }
+        if (lhs.k !== 'bool') { this.fail(this.peek(), 'a boolean before throughout'); }
+        this.next();
+        return { k: 'throughout', e: (lhs as { e: Expr }).e, s: this.parseSeq(), src: this.src(start) };
+    }
+
+    private parseDelaySeq(): Seq {
+        const start = this.peek().pos;
+        let lhs: Seq | null = this.peek().text === '##' ? null : this.parseRepSeq();
+        while (this.peek().text === '##') {
+            this.next();
+            const { min, max } = this.parseDelayRange();
+            const rhs = this.parseRepSeq();
+            lhs = { k: 'delay', lhs, min, max, rhs, src: this.src(start) };
+        }
+        return lhs!;
+    }
+
+    private parseDelayRange(): { min: number; max: number } {
+        if (this.accept('[')) {
+            const range = this.parseRange();
+            this.expect(']');
+            return range;
+        }
+        const n = this.next();
+        if (n.kind !== 'num') { this.fail(n, 'a cycle count after ##'); }
+        const v = Number(parseLiteral(n.text).v);
+        return { min: v, max: v };
+    }
+
+    /** "m", "m:n" or "m:$" */
+    private parseRange(): { min: number; max: number } {
+        const lo = this.next();
+        if (lo.kind !== 'num') { this.fail(lo, 'a number'); }
+        const min = Number(parseLiteral(lo.text).v);
+        if (!this.accept(':')) { return { min, max: min }; }
+        if (this.accept('$')) { return { min, max: Infinity }; }
+        const hi = this.next();
+        if (hi.kind !== 'num') { this.fail(hi, 'a number or $'); }
+        const max = Number(parseLiteral(hi.text).v);
+        if (max < min) { this.fail(hi, `an upper bound of at least ${min}`); }
+        return { min, max };
+    }
+
+    private parseRepSeq(): Seq {
+        const start = this.peek().pos;
+        let s = this.parseSeqPrimary();
+        for (;;) {
+            const op = this.peek().text;
+            if (op === '[+]') {
+                this.next();
+                s = { k: 'rep', s, min: 1, max: Infinity, src: this.src(start) };
+            } else if (op === '[*' || op === '[->') {
+                const tok = this.next();
+                const { min, max } = this.parseRange();
+                this.expect(']');
+                if (min < 1) { this.fail(tok, 'a repetition of at least 1 (empty matches are not supported)'); }
+                if (op === '[->') {
+                    if (s.k !== 'bool') { this.fail(tok, 'a boolean before [->'); }
+                    s = { k: 'goto', e: (s as { e: Expr }).e, min, max, src: this.src(start) };
+                } else {
+                    s = { k: 'rep', s, min, max, src: this.src(start) };
+                }
+            } else if (op === '[=') {
+                this.fail(this.peek(), 'a supported repetition ([=n] is not supported; use [->n])');
+            } else {
+                return s;
+            }
+        }
+    }
+
+    private parseSeqPrimary(): Seq {
+        const start = this.peek().pos;
+        const saved = this.pos;
+        if (this.peek().text === '(') {
+            // An expression in parentheses, else a parenthesised sequence
+            try {
+                const e = this.parseExpr();
+                if (!['##', '[*', '[->', '[+]', '[=', ')', '|->', '|=>', 'until', 's_until', 'until_with', 's_until_with', 'and', 'or', 'throughout', '']
+                    .includes(this.peek().text)) { this.fail(this.peek(), 'a sequence operator'); }
+                return { k: 'bool', e, src: this.src(start) };
+            } catch {
+                this.pos = saved;
+            }
+            this.next();
+            const s = this.parseSeq();
+            this.expect(')');
+            return s;
+        }
+        const e = this.parseExpr();
+        return { k: 'bool', e, src: this.src(start) };
+    }
+}
+
+// ── Evaluation ───────────────────────────────────────────────────────────────
+
+class OutOfBudget extends Error {}
+
+/** Outcome of one property attempt. */
+interface Outcome {
+    r: 'pass' | 'fail' | 'vacuous' | 'incomplete';
+    /** Tick at which the outcome was decided */
+    at: number;
+    why?: string;
+}
+
+/** Sequence matches from one start tick. */
+interface Matches {
+    /** End ticks of the matches found */
+    ends: number[];
+    /** The dump ended before every thread was decided */
+    truncated: boolean;
+}
+
+class Evaluator {
+    /** Deepest point a failed sequence thread reached, for the failure explanation */
+    private failTick = -1;
+    private failWhy = '';
+    private steps = 0;
+
+    constructor(
+        private readonly idx: WaveformIndex,
+        private readonly ticks: number[],
+        private readonly label: (tick: number) => string,
+        private readonly budget: number,
+    ) {}
+
+    // Expressions
+
+    private sample(e: SignalExpr, tick: number): Value {
+        if (++this.steps > this.budget) { throw new OutOfBudget(); }
+        if (tick < 0 || tick >= this.ticks.length) { return signalValue(e, undefined); }
+        const trace = this.idx.getTrace(e.path)!;
+        const i = trace.lowerBound(this.ticks[tick]) - 1;
+        return signalValue(e, i >= 0 ? trace.rawAt(i) : undefined);
+    }
+
+    evalExpr(e: Expr, tick: number): Value {
+        if (++this.steps > this.budget) { throw new OutOfBudget(); }
+        return evaluate(e, sig => this.sample(sig, tick), call => this.evalCall(call, tick));
+    }
+
+    /** Functions that look at earlier ticks; the rest are left to evaluate(). */
+    private evalCall(e: CallExpr, tick: number): Value | undefined {
+        const arg = e.args[0];
+        const lsb = (val: Value): bigint | null => 's' in val ? null : val.v === null ? null : val.v & 1n;
+        switch (e.fn) {
+            case '$past': {
+                const depth = e.args[1] ? this.evalExpr(e.args[1], tick) : null;
+                const n = depth && !('s' in depth) && depth.v !== null ? Number(depth.v) : 1;
+                return this.evalExpr(arg, tick - n);
+            }
+            case '$rose': case '$fell': {
+                const now = lsb(this.evalExpr(arg, tick)), before = lsb(this.evalExpr(arg, tick - 1));
+                return bool(e.fn === '$rose' ? now === 1n && before !== 1n : now === 0n && before !== 0n);
+            }
+            case '$stable': case '$changed': {
+                const same = showValue(this.evalExpr(arg, tick)) === showValue(this.evalExpr(arg, tick - 1));
+                return bool(e.fn === '$stable' ? same : !same);
+            }
+            default:
+                return undefined;
+        }
+    }
+
+    /** Whether a boolean holds at a tick; notes why not for failure reports. */
+    private holds(e: Expr, src: string, tick: number): boolean {
+        const val = this.evalExpr(e, tick);
+        if (truth(val) === true) { return true; }
+        this.noteFail(tick, `"${src}" was ${truth(val) === null ? 'x' : 'false'} at ${this.label(tick)}`);
+        return false;
+    }
+
+    private noteFail(tick: number, why: string): void {
+        if (tick >= this.failTick) { this.failTick = tick; this.failWhy = why; }
+    }
+
+    // Sequences
+
+    /** Ends of the matches of `s` starting at `tick`; with `any`, stops at the first. */
+    matchSeq(s: Seq, tick: number, any: boolean): Matches {
+        const n = this.ticks.length;
+        if (tick >= n) { return { ends: [], truncated: true }; }
+        switch (s.k) {
+            case 'bool':
+                return { ends: this.holds(s.e, s.src, tick) ? [tick] : [], truncated: false };
+            case 'delay': {
+                const starts = s.lhs ? this.matchSeq(s.lhs, tick, false) : { ends: [tick], truncated: false };
+                const ends = new Set<number>();
+                let truncated = starts.truncated;
+                for (const from of starts.ends) {
+                    const last = Math.min(from + s.max, n - 1);
+                    if (from + s.max > n - 1) { truncated = true; }
+                    for (let t = from + s.min; t <= last; t++) {
+                        const m = this.matchSeq(s.rhs, t, any);
+                        m.ends.forEach(e => ends.add(e));
+                        if (m.truncated) { truncated = true; }
+                        if (any && ends.size > 0) { return { ends: [...ends], truncated }; }
+                    }
+                    if (s.rhs.k === 'bool' && ends.size === 0 && from + s.min <= last && s.max > s.min) {
+                        this.noteFail(last, `"${s.rhs.src}" was not true from ${this.label(from + s.min)} to ${this.label(last)}`);
+                    }
+                }
+                return { ends: [...ends].sort((a, b) => a - b), truncated };
+            }
+            case 'rep': {
+                const ends = new Set<number>();
+                let truncated = false;
+                let starts = [tick];
+                for (let count = 1; count <= s.max && starts.length > 0; count++) {
+                    const next = new Set<number>();
+                    for (const st of starts) {
+                        if (st >= n) { truncated = true; continue; }
+                        const m = this.matchSeq(s.s, st, false);
+                        if (m.truncated) { truncated = true; }
+                        m.ends.forEach(e => next.add(e));
+                    }
+                    if (count >= s.min) {
+                        next.forEach(e => ends.add(e));
+                        if (any && ends.size > 0) { break; }
+                    }
+                    starts = [...next].map(e => e + 1);
+                }
+                return { ends: [...ends].sort((a, b) => a - b), truncated };
+            }
+            case 'goto': {
+                const ends: number[] = [];
+                let count = 0;
+                for (let t = tick; t < n; t++) {
+                    if (truth(this.evalExpr(s.e, t)) !== true) { continue; }
+                    count++;
+                    if (count >= s.min) { ends.push(t); }
+                    if (count >= s.max || (any && ends.length > 0)) { return { ends, truncated: false }; }
+                }
+                return { ends, truncated: count < s.max };
+            }
+            case 'throughout': {
+                const m = this.matchSeq(s.s, tick, false);
+                const ends: number[] = [];
+                for (const end of m.ends) {
+                    let ok = true;
+                    for (let t = tick; t <= end && ok; t++) { ok = this.holds(s.e, s.e.src, t); }
+                    if (ok) { ends.push(end); if (any) { break; } }
+                }
+                return { ends, truncated: m.truncated };
+            }
+        }
+    }
+
+    // Properties
+
+    evalProp(p: Prop, tick: number): Outcome {
+        switch (p.k) {
+            case 'seq': {
+                this.failTick = -1;
+                const m = this.matchSeq(p.s, tick, true);
+                if (m.ends.length > 0) { return { r: 'pass', at: m.ends[0] }; }
+                if (m.truncated) { return { r: 'incomplete', at: this.ticks.length - 1 }; }
+                const at = Math.max(this.failTick, tick);
+                return { r: 'fail', at, why: this.failWhy || `"${p.src}" did not match from ${this.label(tick)}` };
+            }
+            case 'impl': {
+                const ante = this.matchSeq(p.ante, tick, false);
+                if (ante.ends.length === 0) { return { r: 'vacuous', at: tick }; }
+                let decided = tick;
+                let incomplete = false;
+                for (const end of ante.ends) {
+                    const start = p.overlap ? end : end + 1;
+                    if (start >= this.ticks.length) { incomplete = true; continue; }
+                    const out = this.evalProp(p.cons, start);
+                    if (out.r === 'fail') {
+                        const matched = end === tick ? this.label(tick) : `${this.label(tick)}..${this.label(end)}`;
+                        return { r: 'fail', at: out.at, why: `"${p.ante.src}" matched at ${matched}, then ${out.why}` };
+                    }
+                    if (out.r === 'incomplete') { incomplete = true; }
+                    decided = Math.max(decided, out.at);
+                }
+                return incomplete ? { r: 'incomplete', at: this.ticks.length - 1 } : { r: 'pass', at: decided };
+            }
+            case 'not': {
+                const out = this.evalProp(p.p, tick);
+                if (out.r === 'pass') { return { r: 'fail', at: out.at, why: `"${p.p.src}" held (from ${this.label(tick)} to ${this.label(out.at)})` }; }
+                return out.r === 'fail' ? { r: 'pass', at: out.at } : out;
+            }
+            case 'and': case 'or': {
+                const a = this.evalProp(p.a, tick);
+                if (p.k === 'and' && a.r === 'fail') { return a; }
+                if (p.k === 'or' && a.r === 'pass') { return a; }
+                const b = this.evalProp(p.b, tick);
+                if (p.k === 'and') {
+                    if (b.r === 'fail') { return b; }
+                    if (a.r === 'incomplete' || b.r === 'incomplete') { return { r: 'incomplete', at: Math.max(a.at, b.at) }; }
+                    return { r: a.r === 'vacuous' && b.r === 'vacuous' ? 'vacuous' : 'pass', at: Math.max(a.at, b.at) };
+                }
+                if (b.r === 'pass') { return b; }
+                if (a.r === 'incomplete' || b.r === 'incomplete') { return { r: 'incomplete', at: Math.max(a.at, b.at) }; }
+                if (a.r === 'vacuous' || b.r === 'vacuous') { return { r: 'vacuous', at: tick }; }
+                return { r: 'fail', at: Math.max(a.at, b.at), why: `${a.why} and ${b.why}` };
+            }
+            case 'until': {
+                for (let t = tick; t < this.ticks.length; t++) {
+                    const b = this.evalProp(p.b, t);
+                    if (b.r === 'pass') {
+                        if (!p.inclusive) { return { r: 'pass', at: t }; }
+                        const a = this.evalProp(p.a, t);
+                        return a.r === 'fail'
+                            ? { r: 'fail', at: t, why: `"${p.a.src}" did not hold at ${this.label(t)} when "${p.b.src}" occurred` }
+                            : { r: 'pass', at: t };
+                    }
+                    const a = this.evalProp(p.a, t);
+                    if (a.r === 'fail') {
+                        return { r: 'fail', at: t, why: `"${p.a.src}" stopped holding at ${this.label(t)} before "${p.b.src}"` };
+                    }
+                }
+                return p.strong
+                    ? { r: 'fail', at: this.ticks.length - 1, why: `"${p.b.src}" never occurred before the end of the dump` }
+                    : { r: 'pass', at: this.ticks.length - 1 };
+            }
+        }
+    }
+
+    /** Whether `e` is true at any tick in [from, to]. */
+    anyTrue(e: Expr, from: number, to: number): boolean {
+        for (let t = from; t <= to; t++) {
+            if (truth(this.evalExpr(e, t)) === true) { return true; }
+        }
+        return false;
+    }
+}
+
+// ── Entry point ──────────────────────────────────────────────────────────────
+
+/** Default evaluation budget: expression evaluations across all attempts. */
+const EVAL_BUDGET = 20_000_000;
+
+/**
+ * Check a property at every clock tick and report the failing attempts.
+ * Accepts a bare property or `assert property (…);`. Returns an error
+ * message for syntax errors, unknown signals or a missing clock.
+ */
+export function checkProperty(idx: WaveformIndex, property: string, options: PropertyCheckOptions = {}): PropertyCheckResult | string {
+    const wrapped = /^\s*(?:\w+\s*:\s*)?assert\s+property\s*\(([\s\S]*)\)\s*;?\s*$/.exec(property);
+    const text = (wrapped ? wrapped[1] : property).trim();
+    let assertion: Assertion;
+    try {
+        assertion = new Parser(text, signalResolver(idx)).parseAssertion();
+    } catch (err) {
+        return `Could not parse property: ${err instanceof Error ? err.message : err}`;
+    }
+
+    const table = idx.getCycleTable();
+    let clock = assertion.clock;
+    if (!clock && options.clock) {
+        const path = idx.resolveSignal(options.clock);
+        if (path === null) { return `Clock: ${idx.signalNotFound(options.clock)}`; }
+        clock = { path, edge: options.edge ?? 'rising' };
+    }
+    if (!clock && table) { clock = { path: table.clock, edge: table.edge }; }
+    if (!clock) { return 'No clock for the property. Add @(posedge clk), pass clock, or call set_clock.'; }
+
+    const ticks = idx.getEdgeTimes(clock.path, clock.edge);
+    if (ticks.length === 0) { return `Clock "${clock.path}" has no ${clock.edge} edges.`; }
+    const timeLabel = timeLabeler(idx, clock.path, clock.edge);
+    const label = (tick: number) => timeLabel(ticks[Math.min(tick, ticks.length - 1)]);
+
+    const tStart = options.tStart ?? -Infinity;
+    const tEnd = options.tEnd ?? Infinity;
+    const maxFailures = options.maxFailures ?? 20;
+    const ev = new Evaluator(idx, ticks, label, EVAL_BUDGET);
+    const result: PropertyCheckResult = {
+        property: text,
+        clock: clock.path,
+        edge: clock.edge,
+        disableIff: assertion.disable?.src,
+        tStart: Math.max(tStart, ticks[0]),
+        tEnd: Math.min(tEnd, ticks[ticks.length - 1]),
+        attempts: 0, triggered: 0, passed: 0, failed: 0, vacuous: 0, disabled: 0, incomplete: 0,
+        failures: [],
+    };
+
+    for (let tick = 0; tick < ticks.length; tick++) {
+        if (ticks[tick] < tStart) { continue; }
+        if (ticks[tick] > tEnd) { break; }
+        let out: Outcome;
+        try {
+            if (assertion.disable && truth(ev.evalExpr(assertion.disable, tick)) === true) {
+                result.attempts++;
+                result.disabled++;
+                continue;
+            }
+            out = ev.evalProp(assertion.prop, tick);
+            if (assertion.disable && out.at > tick && ev.anyTrue(assertion.disable, tick, out.at)) {
+                result.attempts++;
+                result.disabled++;
+                continue;
+            }
+        } catch (err) {
+            if (err instanceof OutOfBudget) { result.stoppedAt = ticks[tick]; break; }
+            throw err;
+        }
+        result.attempts++;
+        if (out.r !== 'vacuous') { result.triggered++; }
+        if (out.r === 'pass') { result.passed++; }
+        if (out.r === 'vacuous') { result.vacuous++; }
+        if (out.r === 'incomplete') { result.incomplete++; }
+        if (out.r === 'fail') {
+            result.failed++;
+            if (result.failures.length < maxFailures) {
+                result.failures.push({ attemptTime: ticks[tick], failTime: ticks[out.at], reason: out.why ?? 'failed' });
+            }
+        }
+    }
+    return result;
+}
+
+/** "cycle 12 (t=125)" when the cycle table counts this clock, else "t=125". */
+function timeLabeler(idx: WaveformIndex, clock: string, edge: 'rising' | 'falling'): (time: number) => string {
+    const table = idx.getCycleTable();
+    const sameClock = table !== null && table.clock === clock && table.edge === edge;
+    return time => {
+        const cycle = sameClock ? table.timeToCycle(time) : null;
+        return cycle ? `cycle ${cycle.cycle} (t=${time})` : `t=${time}`;
+    };
+}
+
+/** Render a check result for tool output; times are shown as cycles when the cycle table counts its clock. */
+export function formatPropertyCheck(idx: WaveformIndex, result: PropertyCheckResult): string {
+    const at = timeLabeler(idx, result.clock, result.edge);
+    const lines = [
+        `Property: ${result.property}`,
+        `Clock: ${result.clock} (${result.edge} edge)${result.disableIff ? `, disable iff (${result.disableIff})` : ''}`,
+        `Attempts: ${result.attempts} from ${at(result.tStart)} to ${at(result.tEnd)}: ${result.passed} passed, ${result.failed} failed, ` +
+        `${result.vacuous} vacuous, ${result.disabled} disabled, ${result.incomplete} incomplete at end of dump`,
+    ];
+    if (result.stoppedAt !== undefined) {
+        lines.push(`[Stopped at ${at(result.stoppedAt)}: evaluation budget exhausted. Narrow t_start/t_end to check the rest.]`);
+    }
+    if (result.failed === 0) {
+        lines.push(result.triggered === 0 && result.attempts > 0
+            ? 'RESULT: no failures, but the property never triggered (vacuous everywhere). Check the antecedent.'
+            : 'RESULT: PASS — no failing attempts.');
+        return lines.join('\n');
+    }
+    lines.push(`RESULT: FAIL — ${result.failed} failing attempt${result.failed !== 1 ? 's' : ''}` +
+        (result.failures.length < result.failed ? ` (first ${result.failures.length} listed)` : '') + ':');
+    for (const f of result.failures) {
+        lines.push(`  failed at ${at(f.failTime)} (attempt from ${at(f.attemptTime)}): ${f.reason}`);
+    }
+    return lines.join('\n');
+}
@@ -0,0 +1,240 @@
+/*
+    Copyright (C) 2026 Andrew Capatina
+
+    This program is free software: you can redistribute it and/or modify
+    it under the terms of the GNU Affero General Public License as
+    published by the Free Software Foundation, either version 3 of the
+    License, or (at your option) any later version.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU Affero General Public License for more details.
+
+    You should have received a copy of the GNU Affero General Public License
+    along with this program.  If not, see <http://www.gnu.org/licenses/>.
+*/
+// Vectors up to this width store pure 0/1 values as the integer itself;
+// anything else (x/z, wider vectors, reals, strings) goes through the dictionary.
+const PACKED_MAX_WIDTH = 31;
+const DICT_FLAG = 0x80000000;
+
+/** Left-extension per IEEE 1364: x and z extend themselves, anything else extends with 0. */
+function padBits(bits: string, width: number): string {
+    const c = bits[0];
+    return bits.padStart(width, c === 'x' || c === 'X' || c === 'z' || c === 'Z' ? c.toLowerCase() : '0');
+}
+
+/**
+ * Hex for a 4-state vector, GTKWave-style: a nibble with any x (or other
+ * non-0/1 state) is "X", an all-z nibble is "Z".
+ */
+function fourStateHex(bits: string): string {
+    let hex = '';
+    const lead = bits.length % 4;
+    for (let i = lead ? lead - 4 : 0; i < bits.length; i += 4) {
+        const nibble = bits.slice(Math.max(i, 0), i + 4);
+        if (/^[01]+$/.test(nibble)) {
+            hex += parseInt(nibble, 2).toString(16).toUpperCase();
+        } else if (/^z+$/i.test(nibble)) {
+            hex += 'Z';
+        } else {
+            hex += 'X';
+        }
+    }
+    return hex;
+}
+
+// Format a binary/x/z string with hex annotation for multi-bit signals
+export function formatBits(bits: string, width: number): string {
+    if (width <= 1) { return bits; }
+    // Pad to declared width
+    const padded = padBits(bits, width);
+    if (/^[01]+$/.test(padded)) {
+        const hex = parseInt(padded, 2).toString(16).toUpperCase();
+        return `${padded} (0x${hex})`;
+    }
+    // Mixed known and unknown bits: annotate per nibble; all-x / all-z stays bare
+    if (/[01]/.test(padded)) {
+        return `${padded} (0x${fourStateHex(padded)})`;
+    }
+    return padded;
+}
+
+/**
+ * The bits of a raw or formatted vector value, without formatBits' hex
+ * annotation ("0101 (0x5)" → "0101"). Sampled (VaporView) contexts store
+ * formatted values, so bit-level analyses go through this.
+ */
+export function bitsOf(value: string): string {
+    return value.replace(/ \(0x[0-9A-FXZ]+\)$/, '');
+}
+
+/** Compact hex for a raw vector value ("0x1F", "0x1X"); x/z-only values stay as the bare state. */
+export function formatHex(bits: string, width: number): string {
+    if (!/^[01xzuwlh-]+$/i.test(bits)) { return bits; }
+    const padded = padBits(bits, Math.max(width, 1));
+    if (/^[01]+$/.test(padded)) { return '0x' + BigInt('0b' + padded).toString(16).toUpperCase(); }
+    if (/^[xz]+$/i.test(padded)) { return padded[0].toLowerCase(); }
+    return '0x' + fourStateHex(padded);
+}
+
+/**
+ * Columnar value-change storage for one signal: a Float64Array of times and
+ * a Uint32Array of value codes. Codes are either packed integers (narrow
+ * binary vectors) or indices into a per-signal dictionary of interned raw
+ * values. Values are only formatted ("0101 (0x5)") when read back.
+ */
+export class SignalTrace {
+    /** Width used for formatting. 1 for scalars, reals, strings and pre-formatted values. */
+    readonly width: number;
+    private times: Float64Array;
+    private codes: Uint32Array;
+    private count = 0;
+    private readonly dict: string[] = [];
+    /** Interning table; dropped by compact() once the trace is complete. */
+    private dictIndex: Map<string, number> | null = new Map();
+    private readonly packed: boolean;
+
+    constructor(width = 1, capacity = 16) {
+        this.width = width;
+        this.packed = width > 1 && width <= PACKED_MAX_WIDTH;
+        this.times = new Float64Array(capacity);
+        this.codes = new Uint32Array(capacity);
+    }
+
+    /** Rebuild a completed trace from serialized columns (see parts()). */
+    static fromParts(width: number, times: Float64Array, codes: Uint32Array, dict: readonly string[]): SignalTrace {
+        const trace = new SignalTrace(width, 0);
+        trace.times = times;
+        trace.codes = codes;
+        trace.count = times.length;
+        for (const v of dict) { trace.dict.push(v); }
+        trace.dictIndex = null;
+        return trace;
+    }
+
+    get length(): number {
+        return this.count;
+    }
+
+    /** The stored columns, trimmed to length — used by the on-disk index cache. */
+    parts(): { times: Float64Array; codes: Uint32Array; dict: readonly string[] } {
+        return {
+            times: this.times.subarray(0, this.count),
+            codes: this.codes.subarray(0, this.count),
+            dict: this.dict,
+        };
+    }
+
+    /**
+     * Pad a raw vector value to the declared width, the same way formatBits
+     * does, so "b1" and "b0001" are recognised as the same value.
+     */
+    normalize(raw: string): string {
+        if (this.width <= 1 || raw.length >= this.width) { return raw; }
+        return padBits(raw, this.width);
+    }
+
+    /**
+     * Append a value change. Times must be non-decreasing. Returns false
+     * (and stores nothing) when the value equals the current last value.
+     * Several changes at one time are all kept, so delta-cycle glitches
+     * (0 → 1 → 0 within a timestamp) survive as zero-width pulses.
+     */
+    push(time: number, raw: string): boolean {
+        const code = this.encode(this.normalize(raw));
+        if (this.count > 0 && this.codes[this.count - 1] === code) { return false; }
+        if (this.count === this.times.length) { this.grow(); }
+        this.times[this.count] = time;
+        this.codes[this.count] = code;
+        this.count++;
+        return true;
+    }
+
+    /** Release spare capacity and the interning table once no more values will be pushed. */
+    compact(): void {
+        if (this.times.length > this.count) {
+            this.times = this.times.slice(0, this.count);
+            this.codes = this.codes.slice(0, this.count);
+        }
+        this.dictIndex = null;
+    }
+
+    timeAt(i: number): number {
+        return this.times[i];
+    }
+
+    codeAt(i: number): number {
+        return this.codes[i];
+    }
+
+    /** Raw (unformatted, width-padded) value at index i. */
+    rawAt(i: number): string {
+        return this.decode(this.codes[i]);
+    }
+
+    /** Msb-first bits at index i (see bitsOf), width-padded for recorded vectors. */
+    bitsAt(i: number): string {
+        return bitsOf(this.decode(this.codes[i]));
+    }
+
+    /** Value at index i, formatted for tool output. */
+    valueAt(i: number): string {
+        return this.formatCode(this.codes[i]);
+    }
+
+    formatCode(code: number): string {
+        return formatBits(this.decode(code), this.width);
+    }
+
+    /** Index of the first change at or after `time` (length if none). */
+    lowerBound(time: number): number {
+        let lo = 0, hi = this.count;
+        while (lo < hi) {
+            const mid = (lo + hi) >> 1;
+            if (this.times[mid] < time) { lo = mid + 1; } else { hi = mid; }
+        }
+        return lo;
+    }
+
+    /** Index of the first change strictly after `time` (length if none). */
+    upperBound(time: number): number {
+        let lo = 0, hi = this.count;
+        while (lo < hi) {
+            const mid = (lo + hi) >> 1;
+            if (this.times[mid] <= time) { lo = mid + 1; } else { hi = mid; }
+        }
+        return lo;
+    }
+
+    private encode(raw: string): number {
+        if (this.packed && raw.length === this.width && /^[01]+$/.test(raw)) {
+            return parseInt(raw, 2);
+        }
+        let index = this.dictIndex?.get(raw);
+        if (index === undefined) {
+            if (!this.dictIndex) { throw new Error('SignalTrace: push after compact'); }
+            index = this.dict.length;
+            this.dict.push(raw);
+            this.dictIndex.set(raw, index);
+        }
+        return this.packed ? (index | DICT_FLAG) >>> 0 : index;
+    }
+
+    private decode(code: number): string {
+        if (!this.packed) { return this.dict[code]; }
+        if (code & DICT_FLAG) { return this.dict[(code & ~DICT_FLAG) >>> 0]; }
+        return code.toString(2).padStart(this.width, '0');
+    }
+
+    private grow(): void {
+        const capacity = this.times.length * 2;
+        const times = new Float64Array(capacity);
+        times.set(this.times);
+        const codes = new Uint32Array(capacity);
+        codes.set(this.codes);
+        this.times = times;
+        this.codes = codes;
+    }
+}
@@ -0,0 +1,264 @@
+/*
+    Copyright (C) 2026 Andrew Capatina
+
+    This program is free software: you can redistribute it and/or modify
+    it under the terms of the GNU Affero General Public License as
+    published by the Free Software Foundation, either version 3 of the
+    License, or (at your option) any later version.
+
+    This program is distributed in the hope that it will be useful,
+    but WITHOUT ANY WARRANTY; without even the implied warranty of
+    MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+    GNU Affero General Public License for more details.
+
+    You should have received a copy of the GNU Affero General Public License
+    along with this program.  If not, see <http://www.gnu.org/licenses/>.
+*/
+// X/Z root-cause tracing: when does a signal first become unknown, and
+// which of its drivers was unknown first. Drivers come from RTL fan-in
+// (extractSignalDrivers) when the source is available, else from nearby
+// signals in the hierarchy that went unknown strictly earlier.
+import type { SignalDrivers } from '../hdl/parser';
+import { bitsOf, SignalTrace } from './trace';
+import type { WaveformIndex } from './vcd';
+
+export interface UnknownOptions {
+    /** Unknown values that end before this time are ignored (default: reset release of the cycle clock, else start of dump) */
+    tStart?: number;
+    /** RTL fan-in; without it, drivers are guessed from the hierarchy */
+    drivers?: SignalDrivers;
+    /** Longest chain followed (default 32) */
+    maxDepth?: number;
+    /** Max onsets listed by findUnknownOnsets (default 20) */
+    maxResults?: number;
+}
+
+export interface UnknownOnset {
+    signal: string;
+    /** Start of the unknown run */
+    time: number;
+    /** The first unknown value, formatted */
+    value: string;
+}
+
+export interface UnknownStep extends UnknownOnset {
+    /** How this signal was found from the previous step */
+    via: 'start' | 'rtl' | 'hierarchy';
+    /** Other drivers of the previous step that were unknown by then */
+    others: UnknownOnset[];
+}
+
+export interface UnknownTrace {
+    signal: string;
+    tStart: number;
+    /** From the signal back to the earliest unknown source */
+    chain: UnknownStep[];
+    /** RTL drivers of the last step that are not in the dump, so their values are not known */
+    unrecorded: string[];
+    /** The chain stopped at maxDepth */
+    truncated: boolean;
+}
+
+/** Whether a raw value has x/z (or VHDL U/W/-) bits. Formatted values from sampled contexts lose their hex suffix first. */
+function isUnknownRaw(raw: string): boolean {
+    return /[xzuw-]/i.test(bitsOf(raw));
+}
+
+/** Start of the unknown run in effect at `time` (or just before it), else null. */
+function runStartAt(trace: SignalTrace, time: number): number | null {
+    let i = trace.upperBound(time) - 1;
+    if (i < 0 || !isUnknownRaw(trace.rawAt(i))) {
+        // A value that was unknown until this very time still feeds it
+        i = trace.lowerBound(time) - 1;
+        if (i < 0 || !isUnknownRaw(trace.rawAt(i))) { return null; }
+    }
+    while (i > 0 && isUnknownRaw(trace.rawAt(i - 1))) { i--; }
+    return trace.timeAt(i);
+}
+
+/** First unknown run of `trace` that is still in effect at or after `tStart`. */
+function firstRun(trace: SignalTrace, tStart: number): number | null {
+    const atStart = trace.upperBound(tStart) - 1;
+    if (atStart >= 0 && isUnknownRaw(trace.rawAt(atStart))) { return runStartAt(trace, tStart); }
+    // Each distinct value is tested once
+    const memo = new Map<number, boolean>();
+    for (let i = trace.upperBound(tStart); i < trace.length; i++) {
+        const code = trace.codeAt(i);
+        let unknown = memo.get(code);
+        if (unknown === undefined) { unknown = isUnknownRaw(trace.rawAt(i)); memo.set(code, unknown); }
+        if (unknown) { return trace.timeAt(i); }
+    }
+    return null;
+}
+
+function defaultStart(idx: WaveformIndex, tStart: number | undefined): number {
+    return tStart ?? idx.getCycleTable()?.resetRelease ?? idx.startTime;
+}
+
+function hasLogicValues(idx: WaveformIndex, signal: string): boolean {
+    const kind = idx.getDescriptor(signal)?.kind;
+    return kind === undefined || kind === 'logic';
+}
+
+/**
+ * The first time each signal goes X or Z at or after tStart (carried-over
+ * unknown values count from when they started), earliest first.
+ */
+export function findUnknownOnsets(idx: WaveformIndex, options: UnknownOptions = {}): { tStart: number; onsets: UnknownOnset[] } {
+    const tStart = defaultStart(idx, options.tStart);
+    const onsets: UnknownOnset[] = [];
+    const seen = new Set<SignalTrace>();
+    for (const signal of idx.signals) {
+        const trace = idx.getTrace(signal);
+        // Aliased paths share a trace — report each net once
+        if (!trace || seen.has(trace) || !hasLogicValues(idx, signal)) { continue; }
+        seen.add(trace);
+        const time = firstRun(trace, tStart);
+        if (time !== null) { onsets.push({ signal, time, value: idx.getValueAt(signal, time) }); }
+    }
+    onsets.sort((a, b) => a.time - b.time || a.signal.localeCompare(b.signal));
+    return { tStart, onsets: onsets.slice(0, options.maxResults ?? 20) };
+}
+
+function scopeOf(path: string): string {
+    const dot = path.lastIndexOf('.');
+    return dot >= 0 ? path.slice(0, dot) : '';
+}
+
+/**
+ * Follow an unknown value back through its drivers: starting from the
+ * first time `signal` goes X/Z, repeatedly move to the RTL driver whose
+ * unknown run started first (at or before the current time), or without
+ * RTL to the nearby signal that went unknown last before it. The last step
+ * is the earliest unknown source found. Returns an error message for unknown
+ * signals or a signal that never goes unknown.
+ */
+export function traceUnknown(idx: WaveformIndex, name: string, options: UnknownOptions = {}): UnknownTrace | string {
+    const signal = idx.resolveSignal(name) ?? name;
+    const trace = idx.getTrace(signal);
+    if (!trace) { return idx.signalNotFound(name); }
+    const tStart = defaultStart(idx, options.tStart);
+    const start = firstRun(trace, tStart);
+    if (start === null) { return `"${signal}" has no X or Z values at or after t=${tStart}.`; }
+
+    // Paths by their name without a bit range, for bit-blasted dumps
+    const byBase = new Map<string, string[]>();
+    for (const s of idx.signals) {
+        const base = s.replace(/\[[^\]]*\]$/, '');
+        const list = byBase.get(base);
+        if (list) { list.push(s); } else { byBase.set(base, [s]); }
+    }
+    const byScope = new Map<string, string[]>();
+    for (const s of idx.signals) {
+        const scope = scopeOf(s);
+        const list = byScope.get(scope);
+        if (list) { list.push(s); } else { byScope.set(scope, [s]); }
+    }
+
+    /** RTL drivers of `path` as waveform paths, plus the names with no match in the dump. */
+    const rtlDrivers = (path: string): { found: string[]; missing: string[] } => {
+        const found: string[] = [], missing: string[] = [];
+        if (!options.drivers) { return { found, missing }; }
+        const base = path.replace(/\[[^\]]*\]$/, '');
+        const scope = scopeOf(base);
+        const leaf = base.slice(scope.length ? scope.length + 1 : 0);
+        const refs: { scope: string; name: string }[] = [];
+        for (const name of options.drivers.get(leaf) ?? []) { refs.push({ scope, name }); }
+        // A port of an instance is also driven by what the parent connects to it
+        const parent = scopeOf(scope);
+        const inst = scope.slice(parent.length ? parent.length + 1 : 0);
+        for (const name of options.drivers.get(`${inst}.${leaf}`) ?? []) { refs.push({ scope: parent, name }); }
+        for (const ref of refs) {
+            const full = ref.scope ? `${ref.scope}.${ref.name}` : ref.name;
+            const paths = byBase.get(full);
+            if (paths) { found.push(...paths); } else { missing.push(full); }
+        }
+        return { found, missing };
+    };
+
+    /** Signals in the same scope, the parent scope and child scopes. */
+    const neighbours = (path: string): string[] => {
+        const scope = scopeOf(path);
+        const out = [...(byScope.get(scope) ?? []), ...(byScope.get(scopeOf(scope)) ?? [])];
+        for (const [child, list] of byScope) {
+            if (scopeOf(child) === scope && child !== scope) { out.push(...list); }
+        }
+        return out;
+    };
+
+    const maxDepth = options.maxDepth ?? 32;
+    const chain: UnknownStep[] = [{ signal, time: start, value: idx.getValueAt(signal, start), via: 'start', others: [] }];
+    const visited = new Set<SignalTrace>([trace]);
+    let unrecorded: string[] = [];
+    let truncated = false;
+    for (;;) {
+        const cur = chain[chain.length - 1];
+        // Aliases are the same net, possibly assigned under another name
+        const rtl = [cur.signal, ...(idx.getDescriptor(cur.signal)?.aliases ?? [])].map(rtlDrivers);
+        const found = rtl.flatMap(r => r.found);
+        unrecorded = [...new Set(rtl.flatMap(r => r.missing))];
+        const candidates: (UnknownOnset & { via: 'rtl' | 'hierarchy' })[] = [];
+        const considered = new Set<SignalTrace>();
+        const consider = (s: string, via: 'rtl' | 'hierarchy') => {
+            const t = idx.getTrace(s);
+            if (!t || visited.has(t) || considered.has(t) || !hasLogicValues(idx, s)) { return; }
+            considered.add(t);
+            const run = runStartAt(t, cur.time);
+            if (run === null || (via === 'hierarchy' ? run >= cur.time : run > cur.time)) { return; }
+            candidates.push({ signal: s, time: run, value: idx.getValueAt(s, run), via });
+        };
+        found.forEach(s => consider(s, 'rtl'));
+        if (found.length === 0) { neighbours(cur.signal).forEach(s => consider(s, 'hierarchy')); }
+        if (candidates.length === 0) { break; }
+        if (chain.length > maxDepth) { truncated = true; break; }
+        // The RTL driver that went unknown first; without RTL, the neighbour that went unknown
+        // last before this one is the likeliest direct cause (stable sort keeps the same scope first)
+        candidates.sort((a, b) => found.length > 0 ? a.time - b.time : b.time - a.time);
+        const [next, ...others] = candidates;
+        visited.add(idx.getTrace(next.signal)!);
+        chain.push({
+            signal: next.signal, time: next.time, value: next.value, via: next.via,
+            others: others.slice(0, 5).map(({ signal: s, time, value }) => ({ signal: s, time, value })),
+        });
+    }
+    return { signal, tStart, chain, unrecorded: truncated ? [] : unrecorded, truncated };
+}
+
+/** Render onsets for tool output. */
+export function formatUnknownOnsets({ tStart, onsets }: { tStart: number; onsets: UnknownOnset[] }): string {
+    if (onsets.length === 0) { return `No signal has X or Z values at or after t=${tStart}.`; }
+    return [
+        `Signals with X/Z values at or after t=${tStart}, by when the unknown value started (earliest first):`,
+        ...onsets.map(o => `  t=${o.time}  ${o.signal} = ${o.value}`),
+        'Call trace_unknown with one of these signals to follow its drivers back to the source.',
+    ].join('\n');
+}
+
+/** Render a propagation chain for tool output. */
+export function formatUnknownTrace(result: UnknownTrace): string {
+    const lines = [`X/Z propagation for ${result.signal} (unknown values that ended before t=${result.tStart} are ignored):`];
+    result.chain.forEach((step, i) => {
+        const prev = result.chain[i - 1];
+        let how = '';
+        if (prev) {
+            how = step.via === 'rtl' ? `  (RTL driver of ${prev.signal}` : `  (near ${prev.signal} in the hierarchy, unknown earlier`;
+            if (step.others.length > 0) {
+                how += `; also unknown: ${step.others.map(o => `${o.signal} from t=${o.time}`).join(', ')}`;
+            }
+            how += ')';
+        }
+        lines.push(`  ${i === 0 ? '  ' : '← '}t=${step.time}  ${step.signal} = ${step.value}${how}`);
+    });
+    const root = result.chain[result.chain.length - 1];
+    if (result.truncated) {
+        lines.push(`Stopped after ${result.chain.length} steps; call trace_unknown on ${root.signal} to continue.`);
+    } else if (result.chain.length === 1) {
+        lines.push(`Source: ${root.signal} itself — none of its drivers was unknown at or before t=${root.time}.`);
+    } else {
+        lines.push(`Earliest source: ${root.signal}, unknown from t=${root.time}; none of its drivers was unknown before it.`);
+    }
+    if (result.unrecorded.length > 0) {
+        lines.push(`RTL drivers of ${root.signal} not in the dump (may carry the X): ${result.unrecorded.join(', ')}`);
+    }
+    return lines.join('\n');
+}
@@ -14,6 +14,18 @@
     You should have received a copy of the GNU Affero General Public License
     along with this program.  If not, see <http://www.gnu.org/licenses/>.
 */
+import { StringDecoder } from 'string_decoder';
+import { throwIfAborted, WaveformBuilder, WaveformParseOptions } from './builder';
+import { SignalTrace } from './trace';
+import { buildCycleTable, ClockSpec, CycleTable, detectClock } from './cycles';
+import { analyzeClocks, ClockReport } from './clocks';
+import { checkProperty, PropertyCheckOptions, PropertyCheckResult } from './sva';
+import { buildDerivedTrace, DerivedSignal, parseDerivedSignal } from './derived';
+import { Page, PAGE_SIZE, PageRequest, RunLengths, takePage, valueMatches } from './paging';
+import { compileSignalPattern, ScopeListing, ScopeTree } from './hierarchy';
+import { SignalStats, signalStats } from './stats';
+import { LatencyOptions, LatencyResult, measureLatency, measureThroughput, ThroughputOptions, ThroughputResult } from './latency';
+
 // Defined here (not in vaporview/api) to avoid a circular import.
 // vaporview/api.ts re-exports this type so callers are unaffected.
 export interface SignalTransition {
@@ -23,279 +35,824 @@ export interface SignalTransition {
 }
 
 interface VcdSignal {
-    id: string;
-    path: string;    // e.g. "tb.dut.counter"
     width: number;
+    kind: SignalKind;
+    keep: boolean;   // false when every path for this id is excluded by the signal subset
+}
+
+/** How a signal's values are represented. */
+export type SignalKind = 'logic' | 'real' | 'string' | 'event';
+
+/** Port direction, when the format records one (GHW, FST, EVCD). */
+export type SignalDirection = 'input' | 'output' | 'inout';
+
+/** Declaration metadata for one hierarchical signal path. */
+export interface SignalDescriptor {
+    /** Hierarchical path without bit range, e.g. "tb.dut.counter" */
+    path: string;
+    /** Leaf name, e.g. "counter" */
+    name: string;
+    /** Enclosing scope, e.g. "tb.dut" */
+    scope: string;
+    /** Declared variable type: wire, reg, integer, parameter, real, event, … */
+    varType: string;
+    width: number;
+    /** Declared bit range such as "[7:0]", when present */
+    range?: string;
+    kind: SignalKind;
+    /** VCD identifier code (FST: handle number). Aliases share it. */
+    idCode: string;
+    /** Other hierarchical paths declared with the same id code (the same net) */
+    aliases: string[];
+    /** Port direction, for ports */
+    direction?: SignalDirection;
+    /** Defining expression, for derived signals (varType "derived") */
+    expression?: string;
+}
+
+/** One scope of the design hierarchy: a VCD/FST $scope, a GHW instance or block. */
+export interface ScopeDescriptor {
+    /** Hierarchical path, e.g. "tb.dut" */
+    path: string;
+    /** Kind as the format names it: module, task, function, begin, fork, instance, … */
+    type: string;
 }
 
 export interface VcdParseResult {
     /** Hierarchical signal paths that had at least one transition */
     signals: string[];
-    transitions: SignalTransition[];
+    /** Columnar value changes per signal path. Aliased paths share one trace. */
+    traces: Map<string, SignalTrace>;
+    /** Declaration metadata for every declared path */
+    descriptors: Map<string, SignalDescriptor>;
+    /** Declared scopes, in declaration order */
+    scopes: ScopeDescriptor[];
+    transitionCount: number;
     endTime: number;
     timescale: string;
+    /**
+     * Absolute time that all times above are offsets from. 0n except for
+     * dumps whose timestamps exceed Number.MAX_SAFE_INTEGER.
+     */
+    timeOrigin: bigint;
 }
 
-// Format a binary/x/z string with hex annotation for multi-bit signals
-function formatBits(bits: string, width: number): string {
-    if (width <= 1) { return bits; }
-    // Pad to declared width
-    const padded = bits.padStart(width, bits[0] === 'x' || bits[0] === 'X' ? 'x' : '0');
-    if (/^[01]+$/.test(padded)) {
-        const hex = parseInt(padded, 2).toString(16).toUpperCase();
-        return `${padded} (0x${hex})`;
+/** Map a declared variable type to how its values are represented. */
+export function kindForVarType(varType: string): SignalKind {
+    switch (varType) {
+        case 'real':
+        case 'realtime':
+        case 'real_parameter':
+        case 'shortreal':
+            return 'real';
+        case 'string':
+            return 'string';
+        case 'event':
+            return 'event';
+        default:
+            return 'logic';
     }
-    return padded; // contains x/z — no hex conversion
 }
 
-export function parseVcd(content: string): VcdParseResult {
-    const signalDefs = new Map<string, VcdSignal>();  // id → signal
-    const scopeStack: string[] = [];
-    let timescale = '1 ns';
-    let currentTime = 0;
-    let endTime = 0;
-    const transitions: SignalTransition[] = [];
-    const lastValues = new Map<string, string>();
-    const signalsWithTransitions = new Set<string>();
-
-    let i = 0;
-    const lines = content.split('\n');
-    const total = lines.length;
-
-    // Helper: collect tokens until $end, spanning multiple lines if needed
-    function collectUntilEnd(startLine: string): string {
-        let text = startLine;
-        while (!text.includes('$end') && i < total) {
-            text += ' ' + lines[i++].trim();
-        }
-        return text.replace(/\$end\b.*/, '').trim();
-    }
-
-    // ── Header ────────────────────────────────────────────────────────────────
-    while (i < total) {
-        const raw = lines[i++];
-        const line = raw.trim();
-        if (!line) { continue; }
-
-        if (line.startsWith('$timescale')) {
-            const body = collectUntilEnd(line.replace('$timescale', '').trim());
-            timescale = body.trim() || timescale;
-            continue;
-        }
-
-        if (line.startsWith('$scope')) {
-            // $scope module name $end  (may span lines)
-            const full = collectUntilEnd(line);
-            const m = full.match(/\$scope\s+\w+\s+(\S+)/);
-            if (m) { scopeStack.push(m[1]); }
-            continue;
-        }
-
-        if (line.startsWith('$upscope')) {
-            scopeStack.pop();
-            continue;
-        }
-
-        if (line.startsWith('$var')) {
-            // $var type width id name [bit_range] $end
-            const full = collectUntilEnd(line);
-            const m = full.match(/\$var\s+\S+\s+(\d+)\s+(\S+)\s+(\S+)/);
-            if (m) {
-                const width = parseInt(m[1], 10);
-                const id = m[2];
-                const name = m[3].replace(/\[.*\]$/, ''); // strip trailing [n:m]
-                const path = [...scopeStack, name].join('.');
-                // If duplicate id (e.g. aliased signal), last definition wins
-                signalDefs.set(id, { id, path, width });
-            }
-            continue;
-        }
+const TIME_UNITS: Record<string, number> = { s: 1, ms: 1e-3, us: 1e-6, ns: 1e-9, ps: 1e-12, fs: 1e-15, as: 1e-18, zs: 1e-21 };
+
+/** Seconds per time unit for a timescale such as "1 ns", "10ps" or "1e-9 s"; null when unrecognised. */
+export function timescaleSeconds(timescale: string): number | null {
+    const m = /^\s*([\d.e+-]*)\s*([a-z]+)\s*$/i.exec(timescale);
+    if (!m) { return null; }
+    const unit = TIME_UNITS[m[2].toLowerCase()];
+    const magnitude = m[1] === '' ? 1 : Number(m[1]);
+    return unit !== undefined && Number.isFinite(magnitude) ? magnitude * unit : null;
+}
+
+const enum VcdMode { Header, Data }
+
+/** Data-section commands whose body is a list of value changes (EVCD: $dumpports…). */
+const DUMP_COMMANDS = new Set([
+    '$dumpvars', '$dumpall', '$dumpon', '$dumpoff',
+    '$dumpports', '$dumpportsall', '$dumpportson', '$dumpportsoff',
+]);
+
+/**
+ * EVCD port states (IEEE 1364 §18.4) and the logic value each maps to, as
+ * GTKWave reads them. Upper case D/U/N/Z are driven by the test fixture
+ * (input), L/H/X/T by the design (output); the rest are both or unknown.
+ */
+const EVCD_STATES = 'DUNZduLHXTlh01?FAaBbCcf';
+const EVCD_VALUES = '01xz0101xz0101xzxxxxxxz';
+const EVCD_INPUT_STATES = 'DUNZdu';
+const EVCD_OUTPUT_STATES = 'LHXTlh';
+const EVCD_DRIVEN_IN = 1;
+const EVCD_DRIVEN_OUT = 2;
+
+/** Scalar value characters: 4-state plus the VHDL std_logic states GHDL emits. */
+const SCALAR_STATES = '01xXzZuUwWhHlL-';
+
+/**
+ * Incremental VCD parser. Feed text with write() in chunks of any size
+ * (tokens may straddle chunk boundaries) and call end() for the result.
+ * Only value changes accepted by the WaveformBuilder are kept in memory.
+ */
+export class VcdStreamParser {
+    private readonly builder: WaveformBuilder;
+    private readonly signalDefs = new Map<string, VcdSignal>();  // id → signal
+    private readonly scopeStack: string[] = [];
+    private timescale = '1 ns';
+    private currentTime = 0;
+    private endTime = 0;
+    private mode = VcdMode.Header;
+    /**
+     * Absolute time that stored times are offsets from. Stays 0 unless the
+     * first timestamp or the window start is beyond Number.MAX_SAFE_INTEGER
+     * (see parseTime).
+     */
+    private timeOrigin: bigint | null = null;
+
+    /** Partial token held back until the next chunk arrives. */
+    private carry = '';
+    /** Open $command awaiting its $end, and the tokens collected so far. */
+    private command: string | null = null;
+    private commandTokens: string[] = [];
+    /** Vector/real/string value waiting for its identifier token. */
+    private pendingValue: { kind: 'vector' | 'real' | 'string'; value: string } | null = null;
+    /** EVCD port value waiting for its two strength tokens and identifier. */
+    private pendingPort: { value: string; strengths: number } | null = null;
+    /** EVCD: which sides have driven each port id (EVCD_DRIVEN_* bits). */
+    private readonly portDrivers = new Map<string, number>();
+    private stopped = false;
 
-        if (line.startsWith('$enddefinitions')) {
-            // Skip to $end if on same line, otherwise consume lines
-            if (!line.includes('$end')) {
-                while (i < total && !lines[i].includes('$end')) { i++; }
-                i++; // consume the $end line
+    constructor(options: WaveformParseOptions = {}) {
+        this.builder = new WaveformBuilder(options);
+    }
+
+    /** True once the time window has been passed; remaining input can be skipped. */
+    get done(): boolean {
+        return this.stopped;
+    }
+
+    write(chunk: string): void {
+        if (this.stopped) { return; }
+        const text = this.carry + chunk;
+        let cut = text.length;
+        while (cut > 0 && text.charCodeAt(cut - 1) > 32) { cut--; }
+        this.carry = text.slice(cut);
+        this.scan(text, cut);
+    }
+
+    end(): VcdParseResult {
+        if (this.carry && !this.stopped) {
+            this.scan(this.carry, this.carry.length);
+        }
+        this.carry = '';
+        const result = this.builder.finish(this.endTime, this.timescale);
+        for (const desc of result.descriptors.values()) {
+            const drivers = this.portDrivers.get(desc.idCode);
+            if (drivers) {
+                desc.direction = drivers === EVCD_DRIVEN_IN ? 'input' : drivers === EVCD_DRIVEN_OUT ? 'output' : 'inout';
             }
-            break; // header done
         }
+        return result;
+    }
 
-        // Skip all other $blocks ($comment, $version, $date)
-        if (line.startsWith('$') && !line.includes('$end')) {
-            while (i < total && !lines[i].includes('$end')) { i++; }
-            i++;
+    private scan(text: string, limit: number): void {
+        let i = 0;
+        while (i < limit && !this.stopped) {
+            if (text.charCodeAt(i) <= 32) { i++; continue; }
+            let j = i + 1;
+            while (j < limit && text.charCodeAt(j) > 32) { j++; }
+            this.token(text.slice(i, j));
+            i = j;
         }
     }
 
-    // ── Data section ──────────────────────────────────────────────────────────
-    let skipToEnd = false;  // inside $dumpvars / $dumpall / etc.
+    private token(tok: string): void {
+        if (this.command !== null) {
+            if (tok === '$end') {
+                this.finishCommand();
+            } else if (this.command === '$var' || this.command === '$scope' || this.command === '$timescale') {
+                this.commandTokens.push(tok);
+            }
+            return;
+        }
 
-    while (i < total) {
-        const raw = lines[i++];
-        const line = raw.trim();
-        if (!line) { continue; }
+        if (this.pendingPort) {
+            // p<states> <strength0> <strength1> <id>
+            if (this.pendingPort.strengths < 2) {
+                this.pendingPort.strengths++;
+                return;
+            }
+            const { value } = this.pendingPort;
+            this.pendingPort = null;
+            this.portChange(tok, value);
+            return;
+        }
 
-        // Skip command blocks that wrap value changes ($dumpvars, $dumpall, …)
-        if (line.startsWith('$')) {
-            if (line.includes('$end')) {
-                skipToEnd = false;
-            } else {
-                skipToEnd = true;
+        if (this.pendingValue) {
+            const { kind, value } = this.pendingValue;
+            this.pendingValue = null;
+            this.change(tok, kind, value);
+            return;
+        }
+
+        if (tok[0] === '$') {
+            if (tok === '$end') { return; } // terminator of a value-carrying block or stray
+            if (this.mode === VcdMode.Data && DUMP_COMMANDS.has(tok)) {
+                // The block's value changes are read like any others
+                if (tok === '$dumpoff' || tok === '$dumpportsoff') { this.dumpOff(); }
+                return;
             }
-            continue;
+            if (tok === '$upscope') { this.scopeStack.pop(); }
+            this.command = tok;
+            this.commandTokens = [];
+            return;
         }
-        if (skipToEnd) { continue; }
 
+        if (this.mode === VcdMode.Header) { return; }
+
+        const c = tok[0];
         // Timestamp
-        if (line.startsWith('#')) {
-            currentTime = parseInt(line.slice(1), 10);
-            if (currentTime > endTime) { endTime = currentTime; }
-            continue;
+        if (c === '#') {
+            if (!/^\d+$/.test(tok.slice(1))) { return; } // malformed — keep the current time
+            const t = this.parseTime(tok.slice(1));
+            if (this.builder.isPastWindow(t)) {
+                this.stopped = true;
+                return;
+            }
+            this.currentTime = t;
+            if (t > this.endTime) { this.endTime = t; }
+            return;
         }
 
         // Vector change: b<bits> <id>  or  B<bits> <id>
-        if (line[0] === 'b' || line[0] === 'B') {
-            const sp = line.indexOf(' ');
-            if (sp > 0) {
-                const bits = line.slice(1, sp);
-                const id = line.slice(sp + 1).trim();
-                const sig = signalDefs.get(id);
-                if (sig) {
-                    const formatted = formatBits(bits, sig.width);
-                    if (lastValues.get(sig.path) !== formatted) {
-                        transitions.push({ time: currentTime, signal: sig.path, value: formatted });
-                        lastValues.set(sig.path, formatted);
-                        signalsWithTransitions.add(sig.path);
-                    }
-                }
-            }
-            continue;
+        if (c === 'b' || c === 'B') {
+            this.pendingValue = { kind: 'vector', value: tok.slice(1).toLowerCase() };
+            return;
         }
 
         // Real value change: r<num> <id> — represent as a string
-        if (line[0] === 'r' || line[0] === 'R') {
-            const sp = line.indexOf(' ');
-            if (sp > 0) {
-                const val = line.slice(1, sp);
-                const id = line.slice(sp + 1).trim();
-                const sig = signalDefs.get(id);
-                if (sig) {
-                    if (lastValues.get(sig.path) !== val) {
-                        transitions.push({ time: currentTime, signal: sig.path, value: val });
-                        lastValues.set(sig.path, val);
-                        signalsWithTransitions.add(sig.path);
-                    }
+        if (c === 'r' || c === 'R') {
+            this.pendingValue = { kind: 'real', value: tok.slice(1) };
+            return;
+        }
+
+        // String value change: s<text> <id> (GHDL, SystemVerilog strings/enums)
+        if (c === 's' || c === 'S') {
+            this.pendingValue = { kind: 'string', value: tok.slice(1) };
+            return;
+        }
+
+        // EVCD port change: p<states> <strength0> <strength1> <id>
+        if (c === 'p' && tok.length >= 2) {
+            this.pendingPort = { value: tok.slice(1), strengths: 0 };
+            return;
+        }
+
+        // Scalar change: <state><id> — 4-state, plus the VHDL std_logic states
+        if (tok.length >= 2 && SCALAR_STATES.includes(c)) {
+            this.change(tok.slice(1), 'scalar', c.toLowerCase());
+        }
+    }
+
+    /**
+     * Convert a timestamp to the number stored in traces. Times up to 2^53
+     * are exact as numbers. Larger ones are parsed as bigint and stored as
+     * offsets from the time origin the builder picks from the first
+     * timestamp and the window start. Timestamps past the window come back
+     * as Infinity before any conversion, so only the window must span less
+     * than 2^53 units.
+     */
+    private parseTime(text: string): number {
+        if (this.timeOrigin === null) { this.timeOrigin = this.builder.setTimeOrigin(BigInt(text)); }
+        if (this.timeOrigin === 0n && text.length < 16) { return Number(text); }
+        return this.builder.storedTime(BigInt(text));
+    }
+
+    /** $dumpoff: every variable is unknown until the next $dumpon. */
+    private dumpOff(): void {
+        for (const [id, sig] of this.signalDefs) {
+            if (!sig.keep || sig.kind !== 'logic') { continue; }
+            this.builder.add(id, this.currentTime, 'x'.repeat(Math.max(sig.width, 1)), sig.width);
+        }
+    }
+
+    private finishCommand(): void {
+        const cmd = this.command;
+        const toks = this.commandTokens;
+        this.command = null;
+        this.commandTokens = [];
+
+        switch (cmd) {
+            case '$timescale':
+                this.timescale = toks.join(' ') || this.timescale;
+                break;
+            case '$scope':
+                // $scope module name $end
+                if (toks.length >= 2) {
+                    this.scopeStack.push(toks[1]);
+                    this.builder.declareScope(this.scopeStack.join('.'), toks[0]);
                 }
-            }
-            continue;
-        }
-
-        // Scalar change: <0|1|x|X|z|Z><id>
-        if (line.length >= 2 && '01xXzZ'.includes(line[0])) {
-            const val = line[0].toLowerCase();
-            const id = line.slice(1).trim();
-            const sig = signalDefs.get(id);
-            if (sig) {
-                if (lastValues.get(sig.path) !== val) {
-                    transitions.push({ time: currentTime, signal: sig.path, value: val });
-                    lastValues.set(sig.path, val);
-                    signalsWithTransitions.add(sig.path);
+                break;
+            case '$var': {
+                // $var type width id name [bit_range] $end
+                // EVCD ports give the range as the width: $var port [7:0] <3 name $end
+                if (toks.length < 4) { break; }
+                const varType = toks[0];
+                const portRange = toks[1].match(/^\[(\d+):(\d+)\]$/);
+                const width = portRange
+                    ? Math.abs(Number(portRange[1]) - Number(portRange[2])) + 1
+                    : parseInt(toks[1], 10);
+                const id = toks[2];
+                const rangeMatch = toks[3].match(/^(.*?)(\[.*\])$/);
+                const name = rangeMatch ? rangeMatch[1] : toks[3];
+                const range = toks[4]?.startsWith('[') ? toks.slice(4).join('') : rangeMatch?.[2] ?? portRange?.[0];
+                const scope = this.scopeStack.join('.');
+                const path = scope ? `${scope}.${name}` : name;
+                const kind = kindForVarType(varType);
+                this.builder.declare({ path, name, scope, varType, width, range, kind, idCode: id });
+                // A repeated id code is an alias: changes are recorded once for the net
+                const def = this.signalDefs.get(id);
+                if (def) {
+                    def.keep ||= this.builder.wants(path);
+                } else {
+                    this.signalDefs.set(id, { width, kind, keep: this.builder.wants(path) });
                 }
+                break;
             }
-            continue;
+            case '$enddefinitions':
+                this.mode = VcdMode.Data;
+                break;
+            // $comment / $date / $version: contents are skipped
+        }
+    }
+
+    /** EVCD: map port states to logic values and note which side drove the port. */
+    private portChange(id: string, states: string): void {
+        const sig = this.signalDefs.get(id);
+        if (!sig || !sig.keep) { return; }
+        let value = '';
+        let drivers = this.portDrivers.get(id) ?? 0;
+        for (const st of states) {
+            const i = EVCD_STATES.indexOf(st);
+            value += i < 0 ? 'x' : EVCD_VALUES[i];
+            drivers |= EVCD_INPUT_STATES.includes(st) ? EVCD_DRIVEN_IN
+                : EVCD_OUTPUT_STATES.includes(st) ? EVCD_DRIVEN_OUT
+                : EVCD_DRIVEN_IN | EVCD_DRIVEN_OUT;
         }
+        this.portDrivers.set(id, drivers);
+        this.builder.add(id, this.currentTime, value, sig.width);
     }
 
-    return {
-        signals: Array.from(signalsWithTransitions),
-        transitions,
-        endTime,
-        timescale,
-    };
+    private change(id: string, kind: 'scalar' | 'vector' | 'real' | 'string', raw: string): void {
+        const sig = this.signalDefs.get(id);
+        if (!sig || !sig.keep) { return; }
+        const width = kind === 'real' || kind === 'string' || sig.kind !== 'logic' ? 1 : sig.width;
+        this.builder.add(id, this.currentTime, raw, width);
+    }
+}
+
+export function parseVcd(content: string, options: WaveformParseOptions = {}): VcdParseResult {
+    const parser = new VcdStreamParser(options);
+    parser.write(content);
+    return parser.end();
+}
+
+/**
+ * Parse VCD text from a stream of chunks (e.g. fs.createReadStream) without
+ * ever holding the whole file. Stops reading once the time window is passed.
+ */
+export async function parseVcdStream(
+    source: AsyncIterable<string | Buffer>,
+    options: WaveformParseOptions = {},
+    totalBytes = 0,
+): Promise<VcdParseResult> {
+    const parser = new VcdStreamParser(options);
+    const decoder = new StringDecoder('utf8');
+    let bytesRead = 0;
+
+    for await (const chunk of source) {
+        throwIfAborted(options.signal);
+        if (typeof chunk === 'string') {
+            bytesRead += chunk.length;
+            parser.write(chunk);
+        } else {
+            bytesRead += chunk.length;
+            parser.write(decoder.write(chunk));
+        }
+        options.onProgress?.(bytesRead, totalBytes);
+        if (parser.done) { break; }
+    }
+    throwIfAborted(options.signal);
+    parser.write(decoder.end());
+    return parser.end();
+}
+
+/** One entry of WaveformIndex.listSignals(). Declaration fields are absent for VaporView-sampled contexts. */
+export interface SignalListing {
+    name: string;
+    transitionCount: number;
+    varType?: string;
+    width?: number;
+    range?: string;
+    kind?: SignalKind;
+    aliases?: string[];
+}
+
+export interface SignalDescription extends SignalDescriptor {
+    transitionCount: number;
+    firstChange: number | null;
+    lastChange: number | null;
+    initialValue: string | null;
+    finalValue: string | null;
+}
+
+/**
+ * Flatten traces into time-ordered transitions with formatted values,
+ * optionally limited to [tStart, tEnd].
+ */
+function flattenTraces(
+    traces: Map<string, SignalTrace>,
+    tStart = -Infinity,
+    tEnd = Infinity,
+): SignalTransition[] {
+    const out: SignalTransition[] = [];
+    for (const [signal, trace] of traces) {
+        const end = trace.upperBound(tEnd);
+        for (let i = trace.lowerBound(tStart); i < end; i++) {
+            out.push({ time: trace.timeAt(i), signal, value: trace.valueAt(i) });
+        }
+    }
+    // Stable sort keeps same-time changes of one signal in order
+    out.sort((a, b) => a.time - b.time);
+    return out;
+}
+
+/** A signal name compared loosely: without a trailing bit range, lower case. */
+function looseName(name: string): string {
+    return name.trim().replace(/\s*\[[^\]]*\]$/, '').toLowerCase();
+}
+
+/** Levenshtein distance, for "did you mean" suggestions. */
+function editDistance(a: string, b: string): number {
+    let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+        const cur = [i];
+        for (let j = 1; j <= b.length; j++) {
+            cur[j] = Math.min(prev[j] + 1, cur[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+        }
+        prev = cur;
+    }
+    return prev[b.length];
 }
 
 /**
  * In-memory index over a parsed waveform for efficient LLM tool queries.
- * Accepts any object with signals/transitions/endTime (VcdParseResult or WaveformContext).
+ * Accepts any object with signals/endTime plus either columnar traces
+ * (VcdParseResult) or flat transitions (WaveformContext). Values are kept
+ * per signal as SignalTraces and formatted only when a result is returned.
  */
 export class WaveformIndex {
-    private bySignal: Map<string, SignalTransition[]>;
+    private bySignal: Map<string, SignalTrace>;
+    private descriptors: Map<string, SignalDescriptor>;
     readonly signals: string[];
     readonly timescale: string;
     readonly endTime: number;
     readonly startTime: number;
     readonly uri: string;
+    readonly transitionCount: number;
+    /**
+     * Absolute time of t=0. Nonzero only for dumps whose timestamps exceed
+     * 2^53; every time the index takes or returns is an offset from it.
+     */
+    readonly timeOrigin: bigint;
+    /** Clock for cycle numbering: undefined until detected or set, null when none was found. */
+    private cycleTable: CycleTable | null | undefined;
+    /** Clock chosen with setClock(), kept so the table can be rebuilt after defineSignal(). */
+    private clockSpec: ClockSpec | undefined;
+    /** Every clock, reset and clock domain; built on first use. */
+    private clocking: ClockReport | undefined;
+    /** Derived signals by name; their traces are built on first use. */
+    private derived = new Map<string, DerivedSignal>();
+    private derivedTraces = new Map<string, SignalTrace>();
+    private readonly scopes: ScopeDescriptor[];
+    /** Built on first use; dropped when a derived signal is added. */
+    private scopeTree: ScopeTree | undefined;
 
     constructor(data: {
         signals: string[];
-        transitions: SignalTransition[];
+        traces?: Map<string, SignalTrace>;
+        descriptors?: Map<string, SignalDescriptor>;
+        scopes?: ScopeDescriptor[];
+        transitions?: SignalTransition[];
         endTime: number;
         startTime?: number;
         timescale?: string;
         uri?: string;
+        timeOrigin?: bigint;
     }) {
         this.signals = data.signals;
         this.timescale = data.timescale ?? 'unknown';
         this.endTime = data.endTime;
         this.startTime = data.startTime ?? 0;
         this.uri = data.uri ?? '';
+        this.timeOrigin = data.timeOrigin ?? 0n;
+        this.descriptors = data.descriptors ?? new Map();
+        this.scopes = data.scopes ?? [];
 
-        this.bySignal = new Map();
-        for (const t of data.transitions) {
-            let bucket = this.bySignal.get(t.signal);
-            if (!bucket) { bucket = []; this.bySignal.set(t.signal, bucket); }
-            bucket.push(t);
+        if (data.traces) {
+            this.bySignal = data.traces;
+        } else {
+            // Values from a WaveformContext are already formatted — intern them as-is
+            this.bySignal = new Map();
+            for (const t of data.transitions ?? []) {
+                let trace = this.bySignal.get(t.signal);
+                if (!trace) { trace = new SignalTrace(); this.bySignal.set(t.signal, trace); }
+                trace.push(t.time, t.value);
+            }
+            for (const trace of this.bySignal.values()) { trace.compact(); }
         }
+
+        // Aliased paths share a trace — count each net once
+        let count = 0;
+        for (const trace of new Set(this.bySignal.values())) { count += trace.length; }
+        this.transitionCount = count;
     }
 
-    listSignals(): { name: string; transitionCount: number }[] {
-        return this.signals.map(name => ({
-            name,
-            transitionCount: this.bySignal.get(name)?.length ?? 0,
-        }));
+    /** Materialize the whole index as a flat context (legacy, non-tool prompt mode). */
+    toContext(): {
+        uri: string;
+        signals: string[];
+        transitions: SignalTransition[];
+        startTime: number;
+        endTime: number;
+        timescale: string;
+    } {
+        return {
+            uri: this.uri,
+            signals: this.signals,
+            transitions: flattenTraces(this.bySignal),
+            startTime: this.startTime,
+            endTime: this.endTime,
+            timescale: this.timescale,
+        };
+    }
+
+    /**
+     * Signals with transition counts and, when the file declared them, type,
+     * width, range and aliases. With `scope`, only the signals directly in
+     * that scope (or at any depth with `recursive`); an error message when
+     * no such scope exists.
+     */
+    listSignals(): SignalListing[];
+    listSignals(options: { scope?: string; recursive?: boolean }): SignalListing[] | string;
+    listSignals(options: { scope?: string; recursive?: boolean } = {}): SignalListing[] | string {
+        let signals = this.signals;
+        if (options.scope !== undefined) {
+            const tree = this.getScopeTree();
+            const scope = tree.resolve(options.scope);
+            if (scope === null) { return tree.notFound(options.scope); }
+            signals = tree.signalsIn(scope, options.recursive ?? false);
+        }
+        return signals.map(name => this.listing(name));
     }
 
-    queryTransitions(signal: string, tStart: number, tEnd: number, cap = 150): SignalTransition[] {
-        const ts = this.bySignal.get(signal) ?? [];
-        const filtered = ts.filter(t => t.time >= tStart && t.time <= tEnd);
-        if (filtered.length <= cap) { return filtered; }
-        const step = filtered.length / cap;
-        return Array.from({ length: cap }, (_, i) => filtered[Math.round(i * step)]);
+    /**
+     * Signals whose path matches `pattern` (a glob, or /regex/; see
+     * compileSignalPattern), optionally only below `scope`. Returns an error
+     * message for a bad pattern or unknown scope.
+     */
+    searchSignals(pattern: string, scope?: string): SignalListing[] | string {
+        const re = compileSignalPattern(pattern);
+        if (typeof re === 'string') { return re; }
+        let signals = this.signals;
+        if (scope !== undefined) {
+            const tree = this.getScopeTree();
+            const path = tree.resolve(scope);
+            if (path === null) { return tree.notFound(scope); }
+            signals = tree.signalsIn(path, true);
+        }
+        return signals.filter(s => re.test(s)).map(name => this.listing(name));
+    }
+
+    /** `scope` ('' for the top level) and its child scopes, or an error message for an unknown scope. */
+    listScopes(scope = ''): { scope: ScopeListing; children: ScopeListing[] } | string {
+        const tree = this.getScopeTree();
+        const path = tree.resolve(scope);
+        if (path === null) { return tree.notFound(scope); }
+        return { scope: tree.describe(path), children: tree.children(path) };
     }
 
+    /** The scope tree of the recorded (and derived) signals. */
+    getScopeTree(): ScopeTree {
+        this.scopeTree ??= new ScopeTree(this.signals, signal => {
+            const desc = this.descriptors.get(signal);
+            if (desc) { return desc.scope; }
+            const dot = signal.lastIndexOf('.');
+            return dot >= 0 ? signal.slice(0, dot) : '';
+        }, this.scopes);
+        return this.scopeTree;
+    }
+
+    /** Columnar value changes of `signal` (shared with its aliases), for analyses that walk them directly. */
+    getTrace(signal: string): SignalTrace | undefined {
+        const trace = this.bySignal.get(signal) ?? this.derivedTraces.get(signal);
+        if (trace) { return trace; }
+        const def = this.derived.get(signal);
+        if (!def) { return undefined; }
+        const built = buildDerivedTrace(this, def);
+        this.derivedTraces.set(signal, built);
+        return built;
+    }
+
+    /**
+     * The indexed name for a signal as a user or model may write it: the
+     * exact path, the path in another case or with/without its bit range,
+     * or a leaf name that identifies one net. Null when there is no match
+     * or several; signalNotFound() explains which.
+     */
+    resolveSignal(name: string): string | null {
+        const matches = this.signalMatches(name);
+        if (matches.length === 0 || new Set(matches.map(s => this.getTrace(s))).size > 1) { return null; }
+        // Aliases of one net: prefer the shortest path
+        return matches.reduce((a, b) => b.length < a.length ? b : a);
+    }
+
+    /** resolveSignal() for several names; the not-found message of the first that fails. */
+    resolveSignals(names: string[]): string[] | string {
+        const resolved: string[] = [];
+        for (const name of names) {
+            const signal = this.resolveSignal(name);
+            if (signal === null) { return this.signalNotFound(name); }
+            resolved.push(signal);
+        }
+        return resolved;
+    }
+
+    /** Whether `signal` is an exact path of this waveform: indexed, declared or derived. */
+    hasSignal(signal: string): boolean {
+        return this.getTrace(signal) !== undefined || this.descriptors.has(signal) || this.signals.includes(signal);
+    }
+
+    /** Error message for a name resolveSignal() rejected, with "did you mean" suggestions. */
+    signalNotFound(name: string): string {
+        const matches = this.signalMatches(name);
+        if (matches.length > 1) {
+            return `Signal "${name}" is ambiguous: it matches ${matches.slice(0, 8).join(', ')}${matches.length > 8 ? ', …' : ''}. Use the full path.`;
+        }
+        const key = looseName(name);
+        const keyLeaf = key.slice(key.lastIndexOf('.') + 1);
+        // Short names tolerate one edit; longer ones about a third of their length
+        const limit = keyLeaf.length <= 4 ? 1 : Math.max(2, Math.floor(keyLeaf.length / 3));
+        const scored: { signal: string; score: number }[] = [];
+        for (const signal of this.signals) {
+            const loose = looseName(signal);
+            const leaf = loose.slice(loose.lastIndexOf('.') + 1);
+            let score = editDistance(keyLeaf, leaf);
+            if (key.includes('.')) { score = Math.min(score, editDistance(key, loose)); }
+            // "cnt" vs "cnt_next": one name containing the other is close enough
+            if (score > limit && keyLeaf.length >= 3 && (leaf.includes(keyLeaf) || keyLeaf.includes(leaf))) { score = limit; }
+            if (score <= limit) { scored.push({ signal, score }); }
+        }
+        scored.sort((a, b) => a.score - b.score || a.signal.length - b.signal.length);
+        // One suggestion per net: aliases sort after their shortest path
+        const nets = new Set<SignalTrace | undefined>();
+        const suggestions = scored.filter(s => {
+            const trace = this.getTrace(s.signal);
+            if (trace && nets.has(trace)) { return false; }
+            nets.add(trace);
+            return true;
+        }).slice(0, 5).map(s => s.signal);
+        const notFound = `Unknown signal "${name}": there is no such signal in the waveform (this is not an X value).`;
+        return suggestions.length > 0
+            ? `${notFound} Did you mean: ${suggestions.join(', ')}?`
+            : `${notFound} Use list_signals to see the available names.`;
+    }
+
+    /** Declaration metadata for `signal`, or undefined when the source had none (or no such signal). */
+    getDescriptor(signal: string): SignalDescriptor | undefined {
+        return this.descriptors.get(signal);
+    }
+
+    /**
+     * Full description of one signal: its declaration plus activity
+     * (transition count, first/last change, initial and final value).
+     * Returns null when the signal is neither declared nor indexed.
+     */
+    describeSignal(signal: string): SignalDescription | null {
+        const desc = this.descriptors.get(signal);
+        const trace = this.getTrace(signal);
+        if (!desc && !trace && !this.signals.includes(signal)) { return null; }
+        const dot = signal.lastIndexOf('.');
+        const base: SignalDescriptor = desc ?? {
+            path: signal,
+            name: signal.slice(dot + 1),
+            scope: dot >= 0 ? signal.slice(0, dot) : '',
+            varType: 'unknown',
+            // Values from a sampled context are pre-formatted — count the leading bits
+            width: trace && trace.length > 0 ? (trace.rawAt(0).match(/^[01xz]+/i)?.[0].length ?? 1) : 1,
+            kind: 'logic',
+            idCode: '',
+            aliases: [],
+        };
+        const n = trace?.length ?? 0;
+        return {
+            ...base,
+            transitionCount: n,
+            firstChange: n > 0 ? trace!.timeAt(0) : null,
+            lastChange: n > 0 ? trace!.timeAt(n - 1) : null,
+            initialValue: n > 0 ? trace!.valueAt(0) : null,
+            finalValue: n > 0 ? trace!.valueAt(n - 1) : null,
+        };
+    }
+
+    /**
+     * One page of the transitions of `signal` in [tStart, tEnd], in time
+     * order. Like the other queries by path, throws the signalNotFound()
+     * message for a path the waveform does not have; resolve names written
+     * by users with resolveSignal() first.
+     */
+    queryTransitions(signal: string, tStart: number, tEnd: number, page: PageRequest = {}): Page<SignalTransition> {
+        const offset = Math.max(0, Math.floor(page.offset ?? 0));
+        const trace = this.getTrace(signal);
+        if (!trace) {
+            this.requireSignal(signal);
+            return { items: [], offset, total: 0 };
+        }
+        const first = trace.lowerBound(tStart);
+        const total = Math.max(0, trace.upperBound(tEnd) - first);
+        const n = Math.max(0, Math.min(page.limit ?? PAGE_SIZE.transitions, total - offset));
+        const items = Array.from({ length: n }, (_, i) => this.transitionAt(signal, trace, first + offset + i));
+        return { items, offset, total };
+    }
+
+    /**
+     * How long each value of `signal` persisted within [tStart, tEnd]. The
+     * value held at tStart counts from tStart; the last run ends at tEnd or
+     * the end of the dump.
+     */
+    runLengths(signal: string, tStart: number, tEnd: number): RunLengths {
+        const runs = new RunLengths();
+        const trace = this.getTrace(signal);
+        if (!trace || tEnd < tStart) { return runs; }
+        const labels = new Map<number, string>();
+        const first = trace.lowerBound(tStart);
+        const end = trace.upperBound(tEnd);
+        for (let i = Math.max(0, first - 1); i < end; i++) {
+            const from = Math.max(trace.timeAt(i), tStart);
+            const to = i + 1 < end ? trace.timeAt(i + 1) : Math.min(tEnd, this.endTime);
+            // The value before the window is replaced right at tStart
+            if (i < first && to <= from) { continue; }
+            const code = trace.codeAt(i);
+            let label = labels.get(code);
+            if (label === undefined) {
+                label = trace.formatCode(code);
+                labels.set(code, label);
+            }
+            runs.add(label, to - from);
+        }
+        return runs;
+    }
+
+    /**
+     * Value histogram with time-weighted occupancy, min/max, high time,
+     * pulse widths, toggle rate and stuck values/bits of `signal` in
+     * [tStart, tEnd] (see stats.ts). Returns an error message for a window
+     * outside the dump.
+     */
+    signalStats(signal: string, tStart: number, tEnd: number): SignalStats | string {
+        return signalStats(this, signal, tStart, tEnd);
+    }
+
+    /** Value of `signal` at `time`, or x before its first change. An unknown path throws, as in queryTransitions(). */
     getValueAt(signal: string, time: number): string {
-        const ts = this.bySignal.get(signal) ?? [];
-        let lo = 0, hi = ts.length - 1, result = 'x';
-        while (lo <= hi) {
-            const mid = (lo + hi) >> 1;
-            if (ts[mid].time <= time) { result = ts[mid].value; lo = mid + 1; }
-            else { hi = mid - 1; }
+        const trace = this.getTrace(signal);
+        if (!trace) {
+            this.requireSignal(signal);
+            return 'x';
         }
-        return result;
+        const i = trace.upperBound(time) - 1;
+        return i >= 0 ? trace.valueAt(i) : 'x';
     }
 
     /** Return the first transition for `signal` strictly after `afterTime`, or null. */
     getNextTransition(signal: string, afterTime: number): SignalTransition | null {
-        const ts = this.bySignal.get(signal) ?? [];
-        let lo = 0, hi = ts.length;
-        while (lo < hi) {
-            const mid = (lo + hi) >> 1;
-            if (ts[mid].time <= afterTime) { lo = mid + 1; }
-            else { hi = mid; }
+        const trace = this.getTrace(signal);
+        if (!trace) {
+            this.requireSignal(signal);
+            return null;
         }
-        return lo < ts.length ? ts[lo] : null;
+        const i = trace.upperBound(afterTime);
+        return i < trace.length ? this.transitionAt(signal, trace, i) : null;
     }
 
     /** Return the last transition for `signal` strictly before `beforeTime`, or null. */
     getPrevTransition(signal: string, beforeTime: number): SignalTransition | null {
-        const ts = this.bySignal.get(signal) ?? [];
-        let lo = 0, hi = ts.length - 1, result: SignalTransition | null = null;
-        while (lo <= hi) {
-            const mid = (lo + hi) >> 1;
-            if (ts[mid].time < beforeTime) { result = ts[mid]; lo = mid + 1; }
-            else { hi = mid - 1; }
+        const trace = this.getTrace(signal);
+        if (!trace) {
+            this.requireSignal(signal);
+            return null;
         }
-        return result;
+        const i = trace.lowerBound(beforeTime) - 1;
+        return i >= 0 ? this.transitionAt(signal, trace, i) : null;
     }
 
     /** Snapshot all (or specified) signals at a single timestamp. */
@@ -304,56 +861,237 @@ export class WaveformIndex {
         return names.map(name => ({ signal: name, value: this.getValueAt(name, time) }));
     }
 
-    /** Find timestamps where `signal` equals `value` within [tStart, tEnd]. Returns up to `cap` results. */
-    findPattern(signal: string, value: string, tStart: number, tEnd: number, cap = 50): number[] {
-        const ts = this.bySignal.get(signal) ?? [];
+    /**
+     * Find timestamps where `signal` changes to a value matching `value`
+     * (see valueMatches) within [tStart, tEnd]. Returns one page of them.
+     */
+    findPattern(signal: string, value: string, tStart: number, tEnd: number, page: PageRequest = {}): Page<number> {
+        const trace = this.getTrace(signal);
+        if (!trace) {
+            this.requireSignal(signal);
+            return takePage([], page, PAGE_SIZE.matches);
+        }
         const results: number[] = [];
-        const valueLower = value.toLowerCase();
-        for (const t of ts) {
-            if (t.time < tStart) { continue; }
-            if (t.time > tEnd) { break; }
-            if (t.value.toLowerCase() === valueLower || t.value.toLowerCase().includes(valueLower)) {
-                results.push(t.time);
-                if (results.length >= cap) { break; }
+        // Each distinct value is formatted and compared once
+        const matches = new Map<number, boolean>();
+        const end = trace.upperBound(tEnd);
+        for (let i = trace.lowerBound(tStart); i < end; i++) {
+            const code = trace.codeAt(i);
+            let hit = matches.get(code);
+            if (hit === undefined) {
+                hit = valueMatches(trace.formatCode(code), value);
+                matches.set(code, hit);
             }
+            if (hit) { results.push(trace.timeAt(i)); }
         }
-        return results;
+        return takePage(results, page, PAGE_SIZE.matches);
     }
 
     /** Count transitions for `signal` in [tStart, tEnd] without returning data. */
     countTransitions(signal: string, tStart: number, tEnd: number): number {
-        const ts = this.bySignal.get(signal) ?? [];
-        let count = 0;
-        for (const t of ts) {
-            if (t.time < tStart) { continue; }
-            if (t.time > tEnd) { break; }
-            count++;
-        }
-        return count;
-    }
-
-    /** Return only rising or falling edges for a signal in [tStart, tEnd]. */
-    getEdges(signal: string, tStart: number, tEnd: number, edgeType: 'rising' | 'falling' | 'any', cap = 150): SignalTransition[] {
-        const ts = this.bySignal.get(signal) ?? [];
-        const results: SignalTransition[] = [];
-        for (let i = 0; i < ts.length && results.length < cap; i++) {
-            if (ts[i].time < tStart) { continue; }
-            if (ts[i].time > tEnd) { break; }
-            if (edgeType === 'any') {
-                results.push(ts[i]);
-            } else {
-                const prev = i > 0 ? ts[i - 1].value : 'x';
-                const curr = ts[i].value;
-                // For multi-bit: treat non-zero as "1", zero as "0"
-                const prevBit = prev === '0' || prev === 'x' || prev === 'z' || /^0+$/.test(prev) ? 0 : 1;
-                const currBit = curr === '0' || curr === 'x' || curr === 'z' || /^0+$/.test(curr) ? 0 : 1;
-                if (edgeType === 'rising' && prevBit === 0 && currBit === 1) {
-                    results.push(ts[i]);
-                } else if (edgeType === 'falling' && prevBit === 1 && currBit === 0) {
-                    results.push(ts[i]);
+        const trace = this.getTrace(signal);
+        if (!trace) {
+            this.requireSignal(signal);
+            return 0;
+        }
+        return Math.max(0, trace.upperBound(tEnd) - trace.lowerBound(tStart));
+    }
+
+    /** Return one page of the rising or falling edges of a signal in [tStart, tEnd]. */
+    getEdges(signal: string, tStart: number, tEnd: number, edgeType: 'rising' | 'falling' | 'any', page: PageRequest = {}): Page<SignalTransition> {
+        const trace = this.getTrace(signal);
+        const indices: number[] = [];
+        if (trace) {
+            this.scanEdges(trace, tStart, tEnd, edgeType, i => { indices.push(i); return true; });
+        } else {
+            this.requireSignal(signal);
+        }
+        const { items, offset, total } = takePage(indices, page, PAGE_SIZE.edges);
+        return { items: items.map(i => this.transitionAt(signal, trace!, i)), offset, total };
+    }
+
+    /** Times of every `edgeType` edge of `signal` in [tStart, tEnd] (uncapped). */
+    getEdgeTimes(signal: string, edgeType: 'rising' | 'falling' | 'any', tStart = -Infinity, tEnd = Infinity): number[] {
+        const trace = this.getTrace(signal);
+        if (!trace) { return []; }
+        const times: number[] = [];
+        this.scanEdges(trace, tStart, tEnd, edgeType, i => {
+            times.push(trace.timeAt(i));
+            return true;
+        });
+        return times;
+    }
+
+    /**
+     * Cycle numbering for cycle-based tools. Uses the clock set with
+     * setClock(), else one detected on first use (null when none is found).
+     */
+    getCycleTable(): CycleTable | null {
+        if (this.cycleTable === undefined) {
+            const spec = this.clockSpec ?? detectClock(this);
+            const table = spec ? buildCycleTable(this, spec) : null;
+            this.cycleTable = typeof table === 'string' ? null : table;
+        }
+        return this.cycleTable;
+    }
+
+    /**
+     * Every periodic clock with its frequency, duty cycle and gaps, the
+     * resets with their assertion windows, and the clock domain of each
+     * recorded signal (see clocks.ts).
+     */
+    getClocking(): ClockReport {
+        this.clocking ??= analyzeClocks(this);
+        return this.clocking;
+    }
+
+    /** Number cycles by `spec` from now on. Returns an error message for unknown signals. */
+    setClock(spec: ClockSpec): CycleTable | string {
+        const table = buildCycleTable(this, spec);
+        if (typeof table !== 'string') {
+            this.cycleTable = table;
+            this.clockSpec = spec;
+        }
+        return table;
+    }
+
+    /**
+     * Check an assertion (SVA subset, see sva.ts) at every tick of its clock.
+     * Returns an error message for syntax errors, unknown signals or no clock.
+     */
+    checkProperty(property: string, options?: PropertyCheckOptions): PropertyCheckResult | string {
+        return checkProperty(this, property, options);
+    }
+
+    /**
+     * Latency between paired start and end events, with percentiles, a
+     * histogram, outliers and unfinished starts (see latency.ts). Returns an
+     * error message for bad event expressions or a missing clock.
+     */
+    measureLatency(options: LatencyOptions): LatencyResult | string {
+        return measureLatency(this, options);
+    }
+
+    /** Event rate overall, sustained and per window (see latency.ts). */
+    measureThroughput(options: ThroughputOptions): ThroughputResult | string {
+        return measureThroughput(this, options);
+    }
+
+    /**
+     * Define (or redefine) a derived signal: an expression over recorded
+     * signals (see expr.ts) that every query then accepts by name. Returns
+     * its descriptor, or an error message for bad names or expressions.
+     */
+    defineSignal(name: string, expression: string): SignalDescriptor | string {
+        if (this.bySignal.has(name)) { return `"${name}" is a recorded signal; choose another name.`; }
+        const shadowed = this.derived.has(name) ? undefined : this.signals.find(s => s.endsWith('.' + name));
+        if (shadowed) { return `"${name}" would shadow ${shadowed}; choose another name.`; }
+        const def = parseDerivedSignal(this, name, expression);
+        if (typeof def === 'string') { return def; }
+        // Redefining must not make a signal depend on itself
+        const reaches = (from: string, seen = new Set<string>()): boolean => {
+            if (from === name) { return true; }
+            if (seen.has(from)) { return false; }
+            seen.add(from);
+            return (this.derived.get(from)?.sources ?? []).some(s => reaches(s, seen));
+        };
+        if (def.sources.some(s => reaches(s))) { return `"${name}" cannot depend on itself.`; }
+
+        const dot = name.lastIndexOf('.');
+        const desc: SignalDescriptor = {
+            path: name,
+            name: name.slice(dot + 1),
+            scope: dot >= 0 ? name.slice(0, dot) : '',
+            varType: 'derived',
+            width: def.width,
+            kind: def.isString ? 'string' : 'logic',
+            idCode: '',
+            aliases: [],
+            expression: def.expression,
+        };
+        if (!this.derived.has(name)) {
+            this.signals.push(name);
+            this.scopeTree = undefined;
+        }
+        this.derived.set(name, def);
+        this.descriptors.set(name, desc);
+        // Signals defined in terms of this one are rebuilt too, and so is
+        // anything computed from them: the cycle table and the clock report
+        this.derivedTraces.clear();
+        this.cycleTable = undefined;
+        this.clocking = undefined;
+        return desc;
+    }
+
+    /** Whether `signal` is a derived signal (see defineSignal). */
+    isDerived(signal: string): boolean {
+        return this.derived.has(signal);
+    }
+
+    /** list_signals entry for one signal. */
+    private listing(name: string): SignalListing {
+        const d = this.descriptors.get(name);
+        return {
+            name,
+            transitionCount: this.getTrace(name)?.length ?? 0,
+            ...(d && {
+                varType: d.varType,
+                width: d.width,
+                range: d.range,
+                kind: d.kind,
+                aliases: d.aliases.length > 0 ? d.aliases : undefined,
+            }),
+        };
+    }
+
+    /** Throw the signalNotFound() message unless `signal` is a path of this waveform. */
+    private requireSignal(signal: string): void {
+        if (!this.hasSignal(signal)) { throw new Error(this.signalNotFound(signal)); }
+    }
+
+    /** Signals `name` may refer to: the exact path, else loose path matches, else loose leaf matches. */
+    private signalMatches(name: string): string[] {
+        if (this.getTrace(name) || this.descriptors.has(name)) { return [name]; }
+        const key = looseName(name);
+        if (!key) { return []; }
+        const byPath = this.signals.filter(s => looseName(s) === key);
+        if (byPath.length > 0) { return byPath; }
+        return this.signals.filter(s => looseName(s).endsWith('.' + key));
+    }
+
+    /** Visit the indices of edges of `edgeType` until `visit` returns false. */
+    private scanEdges(
+        trace: SignalTrace,
+        tStart: number,
+        tEnd: number,
+        edgeType: 'rising' | 'falling' | 'any',
+        visit: (i: number) => boolean,
+    ): void {
+        // For multi-bit: treat non-zero as "1", zero as "0"
+        const bits = new Map<number, number>();
+        const bitOf = (code: number): number => {
+            let bit = bits.get(code);
+            if (bit === undefined) {
+                const v = trace.formatCode(code);
+                bit = v === '0' || v === 'x' || v === 'z' || /^0+$/.test(v) ? 0 : 1;
+                bits.set(code, bit);
+            }
+            return bit;
+        };
+        const end = trace.upperBound(tEnd);
+        for (let i = trace.lowerBound(tStart); i < end; i++) {
+            if (edgeType !== 'any') {
+                const prevBit = i > 0 ? bitOf(trace.codeAt(i - 1)) : 0;
+                const currBit = bitOf(trace.codeAt(i));
+                if (edgeType === 'rising' ? !(prevBit === 0 && currBit === 1) : !(prevBit === 1 && currBit === 0)) {
+                    continue;
                 }
             }
+            if (!visit(i)) { return; }
         }
-        return results;
     }
-}
\ No newline at end of file
+
+    private transitionAt(signal: string, trace: SignalTrace, i: number): SignalTransition {
+        return { time: trace.timeAt(i), signal, value: trace.valueAt(i) };
+    }
+}